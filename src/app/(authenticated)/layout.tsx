@@ -30,7 +30,7 @@ export default async function AuthenticatedLayout({ children }: { children: Reac
     });
 
   return (
-    <TeamProvider initialTeams={teams}>
+    <TeamProvider userId={user.id} initialTeams={teams}>
       <AppShell userEmail={user.email ?? null}>{children}</AppShell>
     </TeamProvider>
   );
@@ -0,0 +1,124 @@
+'use client';
+
+import { UserRound } from 'lucide-react';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { STATUS_LABELS, STATUS_VARIANTS } from '@/lib/constants';
+import { useTeam } from '@/lib/contexts/team-context';
+import type { AssignedStory } from '@/types';
+
+/** Assigned stories grouped by story map, in the order the maps first appear */
+function groupByStoryMap(stories: AssignedStory[]): { id: string; name: string; stories: AssignedStory[] }[] {
+  const groups = new Map<string, { id: string; name: string; stories: AssignedStory[] }>();
+  for (const story of stories) {
+    const group = groups.get(story.story_map_id) ?? { id: story.story_map_id, name: story.story_map_name, stories: [] };
+    group.stories.push(story);
+    groups.set(story.story_map_id, group);
+  }
+  return [...groups.values()];
+}
+
+function AssignedStoryRow({ story }: { story: AssignedStory }) {
+  return (
+    <Link
+      href={`/story-map/${story.story_map_id}?story=${story.id}`}
+      className="flex items-center justify-between gap-4 rounded-md px-3 py-2 hover:bg-muted/50"
+    >
+      <div className="min-w-0">
+        <div className="truncate text-sm font-medium">{story.title}</div>
+        <div className="truncate text-xs text-muted-foreground">
+          {story.activity_name} › {story.task_name}
+        </div>
+      </div>
+      <Badge variant={STATUS_VARIANTS[story.status]} className="shrink-0 text-[10px]">
+        {STATUS_LABELS[story.status]}
+      </Badge>
+    </Link>
+  );
+}
+
+/** Stories assigned to the current user across every story map of the current team */
+export default function MyStories() {
+  const { currentTeam } = useTeam();
+  const [stories, setStories] = useState<AssignedStory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showDone, setShowDone] = useState(false);
+
+  useEffect(() => {
+    if (!currentTeam) return;
+
+    setLoading(true);
+    setError(null);
+    fetch(`/api/teams/${currentTeam.id}/my-stories`)
+      .then((r) => r.json())
+      .then((data) => {
+        if (data.error) {
+          setError(data.error);
+        } else {
+          setStories(data);
+        }
+        setLoading(false);
+      })
+      .catch((err) => {
+        setError(err.message);
+        setLoading(false);
+      });
+  }, [currentTeam]);
+
+  const doneCount = stories.filter((s) => s.status === 'done').length;
+  const visible = showDone ? stories : stories.filter((s) => s.status !== 'done');
+
+  return (
+    <div className="p-8">
+      <div className="mx-auto max-w-5xl">
+        <div className="mb-8 flex items-center justify-between">
+          <h1 className="text-3xl font-bold">My Stories</h1>
+          {doneCount > 0 && (
+            <Button variant="outline" size="sm" onClick={() => setShowDone(!showDone)}>
+              {showDone ? 'Hide done' : `Show done (${doneCount})`}
+            </Button>
+          )}
+        </div>
+
+        {error ? (
+          <Card className="border-destructive bg-destructive/5 p-6">
+            <p className="text-destructive">{error}</p>
+          </Card>
+        ) : loading ? (
+          <p className="text-muted-foreground">Loading...</p>
+        ) : visible.length === 0 ? (
+          <Card className="border-dashed p-8 text-center">
+            <UserRound className="mx-auto h-12 w-12 text-muted-foreground/50" />
+            <h3 className="mt-4 font-medium">Nothing assigned to you</h3>
+            <p className="mx-auto mt-2 max-w-sm text-sm text-muted-foreground">
+              Stories assigned to you in {currentTeam?.name ?? 'this team'}&apos;s story maps show up here.
+            </p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {groupByStoryMap(visible).map((group) => (
+              <Card key={group.id}>
+                <CardHeader>
+                  <CardTitle>
+                    <Link href={`/story-map/${group.id}`} className="hover:underline">
+                      {group.name}
+                    </Link>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-1">
+                  {group.stories.map((story) => (
+                    <AssignedStoryRow key={story.id} story={story} />
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
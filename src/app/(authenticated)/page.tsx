@@ -3,12 +3,10 @@
 import { Map as MapIcon, Plus } from 'lucide-react';
 import Link from 'next/link';
 import { useEffect, useState } from 'react';
+import { CreateStoryMapDialog } from '@/components/story-map/CreateStoryMapDialog';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { useTeam } from '@/lib/contexts/team-context';
 import type { StoryMap } from '@/types';
 
@@ -18,8 +16,6 @@ export default function Dashboard() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [open, setOpen] = useState(false);
-  const [name, setName] = useState('');
-  const [description, setDescription] = useState('');
 
   useEffect(() => {
     if (!currentTeam) return;
@@ -41,26 +37,6 @@ export default function Dashboard() {
       });
   }, [currentTeam]);
 
-  async function createStoryMap(e: React.FormEvent) {
-    e.preventDefault();
-    if (!currentTeam) return;
-
-    const res = await fetch('/api/story-maps', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ team_id: currentTeam.id, name, description }),
-    });
-    const data = await res.json();
-    if (data.error) {
-      setError(data.error);
-      return;
-    }
-    setStoryMaps([data, ...storyMaps]);
-    setName('');
-    setDescription('');
-    setOpen(false);
-  }
-
   const showEmpty = !loading && currentTeam && storyMaps.length === 0;
   const showGrid = !loading && currentTeam && storyMaps.length > 0;
 
@@ -69,43 +45,10 @@ export default function Dashboard() {
       <div className="mx-auto max-w-5xl">
         <div className="mb-8 flex items-center justify-between">
           <h1 className="text-3xl font-bold">Story Maps</h1>
-          <Dialog open={open} onOpenChange={setOpen}>
-            <DialogTrigger asChild>
-              <Button disabled={!currentTeam}>
-                <Plus className="mr-2 h-4 w-4" />
-                New Story Map
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Create Story Map</DialogTitle>
-              </DialogHeader>
-              <form onSubmit={createStoryMap} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="name">Name</Label>
-                  <Input
-                    id="name"
-                    value={name}
-                    onChange={(e) => setName(e.target.value)}
-                    placeholder="My Product"
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="description">Description</Label>
-                  <Textarea
-                    id="description"
-                    value={description}
-                    onChange={(e) => setDescription(e.target.value)}
-                    placeholder="A brief description..."
-                  />
-                </div>
-                <Button type="submit" className="w-full">
-                  Create
-                </Button>
-              </form>
-            </DialogContent>
-          </Dialog>
+          <Button disabled={!currentTeam} onClick={() => setOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Story Map
+          </Button>
         </div>
 
         {error ? (
@@ -155,7 +98,10 @@ export default function Dashboard() {
               <Link key={map.id} href={`/story-map/${map.id}`}>
                 <Card className="transition-colors hover:bg-muted/50">
                   <CardHeader>
-                    <CardTitle>{map.name}</CardTitle>
+                    <CardTitle className="flex items-center gap-2">
+                      {map.name}
+                      {map.is_template && <Badge variant="secondary">Template</Badge>}
+                    </CardTitle>
                     {map.description && <CardDescription>{map.description}</CardDescription>}
                   </CardHeader>
                 </Card>
@@ -164,6 +110,16 @@ export default function Dashboard() {
           </div>
         ) : null}
       </div>
+
+      {currentTeam && (
+        <CreateStoryMapDialog
+          open={open}
+          onOpenChange={setOpen}
+          teamId={currentTeam.id}
+          templates={storyMaps.filter((m) => m.is_template)}
+          onCreated={(storyMap) => setStoryMaps((prev) => [storyMap, ...prev])}
+        />
+      )}
     </div>
   );
 }
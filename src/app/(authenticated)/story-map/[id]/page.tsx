@@ -1,28 +1,74 @@
 'use client';
 
-import { ArrowLeft } from 'lucide-react';
+import { ArrowLeft, Copy, RefreshCw, Trash2 } from 'lucide-react';
 import Link from 'next/link';
-import { use, useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { use, useEffect, useState } from 'react';
+import { toast } from 'sonner';
 import { ActivityDialog } from '@/components/story-map/ActivityDialog';
+import { DeleteReleaseDialog } from '@/components/story-map/DeleteReleaseDialog';
+import { DuplicateDialog } from '@/components/story-map/DuplicateDialog';
+import { ExportMenu } from '@/components/story-map/ExportMenu';
+import { FilterBar } from '@/components/story-map/FilterBar';
+import { PersonaDialog, type PersonaFormData } from '@/components/story-map/PersonaDialog';
+import { PresenceAvatars } from '@/components/story-map/PresenceAvatars';
 import { StoryDialog } from '@/components/story-map/StoryDialog';
 import { StoryMapCanvas } from '@/components/story-map/StoryMapCanvas';
+import { SyncDialog } from '@/components/story-map/SyncDialog';
 import { TaskDialog } from '@/components/story-map/TaskDialog';
+import { TrashDialog } from '@/components/story-map/TrashDialog';
+import { useStoryMapRealtime } from '@/components/story-map/useStoryMapRealtime';
+import { sendJson, useStoryMapStore } from '@/components/story-map/useStoryMapStore';
+import { useTeamMembers } from '@/components/story-map/useTeamMembers';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import { PromptDialog } from '@/components/ui/prompt-dialog';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
-import { errorMessage } from '@/lib/errors';
-import type { Activity, Story, StoryMapFull, Task } from '@/types';
-
-/** Extract error message from failed fetch response */
-async function extractError(res: Response, fallback: string): Promise<string> {
-  try {
-    const body = await res.json();
-    return body.error || fallback;
-  } catch {
-    return fallback;
-  }
-}
+import { ifMatchHeader } from '@/lib/concurrency';
+import { createSupabaseTransport } from '@/lib/realtime/supabase';
+import type { PresenceState } from '@/lib/realtime/types';
+import { parseStoryFilter, type StoryFilter, withStoryFilter } from '@/lib/story-filter';
+import {
+  applyRowChange,
+  draftActivity,
+  draftPersona,
+  draftRelease,
+  draftStory,
+  draftTask,
+  insertActivity,
+  insertPersona,
+  insertRelease,
+  insertStory,
+  insertTask,
+  isTempId,
+  moveStory,
+  moveTask,
+  patchActivity,
+  patchPersona,
+  patchRelease,
+  patchStory,
+  patchTask,
+  removeActivity,
+  removePersona,
+  removeRelease,
+  removeStory,
+  removeTask,
+  reorderActivities,
+  reorderReleases,
+} from '@/lib/story-map-updates';
+import { mergeStoryEdit, type StoryConflict, type StoryEdit } from '@/lib/story-merge';
+import type { DeleteRelease } from '@/lib/validations';
+import type {
+  Activity,
+  Persona,
+  Release,
+  ScoredStory,
+  Story,
+  StoryMap,
+  StoryMapFull,
+  Task,
+  WithPersonas,
+} from '@/types';
 
 /**
  * Dialog state machine - discriminated union ensuring only one dialog can be open
@@ -33,91 +79,253 @@ async function extractError(res: Response, fallback: string): Promise<string> {
 type DialogState =
   | { type: 'closed' }
   // Story dialogs
-  | { type: 'story:edit'; story: Story }
+  | { type: 'story:edit'; story: WithPersonas<Story>; conflict?: StoryConflict }
   | { type: 'story:create'; taskId: string; releaseId: string | null }
+  // Persona dialogs
+  | { type: 'persona:edit'; persona: Persona }
+  | { type: 'persona:create' }
   // Activity dialogs
-  | { type: 'activity:edit'; activity: Activity }
+  | { type: 'activity:edit'; activity: WithPersonas<Activity> }
   | { type: 'activity:create' }
   // Task dialogs
-  | { type: 'task:edit'; task: Task }
+  | { type: 'task:edit'; task: WithPersonas<Task> }
   | { type: 'task:create'; activityId: string }
   // Release dialogs
   | { type: 'release:create' }
   | { type: 'release:rename'; releaseId: string; currentName: string }
-  | { type: 'release:delete'; releaseId: string };
+  | { type: 'release:delete'; releaseId: string }
+  // Integrations
+  | { type: 'sync' }
+  | { type: 'trash' }
+  | { type: 'duplicate' };
 
 const CLOSED: DialogState = { type: 'closed' };
 
+/** True when the create or edit dialog for an entity is open */
+function isEntityDialogOpen(dialog: DialogState, entity: 'story' | 'persona' | 'activity' | 'task'): boolean {
+  return dialog.type === `${entity}:edit` || dialog.type === `${entity}:create`;
+}
+
+/** Where a deleted release's stories go: another release, unassigned (null), or the trash with it (undefined) */
+function storiesDestination(choice: DeleteRelease): string | null | undefined {
+  switch (choice.stories) {
+    case 'move':
+      return choice.target_release_id;
+    case 'unassign':
+      return null;
+    default:
+      return undefined;
+  }
+}
+
+/** Update the query string in place - no navigation, useSearchParams follows */
+function replaceQuery(params: URLSearchParams) {
+  const query = params.toString();
+  window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+}
+
+/** Open the story linked as ?story=<id> (e.g. from search) once the map has loaded, then drop the parameter */
+function useStoryParam(storyMap: StoryMapFull | null, storyId: string | null, setDialog: (d: DialogState) => void) {
+  useEffect(() => {
+    if (!storyMap || !storyId) return;
+    const story = storyMap.activities
+      .flatMap((a) => a.tasks)
+      .flatMap((t) => t.stories)
+      .find((s) => s.id === storyId);
+    if (story) {
+      setDialog({ type: 'story:edit', story });
+    } else {
+      toast.error('Story not found');
+    }
+    const params = new URLSearchParams(window.location.search);
+    params.delete('story');
+    replaceQuery(params);
+  }, [storyMap, storyId, setDialog]);
+}
+
+/** Title bar: map name, who else is here, and the map-level dialogs */
+function StoryMapHeader({
+  storyMap,
+  peers,
+  onOpen,
+}: {
+  storyMap: StoryMap;
+  peers: PresenceState[];
+  onOpen: (type: 'sync' | 'duplicate' | 'trash') => void;
+}) {
+  return (
+    <header className="flex items-center gap-4 border-b px-4 py-3">
+      <Link href="/">
+        <Button variant="ghost" size="icon">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+      </Link>
+      <h1 className="text-xl font-semibold">{storyMap.name}</h1>
+      {storyMap.is_template && <Badge variant="secondary">Template</Badge>}
+      <div className="ml-auto flex items-center gap-2">
+        <PresenceAvatars peers={peers} />
+        <ExportMenu storyMapId={storyMap.id} />
+        <Button variant="outline" size="sm" onClick={() => onOpen('sync')}>
+          <RefreshCw className="h-4 w-4" />
+          Sync
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onOpen('duplicate')}>
+          <Copy className="h-4 w-4" />
+          Duplicate
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onOpen('trash')}>
+          <Trash2 className="h-4 w-4" />
+          Trash
+        </Button>
+      </div>
+    </header>
+  );
+}
+
+/**
+ * Every change below is applied optimistically through the story map store: dialogs close
+ * at once, the canvas updates before the request returns, and a failed request rolls its
+ * change back with an error toast. Rows still being created (temp ids) can't be edited,
+ * moved or given children until the server has returned them.
+ */
 export default function StoryMapPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = use(params);
-  const [storyMap, setStoryMap] = useState<StoryMapFull | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const searchParams = useSearchParams();
+  const { storyMap, loadError, reload, mutate, receive } = useStoryMapStore(id);
   const [dialog, setDialog] = useState<DialogState>(CLOSED);
+  useStoryParam(storyMap, searchParams.get('story'), setDialog);
+  const members = useTeamMembers(storyMap?.team_id);
 
-  const loadStoryMap = useCallback(async () => {
-    try {
-      const res = await fetch(`/api/story-maps/${id}`);
-      if (!res.ok) throw new Error(await extractError(res, 'Failed to load story map'));
-      setStoryMap(await res.json());
-      setError(null);
-    } catch (err) {
-      setError(errorMessage(err));
-    }
-  }, [id]);
+  // The canvas filter lives in the URL so filtered views can be shared
+  const filter = parseStoryFilter(searchParams);
+  const handleFilterChange = (next: StoryFilter) => replaceQuery(withStoryFilter(searchParams, next));
+  const [transport] = useState(() => createSupabaseTransport());
 
-  useEffect(() => {
-    loadStoryMap();
-  }, [loadStoryMap]);
+  // Live updates from other users, and which story this user is editing for theirs
+  const editingStoryId = dialog.type === 'story:edit' ? dialog.story.id : null;
+  const peers = useStoryMapRealtime(id, transport, {
+    onChange: (change) => receive(applyRowChange(change)),
+    editingStoryId,
+  });
 
   const closeDialog = () => setDialog(CLOSED);
 
   // Story handlers
   const handleAddStory = (taskId: string, releaseId: string | null) => {
+    if ([taskId, releaseId ?? ''].some(isTempId)) return;
     setDialog({ type: 'story:create', taskId, releaseId });
   };
 
-  const handleEditStory = (story: Story) => {
+  const handleEditStory = (story: ScoredStory) => {
+    if (isTempId(story.id)) return;
     setDialog({ type: 'story:edit', story });
   };
 
-  async function handleSaveStory(storyData: Partial<Story>) {
-    try {
-      if (dialog.type === 'story:edit') {
-        const res = await fetch(`/api/stories/${dialog.story.id}`, {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(storyData),
-        });
-        if (!res.ok) throw new Error(await extractError(res, 'Failed to save story'));
-      } else if (dialog.type === 'story:create') {
-        const res = await fetch('/api/stories', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            ...storyData,
-            task_id: dialog.taskId,
-            release_id: dialog.releaseId,
-          }),
-        });
-        if (!res.ok) throw new Error(await extractError(res, 'Failed to create story'));
-      }
-      closeDialog();
-      loadStoryMap();
-    } catch (err) {
-      setError(errorMessage(err));
+  /**
+   * Save an edit of the version `story` the user started from. When someone else saved
+   * the story in the meantime, edits that don't clash are merged and saved again; clashing
+   * ones reopen the dialog with the merge view.
+   */
+  function saveStoryEdit(story: WithPersonas<Story>, edit: StoryEdit) {
+    if (Object.keys(edit).length === 0) return;
+    mutate<WithPersonas<Story>>({
+      optimistic: patchStory(story.id, edit),
+      request: () => sendJson(`/api/stories/${story.id}`, 'PUT', edit, ifMatchHeader(story.updated_at)),
+      commit: (saved) => patchStory(story.id, saved),
+      errorMessage: 'Failed to save story',
+      onConflict: (current) => {
+        receive(patchStory(story.id, current));
+        const conflict = mergeStoryEdit(story, edit, current);
+        if (conflict.fields.length > 0) {
+          setDialog({ type: 'story:edit', story: current, conflict });
+        } else {
+          saveStoryEdit(current, conflict.merged);
+        }
+      },
+    });
+  }
+
+  function handleSaveStory(storyData: StoryEdit) {
+    if (dialog.type === 'story:edit') {
+      saveStoryEdit(dialog.story, storyData);
+    } else if (dialog.type === 'story:create') {
+      const fields = { ...storyData, task_id: dialog.taskId, release_id: dialog.releaseId };
+      mutate<WithPersonas<Story>>({
+        optimistic: insertStory(draftStory(fields)),
+        request: () => sendJson('/api/stories', 'POST', fields),
+        commit: insertStory,
+        errorMessage: 'Failed to create story',
+      });
     }
+    closeDialog();
   }
 
-  async function handleDeleteStory() {
+  function handleDeleteStory() {
     if (dialog.type !== 'story:edit') return;
-    try {
-      const res = await fetch(`/api/stories/${dialog.story.id}`, { method: 'DELETE' });
-      if (!res.ok) throw new Error(await extractError(res, 'Failed to delete story'));
-      closeDialog();
-      loadStoryMap();
-    } catch (err) {
-      setError(errorMessage(err));
+    const storyId = dialog.story.id;
+    mutate({
+      optimistic: removeStory(storyId),
+      request: () => fetch(`/api/stories/${storyId}`, { method: 'DELETE' }),
+      errorMessage: 'Failed to delete story',
+    });
+    closeDialog();
+  }
+
+  function handleMoveStory(storyId: string, taskId: string, releaseId: string | null, index: number) {
+    if ([storyId, taskId, releaseId ?? ''].some(isTempId)) return;
+    const move = moveStory(storyId, taskId, releaseId, index);
+    mutate<Pick<Story, 'updated_at'>>({
+      optimistic: move,
+      request: () =>
+        sendJson(`/api/stories/${storyId}/move`, 'POST', { task_id: taskId, release_id: releaseId, index }),
+      // The move bumps the story's version; keep it so the next edit isn't a conflict
+      commit: ({ updated_at }) => {
+        const stamp = patchStory(storyId, { updated_at });
+        return (map) => stamp(move(map));
+      },
+      errorMessage: 'Failed to move story',
+    });
+  }
+
+  // Persona handlers
+  const handleAddPersona = () => {
+    setDialog({ type: 'persona:create' });
+  };
+
+  const handleEditPersona = (persona: Persona) => {
+    if (isTempId(persona.id)) return;
+    setDialog({ type: 'persona:edit', persona });
+  };
+
+  function handleSavePersona(data: PersonaFormData) {
+    if (dialog.type === 'persona:edit') {
+      const personaId = dialog.persona.id;
+      mutate<Persona>({
+        optimistic: patchPersona(personaId, data),
+        request: () => sendJson(`/api/personas/${personaId}`, 'PUT', data),
+        commit: (persona) => patchPersona(personaId, persona),
+        errorMessage: 'Failed to update persona',
+      });
+    } else if (dialog.type === 'persona:create') {
+      mutate<Persona>({
+        optimistic: insertPersona(draftPersona({ story_map_id: id, ...data })),
+        request: () => sendJson('/api/personas', 'POST', { story_map_id: id, ...data }),
+        commit: insertPersona,
+        errorMessage: 'Failed to create persona',
+      });
     }
+    closeDialog();
+  }
+
+  function handleDeletePersona() {
+    if (dialog.type !== 'persona:edit') return;
+    const personaId = dialog.persona.id;
+    mutate({
+      optimistic: removePersona(personaId),
+      request: () => fetch(`/api/personas/${personaId}`, { method: 'DELETE' }),
+      errorMessage: 'Failed to delete persona',
+    });
+    closeDialog();
   }
 
   // Activity handlers
@@ -125,89 +333,101 @@ export default function StoryMapPage({ params }: { params: Promise<{ id: string
     setDialog({ type: 'activity:create' });
   };
 
-  const handleEditActivity = (activity: Activity) => {
+  const handleEditActivity = (activity: WithPersonas<Activity>) => {
+    if (isTempId(activity.id)) return;
     setDialog({ type: 'activity:edit', activity });
   };
 
-  async function handleSaveActivity(data: { name: string }) {
-    try {
-      if (dialog.type === 'activity:edit') {
-        const res = await fetch(`/api/activities/${dialog.activity.id}`, {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(data),
-        });
-        if (!res.ok) throw new Error(await extractError(res, 'Failed to update activity'));
-      } else if (dialog.type === 'activity:create') {
-        const res = await fetch('/api/activities', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ story_map_id: id, name: data.name }),
-        });
-        if (!res.ok) throw new Error(await extractError(res, 'Failed to create activity'));
-      }
-      closeDialog();
-      loadStoryMap();
-    } catch (err) {
-      setError(errorMessage(err));
+  function handleSaveActivity(data: { name: string; persona_ids: string[] }) {
+    if (dialog.type === 'activity:edit') {
+      const activityId = dialog.activity.id;
+      mutate<Partial<WithPersonas<Activity>>>({
+        optimistic: patchActivity(activityId, data),
+        request: () => sendJson(`/api/activities/${activityId}`, 'PUT', data),
+        commit: (activity) => patchActivity(activityId, activity),
+        errorMessage: 'Failed to update activity',
+      });
+    } else if (dialog.type === 'activity:create') {
+      mutate<WithPersonas<Activity>>({
+        optimistic: insertActivity(draftActivity({ story_map_id: id, ...data })),
+        request: () => sendJson('/api/activities', 'POST', { story_map_id: id, ...data }),
+        commit: insertActivity,
+        errorMessage: 'Failed to create activity',
+      });
     }
+    closeDialog();
   }
 
-  async function handleDeleteActivity() {
+  function handleDeleteActivity() {
     if (dialog.type !== 'activity:edit') return;
-    try {
-      const res = await fetch(`/api/activities/${dialog.activity.id}`, { method: 'DELETE' });
-      if (!res.ok) throw new Error(await extractError(res, 'Failed to delete activity'));
-      closeDialog();
-      loadStoryMap();
-    } catch (err) {
-      setError(errorMessage(err));
-    }
+    const activityId = dialog.activity.id;
+    mutate({
+      optimistic: removeActivity(activityId),
+      request: () => fetch(`/api/activities/${activityId}`, { method: 'DELETE' }),
+      errorMessage: 'Failed to delete activity',
+    });
+    closeDialog();
+  }
+
+  function handleReorderActivities(order: string[]) {
+    if (order.some(isTempId)) return;
+    mutate({
+      optimistic: reorderActivities(order),
+      request: () => sendJson('/api/activities', 'PUT', { story_map_id: id, order }),
+      errorMessage: 'Failed to reorder activities',
+    });
   }
 
   // Task handlers
   const handleAddTask = (activityId: string) => {
+    if (isTempId(activityId)) return;
     setDialog({ type: 'task:create', activityId });
   };
 
-  const handleEditTask = (task: Task) => {
+  const handleEditTask = (task: WithPersonas<Task>) => {
+    if (isTempId(task.id)) return;
     setDialog({ type: 'task:edit', task });
   };
 
-  async function handleSaveTask(data: { name: string }) {
-    try {
-      if (dialog.type === 'task:edit') {
-        const res = await fetch(`/api/tasks/${dialog.task.id}`, {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(data),
-        });
-        if (!res.ok) throw new Error(await extractError(res, 'Failed to update task'));
-      } else if (dialog.type === 'task:create') {
-        const res = await fetch('/api/tasks', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ activity_id: dialog.activityId, name: data.name }),
-        });
-        if (!res.ok) throw new Error(await extractError(res, 'Failed to create task'));
-      }
-      closeDialog();
-      loadStoryMap();
-    } catch (err) {
-      setError(errorMessage(err));
+  function handleSaveTask(data: { name: string; persona_ids: string[] }) {
+    if (dialog.type === 'task:edit') {
+      const taskId = dialog.task.id;
+      mutate<Partial<WithPersonas<Task>>>({
+        optimistic: patchTask(taskId, data),
+        request: () => sendJson(`/api/tasks/${taskId}`, 'PUT', data),
+        commit: (task) => patchTask(taskId, task),
+        errorMessage: 'Failed to update task',
+      });
+    } else if (dialog.type === 'task:create') {
+      const fields = { activity_id: dialog.activityId, ...data };
+      mutate<WithPersonas<Task>>({
+        optimistic: insertTask(draftTask(fields)),
+        request: () => sendJson('/api/tasks', 'POST', fields),
+        commit: insertTask,
+        errorMessage: 'Failed to create task',
+      });
     }
+    closeDialog();
   }
 
-  async function handleDeleteTask() {
+  function handleDeleteTask() {
     if (dialog.type !== 'task:edit') return;
-    try {
-      const res = await fetch(`/api/tasks/${dialog.task.id}`, { method: 'DELETE' });
-      if (!res.ok) throw new Error(await extractError(res, 'Failed to delete task'));
-      closeDialog();
-      loadStoryMap();
-    } catch (err) {
-      setError(errorMessage(err));
-    }
+    const taskId = dialog.task.id;
+    mutate({
+      optimistic: removeTask(taskId),
+      request: () => fetch(`/api/tasks/${taskId}`, { method: 'DELETE' }),
+      errorMessage: 'Failed to delete task',
+    });
+    closeDialog();
+  }
+
+  function handleMoveTask(taskId: string, activityId: string, index: number) {
+    if ([taskId, activityId].some(isTempId)) return;
+    mutate({
+      optimistic: moveTask(taskId, activityId, index),
+      request: () => sendJson(`/api/tasks/${taskId}/move`, 'POST', { activity_id: activityId, index }),
+      errorMessage: 'Failed to move task',
+    });
   }
 
   // Release handlers
@@ -216,51 +436,44 @@ export default function StoryMapPage({ params }: { params: Promise<{ id: string
   };
 
   const handleRenameRelease = (releaseId: string, currentName: string) => {
+    if (isTempId(releaseId)) return;
     setDialog({ type: 'release:rename', releaseId, currentName });
   };
 
   const handleDeleteRelease = (releaseId: string) => {
+    if (isTempId(releaseId)) return;
     setDialog({ type: 'release:delete', releaseId });
   };
 
-  async function handlePromptSubmit(value: string) {
-    try {
-      switch (dialog.type) {
-        case 'release:create': {
-          const res = await fetch('/api/releases', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ story_map_id: id, name: value }),
-          });
-          if (!res.ok) throw new Error(await extractError(res, 'Failed to create release'));
-          break;
-        }
-        case 'release:rename': {
-          if (value === dialog.currentName) {
-            closeDialog();
-            return;
-          }
-          const res = await fetch(`/api/releases/${dialog.releaseId}`, {
-            method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ name: value }),
-          });
-          if (!res.ok) throw new Error(await extractError(res, 'Failed to rename release'));
-          break;
-        }
-        default:
-          return;
+  function handlePromptSubmit(value: string) {
+    switch (dialog.type) {
+      case 'release:create':
+        mutate<Release>({
+          optimistic: insertRelease(draftRelease({ story_map_id: id, name: value })),
+          request: () => sendJson('/api/releases', 'POST', { story_map_id: id, name: value }),
+          commit: insertRelease,
+          errorMessage: 'Failed to create release',
+        });
+        break;
+      case 'release:rename': {
+        if (value === dialog.currentName) break;
+        const releaseId = dialog.releaseId;
+        mutate<Release>({
+          optimistic: patchRelease(releaseId, { name: value }),
+          request: () => sendJson(`/api/releases/${releaseId}`, 'PUT', { name: value }),
+          commit: (release) => patchRelease(releaseId, release),
+          errorMessage: 'Failed to rename release',
+        });
+        break;
       }
-      closeDialog();
-      loadStoryMap();
-    } catch (err) {
-      setError(errorMessage(err));
+      default:
+        return;
     }
+    closeDialog();
   }
 
-  // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Release reordering requires checking bounds and swapping - inherently branchy
-  async function handleMoveRelease(releaseId: string, direction: 'up' | 'down') {
-    if (!storyMap) return;
+  function handleMoveRelease(releaseId: string, direction: 'up' | 'down') {
+    if (!storyMap || storyMap.releases.some((r) => isTempId(r.id))) return;
     const sortedReleases = [...storyMap.releases].sort((a, b) => a.sort_order - b.sort_order);
     const index = sortedReleases.findIndex((r) => r.id === releaseId);
     if (index === -1) return;
@@ -271,29 +484,22 @@ export default function StoryMapPage({ params }: { params: Promise<{ id: string
     const newOrder = sortedReleases.map((r) => r.id);
     [newOrder[index], newOrder[swapIndex]] = [newOrder[swapIndex], newOrder[index]];
 
-    try {
-      const res = await fetch('/api/releases', {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ story_map_id: id, order: newOrder }),
-      });
-      if (!res.ok) throw new Error(await extractError(res, 'Failed to reorder releases'));
-      loadStoryMap();
-    } catch (err) {
-      setError(errorMessage(err));
-    }
+    mutate({
+      optimistic: reorderReleases(newOrder),
+      request: () => sendJson('/api/releases', 'PUT', { story_map_id: id, order: newOrder }),
+      errorMessage: 'Failed to reorder releases',
+    });
   }
 
-  async function handleConfirmDelete() {
+  function handleConfirmDelete(choice: DeleteRelease) {
     if (dialog.type !== 'release:delete') return;
-    try {
-      const res = await fetch(`/api/releases/${dialog.releaseId}`, { method: 'DELETE' });
-      if (!res.ok) throw new Error(await extractError(res, 'Failed to delete release'));
-      closeDialog();
-      loadStoryMap();
-    } catch (err) {
-      setError(errorMessage(err));
-    }
+    const releaseId = dialog.releaseId;
+    mutate({
+      optimistic: removeRelease(releaseId, storiesDestination(choice)),
+      request: () => sendJson(`/api/releases/${releaseId}`, 'DELETE', choice),
+      errorMessage: 'Failed to delete release',
+    });
+    closeDialog();
   }
 
   // Derive prompt dialog props from state
@@ -313,12 +519,12 @@ export default function StoryMapPage({ params }: { params: Promise<{ id: string
   }
 
   // Render states
-  if (error) {
+  if (loadError) {
     return (
       <div className="flex h-[calc(100vh-var(--header-height))] items-center justify-center">
         <div className="text-center">
-          <p className="text-destructive mb-4">{error}</p>
-          <Button variant="outline" onClick={loadStoryMap}>
+          <p className="text-destructive mb-4">{loadError}</p>
+          <Button variant="outline" onClick={reload}>
             Retry
           </Button>
         </div>
@@ -339,14 +545,8 @@ export default function StoryMapPage({ params }: { params: Promise<{ id: string
 
   return (
     <div className="flex h-[calc(100vh-var(--header-height))] flex-col">
-      <header className="flex items-center gap-4 border-b px-4 py-3">
-        <Link href="/">
-          <Button variant="ghost" size="icon">
-            <ArrowLeft className="h-4 w-4" />
-          </Button>
-        </Link>
-        <h1 className="text-xl font-semibold">{storyMap.name}</h1>
-      </header>
+      <StoryMapHeader storyMap={storyMap} peers={peers} onOpen={(type) => setDialog({ type })} />
+      <FilterBar storyMap={storyMap} members={members} filter={filter} onChange={handleFilterChange} />
 
       <ScrollArea className="flex-1">
         <div className="p-4">
@@ -354,6 +554,8 @@ export default function StoryMapPage({ params }: { params: Promise<{ id: string
             storyMap={storyMap}
             onAddStory={handleAddStory}
             onEditStory={handleEditStory}
+            onAddPersona={handleAddPersona}
+            onEditPersona={handleEditPersona}
             onAddActivity={handleAddActivity}
             onEditActivity={handleEditActivity}
             onAddTask={handleAddTask}
@@ -362,20 +564,29 @@ export default function StoryMapPage({ params }: { params: Promise<{ id: string
             onRenameRelease={handleRenameRelease}
             onMoveRelease={handleMoveRelease}
             onDeleteRelease={handleDeleteRelease}
-            onRefresh={loadStoryMap}
+            onReorderActivities={handleReorderActivities}
+            onMoveTask={handleMoveTask}
+            onMoveStory={handleMoveStory}
+            peers={peers}
+            members={members}
+            filter={filter}
           />
         </div>
         <ScrollBar orientation="horizontal" />
       </ScrollArea>
 
       <StoryDialog
-        open={dialog.type === 'story:edit' || dialog.type === 'story:create'}
+        open={isEntityDialogOpen(dialog, 'story')}
         onOpenChange={(open) => !open && closeDialog()}
         story={dialog.type === 'story:edit' ? dialog.story : null}
         releases={storyMap.releases}
+        personas={storyMap.personas}
+        members={members}
         defaultReleaseId={dialog.type === 'story:create' ? dialog.releaseId : undefined}
         onSave={handleSaveStory}
         onDelete={dialog.type === 'story:edit' ? handleDeleteStory : undefined}
+        editors={peers.filter((p) => editingStoryId !== null && p.editing_story_id === editingStoryId)}
+        conflict={dialog.type === 'story:edit' ? dialog.conflict : undefined}
       />
 
       <PromptDialog
@@ -387,31 +598,59 @@ export default function StoryMapPage({ params }: { params: Promise<{ id: string
         onSubmit={handlePromptSubmit}
       />
 
-      <ConfirmDialog
+      <DeleteReleaseDialog
         open={dialog.type === 'release:delete'}
         onOpenChange={(open) => !open && closeDialog()}
-        title="Delete Release"
-        description="This will delete the release and all its stories. This cannot be undone."
-        confirmLabel="Delete"
-        variant="destructive"
+        storyMap={storyMap}
+        releaseId={dialog.type === 'release:delete' ? dialog.releaseId : null}
         onConfirm={handleConfirmDelete}
       />
 
+      <PersonaDialog
+        open={isEntityDialogOpen(dialog, 'persona')}
+        onOpenChange={(open) => !open && closeDialog()}
+        persona={dialog.type === 'persona:edit' ? dialog.persona : null}
+        onSave={handleSavePersona}
+        onDelete={dialog.type === 'persona:edit' ? handleDeletePersona : undefined}
+      />
+
       <ActivityDialog
-        open={dialog.type === 'activity:edit' || dialog.type === 'activity:create'}
+        open={isEntityDialogOpen(dialog, 'activity')}
         onOpenChange={(open) => !open && closeDialog()}
         activity={dialog.type === 'activity:edit' ? dialog.activity : null}
+        personas={storyMap.personas}
         onSave={handleSaveActivity}
         onDelete={dialog.type === 'activity:edit' ? handleDeleteActivity : undefined}
       />
 
       <TaskDialog
-        open={dialog.type === 'task:edit' || dialog.type === 'task:create'}
+        open={isEntityDialogOpen(dialog, 'task')}
         onOpenChange={(open) => !open && closeDialog()}
         task={dialog.type === 'task:edit' ? dialog.task : null}
+        personas={storyMap.personas}
         onSave={handleSaveTask}
         onDelete={dialog.type === 'task:edit' ? handleDeleteTask : undefined}
       />
+
+      <SyncDialog
+        open={dialog.type === 'sync'}
+        onOpenChange={(open) => !open && closeDialog()}
+        storyMapId={storyMap.id}
+        releases={storyMap.releases}
+      />
+
+      <TrashDialog
+        open={dialog.type === 'trash'}
+        onOpenChange={(open) => !open && closeDialog()}
+        storyMapId={storyMap.id}
+        onRestored={reload}
+      />
+
+      <DuplicateDialog
+        open={dialog.type === 'duplicate'}
+        onOpenChange={(open) => !open && closeDialog()}
+        storyMap={storyMap}
+      />
     </div>
   );
 }
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/auth';
+import { serverErrorResponse } from '@/lib/errors';
+import { sendDigests } from '@/lib/mail/digest';
+import { createMailer } from '@/lib/mail/mailer';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+/**
+ * Send the email digests that are due. Call it at least hourly from a scheduler with
+ * `Authorization: Bearer <CRON_SECRET>`; users whose digest is not due yet are skipped.
+ */
+export async function POST(request: Request) {
+  const auth = requireCronSecret(request);
+  if (!auth.success) return auth.response;
+
+  const appUrl = (process.env.APP_URL ?? new URL(request.url).origin).replace(/\/+$/, '');
+  try {
+    const run = await sendDigests(createAdminClient(), createMailer(), appUrl);
+    return NextResponse.json(run);
+  } catch (err) {
+    return serverErrorResponse('Failed to send digests', err);
+  }
+}
+
+/** Vercel Cron calls routes with GET */
+export const GET = POST;
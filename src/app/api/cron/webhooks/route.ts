@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/auth';
+import { serverErrorResponse } from '@/lib/errors';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { deliverDueWebhooks } from '@/lib/webhooks';
+
+/**
+ * Send the webhook deliveries that are due, including retries. Call it every minute from a
+ * scheduler with `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function POST(request: Request) {
+  const auth = requireCronSecret(request);
+  if (!auth.success) return auth.response;
+
+  try {
+    const run = await deliverDueWebhooks(createAdminClient());
+    return NextResponse.json(run);
+  } catch (err) {
+    return serverErrorResponse('Failed to deliver webhooks', err);
+  }
+}
+
+/** Vercel Cron calls routes with GET */
+export const GET = POST;
@@ -0,0 +1,23 @@
+import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
+import { requireBearerAuth } from '@/lib/auth';
+import { createMcpServer } from '@/lib/mcp/server';
+
+/**
+ * Streamable HTTP endpoint for MCP clients (Cursor, Codex, Claude, ...).
+ * Stateless: every request gets a fresh server bound to the caller's token.
+ */
+async function handleMcp(request: Request) {
+  const auth = await requireBearerAuth(request);
+  if (!auth.success) return auth.response;
+
+  const server = createMcpServer(auth.supabase, auth.user.id);
+  const transport = new WebStandardStreamableHTTPServerTransport({
+    sessionIdGenerator: undefined,
+    enableJsonResponse: true,
+  });
+
+  await server.connect(transport);
+  return transport.handleRequest(request);
+}
+
+export { handleMcp as GET, handleMcp as POST, handleMcp as DELETE };
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { notificationPreferencesSchema, pickDefined, validateRequest } from '@/lib/validations';
+import type { NotificationPreferences } from '@/types';
+
+/** The caller's notification preferences - everything is on, with a weekly digest, until they change it */
+export async function GET() {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('muted_types, digest_frequency')
+    .eq('user_id', auth.user.id)
+    .maybeSingle();
+
+  if (error) {
+    return serverErrorResponse('Failed to load notification preferences', error);
+  }
+  const preferences: NotificationPreferences = data ?? { muted_types: [], digest_frequency: 'weekly' };
+  return NextResponse.json(preferences);
+}
+
+export async function PUT(request: Request) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const validation = await validateRequest(request, notificationPreferencesSchema);
+  if (!validation.success) return validation.response;
+
+  const { muted_types, digest_frequency } = validation.data;
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .upsert({
+      user_id: auth.user.id,
+      ...pickDefined({ muted_types: muted_types && [...new Set(muted_types)], digest_frequency }),
+      updated_at: new Date().toISOString(),
+    })
+    .select('muted_types, digest_frequency')
+    .single();
+
+  if (error) {
+    return serverErrorResponse('Failed to save notification preferences', error);
+  }
+  return NextResponse.json(data);
+}
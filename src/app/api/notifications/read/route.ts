@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { markNotificationsReadSchema, validateRequest } from '@/lib/validations';
+
+/** Mark the given notifications read, or all of the caller's when no ids are given */
+export async function POST(request: Request) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const validation = await validateRequest(request, markNotificationsReadSchema);
+  if (!validation.success) return validation.response;
+
+  const supabase = await createClient();
+  let query = supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', auth.user.id)
+    .is('read_at', null);
+  if (validation.data.ids) {
+    query = query.in('id', validation.data.ids);
+  }
+
+  const { error } = await query;
+  if (error) {
+    return serverErrorResponse('Failed to mark notifications read', error);
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { notificationsQuerySchema, validateSearchParams } from '@/lib/validations';
+
+/** The caller's latest notifications, newest first, and how many of all their notifications are unread */
+export async function GET(request: Request) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const validation = validateSearchParams(request, notificationsQuerySchema);
+  if (!validation.success) return validation.response;
+
+  const supabase = await createClient();
+  const [listResult, unreadResult] = await Promise.all([
+    supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', auth.user.id)
+      .order('created_at', { ascending: false })
+      .limit(validation.data.limit),
+    supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', auth.user.id)
+      .is('read_at', null),
+  ]);
+
+  if (listResult.error) {
+    return serverErrorResponse('Failed to load notifications', listResult.error);
+  }
+  if (unreadResult.error) {
+    return serverErrorResponse('Failed to count unread notifications', unreadResult.error);
+  }
+  return NextResponse.json({ notifications: listResult.data, unread_count: unreadResult.count ?? 0 });
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { notFoundResponse, serverErrorResponse } from '@/lib/errors';
+import { createLlmProvider } from '@/lib/llm';
+import { generateImplementationPlan, loadReleaseContext } from '@/lib/plan';
+import { createClient } from '@/lib/supabase/server';
+import { invalidIdResponse, isValidUuid } from '@/lib/validations';
+
+/**
+ * Generate an implementation plan for every story in a release.
+ * Returns `{ plan, markdown }` JSON, or raw markdown with `?format=markdown`.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const supabase = await createClient();
+  const context = await loadReleaseContext(supabase, id);
+
+  if (!context.success) {
+    if (context.notFound) {
+      return notFoundResponse('Release');
+    }
+    return serverErrorResponse(context.message, context.error);
+  }
+  if (context.data.stories.length === 0) {
+    return NextResponse.json({ error: 'Release has no stories to plan' }, { status: 400 });
+  }
+
+  let document: Awaited<ReturnType<typeof generateImplementationPlan>>;
+  try {
+    document = await generateImplementationPlan(context.data, createLlmProvider());
+  } catch (err) {
+    return serverErrorResponse('Failed to generate implementation plan', err);
+  }
+
+  const { searchParams } = new URL(request.url);
+  if (searchParams.get('format') === 'markdown') {
+    return new NextResponse(document.markdown, {
+      headers: { 'Content-Type': 'text/markdown; charset=utf-8' },
+    });
+  }
+  return NextResponse.json(document);
+}
@@ -2,7 +2,14 @@ import { NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
 import { DbErrorCode, notFoundResponse, serverErrorResponse } from '@/lib/errors';
 import { createClient } from '@/lib/supabase/server';
-import { invalidIdResponse, isValidUuid, pickDefined, updateReleaseSchema, validateRequest } from '@/lib/validations';
+import {
+  deleteReleaseSchema,
+  invalidIdResponse,
+  isValidUuid,
+  pickDefined,
+  updateReleaseSchema,
+  validateRequest,
+} from '@/lib/validations';
 
 export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
   const auth = await requireAuth();
@@ -19,6 +26,7 @@ export async function PUT(request: Request, { params }: { params: Promise<{ id:
     .from('releases')
     .update(pickDefined(validation.data))
     .eq('id', id)
+    .is('deleted_at', null)
     .select()
     .single();
 
@@ -31,21 +39,32 @@ export async function PUT(request: Request, { params }: { params: Promise<{ id:
   return NextResponse.json(data);
 }
 
-export async function DELETE(_: Request, { params }: { params: Promise<{ id: string }> }) {
+/**
+ * Move the release to the story map's trash. Its stories are unassigned, moved to
+ * another release or trashed along with it, in one transaction.
+ */
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
   const auth = await requireAuth();
   if (!auth.success) return auth.response;
 
   const { id } = await params;
   if (!isValidUuid(id)) return invalidIdResponse();
 
+  const validation = await validateRequest(request, deleteReleaseSchema);
+  if (!validation.success) return validation.response;
+
   const supabase = await createClient();
-  const { data, error } = await supabase.from('releases').delete().eq('id', id).select().single();
+  const { error } = await supabase.rpc('delete_release', {
+    p_release_id: id,
+    p_stories: validation.data.stories,
+    p_target_release_id: validation.data.stories === 'move' ? validation.data.target_release_id : null,
+  });
 
   if (error) {
-    if (error.code === DbErrorCode.NOT_FOUND) {
-      return notFoundResponse('Release');
+    if (error.code === DbErrorCode.NO_DATA_FOUND) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
     }
     return serverErrorResponse('Failed to delete release', error);
   }
-  return NextResponse.json({ success: true, deleted: data });
+  return NextResponse.json({ success: true });
 }
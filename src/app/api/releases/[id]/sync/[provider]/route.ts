@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { DbErrorCode, notFoundResponse, serverErrorResponse } from '@/lib/errors';
+import { loadReleaseContext } from '@/lib/plan';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createClient } from '@/lib/supabase/server';
+import { createSyncAdapter, type SyncReport, syncRelease } from '@/lib/sync/engine';
+import { invalidIdResponse, isSyncProvider, isValidUuid, unsupportedProviderResponse } from '@/lib/validations';
+
+/**
+ * Push every story in a release to the story map's sync target.
+ * Re-running updates the linked objects; returns a SyncReport.
+ */
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string; provider: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id, provider } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+  if (!isSyncProvider(provider)) return unsupportedProviderResponse();
+
+  // Loading through the user's client checks access to the release via RLS
+  const supabase = await createClient();
+  const context = await loadReleaseContext(supabase, id);
+
+  if (!context.success) {
+    if (context.notFound) {
+      return notFoundResponse('Release');
+    }
+    return serverErrorResponse(context.message, context.error);
+  }
+  if (context.data.stories.length === 0) {
+    return NextResponse.json({ error: 'Release has no stories to sync' }, { status: 400 });
+  }
+
+  const { data: target, error: targetError } = await supabase
+    .from('sync_targets')
+    .select('target')
+    .eq('story_map_id', context.data.story_map.id)
+    .eq('provider', provider)
+    .single();
+
+  if (targetError) {
+    if (targetError.code === DbErrorCode.NOT_FOUND) {
+      return NextResponse.json({ error: `Story map is not connected to ${provider}` }, { status: 400 });
+    }
+    return serverErrorResponse('Failed to load sync target', targetError);
+  }
+
+  // Credentials are owner-only under RLS; members may still sync, so read them with the admin client
+  const admin = createAdminClient();
+  const { data: integration, error: integrationError } = await admin
+    .from('integrations')
+    .select('credentials, settings')
+    .eq('team_id', context.data.story_map.team_id)
+    .eq('provider', provider)
+    .single();
+
+  if (integrationError) {
+    if (integrationError.code === DbErrorCode.NOT_FOUND) {
+      return NextResponse.json({ error: `Team has not connected ${provider}` }, { status: 400 });
+    }
+    return serverErrorResponse('Failed to load integration', integrationError);
+  }
+
+  let report: SyncReport;
+  try {
+    report = await syncRelease(supabase, createSyncAdapter(provider, integration, target.target), context.data);
+  } catch (err) {
+    return serverErrorResponse('Failed to sync release', err);
+  }
+
+  return NextResponse.json(report);
+}
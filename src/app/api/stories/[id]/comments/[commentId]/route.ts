@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { loadStoryMembers } from '@/lib/comments';
+import { DbErrorCode, notFoundResponse, serverErrorResponse } from '@/lib/errors';
+import { extractMentions } from '@/lib/mentions';
+import { createClient } from '@/lib/supabase/server';
+import { invalidIdResponse, isValidUuid, updateCommentSchema, validateRequest } from '@/lib/validations';
+
+type Params = { params: Promise<{ id: string; commentId: string }> };
+
+/** Edit your own comment. Members mentioned for the first time are notified. */
+export async function PUT(request: Request, { params }: Params) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id, commentId } = await params;
+  if (!isValidUuid(id) || !isValidUuid(commentId)) return invalidIdResponse();
+
+  const validation = await validateRequest(request, updateCommentSchema);
+  if (!validation.success) return validation.response;
+
+  const supabase = await createClient();
+  const members = await loadStoryMembers(supabase, id);
+  if (!members.success) {
+    if (members.notFound) {
+      return notFoundResponse('Story');
+    }
+    return serverErrorResponse(members.message, members.error);
+  }
+
+  const { body } = validation.data;
+  // RLS only lets authors update their comments - anyone else's is not found
+  const { data, error } = await supabase
+    .from('story_comments')
+    .update({ body, mentions: extractMentions(body, members.data) })
+    .eq('id', commentId)
+    .eq('story_id', id)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === DbErrorCode.NOT_FOUND) {
+      return notFoundResponse('Comment');
+    }
+    return serverErrorResponse('Failed to update comment', error);
+  }
+  return NextResponse.json(data);
+}
+
+/** Delete your own comment together with its replies */
+export async function DELETE(_: Request, { params }: Params) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id, commentId } = await params;
+  if (!isValidUuid(id) || !isValidUuid(commentId)) return invalidIdResponse();
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('story_comments')
+    .delete()
+    .eq('id', commentId)
+    .eq('story_id', id)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    return serverErrorResponse('Failed to delete comment', error);
+  }
+  if (!data) {
+    return notFoundResponse('Comment');
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { loadStoryMembers } from '@/lib/comments';
+import { DbErrorCode, invalidDataResponse, notFoundResponse, serverErrorResponse } from '@/lib/errors';
+import { extractMentions } from '@/lib/mentions';
+import { createClient } from '@/lib/supabase/server';
+import { createCommentSchema, invalidIdResponse, isValidUuid, validateRequest } from '@/lib/validations';
+
+/** Comments on a story, oldest first - replies are returned alongside and point at their parent */
+export async function GET(_: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const supabase = await createClient();
+
+  // Tell a missing story apart from one without comments
+  const { error: storyError } = await supabase.from('stories').select('id').eq('id', id).single();
+  if (storyError) {
+    if (storyError.code === DbErrorCode.NOT_FOUND) {
+      return notFoundResponse('Story');
+    }
+    return serverErrorResponse('Failed to load story', storyError);
+  }
+
+  const { data, error } = await supabase
+    .from('story_comments')
+    .select('*')
+    .eq('story_id', id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return serverErrorResponse('Failed to load comments', error);
+  }
+  return NextResponse.json(data);
+}
+
+/** Comment on a story, or reply to one of its comments. Mentioned team members are notified. */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const validation = await validateRequest(request, createCommentSchema);
+  if (!validation.success) return validation.response;
+
+  const supabase = await createClient();
+  const members = await loadStoryMembers(supabase, id);
+  if (!members.success) {
+    if (members.notFound) {
+      return notFoundResponse('Story');
+    }
+    return serverErrorResponse(members.message, members.error);
+  }
+
+  const { body, parent_id } = validation.data;
+  const { data, error } = await supabase
+    .from('story_comments')
+    .insert({ story_id: id, parent_id: parent_id ?? null, body, mentions: extractMentions(body, members.data) })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === DbErrorCode.CHECK_VIOLATION) {
+      return invalidDataResponse(error);
+    }
+    return serverErrorResponse('Failed to create comment', error);
+  }
+  return NextResponse.json(data, { status: 201 });
+}
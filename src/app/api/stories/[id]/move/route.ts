@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { DbErrorCode, serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { invalidIdResponse, isValidUuid, moveStorySchema, validateRequest } from '@/lib/validations';
+
+/**
+ * Move a story to a position in a task + release cell, renumbering both cells atomically.
+ * Responds with the story's new updated_at, the version its next edit has to send.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const validation = await validateRequest(request, moveStorySchema);
+  if (!validation.success) return validation.response;
+
+  const supabase = await createClient();
+  const { data: updatedAt, error } = await supabase.rpc('move_story', {
+    p_story_id: id,
+    p_task_id: validation.data.task_id,
+    p_release_id: validation.data.release_id,
+    p_index: validation.data.index,
+  });
+
+  if (error) {
+    if (error.code === DbErrorCode.NO_DATA_FOUND) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    return serverErrorResponse('Failed to move story', error);
+  }
+  return NextResponse.json({ updated_at: updatedAt });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { DbErrorCode, notFoundResponse, serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { invalidIdResponse, isValidUuid } from '@/lib/validations';
+
+/** Revision history of a story, newest first */
+export async function GET(_: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const supabase = await createClient();
+
+  // Tell a missing story apart from one without history
+  const { error: storyError } = await supabase.from('stories').select('id').eq('id', id).single();
+  if (storyError) {
+    if (storyError.code === DbErrorCode.NOT_FOUND) {
+      return notFoundResponse('Story');
+    }
+    return serverErrorResponse('Failed to load story', storyError);
+  }
+
+  const { data, error } = await supabase
+    .from('story_revisions')
+    .select('*')
+    .eq('story_id', id)
+    .order('changed_at', { ascending: false });
+
+  if (error) {
+    return serverErrorResponse('Failed to load story revisions', error);
+  }
+  return NextResponse.json(data);
+}
@@ -1,8 +1,21 @@
-import { NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { after, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
-import { DbErrorCode, notFoundResponse, serverErrorResponse } from '@/lib/errors';
+import { ifMatchVersion, versionTag } from '@/lib/concurrency';
+import {
+  conflictResponse,
+  DbErrorCode,
+  invalidDataResponse,
+  notFoundResponse,
+  preconditionRequiredResponse,
+  serverErrorResponse,
+} from '@/lib/errors';
+import { updateWithPersonaLinks } from '@/lib/personas';
+import { SCORED_STORY_SELECT, type StoryRow, toScoredStory } from '@/lib/story-maps';
 import { createClient } from '@/lib/supabase/server';
+import { pushStoryStatus } from '@/lib/sync/engine';
 import { invalidIdResponse, isValidUuid, pickDefined, updateStorySchema, validateRequest } from '@/lib/validations';
+import type { StoryStatus } from '@/types';
 
 export async function GET(_: Request, { params }: { params: Promise<{ id: string }> }) {
   const auth = await requireAuth();
@@ -12,7 +25,12 @@ export async function GET(_: Request, { params }: { params: Promise<{ id: string
   if (!isValidUuid(id)) return invalidIdResponse();
 
   const supabase = await createClient();
-  const { data, error } = await supabase.from('stories').select('*').eq('id', id).single();
+  const { data, error } = await supabase
+    .from('stories')
+    .select(SCORED_STORY_SELECT)
+    .eq('id', id)
+    .is('deleted_at', null)
+    .single();
 
   if (error) {
     if (error.code === DbErrorCode.NOT_FOUND) {
@@ -20,7 +38,40 @@ export async function GET(_: Request, { params }: { params: Promise<{ id: string
     }
     return serverErrorResponse('Failed to load story', error);
   }
-  return NextResponse.json(data);
+  const story = toScoredStory(data as StoryRow);
+  return NextResponse.json(story, { headers: { ETag: versionTag(story.updated_at) } });
+}
+
+/** The versioned update matched no row: the story is gone or was changed since `If-Match` */
+async function staleOrMissing(supabase: SupabaseClient, id: string): Promise<NextResponse> {
+  const { data, error } = await supabase
+    .from('stories')
+    .select(SCORED_STORY_SELECT)
+    .eq('id', id)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (error) return serverErrorResponse('Failed to update story', error);
+  if (!data) return notFoundResponse('Story');
+  return conflictResponse('Story', toScoredStory(data as StoryRow));
+}
+
+/**
+ * Status of the story at the `If-Match` version. The versioned update only succeeds
+ * if nothing changed since, so this is the status the update replaces.
+ */
+async function statusAtVersion(
+  supabase: SupabaseClient,
+  id: string,
+  version: string,
+): Promise<StoryStatus | undefined> {
+  const { data } = await supabase
+    .from('stories')
+    .select('status')
+    .eq('id', id)
+    .is('deleted_at', null)
+    .eq('updated_at', version)
+    .maybeSingle();
+  return data?.status;
 }
 
 export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
@@ -30,26 +81,47 @@ export async function PUT(request: Request, { params }: { params: Promise<{ id:
   const { id } = await params;
   if (!isValidUuid(id)) return invalidIdResponse();
 
+  const version = ifMatchVersion(request);
+  if (!version) return preconditionRequiredResponse();
+
   const validation = await validateRequest(request, updateStorySchema);
   if (!validation.success) return validation.response;
 
   const supabase = await createClient();
+  const { persona_ids, ...fields } = validation.data;
   const updateData = {
-    ...pickDefined(validation.data),
+    ...pickDefined(fields),
     updated_at: new Date().toISOString(),
   };
 
-  const { data, error } = await supabase.from('stories').update(updateData).eq('id', id).select().single();
+  const previousStatus = fields.status ? await statusAtVersion(supabase, id, version) : undefined;
+
+  const { data, error } = await updateWithPersonaLinks(supabase, 'story', id, updateData, {
+    personaIds: persona_ids,
+    version,
+  });
 
   if (error) {
-    if (error.code === DbErrorCode.NOT_FOUND) {
-      return notFoundResponse('Story');
+    if (error.code === DbErrorCode.NO_DATA_FOUND) {
+      return staleOrMissing(supabase, id);
+    }
+    if (error.code === DbErrorCode.CHECK_VIOLATION) {
+      return invalidDataResponse(error);
     }
     return serverErrorResponse('Failed to update story', error);
   }
-  return NextResponse.json(data);
+  const headers = { ETag: versionTag(data.updated_at) };
+
+  if (fields.status && fields.status !== previousStatus) {
+    const status = fields.status;
+    // Linked issue trackers can be slow - push once the response is sent
+    after(() => pushStoryStatus(supabase, id, status));
+  }
+
+  return NextResponse.json(data, { headers });
 }
 
+/** Move the story to the story map's trash */
 export async function DELETE(_: Request, { params }: { params: Promise<{ id: string }> }) {
   const auth = await requireAuth();
   if (!auth.success) return auth.response;
@@ -58,13 +130,13 @@ export async function DELETE(_: Request, { params }: { params: Promise<{ id: str
   if (!isValidUuid(id)) return invalidIdResponse();
 
   const supabase = await createClient();
-  const { data, error } = await supabase.from('stories').delete().eq('id', id).select().single();
+  const { data: deletedAt, error } = await supabase.rpc('soft_delete_entity', { p_entity_type: 'story', p_id: id });
 
   if (error) {
-    if (error.code === DbErrorCode.NOT_FOUND) {
+    if (error.code === DbErrorCode.NO_DATA_FOUND) {
       return notFoundResponse('Story');
     }
     return serverErrorResponse('Failed to delete story', error);
   }
-  return NextResponse.json({ success: true, deleted: data });
+  return NextResponse.json({ success: true, deleted_at: deletedAt });
 }
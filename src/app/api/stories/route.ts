@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
-import { serverErrorResponse } from '@/lib/errors';
+import { DbErrorCode, invalidDataResponse, serverErrorResponse } from '@/lib/errors';
+import { setPersonaLinks } from '@/lib/personas';
 import { createClient } from '@/lib/supabase/server';
 import { createStorySchema, reorderStoriesSchema, validateRequest } from '@/lib/validations';
 
@@ -44,12 +45,24 @@ export async function POST(request: Request) {
       edge_cases: validation.data.edge_cases ?? null,
       technical_guidelines: validation.data.technical_guidelines ?? null,
       status: validation.data.status,
+      assignee_id: validation.data.assignee_id ?? null,
     })
     .select()
     .single();
 
   if (error) {
+    if (error.code === DbErrorCode.CHECK_VIOLATION) {
+      return invalidDataResponse(error);
+    }
     return serverErrorResponse('Failed to create story', error);
   }
-  return NextResponse.json(data);
+
+  const personaIds = validation.data.persona_ids ?? [];
+  if (personaIds.length > 0) {
+    const { error: linkError } = await setPersonaLinks(supabase, 'story', data.id, personaIds);
+    if (linkError) {
+      return serverErrorResponse('Failed to link personas', linkError);
+    }
+  }
+  return NextResponse.json({ ...data, persona_ids: personaIds });
 }
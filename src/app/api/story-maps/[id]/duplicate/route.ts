@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { DbErrorCode, notFoundResponse, serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { duplicateStoryMapSchema, invalidIdResponse, isValidUuid, validateRequest } from '@/lib/validations';
+
+/**
+ * Deep-copy a story map with fresh ids - into its own team or another team of the caller,
+ * optionally as a template. Creating a map from a team template is a duplicate too.
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const validation = await validateRequest(request, duplicateStoryMapSchema);
+  if (!validation.success) return validation.response;
+
+  const supabase = await createClient();
+  const { data: source, error: sourceError } = await supabase
+    .from('story_maps')
+    .select('team_id')
+    .eq('id', id)
+    .single();
+
+  if (sourceError) {
+    if (sourceError.code === DbErrorCode.NOT_FOUND) {
+      return notFoundResponse('Story map');
+    }
+    return serverErrorResponse('Failed to load story map', sourceError);
+  }
+
+  const { team_id, name, description, is_template } = validation.data;
+  // Only into teams the caller belongs to - other teams are reported as missing, as RLS would
+  if (team_id && team_id !== source.team_id) {
+    const { data: membership } = await supabase
+      .from('team_members')
+      .select('team_id')
+      .eq('team_id', team_id)
+      .eq('user_id', auth.user.id)
+      .maybeSingle();
+    if (!membership) return notFoundResponse('Team');
+  }
+
+  const { data: copyId, error } = await supabase.rpc('duplicate_story_map', {
+    p_story_map_id: id,
+    p_team_id: team_id ?? source.team_id,
+    p_name: name ?? null,
+    p_description: description ?? null,
+    p_is_template: is_template,
+  });
+
+  if (error) {
+    return serverErrorResponse('Failed to duplicate story map', error);
+  }
+
+  const { data, error: loadError } = await supabase.from('story_maps').select('*').eq('id', copyId).single();
+  if (loadError) {
+    return serverErrorResponse('Failed to load duplicated story map', loadError);
+  }
+  return NextResponse.json(data, { status: 201 });
+}
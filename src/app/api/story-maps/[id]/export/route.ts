@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { notFoundResponse, serverErrorResponse } from '@/lib/errors';
+import { EXPORT_FORMATS, exportFileName, isExportFormat, renderStoryMap } from '@/lib/export';
+import { loadStoryMapFull } from '@/lib/story-maps';
+import { createClient } from '@/lib/supabase/server';
+import { invalidIdResponse, isValidUuid } from '@/lib/validations';
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const { searchParams } = new URL(request.url);
+  const format = searchParams.get('format') ?? 'markdown';
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { error: `format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}` },
+      { status: 400 },
+    );
+  }
+
+  const supabase = await createClient();
+  const result = await loadStoryMapFull(supabase, id);
+
+  if (!result.success) {
+    if (result.notFound) {
+      return notFoundResponse('Story map');
+    }
+    return serverErrorResponse(result.message, result.error);
+  }
+
+  return new NextResponse(renderStoryMap(result.data, format), {
+    headers: {
+      'Content-Type': EXPORT_FORMATS[format].contentType,
+      'Content-Disposition': `attachment; filename="${exportFileName(result.data.name, format)}"`,
+    },
+  });
+}
@@ -1,9 +1,16 @@
 import { NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
-import { DbErrorCode, notFoundResponse, serverErrorResponse } from '@/lib/errors';
+import { ifMatchVersion, versionTag } from '@/lib/concurrency';
+import {
+  conflictResponse,
+  DbErrorCode,
+  notFoundResponse,
+  preconditionRequiredResponse,
+  serverErrorResponse,
+} from '@/lib/errors';
+import { loadStoryMapFull } from '@/lib/story-maps';
 import { createClient } from '@/lib/supabase/server';
 import { invalidIdResponse, isValidUuid, pickDefined, updateStoryMapSchema, validateRequest } from '@/lib/validations';
-import type { StoryMapFull } from '@/types';
 
 export async function GET(_: Request, { params }: { params: Promise<{ id: string }> }) {
   const auth = await requireAuth();
@@ -13,47 +20,15 @@ export async function GET(_: Request, { params }: { params: Promise<{ id: string
   if (!isValidUuid(id)) return invalidIdResponse();
 
   const supabase = await createClient();
+  const result = await loadStoryMapFull(supabase, id);
 
-  const [mapResult, activitiesResult, releasesResult, personasResult] = await Promise.all([
-    supabase.from('story_maps').select('*').eq('id', id).single(),
-    supabase
-      .from('activities')
-      .select(`*, tasks(*, stories(*))`)
-      .eq('story_map_id', id)
-      .order('sort_order')
-      .order('sort_order', { referencedTable: 'tasks' })
-      .order('sort_order', { referencedTable: 'tasks.stories' }),
-    supabase.from('releases').select('*').eq('story_map_id', id).order('sort_order'),
-    supabase.from('personas').select('*').eq('story_map_id', id).order('sort_order'),
-  ]);
-
-  // Check main map first
-  if (mapResult.error) {
-    if (mapResult.error.code === DbErrorCode.NOT_FOUND) {
+  if (!result.success) {
+    if (result.notFound) {
       return notFoundResponse('Story map');
     }
-    return serverErrorResponse('Failed to load story map', mapResult.error);
-  }
-
-  // Check related data
-  if (activitiesResult.error) {
-    return serverErrorResponse('Failed to load activities', activitiesResult.error);
-  }
-  if (releasesResult.error) {
-    return serverErrorResponse('Failed to load releases', releasesResult.error);
-  }
-  if (personasResult.error) {
-    return serverErrorResponse('Failed to load personas', personasResult.error);
+    return serverErrorResponse(result.message, result.error);
   }
-
-  const fullMap: StoryMapFull = {
-    ...mapResult.data,
-    activities: activitiesResult.data,
-    releases: releasesResult.data,
-    personas: personasResult.data,
-  };
-
-  return NextResponse.json(fullMap);
+  return NextResponse.json(result.data, { headers: { ETag: versionTag(result.data.updated_at) } });
 }
 
 export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
@@ -63,6 +38,9 @@ export async function PUT(request: Request, { params }: { params: Promise<{ id:
   const { id } = await params;
   if (!isValidUuid(id)) return invalidIdResponse();
 
+  const version = ifMatchVersion(request);
+  if (!version) return preconditionRequiredResponse();
+
   const validation = await validateRequest(request, updateStoryMapSchema);
   if (!validation.success) return validation.response;
 
@@ -72,15 +50,24 @@ export async function PUT(request: Request, { params }: { params: Promise<{ id:
     updated_at: new Date().toISOString(),
   };
 
-  const { data, error } = await supabase.from('story_maps').update(updateData).eq('id', id).select().single();
+  const { data, error } = await supabase
+    .from('story_maps')
+    .update(updateData)
+    .eq('id', id)
+    .eq('updated_at', version)
+    .select()
+    .single();
 
   if (error) {
     if (error.code === DbErrorCode.NOT_FOUND) {
-      return notFoundResponse('Story map');
+      // Missing, or changed since the version the client edited
+      const current = await supabase.from('story_maps').select().eq('id', id).maybeSingle();
+      if (current.error) return serverErrorResponse('Failed to update story map', current.error);
+      return current.data ? conflictResponse('Story map', current.data) : notFoundResponse('Story map');
     }
     return serverErrorResponse('Failed to update story map', error);
   }
-  return NextResponse.json(data);
+  return NextResponse.json(data, { headers: { ETag: versionTag(data.updated_at) } });
 }
 
 export async function DELETE(_: Request, { params }: { params: Promise<{ id: string }> }) {
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import {
+  invalidIdResponse,
+  isSyncProvider,
+  isValidUuid,
+  syncTargetSchemas,
+  unsupportedProviderResponse,
+  validateRequest,
+} from '@/lib/validations';
+import type { SyncTarget } from '@/types';
+
+type Params = { params: Promise<{ id: string; provider: string }> };
+
+/** Connect the story map to a provider target, e.g. a GitHub repository */
+export async function PUT(request: Request, { params }: Params) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id, provider } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+  if (!isSyncProvider(provider)) return unsupportedProviderResponse();
+
+  const validation = await validateRequest<SyncTarget['target']>(request, syncTargetSchemas[provider]);
+  if (!validation.success) return validation.response;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('sync_targets')
+    .upsert({ story_map_id: id, provider, target: validation.data }, { onConflict: 'story_map_id,provider' })
+    .select()
+    .single();
+
+  if (error) {
+    return serverErrorResponse('Failed to save sync target', error);
+  }
+  return NextResponse.json(data);
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id, provider } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+  if (!isSyncProvider(provider)) return unsupportedProviderResponse();
+
+  const supabase = await createClient();
+  const { error } = await supabase.from('sync_targets').delete().eq('story_map_id', id).eq('provider', provider);
+
+  if (error) {
+    return serverErrorResponse('Failed to delete sync target', error);
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { invalidIdResponse, isValidUuid } from '@/lib/validations';
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.from('sync_targets').select('*').eq('story_map_id', id);
+
+  if (error) {
+    return serverErrorResponse('Failed to fetch sync targets', error);
+  }
+
+  return NextResponse.json(data);
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { DbErrorCode, serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { invalidIdResponse, isValidUuid, restoreTrashSchema, validateRequest } from '@/lib/validations';
+
+/** Deleted activities, tasks, stories and releases of a story map that can be restored, newest first */
+export async function GET(_: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc('story_map_trash', { p_story_map_id: id });
+
+  if (error) {
+    return serverErrorResponse('Failed to load trash', error);
+  }
+  return NextResponse.json(data);
+}
+
+/** Restore an entity from the trash together with the children deleted along with it */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const validation = await validateRequest(request, restoreTrashSchema);
+  if (!validation.success) return validation.response;
+
+  const supabase = await createClient();
+  const { error } = await supabase.rpc('restore_entity', {
+    p_story_map_id: id,
+    p_entity_type: validation.data.entity_type,
+    p_id: validation.data.id,
+  });
+
+  if (error) {
+    if (error.code === DbErrorCode.NO_DATA_FOUND) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error.code === DbErrorCode.PREREQUISITE) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    return serverErrorResponse('Failed to restore from trash', error);
+  }
+  return NextResponse.json({ success: true });
+}
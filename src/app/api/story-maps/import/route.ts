@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { serverErrorResponse } from '@/lib/errors';
+import { parseStoryMapImport, summarizeImport } from '@/lib/import';
+import { createClient } from '@/lib/supabase/server';
+import { importStoryMapSchema, validateRequest } from '@/lib/validations';
+
+export async function POST(request: Request) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const validation = await validateRequest(request, importStoryMapSchema);
+  if (!validation.success) return validation.response;
+
+  const { team_id, format, content, name, dry_run } = validation.data;
+  const parsed = parseStoryMapImport(content, format, name);
+
+  if (dry_run) {
+    return parsed.success
+      ? NextResponse.json({ valid: true, summary: summarizeImport(parsed.data) })
+      : NextResponse.json({ valid: false, errors: parsed.errors });
+  }
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Import validation failed', errors: parsed.errors }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+  const { data: id, error } = await supabase.rpc('import_story_map', { p_team_id: team_id, p_map: parsed.data });
+
+  if (error) {
+    return serverErrorResponse('Failed to import story map', error);
+  }
+
+  const { data, error: loadError } = await supabase.from('story_maps').select('*').eq('id', id).single();
+  if (loadError) {
+    return serverErrorResponse('Failed to load imported story map', loadError);
+  }
+  return NextResponse.json({ ...data, summary: summarizeImport(parsed.data) }, { status: 201 });
+}
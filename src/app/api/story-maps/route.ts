@@ -2,7 +2,8 @@ import { NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
 import { serverErrorResponse } from '@/lib/errors';
 import { createClient } from '@/lib/supabase/server';
-import { createStoryMapSchema, validateRequest } from '@/lib/validations';
+import { BUILT_IN_TEMPLATES } from '@/lib/templates';
+import { createStoryMapSchema, portableStoryMapSchema, validateRequest } from '@/lib/validations';
 
 export async function GET(request: Request) {
   const auth = await requireAuth();
@@ -36,6 +37,30 @@ export async function POST(request: Request) {
   if (!validation.success) return validation.response;
 
   const supabase = await createClient();
+
+  // Built-in templates are portable documents, created the way imports are
+  const { template } = validation.data;
+  if (template) {
+    const document = portableStoryMapSchema.parse({
+      ...BUILT_IN_TEMPLATES[template],
+      name: validation.data.name,
+      description: validation.data.description ?? BUILT_IN_TEMPLATES[template].description,
+    });
+    const { data: id, error } = await supabase.rpc('import_story_map', {
+      p_team_id: validation.data.team_id,
+      p_map: document,
+    });
+    if (error) {
+      return serverErrorResponse('Failed to create story map from template', error);
+    }
+
+    const { data, error: loadError } = await supabase.from('story_maps').select('*').eq('id', id).single();
+    if (loadError) {
+      return serverErrorResponse('Failed to load story map', loadError);
+    }
+    return NextResponse.json(data);
+  }
+
   const { data, error } = await supabase
     .from('story_maps')
     .insert({
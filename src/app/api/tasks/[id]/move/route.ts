@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { DbErrorCode, serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { invalidIdResponse, isValidUuid, moveTaskSchema, validateRequest } from '@/lib/validations';
+
+/** Move a task to a position in an activity, renumbering both activities atomically */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const validation = await validateRequest(request, moveTaskSchema);
+  if (!validation.success) return validation.response;
+
+  const supabase = await createClient();
+  const { error } = await supabase.rpc('move_task', {
+    p_task_id: id,
+    p_activity_id: validation.data.activity_id,
+    p_index: validation.data.index,
+  });
+
+  if (error) {
+    if (error.code === DbErrorCode.NO_DATA_FOUND) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    return serverErrorResponse('Failed to move task', error);
+  }
+  return NextResponse.json({ success: true });
+}
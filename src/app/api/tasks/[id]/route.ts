@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
 import { DbErrorCode, notFoundResponse, serverErrorResponse } from '@/lib/errors';
+import { updateWithPersonaLinks } from '@/lib/personas';
 import { createClient } from '@/lib/supabase/server';
 import { invalidIdResponse, isValidUuid, pickDefined, updateTaskSchema, validateRequest } from '@/lib/validations';
 
@@ -15,15 +16,13 @@ export async function PUT(request: Request, { params }: { params: Promise<{ id:
   if (!validation.success) return validation.response;
 
   const supabase = await createClient();
-  const { data, error } = await supabase
-    .from('tasks')
-    .update(pickDefined(validation.data))
-    .eq('id', id)
-    .select()
-    .single();
+  const { persona_ids, ...fields } = validation.data;
+  const { data, error } = await updateWithPersonaLinks(supabase, 'task', id, pickDefined(fields), {
+    personaIds: persona_ids,
+  });
 
   if (error) {
-    if (error.code === DbErrorCode.NOT_FOUND) {
+    if (error.code === DbErrorCode.NO_DATA_FOUND) {
       return notFoundResponse('Task');
     }
     return serverErrorResponse('Failed to update task', error);
@@ -31,6 +30,7 @@ export async function PUT(request: Request, { params }: { params: Promise<{ id:
   return NextResponse.json(data);
 }
 
+/** Move the task to the story map's trash */
 export async function DELETE(_: Request, { params }: { params: Promise<{ id: string }> }) {
   const auth = await requireAuth();
   if (!auth.success) return auth.response;
@@ -39,13 +39,13 @@ export async function DELETE(_: Request, { params }: { params: Promise<{ id: str
   if (!isValidUuid(id)) return invalidIdResponse();
 
   const supabase = await createClient();
-  const { data, error } = await supabase.from('tasks').delete().eq('id', id).select().single();
+  const { data: deletedAt, error } = await supabase.rpc('soft_delete_entity', { p_entity_type: 'task', p_id: id });
 
   if (error) {
-    if (error.code === DbErrorCode.NOT_FOUND) {
+    if (error.code === DbErrorCode.NO_DATA_FOUND) {
       return notFoundResponse('Task');
     }
     return serverErrorResponse('Failed to delete task', error);
   }
-  return NextResponse.json({ success: true, deleted: data });
+  return NextResponse.json({ success: true, deleted_at: deletedAt });
 }
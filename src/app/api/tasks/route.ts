@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
 import { serverErrorResponse } from '@/lib/errors';
+import { setPersonaLinks } from '@/lib/personas';
 import { createClient } from '@/lib/supabase/server';
 import { createTaskSchema, reorderTasksSchema, validateRequest } from '@/lib/validations';
 
@@ -44,5 +45,13 @@ export async function POST(request: Request) {
   if (error) {
     return serverErrorResponse('Failed to create task', error);
   }
-  return NextResponse.json(data);
+
+  const personaIds = validation.data.persona_ids ?? [];
+  if (personaIds.length > 0) {
+    const { error: linkError } = await setPersonaLinks(supabase, 'task', data.id, personaIds);
+    if (linkError) {
+      return serverErrorResponse('Failed to link personas', linkError);
+    }
+  }
+  return NextResponse.json({ ...data, persona_ids: personaIds });
 }
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { auditLogQuerySchema, invalidIdResponse, isValidUuid, validateSearchParams } from '@/lib/validations';
+
+/**
+ * Team audit log, newest first. Page with ?before=<created_at of the last entry>.
+ * RLS limits the log to team owners - members get an empty list.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const validation = validateSearchParams(request, auditLogQuerySchema);
+  if (!validation.success) return validation.response;
+  const { entity_type, action, actor_id, before, limit } = validation.data;
+
+  const supabase = await createClient();
+  let query = supabase.from('audit_log').select('*').eq('team_id', id);
+  if (entity_type) query = query.eq('entity_type', entity_type);
+  if (action) query = query.eq('action', action);
+  if (actor_id) query = query.eq('actor_id', actor_id);
+  if (before) query = query.lt('created_at', before);
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+
+  if (error) {
+    return serverErrorResponse('Failed to fetch audit log', error);
+  }
+
+  return NextResponse.json(data);
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { DbErrorCode, serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { INTEGRATION_SELECT } from '@/lib/sync/engine';
+import {
+  integrationSchema,
+  invalidIdResponse,
+  isSyncProvider,
+  isValidUuid,
+  unsupportedProviderResponse,
+  validateRequest,
+} from '@/lib/validations';
+
+type Params = { params: Promise<{ id: string; provider: string }> };
+
+/**
+ * Connect a provider, or change a connected provider (team owners only).
+ * Credentials are required to connect; omit them to change settings only.
+ */
+export async function PUT(request: Request, { params }: Params) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id, provider } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+  if (!isSyncProvider(provider)) return unsupportedProviderResponse();
+
+  const validation = await validateRequest(request, integrationSchema(provider));
+  if (!validation.success) return validation.response;
+
+  const supabase = await createClient();
+  const { credentials, settings } = validation.data;
+
+  // RLS enforces owner-only writes
+  if (credentials) {
+    const { data, error } = await supabase
+      .from('integrations')
+      .upsert({ team_id: id, provider, credentials, settings: settings ?? {} }, { onConflict: 'team_id,provider' })
+      .select(INTEGRATION_SELECT)
+      .single();
+
+    if (error) {
+      return serverErrorResponse('Failed to save integration', error);
+    }
+    return NextResponse.json(data);
+  }
+
+  const { data, error } = await supabase
+    .from('integrations')
+    .update({ settings })
+    .eq('team_id', id)
+    .eq('provider', provider)
+    .select(INTEGRATION_SELECT)
+    .single();
+
+  if (error) {
+    if (error.code === DbErrorCode.NOT_FOUND) {
+      return NextResponse.json({ error: 'Credentials are required to connect' }, { status: 400 });
+    }
+    return serverErrorResponse('Failed to save integration', error);
+  }
+  return NextResponse.json(data);
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id, provider } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+  if (!isSyncProvider(provider)) return unsupportedProviderResponse();
+
+  const supabase = await createClient();
+  const { error } = await supabase.from('integrations').delete().eq('team_id', id).eq('provider', provider);
+
+  if (error) {
+    return serverErrorResponse('Failed to delete integration', error);
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { INTEGRATION_SELECT } from '@/lib/sync/engine';
+import { invalidIdResponse, isValidUuid } from '@/lib/validations';
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const supabase = await createClient();
+
+  // RLS limits integrations to team owners - members get an empty list
+  const { data, error } = await supabase.from('integrations').select(INTEGRATION_SELECT).eq('team_id', id);
+
+  if (error) {
+    return serverErrorResponse('Failed to fetch integrations', error);
+  }
+
+  return NextResponse.json(data);
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { invalidIdResponse, isValidUuid } from '@/lib/validations';
+import type { AssignedStory, Story } from '@/types';
+
+type AssignedStoryRow = Story & {
+  task: { name: string; activity: { name: string; story_map: { id: string; name: string } } };
+};
+
+/** Stories assigned to the caller across the team's story maps, most recently updated first */
+export async function GET(_: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('stories')
+    .select('*, task:tasks!inner(name, activity:activities!inner(name, story_map:story_maps!inner(id, name, team_id)))')
+    .eq('assignee_id', auth.user.id)
+    .eq('task.activity.story_map.team_id', id)
+    .is('deleted_at', null)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    return serverErrorResponse('Failed to load assigned stories', error);
+  }
+
+  const stories: AssignedStory[] = (data as unknown as AssignedStoryRow[]).map(({ task, ...story }) => ({
+    ...story,
+    story_map_id: task.activity.story_map.id,
+    story_map_name: task.activity.story_map.name,
+    activity_name: task.activity.name,
+    task_name: task.name,
+  }));
+  return NextResponse.json(stories);
+}
@@ -1,6 +1,13 @@
 import { NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
-import { DbErrorCode, notFoundResponse, serverErrorResponse } from '@/lib/errors';
+import { ifMatchVersion, versionTag } from '@/lib/concurrency';
+import {
+  conflictResponse,
+  DbErrorCode,
+  notFoundResponse,
+  preconditionRequiredResponse,
+  serverErrorResponse,
+} from '@/lib/errors';
 import { createClient } from '@/lib/supabase/server';
 import { invalidIdResponse, isValidUuid, updateTeamSchema, validateRequest } from '@/lib/validations';
 
@@ -11,6 +18,9 @@ export async function PUT(request: Request, { params }: { params: Promise<{ id:
   const { id } = await params;
   if (!isValidUuid(id)) return invalidIdResponse();
 
+  const version = ifMatchVersion(request);
+  if (!version) return preconditionRequiredResponse();
+
   const validation = await validateRequest(request, updateTeamSchema);
   if (!validation.success) return validation.response;
 
@@ -19,16 +29,22 @@ export async function PUT(request: Request, { params }: { params: Promise<{ id:
     .from('teams')
     .update({ name: validation.data.name, updated_at: new Date().toISOString() })
     .eq('id', id)
+    .eq('updated_at', version)
     .select()
     .single();
 
   if (error) {
     if (error.code === DbErrorCode.NOT_FOUND) {
-      return notFoundResponse('Team');
+      // Changed since the version the client edited - otherwise missing, or RLS kept a member from renaming it
+      const current = await supabase.from('teams').select().eq('id', id).maybeSingle();
+      if (current.error) return serverErrorResponse('Failed to update team', current.error);
+      return current.data && current.data.updated_at !== version
+        ? conflictResponse('Team', current.data)
+        : notFoundResponse('Team');
     }
     return serverErrorResponse('Failed to update team', error);
   }
-  return NextResponse.json(data);
+  return NextResponse.json(data, { headers: { ETag: versionTag(data.updated_at) } });
 }
 
 export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }) {
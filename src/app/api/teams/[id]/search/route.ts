@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { invalidIdResponse, isValidUuid, searchQuerySchema, validateSearchParams } from '@/lib/validations';
+
+/**
+ * Full-text search across the team's story maps, best matches first.
+ * Words are matched as prefixes, so results follow the query as it is typed.
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const validation = validateSearchParams(request, searchQuerySchema);
+  if (!validation.success) return validation.response;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc('search_team', {
+    p_team_id: id,
+    p_query: validation.data.q,
+    p_limit: validation.data.limit,
+  });
+
+  if (error) {
+    return serverErrorResponse('Failed to search', error);
+  }
+  return NextResponse.json(data);
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { invalidIdResponse, isValidUuid, validateSearchParams, webhookDeliveriesQuerySchema } from '@/lib/validations';
+import { WEBHOOK_DELIVERY_SELECT } from '@/lib/webhooks';
+
+type Params = { params: Promise<{ id: string; webhookId: string }> };
+
+/**
+ * A webhook's delivery log, newest first. Deliveries are kept for 30 days.
+ * RLS limits the log to team owners - members get an empty list.
+ */
+export async function GET(request: Request, { params }: Params) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id, webhookId } = await params;
+  if (!isValidUuid(id) || !isValidUuid(webhookId)) return invalidIdResponse();
+
+  const validation = validateSearchParams(request, webhookDeliveriesQuerySchema);
+  if (!validation.success) return validation.response;
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select(`${WEBHOOK_DELIVERY_SELECT}, webhooks!inner(team_id)`)
+    .eq('webhook_id', webhookId)
+    .eq('webhooks.team_id', id)
+    .order('created_at', { ascending: false })
+    .limit(validation.data.limit);
+
+  if (error) {
+    return serverErrorResponse('Failed to fetch webhook deliveries', error);
+  }
+
+  return NextResponse.json(data.map(({ webhooks: _webhook, ...delivery }) => delivery));
+}
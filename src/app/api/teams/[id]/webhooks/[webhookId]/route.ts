@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { DbErrorCode, notFoundResponse, serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { invalidIdResponse, isValidUuid, updateWebhookSchema, validateRequest } from '@/lib/validations';
+import { WEBHOOK_SELECT, webhookTargetError } from '@/lib/webhooks';
+
+type Params = { params: Promise<{ id: string; webhookId: string }> };
+
+/** Change a webhook's URL, events, description or enabled state (team owners only) */
+export async function PUT(request: Request, { params }: Params) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id, webhookId } = await params;
+  if (!isValidUuid(id) || !isValidUuid(webhookId)) return invalidIdResponse();
+
+  const validation = await validateRequest(request, updateWebhookSchema);
+  if (!validation.success) return validation.response;
+
+  const { events, ...changes } = validation.data;
+  const targetError = changes.url && (await webhookTargetError(changes.url));
+  if (targetError) return NextResponse.json({ error: targetError }, { status: 400 });
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('webhooks')
+    .update({ ...changes, ...(events && { events: [...new Set(events)] }) })
+    .eq('id', webhookId)
+    .eq('team_id', id)
+    .select(WEBHOOK_SELECT)
+    .single();
+
+  if (error) {
+    if (error.code === DbErrorCode.NOT_FOUND) return notFoundResponse('Webhook');
+    return serverErrorResponse('Failed to update webhook', error);
+  }
+
+  return NextResponse.json(data);
+}
+
+/** Remove a webhook and its delivery log (team owners only) */
+export async function DELETE(_request: Request, { params }: Params) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id, webhookId } = await params;
+  if (!isValidUuid(id) || !isValidUuid(webhookId)) return invalidIdResponse();
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('webhooks')
+    .delete()
+    .eq('id', webhookId)
+    .eq('team_id', id)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    return serverErrorResponse('Failed to delete webhook', error);
+  }
+  if (!data) return notFoundResponse('Webhook');
+
+  return NextResponse.json({ success: true });
+}
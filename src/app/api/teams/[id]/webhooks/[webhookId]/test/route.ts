@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { DbErrorCode, notFoundResponse, serverErrorResponse } from '@/lib/errors';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createClient } from '@/lib/supabase/server';
+import { invalidIdResponse, isValidUuid } from '@/lib/validations';
+import { sendTestEvent } from '@/lib/webhooks';
+
+type Params = { params: Promise<{ id: string; webhookId: string }> };
+
+/** Send a `ping` event to a webhook now and return the logged delivery (team owners only) */
+export async function POST(_request: Request, { params }: Params) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id, webhookId } = await params;
+  if (!isValidUuid(id) || !isValidUuid(webhookId)) return invalidIdResponse();
+
+  // RLS limits webhooks to team owners; deliveries are written with the admin client
+  const supabase = await createClient();
+  const { data: webhook, error } = await supabase
+    .from('webhooks')
+    .select('id, team_id, url, secret')
+    .eq('id', webhookId)
+    .eq('team_id', id)
+    .single();
+
+  if (error) {
+    if (error.code === DbErrorCode.NOT_FOUND) return notFoundResponse('Webhook');
+    return serverErrorResponse('Failed to load webhook', error);
+  }
+
+  try {
+    const delivery = await sendTestEvent(createAdminClient(), webhook, {
+      id: auth.user.id,
+      email: auth.user.email ?? null,
+    });
+    return NextResponse.json(delivery);
+  } catch (err) {
+    return serverErrorResponse('Failed to send test event', err);
+  }
+}
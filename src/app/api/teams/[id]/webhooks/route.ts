@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { serverErrorResponse } from '@/lib/errors';
+import { createClient } from '@/lib/supabase/server';
+import { createWebhookSchema, invalidIdResponse, isValidUuid, validateRequest } from '@/lib/validations';
+import { WEBHOOK_SELECT, webhookTargetError } from '@/lib/webhooks';
+
+/** The team's webhooks - RLS limits them to team owners, members get an empty list */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('webhooks')
+    .select(WEBHOOK_SELECT)
+    .eq('team_id', id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    return serverErrorResponse('Failed to fetch webhooks', error);
+  }
+
+  return NextResponse.json(data);
+}
+
+/** Register a webhook endpoint (team owners only); the response includes its signing secret */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireAuth();
+  if (!auth.success) return auth.response;
+
+  const { id } = await params;
+  if (!isValidUuid(id)) return invalidIdResponse();
+
+  const validation = await validateRequest(request, createWebhookSchema);
+  if (!validation.success) return validation.response;
+
+  const { events, ...webhook } = validation.data;
+  const targetError = await webhookTargetError(webhook.url);
+  if (targetError) return NextResponse.json({ error: targetError }, { status: 400 });
+
+  const supabase = await createClient();
+
+  // RLS enforces owner-only writes
+  const { data, error } = await supabase
+    .from('webhooks')
+    .insert({ ...webhook, team_id: id, events: [...new Set(events)] })
+    .select(WEBHOOK_SELECT)
+    .single();
+
+  if (error) {
+    return serverErrorResponse('Failed to create webhook', error);
+  }
+
+  return NextResponse.json(data, { status: 201 });
+}
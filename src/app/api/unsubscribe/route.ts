@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { serverErrorResponse } from '@/lib/errors';
+import { verifyDigestUnsubscribeToken } from '@/lib/mail/digest';
+import { createAdminClient } from '@/lib/supabase/admin';
+
+/**
+ * Turn off email digests with the signed token from a digest's unsubscribe link, without
+ * signing in. Mail clients' one-click unsubscribe posts here with the token in the query;
+ * the unsubscribe page sends it as JSON.
+ */
+export async function POST(request: Request) {
+  const body: { token?: unknown } = await request.json().catch(() => ({}));
+  const token = new URL(request.url).searchParams.get('token') ?? body.token;
+
+  const userId = typeof token === 'string' ? verifyDigestUnsubscribeToken(token) : null;
+  if (!userId) {
+    return NextResponse.json({ error: 'Invalid unsubscribe link' }, { status: 400 });
+  }
+
+  const supabase = createAdminClient();
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, digest_frequency: 'off', updated_at: new Date().toISOString() });
+
+  if (error) {
+    return serverErrorResponse('Failed to unsubscribe', error);
+  }
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { type GitHubIssueEvent, parseIssueEvent } from '@/lib/sync/github';
+import { applyStatusChange, parseWebhookEvent, verifyWebhook } from '@/lib/sync/webhooks';
+
+/**
+ * GitHub `issues` webhook: closing or reopening a synced issue moves the linked story.
+ * Configure the repository webhook with URL `/api/webhooks/github?integration=<integration id>`,
+ * content type `application/json` and the integration's webhook secret.
+ */
+export async function POST(request: Request) {
+  const supabase = createAdminClient();
+  const signature = request.headers.get('x-hub-signature-256')?.replace(/^sha256=/, '') ?? null;
+  const webhook = await verifyWebhook(request, supabase, 'github', signature);
+  if (!webhook.success) return webhook.response;
+
+  if (request.headers.get('x-github-event') !== 'issues') {
+    return NextResponse.json({ ignored: true });
+  }
+
+  const event = parseWebhookEvent<GitHubIssueEvent>(webhook.body);
+  if (!event) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+
+  const change = parseIssueEvent(event);
+  if (!change) {
+    return NextResponse.json({ ignored: true });
+  }
+
+  return applyStatusChange(supabase, webhook.integration.team_id, 'github', change);
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { LINEAR_WEBHOOK_MAX_AGE_MS, type LinearWebhookEvent, parseLinearIssueEvent } from '@/lib/sync/linear';
+import { applyStatusChange, parseWebhookEvent, verifyWebhook } from '@/lib/sync/webhooks';
+import { integrationSettingsSchemas } from '@/lib/validations';
+
+/**
+ * Linear webhook: moving a synced issue to another workflow state moves the linked story,
+ * using the team's status mapping. Configure a Linear webhook for *Issues* with URL
+ * `/api/webhooks/linear?integration=<integration id>` and the integration's webhook secret.
+ */
+export async function POST(request: Request) {
+  const supabase = createAdminClient();
+  const webhook = await verifyWebhook(request, supabase, 'linear', request.headers.get('linear-signature'));
+  if (!webhook.success) return webhook.response;
+
+  const event = parseWebhookEvent<LinearWebhookEvent>(webhook.body);
+  if (!event) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+
+  // Signed but stale (or undated) - guards against replayed deliveries
+  if (
+    !Number.isFinite(event.webhookTimestamp) ||
+    Math.abs(Date.now() - event.webhookTimestamp) > LINEAR_WEBHOOK_MAX_AGE_MS
+  ) {
+    return NextResponse.json({ error: 'Stale webhook' }, { status: 401 });
+  }
+
+  // Without valid settings there is no status mapping - ignored like unmapped states
+  const settings = integrationSettingsSchemas.linear.safeParse(webhook.integration.settings);
+  const change = settings.success ? parseLinearIssueEvent(event, settings.data.status_mapping) : null;
+  if (!change) {
+    return NextResponse.json({ ignored: true });
+  }
+
+  return applyStatusChange(supabase, webhook.integration.team_id, 'linear', change);
+}
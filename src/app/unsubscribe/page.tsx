@@ -0,0 +1,72 @@
+'use client';
+
+import { useSearchParams } from 'next/navigation';
+import { Suspense, useState } from 'react';
+import { extractError, sendJson } from '@/components/story-map/useStoryMapStore';
+import { Button } from '@/components/ui/button';
+import { errorMessage } from '@/lib/errors';
+
+// Public: digest recipients may not be signed in. The confirm step keeps link scanners
+// that prefetch email links from unsubscribing anyone.
+function UnsubscribeForm() {
+  const token = useSearchParams().get('token');
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  const handleUnsubscribe = async () => {
+    setLoading(true);
+    setMessage(null);
+    try {
+      const res = await sendJson('/api/unsubscribe', 'POST', { token });
+      if (!res.ok) throw new Error(await extractError(res, 'Failed to unsubscribe'));
+      setMessage({ type: 'success', text: 'You will no longer receive email digests.' });
+    } catch (err) {
+      setMessage({ type: 'error', text: errorMessage(err) });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const done = message?.type === 'success';
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <div className="w-full max-w-sm space-y-6">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold">Unsubscribe</h1>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Stop BeemSpec email digests. You can turn them back on in notification settings.
+          </p>
+        </div>
+
+        {message && (
+          <p className={`text-center text-sm ${done ? 'text-success' : 'text-destructive'}`}>{message.text}</p>
+        )}
+
+        {!token ? (
+          <p className="text-center text-sm text-destructive">This unsubscribe link is incomplete.</p>
+        ) : (
+          !done && (
+            <Button className="w-full" onClick={handleUnsubscribe} disabled={loading}>
+              {loading ? 'Unsubscribing...' : 'Unsubscribe from digests'}
+            </Button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function UnsubscribePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="flex min-h-screen items-center justify-center">
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      }
+    >
+      <UnsubscribeForm />
+    </Suspense>
+  );
+}
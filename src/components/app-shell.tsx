@@ -1,8 +1,10 @@
 'use client';
 
-import { Check, ChevronDown, LogOut, Plus, Settings, User } from 'lucide-react';
+import { Check, ChevronDown, LogOut, Plus, Search, Settings, User } from 'lucide-react';
 import Link from 'next/link';
 import { useState } from 'react';
+import { CommandPalette, useCommandPaletteShortcut } from '@/components/command-palette';
+import { NotificationBell } from '@/components/notification-bell';
 import { TeamSettingsDialog } from '@/components/team-settings-dialog';
 import { Button } from '@/components/ui/button';
 import {
@@ -25,6 +27,8 @@ type TeamDialog = { type: 'closed' } | { type: 'create' } | { type: 'settings' }
 export function AppShell({ children, userEmail }: AppShellProps) {
   const { teams, currentTeam, setCurrentTeam, reloadTeams } = useTeam();
   const [dialog, setDialog] = useState<TeamDialog>({ type: 'closed' });
+  const [searchOpen, setSearchOpen] = useState(false);
+  useCommandPaletteShortcut(setSearchOpen);
 
   async function handleCreateTeam(name: string) {
     const res = await fetch('/api/teams', {
@@ -46,13 +50,36 @@ export function AppShell({ children, userEmail }: AppShellProps) {
     <div className="flex min-h-screen flex-col">
       <header className="border-b bg-background">
         <div className="flex h-[var(--header-height)] items-center justify-between px-4">
-          {/* Left: Logo */}
-          <Link href="/" className="flex items-center gap-2">
-            <span className="text-lg font-semibold">BeemSpec</span>
-          </Link>
+          {/* Left: Logo + Navigation */}
+          <div className="flex items-center gap-6">
+            <Link href="/" className="flex items-center gap-2">
+              <span className="text-lg font-semibold">BeemSpec</span>
+            </Link>
+            <nav className="flex items-center gap-4 text-sm text-muted-foreground">
+              <Link href="/" className="hover:text-foreground">
+                Story Maps
+              </Link>
+              <Link href="/my-stories" className="hover:text-foreground">
+                My Stories
+              </Link>
+            </nav>
+          </div>
 
-          {/* Right: Team Selector + User Menu */}
+          {/* Right: Search + Team Selector + Notifications + User Menu */}
           <div className="flex items-center gap-3">
+            <Button
+              variant="outline"
+              className="w-[220px] justify-between text-muted-foreground"
+              disabled={!currentTeam}
+              onClick={() => setSearchOpen(true)}
+            >
+              <span className="flex items-center gap-2">
+                <Search className="h-4 w-4" />
+                Search...
+              </span>
+              <kbd className="rounded border bg-muted px-1.5 font-mono text-xs">⌘K</kbd>
+            </Button>
+
             {/* Team Selector */}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -82,6 +109,8 @@ export function AppShell({ children, userEmail }: AppShellProps) {
               </DropdownMenuContent>
             </DropdownMenu>
 
+            <NotificationBell />
+
             {/* User Menu */}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -111,6 +140,8 @@ export function AppShell({ children, userEmail }: AppShellProps) {
 
       <main className="flex-1">{children}</main>
 
+      <CommandPalette open={searchOpen} onOpenChange={setSearchOpen} />
+
       {/* Team Dialogs */}
       <PromptDialog
         open={dialog.type === 'create'}
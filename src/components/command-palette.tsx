@@ -0,0 +1,192 @@
+'use client';
+
+import { FileText, Layers, ListTodo, Search, User } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { useTeam } from '@/lib/contexts/team-context';
+import { cn } from '@/lib/utils';
+import type { SearchEntityType, SearchResult } from '@/types';
+
+/** Wait this long after the last keystroke before searching */
+const SEARCH_DELAY_MS = 150;
+
+const ENTITY_ICONS: Record<SearchEntityType, typeof FileText> = {
+  story: FileText,
+  activity: Layers,
+  task: ListTodo,
+  persona: User,
+};
+
+/** Stories open in their story map's StoryDialog; everything else opens the map */
+function resultHref(result: SearchResult): string {
+  const href = `/story-map/${result.story_map_id}`;
+  return result.entity_type === 'story' ? `${href}?story=${result.id}` : href;
+}
+
+/** Render search_team's <mark></mark> highlights as elements - the text itself is never parsed as HTML */
+function Highlighted({ text }: { text: string }) {
+  const parts = text.split(/<mark>|<\/mark>/);
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          // biome-ignore lint/suspicious/noArrayIndexKey: parts have no identity besides their position
+          <mark key={i} className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-800">
+            {part}
+          </mark>
+        ) : (
+          part
+        ),
+      )}
+    </>
+  );
+}
+
+/** Debounced search of the current team; results of superseded queries are dropped */
+function useTeamSearch(teamId: string | undefined, query: string) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!teamId || !q) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setLoading(true);
+      fetch(`/api/teams/${teamId}/search?q=${encodeURIComponent(q)}`, { signal: controller.signal })
+        .then((r) => (r.ok ? r.json() : []))
+        .then((data: SearchResult[]) => {
+          setResults(data);
+          setLoading(false);
+        })
+        .catch(() => {
+          if (!controller.signal.aborted) setLoading(false);
+        });
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [teamId, query]);
+
+  return { results, loading };
+}
+
+function ResultRow({ result, active, onSelect }: { result: SearchResult; active: boolean; onSelect: () => void }) {
+  const Icon = ENTITY_ICONS[result.entity_type];
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className={cn('flex w-full items-start gap-3 rounded-md px-3 py-2 text-left text-sm', active && 'bg-muted')}
+    >
+      <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+      <span className="min-w-0 flex-1">
+        <span className="block truncate font-medium">
+          <Highlighted text={result.label} />
+        </span>
+        {result.snippet && (
+          <span className="line-clamp-2 text-xs text-muted-foreground">
+            <Highlighted text={result.snippet} />
+          </span>
+        )}
+      </span>
+      <span className="shrink-0 text-xs text-muted-foreground">{result.story_map_name}</span>
+    </button>
+  );
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Search the current team's story maps and jump to a result. Opened with Cmd+K / Ctrl+K. */
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const router = useRouter();
+  const { currentTeam } = useTeam();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const { results, loading } = useTeamSearch(currentTeam?.id, query);
+
+  useEffect(() => {
+    if (open) setQuery('');
+  }, [open]);
+
+  // The previous query's results may be longer than the current ones
+  const active = Math.min(activeIndex, results.length - 1);
+
+  function select(result: SearchResult) {
+    onOpenChange(false);
+    router.push(resultHref(result));
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent) {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[active]) {
+      e.preventDefault();
+      select(results[active]);
+    }
+  }
+
+  const showEmpty = !loading && query.trim() !== '' && results.length === 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent showCloseButton={false} className="top-[20%] translate-y-0 gap-0 p-0 sm:max-w-xl">
+        <DialogTitle className="sr-only">Search</DialogTitle>
+        <div className="flex items-center gap-2 border-b px-3">
+          <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <input
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={currentTeam ? `Search ${currentTeam.name}...` : 'Search...'}
+            className="h-12 flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+          />
+        </div>
+        {(results.length > 0 || showEmpty) && (
+          <div className="max-h-[60vh] overflow-y-auto p-2">
+            {results.map((result, i) => (
+              <ResultRow
+                key={`${result.entity_type}:${result.id}`}
+                result={result}
+                active={i === active}
+                onSelect={() => select(result)}
+              />
+            ))}
+            {showEmpty && <p className="py-6 text-center text-sm text-muted-foreground">No results</p>}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/** Toggle `setOpen` on Cmd+K (macOS) or Ctrl+K */
+export function useCommandPaletteShortcut(setOpen: React.Dispatch<React.SetStateAction<boolean>>) {
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((open) => !open);
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [setOpen]);
+}
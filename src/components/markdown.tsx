@@ -0,0 +1,187 @@
+import type { ReactNode } from 'react';
+import { assertNever } from '@/lib/errors';
+import { cn } from '@/lib/utils';
+
+// =============================================================================
+// Markdown
+// The subset people write in comments: paragraphs, headings, bullet and numbered
+// lists, quotes, fenced code, `code`, **bold**, *italic*, [links](https://...),
+// bare URLs and @mentions. Text is rendered as React elements, never as HTML.
+// =============================================================================
+
+type Block =
+  | { type: 'code'; key: number; text: string }
+  | { type: 'heading'; key: number; text: string }
+  | { type: 'quote'; key: number; text: string }
+  | { type: 'list'; key: number; ordered: boolean; items: string[] }
+  | { type: 'paragraph'; key: number; text: string };
+
+const FENCE = /^\s*```/;
+const HEADING = /^#{1,6}\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const LIST_ITEM = /^\s*(?:[-*+]|(\d+)[.)])\s+(.*)$/;
+
+function isBlockStart(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+}
+
+/** Lines from `start` up to the first that fails `test` */
+function takeWhile(lines: string[], start: number, test: (line: string) => boolean): string[] {
+  const taken: string[] = [];
+  for (let i = start; i < lines.length && test(lines[i]); i++) taken.push(lines[i]);
+  return taken;
+}
+
+/** The block starting at non-blank line `start`, and the line after it */
+function parseBlock(lines: string[], start: number): { block: Block; next: number } {
+  const line = lines[start];
+
+  if (FENCE.test(line)) {
+    // An unclosed fence runs to the end of the text
+    const code = takeWhile(lines, start + 1, (l) => !FENCE.test(l));
+    return { block: { type: 'code', key: start, text: code.join('\n') }, next: start + code.length + 2 };
+  }
+
+  const heading = HEADING.exec(line);
+  if (heading) {
+    return { block: { type: 'heading', key: start, text: heading[1] }, next: start + 1 };
+  }
+
+  if (QUOTE.test(line)) {
+    const quoted = takeWhile(lines, start, (l) => QUOTE.test(l)).map((l) => l.replace(QUOTE, '$1'));
+    return { block: { type: 'quote', key: start, text: quoted.join('\n') }, next: start + quoted.length };
+  }
+
+  const item = LIST_ITEM.exec(line);
+  if (item) {
+    const ordered = item[1] !== undefined;
+    // A switch between bullets and numbers starts a new list
+    const items = takeWhile(lines, start, (l) => {
+      const next = LIST_ITEM.exec(l);
+      return next !== null && (next[1] !== undefined) === ordered;
+    });
+    return {
+      block: { type: 'list', key: start, ordered, items: items.map((l) => LIST_ITEM.exec(l)?.[2] ?? '') },
+      next: start + items.length,
+    };
+  }
+
+  const rest = takeWhile(lines, start + 1, (l) => l.trim() !== '' && !isBlockStart(l));
+  return { block: { type: 'paragraph', key: start, text: [line, ...rest].join('\n') }, next: start + 1 + rest.length };
+}
+
+function parseBlocks(text: string): Block[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].trim() === '') {
+      i++;
+      continue;
+    }
+    const { block, next } = parseBlock(lines, i);
+    blocks.push(block);
+    i = next;
+  }
+  return blocks;
+}
+
+/**
+ * Inline syntax, one alternative per group: `code`, **bold**, *italic* or _italic_,
+ * [text](url), bare URL (trailing punctuation left out) and @email mentions
+ */
+const INLINE =
+  /`([^`\n]+)`|\*\*([^*\n]+)\*\*|\*([^*\s][^*\n]*?)\*|(?<!\w)_([^_\s][^_\n]*?)_(?!\w)|\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)|(https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])|(?<![\w.@])@([\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g;
+
+const LINK_PROPS = { target: '_blank', rel: 'noopener noreferrer', className: 'underline underline-offset-2' };
+
+function inlineElement(match: RegExpExecArray, key: number): ReactNode {
+  const [, code, bold, star, underscore, linkText, linkHref, url, mention] = match;
+  if (code !== undefined) {
+    return (
+      <code key={key} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">
+        {code}
+      </code>
+    );
+  }
+  if (bold !== undefined) return <strong key={key}>{renderInline(bold)}</strong>;
+  const italic = star ?? underscore;
+  if (italic !== undefined) return <em key={key}>{renderInline(italic)}</em>;
+  if (linkHref !== undefined) {
+    return (
+      <a key={key} href={linkHref} {...LINK_PROPS}>
+        {renderInline(linkText)}
+      </a>
+    );
+  }
+  if (url !== undefined) {
+    return (
+      <a key={key} href={url} {...LINK_PROPS}>
+        {url}
+      </a>
+    );
+  }
+  return (
+    <span key={key} className="rounded bg-primary/10 px-1 font-medium text-primary">
+      @{mention}
+    </span>
+  );
+}
+
+function renderInline(text: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    if (match.index > last) nodes.push(text.slice(last, match.index));
+    nodes.push(inlineElement(match, match.index));
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+function renderBlock(block: Block): ReactNode {
+  switch (block.type) {
+    case 'code':
+      return (
+        <pre key={block.key} className="overflow-x-auto rounded-md bg-muted p-2 font-mono text-xs">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case 'heading':
+      return (
+        <p key={block.key} className="font-semibold">
+          {renderInline(block.text)}
+        </p>
+      );
+    case 'quote':
+      return (
+        <blockquote key={block.key} className="whitespace-pre-wrap border-l-2 pl-3 text-muted-foreground">
+          {renderInline(block.text)}
+        </blockquote>
+      );
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={block.key} className={cn('space-y-0.5 pl-5', block.ordered ? 'list-decimal' : 'list-disc')}>
+          {block.items.map((item, i) => (
+            <li key={`${block.key}-${i}-${item}`}>{renderInline(item)}</li>
+          ))}
+        </List>
+      );
+    }
+    case 'paragraph':
+      return (
+        <p key={block.key} className="whitespace-pre-wrap">
+          {renderInline(block.text)}
+        </p>
+      );
+    default:
+      return assertNever(block);
+  }
+}
+
+/** Render comment markdown */
+export function Markdown({ text, className }: { text: string; className?: string }) {
+  return <div className={cn('space-y-2 break-words text-sm', className)}>{parseBlocks(text).map(renderBlock)}</div>;
+}
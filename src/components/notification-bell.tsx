@@ -0,0 +1,181 @@
+'use client';
+
+import { AtSign, Bell, CircleDot, MessageSquare, Settings, UserPlus, Users } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { NotificationPreferencesDialog } from '@/components/notification-preferences-dialog';
+import { sendJson } from '@/components/story-map/useStoryMapStore';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { STATUS_LABELS } from '@/lib/constants';
+import { useTeam } from '@/lib/contexts/team-context';
+import { assertNever } from '@/lib/errors';
+import { cn } from '@/lib/utils';
+import type { AppNotification, NotificationType } from '@/types';
+
+/** How often the unread count is refreshed while the app is open */
+const POLL_INTERVAL_MS = 30_000;
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  mention: AtSign,
+  assignment: UserPlus,
+  comment: MessageSquare,
+  status_change: CircleDot,
+  team_added: Users,
+};
+
+function notificationText(notification: AppNotification): string {
+  const actor = notification.actor_email ?? 'Someone';
+  const { story_title: story = 'a story', team_name: team = 'a team', from, to } = notification.data;
+  switch (notification.type) {
+    case 'mention':
+      return `${actor} mentioned you on "${story}"`;
+    case 'assignment':
+      return `${actor} assigned you "${story}"`;
+    case 'comment':
+      return `${actor} commented on "${story}"`;
+    case 'status_change':
+      return `"${story}" moved from ${from ? STATUS_LABELS[from] : '?'} to ${to ? STATUS_LABELS[to] : '?'}`;
+    case 'team_added':
+      return `${actor} added you to ${team}`;
+    default:
+      return assertNever(notification.type);
+  }
+}
+
+/** Story notifications open the story; team notifications open the team's story maps */
+function notificationHref(notification: AppNotification): string {
+  if (notification.story_map_id && notification.story_id) {
+    return `/story-map/${notification.story_map_id}?story=${notification.story_id}`;
+  }
+  return '/';
+}
+
+/** The latest notifications and unread count, refreshed on an interval and whenever the window regains focus */
+function useNotifications() {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    const res = await fetch('/api/notifications').catch(() => null);
+    if (!res?.ok) return;
+    const data: { notifications: AppNotification[]; unread_count: number } = await res.json();
+    setNotifications(data.notifications);
+    setUnreadCount(data.unread_count);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, POLL_INTERVAL_MS);
+    window.addEventListener('focus', refresh);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('focus', refresh);
+    };
+  }, [refresh]);
+
+  /** Mark the given notifications read, or all of them */
+  function markRead(ids?: string[]) {
+    const now = new Date().toISOString();
+    const marked = notifications.filter((n) => !n.read_at && (!ids || ids.includes(n.id))).length;
+    setNotifications((prev) =>
+      prev.map((n) => (!n.read_at && (!ids || ids.includes(n.id)) ? { ...n, read_at: now } : n)),
+    );
+    setUnreadCount((count) => (ids ? Math.max(count - marked, 0) : 0));
+    sendJson('/api/notifications/read', 'POST', ids ? { ids } : {}).catch(() => refresh());
+  }
+
+  return { notifications, unreadCount, refresh, markRead };
+}
+
+function NotificationItem({ notification, onSelect }: { notification: AppNotification; onSelect: () => void }) {
+  const Icon = TYPE_ICONS[notification.type];
+  const unread = !notification.read_at;
+  return (
+    <DropdownMenuItem onClick={onSelect} className="items-start gap-3 py-2">
+      <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+      <span className="min-w-0 flex-1 space-y-0.5">
+        <span className={cn('block text-sm', unread && 'font-medium')}>{notificationText(notification)}</span>
+        {notification.data.excerpt && (
+          <span className="line-clamp-2 text-xs text-muted-foreground">{notification.data.excerpt}</span>
+        )}
+        <span className="block text-xs text-muted-foreground">
+          {new Date(notification.created_at).toLocaleString()}
+        </span>
+      </span>
+      {unread && <span className="mt-1.5 size-2 shrink-0 rounded-full bg-primary" />}
+    </DropdownMenuItem>
+  );
+}
+
+/** Bell menu in the header: latest notifications, unread count and mark-as-read */
+export function NotificationBell() {
+  const router = useRouter();
+  const { reloadTeams } = useTeam();
+  const { notifications, unreadCount, refresh, markRead } = useNotifications();
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+
+  async function select(notification: AppNotification) {
+    if (!notification.read_at) markRead([notification.id]);
+    if (notification.type === 'team_added' && notification.team_id) {
+      // The team is new to this session's team list
+      await reloadTeams(notification.team_id);
+    }
+    router.push(notificationHref(notification));
+  }
+
+  return (
+    <>
+      <DropdownMenu onOpenChange={(open) => open && refresh()}>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="relative rounded-full">
+            <Bell className="h-5 w-5" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-white">
+                {unreadCount > 99 ? '99+' : unreadCount}
+              </span>
+            )}
+            <span className="sr-only">Notifications</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-96">
+          <div className="flex items-center justify-between px-2 py-1.5">
+            <span className="text-sm font-medium">Notifications</span>
+            {unreadCount > 0 && (
+              <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => markRead()}>
+                Mark all read
+              </Button>
+            )}
+          </div>
+          <DropdownMenuSeparator />
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">You&apos;re all caught up.</p>
+            ) : (
+              notifications.map((notification) => (
+                <NotificationItem
+                  key={notification.id}
+                  notification={notification}
+                  onSelect={() => select(notification)}
+                />
+              ))
+            )}
+          </div>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setPreferencesOpen(true)}>
+            <Settings className="mr-2 h-4 w-4" />
+            Notification settings
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <NotificationPreferencesDialog open={preferencesOpen} onOpenChange={setPreferencesOpen} />
+    </>
+  );
+}
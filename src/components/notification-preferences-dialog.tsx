@@ -0,0 +1,126 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { extractError, sendJson } from '@/components/story-map/useStoryMapStore';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DIGEST_FREQUENCY_OPTIONS, NOTIFICATION_TYPE_OPTIONS } from '@/lib/constants';
+import { errorMessage } from '@/lib/errors';
+import type { DigestFrequency, NotificationPreferences, NotificationType } from '@/types';
+
+const DEFAULT_PREFERENCES: NotificationPreferences = { muted_types: [], digest_frequency: 'weekly' };
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Choose which events create notifications and how often the email digest is sent */
+export function NotificationPreferencesDialog({ open, onOpenChange }: Props) {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPreferences(null);
+    fetch('/api/notifications/preferences')
+      .then((r) => r.json())
+      .then((data: NotificationPreferences) => setPreferences({ ...DEFAULT_PREFERENCES, ...data }))
+      .catch(() => setPreferences(DEFAULT_PREFERENCES));
+  }, [open]);
+
+  function toggle(type: NotificationType, enabled: boolean) {
+    setPreferences(
+      (prev) =>
+        prev && {
+          ...prev,
+          muted_types: enabled ? prev.muted_types.filter((t) => t !== type) : [...prev.muted_types, type],
+        },
+    );
+  }
+
+  async function handleSave() {
+    if (!preferences) return;
+    setSaving(true);
+    try {
+      const res = await sendJson('/api/notifications/preferences', 'PUT', preferences);
+      if (!res.ok) throw new Error(await extractError(res, 'Failed to save notification settings'));
+      toast.success('Notification settings saved');
+      onOpenChange(false);
+    } catch (err) {
+      toast.error(errorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Notification Settings</DialogTitle>
+          <DialogDescription>Choose what you want to be notified about.</DialogDescription>
+        </DialogHeader>
+
+        {preferences === null ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-3">
+              {NOTIFICATION_TYPE_OPTIONS.map((option) => (
+                <label key={option.value} className="flex cursor-pointer items-start gap-3">
+                  <input
+                    type="checkbox"
+                    checked={!preferences.muted_types.includes(option.value)}
+                    onChange={(e) => toggle(option.value, e.target.checked)}
+                    className="mt-0.5 h-4 w-4 accent-primary"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium">{option.label}</span>
+                    <span className="block text-xs text-muted-foreground">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <div className="space-y-2 border-t pt-4">
+              <Label>Email digest</Label>
+              <Select
+                value={preferences.digest_frequency}
+                onValueChange={(value) =>
+                  setPreferences({ ...preferences, digest_frequency: value as DigestFrequency })
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DIGEST_FREQUENCY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                New stories, status changes and comments in the story maps you work on.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!preferences || saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
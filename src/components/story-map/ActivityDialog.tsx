@@ -1,37 +1,42 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import { PersonaPicker } from '@/components/story-map/PersonaPicker';
 import { Button } from '@/components/ui/button';
 import { DeleteButton } from '@/components/ui/delete-button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import type { Activity } from '@/types';
+import type { Activity, Persona, WithPersonas } from '@/types';
 
 interface Props {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  activity: Activity | null;
-  onSave: (data: { name: string }) => void;
+  activity: WithPersonas<Activity> | null;
+  personas: Persona[];
+  onSave: (data: { name: string; persona_ids: string[] }) => void;
   onDelete?: () => void;
 }
 
-export function ActivityDialog({ open, onOpenChange, activity, onSave, onDelete }: Props) {
+export function ActivityDialog({ open, onOpenChange, activity, personas, onSave, onDelete }: Props) {
   const [name, setName] = useState('');
+  const [personaIds, setPersonaIds] = useState<string[]>([]);
 
   // biome-ignore lint/correctness/useExhaustiveDependencies: open is intentionally included to reset form when dialog opens
   useEffect(() => {
     if (activity) {
       setName(activity.name);
+      setPersonaIds(activity.persona_ids);
     } else {
       setName('');
+      setPersonaIds([]);
     }
   }, [activity, open]);
 
   function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     if (name.trim()) {
-      onSave({ name: name.trim() });
+      onSave({ name: name.trim(), persona_ids: personaIds });
     }
   }
 
@@ -53,12 +58,17 @@ export function ActivityDialog({ open, onOpenChange, activity, onSave, onDelete
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="activity-personas">Personas</Label>
+            <PersonaPicker id="activity-personas" personas={personas} value={personaIds} onChange={setPersonaIds} />
+          </div>
+
           <div className="flex justify-between pt-4">
             {onDelete && (
               <DeleteButton
                 onDelete={onDelete}
                 confirmTitle="Delete activity?"
-                confirmDescription="All tasks and stories in this activity will be permanently deleted."
+                confirmDescription="The activity and all its tasks and stories will be moved to the trash."
               />
             )}
             <div className="ml-auto flex gap-2">
@@ -0,0 +1,134 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { extractError, sendJson } from '@/components/story-map/useStoryMapStore';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { errorMessage } from '@/lib/errors';
+import { BUILT_IN_TEMPLATE_IDS, BUILT_IN_TEMPLATES, type BuiltInTemplateId } from '@/lib/templates';
+import type { StoryMap } from '@/types';
+
+/** Select value: 'blank', `builtin:<template id>` or `team:<story map id>` */
+type StartFrom = 'blank' | `builtin:${BuiltInTemplateId}` | `team:${string}`;
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  /** The team's story maps flagged as templates */
+  templates: StoryMap[];
+  onCreated: (storyMap: StoryMap) => void;
+}
+
+/** Blank maps and built-in templates are created by POST /api/story-maps, team templates are duplicated */
+function createRequest(startFrom: StartFrom, fields: { team_id: string; name: string; description: string }) {
+  const description = fields.description || undefined;
+  if (startFrom.startsWith('team:')) {
+    const templateId = startFrom.slice('team:'.length);
+    return sendJson(`/api/story-maps/${templateId}/duplicate`, 'POST', { ...fields, description });
+  }
+  const template = startFrom.startsWith('builtin:') ? startFrom.slice('builtin:'.length) : undefined;
+  return sendJson('/api/story-maps', 'POST', { ...fields, description, template });
+}
+
+export function CreateStoryMapDialog({ open, onOpenChange, teamId, templates, onCreated }: Props) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [startFrom, setStartFrom] = useState<StartFrom>('blank');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setDescription('');
+      setStartFrom('blank');
+      setError(null);
+    }
+  }, [open]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await createRequest(startFrom, { team_id: teamId, name, description });
+      if (!res.ok) throw new Error(await extractError(res, 'Failed to create story map'));
+      onCreated(await res.json());
+      onOpenChange(false);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+    setSaving(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Create Story Map</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="name">Name</Label>
+            <Input id="name" value={name} onChange={(e) => setName(e.target.value)} placeholder="My Product" required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="A brief description..."
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="start-from">Start from</Label>
+            <Select value={startFrom} onValueChange={(v) => setStartFrom(v as StartFrom)}>
+              <SelectTrigger id="start-from" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="blank">Blank story map</SelectItem>
+                {templates.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Team templates</SelectLabel>
+                    {templates.map((t) => (
+                      <SelectItem key={t.id} value={`team:${t.id}`}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+                <SelectGroup>
+                  <SelectLabel>Built-in templates</SelectLabel>
+                  {BUILT_IN_TEMPLATE_IDS.map((id) => (
+                    <SelectItem key={id} value={`builtin:${id}`}>
+                      {BUILT_IN_TEMPLATES[id].name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button type="submit" className="w-full" disabled={saving}>
+            Create
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
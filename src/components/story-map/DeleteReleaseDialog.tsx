@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { isTempId } from '@/lib/story-map-updates';
+import type { DeleteRelease } from '@/lib/validations';
+import type { StoryMapFull } from '@/types';
+
+type StoriesOption = DeleteRelease['stories'];
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storyMap: StoryMapFull;
+  releaseId: string | null;
+  onConfirm: (choice: DeleteRelease) => void;
+}
+
+export function DeleteReleaseDialog({ open, onOpenChange, storyMap, releaseId, onConfirm }: Props) {
+  const [option, setOption] = useState<StoriesOption>('unassign');
+  const [targetId, setTargetId] = useState('');
+
+  const release = storyMap.releases.find((r) => r.id === releaseId);
+  const storyCount = storyMap.activities
+    .flatMap((a) => a.tasks)
+    .flatMap((t) => t.stories)
+    .filter((s) => s.release_id === releaseId).length;
+  // Releases still being created can't take stories yet
+  const targets = storyMap.releases
+    .filter((r) => r.id !== releaseId && !isTempId(r.id))
+    .sort((a, b) => a.sort_order - b.sort_order);
+
+  useEffect(() => {
+    if (open) {
+      setOption('unassign');
+      setTargetId('');
+    }
+  }, [open]);
+
+  const canConfirm = storyCount === 0 || option !== 'move' || targetId !== '';
+
+  function handleConfirm() {
+    if (!canConfirm) return;
+    if (storyCount === 0) {
+      onConfirm({ stories: 'unassign' });
+    } else if (option === 'move') {
+      onConfirm({ stories: 'move', target_release_id: targetId });
+    } else {
+      onConfirm({ stories: option });
+    }
+    onOpenChange(false);
+  }
+
+  const storyLabel = `${storyCount} ${storyCount === 1 ? 'story' : 'stories'}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delete Release</DialogTitle>
+          <DialogDescription>
+            {release?.name ?? 'The release'} will be moved to the trash.
+            {storyCount > 0 && ` Choose what happens to its ${storyLabel}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {storyCount > 0 && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="delete-release-stories">Stories</Label>
+              <Select value={option} onValueChange={(v) => setOption(v as StoriesOption)}>
+                <SelectTrigger id="delete-release-stories" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unassign">Move to Unassigned</SelectItem>
+                  {targets.length > 0 && <SelectItem value="move">Move to another release</SelectItem>}
+                  <SelectItem value="delete">Move to the trash with the release</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {option === 'move' && (
+              <div className="space-y-2">
+                <Label htmlFor="delete-release-target">Release</Label>
+                <Select value={targetId} onValueChange={setTargetId}>
+                  <SelectTrigger id="delete-release-target" className="w-full">
+                    <SelectValue placeholder="Select a release" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {targets.map((r) => (
+                      <SelectItem key={r.id} value={r.id}>
+                        {r.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={!canConfirm}>
+            Delete
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
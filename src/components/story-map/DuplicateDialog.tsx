@@ -0,0 +1,128 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { extractError, sendJson } from '@/components/story-map/useStoryMapStore';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTeam } from '@/lib/contexts/team-context';
+import { errorMessage } from '@/lib/errors';
+import type { StoryMap } from '@/types';
+
+type CopyKind = 'map' | 'template';
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storyMap: StoryMap;
+}
+
+/** Copy the map - into any of the user's teams, as a map or as a template - and open the copy */
+export function DuplicateDialog({ open, onOpenChange, storyMap }: Props) {
+  const router = useRouter();
+  const { teams, setCurrentTeam } = useTeam();
+  const [name, setName] = useState('');
+  const [teamId, setTeamId] = useState(storyMap.team_id);
+  const [kind, setKind] = useState<CopyKind>('map');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(`${storyMap.name} (copy)`);
+      setTeamId(storyMap.team_id);
+      setKind('map');
+    }
+  }, [open, storyMap]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    try {
+      const res = await sendJson(`/api/story-maps/${storyMap.id}/duplicate`, 'POST', {
+        team_id: teamId,
+        name: name.trim(),
+        is_template: kind === 'template',
+      });
+      if (!res.ok) throw new Error(await extractError(res, 'Failed to duplicate story map'));
+      const copy: StoryMap = await res.json();
+
+      const team = teams.find((t) => t.id === copy.team_id);
+      if (team) setCurrentTeam(team);
+      onOpenChange(false);
+      toast.success(kind === 'template' ? 'Saved as template' : 'Story map duplicated');
+      router.push(`/story-map/${copy.id}`);
+    } catch (err) {
+      toast.error(errorMessage(err));
+    }
+    setSaving(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Duplicate Story Map</DialogTitle>
+          <DialogDescription>
+            Copies personas, releases, activities, tasks and stories. Sync settings and history stay with this map.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-name">Name</Label>
+            <Input id="duplicate-name" value={name} onChange={(e) => setName(e.target.value)} required />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="duplicate-team">Team</Label>
+              <Select value={teamId} onValueChange={setTeamId}>
+                <SelectTrigger id="duplicate-team" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {teams.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="duplicate-kind">Save as</Label>
+              <Select value={kind} onValueChange={(v) => setKind(v as CopyKind)}>
+                <SelectTrigger id="duplicate-kind" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="map">Story map</SelectItem>
+                  <SelectItem value="template">Template</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim()}>
+              Duplicate
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { Check, ClipboardCopy, Download } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { errorMessage } from '@/lib/errors';
+import type { ExportFormat } from '@/lib/export';
+
+const DOWNLOADS: { format: ExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown (.md)' },
+  { format: 'json', label: 'JSON (.json)' },
+  { format: 'csv', label: 'CSV (.csv)' },
+];
+
+interface ExportMenuProps {
+  storyMapId: string;
+}
+
+export function ExportMenu({ storyMapId }: ExportMenuProps) {
+  const [copied, setCopied] = useState(false);
+  const exportUrl = (format: ExportFormat) => `/api/story-maps/${storyMapId}/export?format=${format}`;
+
+  async function handleCopyMarkdown() {
+    try {
+      const res = await fetch(exportUrl('markdown'));
+      if (!res.ok) throw new Error('Failed to export story map');
+      await navigator.clipboard.writeText(await res.text());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      toast.error(errorMessage(err));
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        {DOWNLOADS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={exportUrl(format)} download className="flex cursor-pointer items-center">
+              <Download className="mr-2 h-4 w-4" />
+              {label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={(e) => e.preventDefault()} onClick={handleCopyMarkdown}>
+          {copied ? <Check className="mr-2 h-4 w-4" /> : <ClipboardCopy className="mr-2 h-4 w-4" />}
+          {copied ? 'Copied' : 'Copy Markdown'}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
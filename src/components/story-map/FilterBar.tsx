@@ -0,0 +1,153 @@
+'use client';
+
+import { ChevronDown, Eye, EyeOff, Search, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { STATUS_OPTIONS } from '@/lib/constants';
+import {
+  EMPTY_STORY_FILTER,
+  isStoryFilterActive,
+  matchesStoryFilter,
+  NO_RELEASE,
+  type StoryFilter,
+  UNASSIGNED,
+} from '@/lib/story-filter';
+import type { StoryMapFull, TeamMember } from '@/types';
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+/** Multi-select dropdown; the menu stays open while options are toggled */
+function FilterMenu<T extends string>({
+  label,
+  options,
+  selected,
+  onChange,
+}: {
+  label: string;
+  options: { value: T; label: string }[];
+  selected: T[];
+  onChange: (selected: T[]) => void;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm">
+          {label}
+          {selected.length > 0 && (
+            <Badge variant="secondary" className="px-1.5 text-[10px]">
+              {selected.length}
+            </Badge>
+          )}
+          <ChevronDown className="h-3 w-3 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-48">
+        {options.length === 0 && <div className="px-2 py-1.5 text-sm text-muted-foreground">None yet</div>}
+        {options.map((option) => (
+          <DropdownMenuCheckboxItem
+            key={option.value}
+            checked={selected.includes(option.value)}
+            onCheckedChange={() => onChange(toggle(selected, option.value))}
+            onSelect={(e) => e.preventDefault()}
+          >
+            <span className="truncate">{option.label}</span>
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+interface Props {
+  storyMap: StoryMapFull;
+  members: TeamMember[];
+  filter: StoryFilter;
+  onChange: (filter: StoryFilter) => void;
+}
+
+/** Focus the canvas on stories by status, release, persona, assignee and text */
+export function FilterBar({ storyMap, members, filter, onChange }: Props) {
+  const active = isStoryFilterActive(filter);
+  const stories = storyMap.activities.flatMap((a) => a.tasks).flatMap((t) => t.stories);
+  const matching = active ? stories.filter((s) => matchesStoryFilter(s, filter)).length : stories.length;
+
+  const releaseOptions = [
+    ...[...storyMap.releases].sort((a, b) => a.sort_order - b.sort_order).map((r) => ({ value: r.id, label: r.name })),
+    { value: NO_RELEASE, label: 'Backlog' },
+  ];
+  const personaOptions = storyMap.personas.map((p) => ({ value: p.id, label: p.name }));
+  const assigneeOptions = [
+    ...members.map((m) => ({ value: m.user_id, label: m.email })),
+    { value: UNASSIGNED, label: 'Unassigned' },
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 border-b px-4 py-2">
+      <div className="relative w-56">
+        <Search className="absolute top-1/2 left-2.5 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={filter.text}
+          onChange={(e) => onChange({ ...filter, text: e.target.value })}
+          placeholder="Filter stories..."
+          className="h-8 pl-8"
+        />
+      </div>
+      <FilterMenu
+        label="Status"
+        options={STATUS_OPTIONS}
+        selected={filter.statuses}
+        onChange={(statuses) => onChange({ ...filter, statuses })}
+      />
+      <FilterMenu
+        label="Release"
+        options={releaseOptions}
+        selected={filter.releaseIds}
+        onChange={(releaseIds) => onChange({ ...filter, releaseIds })}
+      />
+      <FilterMenu
+        label="Persona"
+        options={personaOptions}
+        selected={filter.personaIds}
+        onChange={(personaIds) => onChange({ ...filter, personaIds })}
+      />
+      <FilterMenu
+        label="Assignee"
+        options={assigneeOptions}
+        selected={filter.assigneeIds}
+        onChange={(assigneeIds) => onChange({ ...filter, assigneeIds })}
+      />
+      <Button
+        variant={filter.collapse ? 'secondary' : 'ghost'}
+        size="sm"
+        onClick={() => onChange({ ...filter, collapse: !filter.collapse })}
+      >
+        {filter.collapse ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+        Hide non-matching
+      </Button>
+      {active && (
+        <>
+          <span className="text-sm text-muted-foreground">
+            {matching} of {stories.length} stories
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...EMPTY_STORY_FILTER, collapse: filter.collapse })}
+          >
+            <X className="h-4 w-4" />
+            Clear
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,9 +2,10 @@ import * as React from 'react';
 import { CARD_HEIGHT, CARD_WIDTH } from '@/components/story-map/constants';
 import { cn } from '@/lib/utils';
 
-type MapCardVariant = 'activity' | 'task' | 'story';
+type MapCardVariant = 'persona' | 'activity' | 'task' | 'story';
 
 const variantStyles: Record<MapCardVariant, string> = {
+  persona: 'bg-violet-100 border-violet-200 dark:bg-violet-900/30 dark:border-violet-800',
   activity: 'bg-amber-100 border-amber-200 dark:bg-amber-900/30 dark:border-amber-800',
   task: 'bg-sky-100 border-sky-200 dark:bg-sky-900/30 dark:border-sky-800',
   story: 'bg-card border shadow-sm',
@@ -0,0 +1,118 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { PresenceAvatar } from '@/components/story-map/PresenceAvatars';
+import { Textarea } from '@/components/ui/textarea';
+import { mentionQueryAt } from '@/lib/mentions';
+import { cn } from '@/lib/utils';
+import type { TeamMember } from '@/types';
+
+const MAX_SUGGESTIONS = 6;
+
+interface Props {
+  value: string;
+  onChange: (value: string) => void;
+  members: TeamMember[];
+  /** Cmd+Enter / Ctrl+Enter */
+  onSubmit: () => void;
+  placeholder?: string;
+  autoFocus?: boolean;
+  disabled?: boolean;
+}
+
+/** Textarea that suggests team members after "@" and inserts "@email" for the one picked */
+export function MentionTextarea({ value, onChange, members, onSubmit, placeholder, autoFocus, disabled }: Props) {
+  const ref = useRef<HTMLTextAreaElement>(null);
+  const [cursor, setCursor] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const mention = cursor === null ? null : mentionQueryAt(value, cursor);
+  const suggestions = mention
+    ? members.filter((m) => m.email.toLowerCase().includes(mention.query.toLowerCase())).slice(0, MAX_SUGGESTIONS)
+    : [];
+  const active = Math.min(activeIndex, suggestions.length - 1);
+
+  function pick(member: TeamMember) {
+    if (!mention || cursor === null) return;
+    const inserted = `@${member.email} `;
+    const next = value.slice(0, mention.start) + inserted + value.slice(cursor);
+    const position = mention.start + inserted.length;
+    onChange(next);
+    setCursor(null);
+    requestAnimationFrame(() => {
+      ref.current?.focus();
+      ref.current?.setSelectionRange(position, position);
+    });
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLTextAreaElement>) {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      onSubmit();
+      return;
+    }
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(Math.min(active + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(Math.max(active - 1, 0));
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      pick(suggestions[active]);
+    } else if (e.key === 'Escape') {
+      // Close the suggestions, not the dialog
+      e.preventDefault();
+      e.stopPropagation();
+      setCursor(null);
+    }
+  }
+
+  function trackCursor(e: React.SyntheticEvent<HTMLTextAreaElement>) {
+    setCursor(e.currentTarget.selectionStart);
+  }
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={ref}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCursor(e.target.selectionStart);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={trackCursor}
+        onKeyUp={trackCursor}
+        onBlur={() => setCursor(null)}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        disabled={disabled}
+        rows={3}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute top-full left-0 z-50 mt-1 w-64 rounded-md border bg-popover p-1 shadow-md">
+          {suggestions.map((member, i) => (
+            <button
+              key={member.user_id}
+              type="button"
+              // Keep focus in the textarea so blur does not close the list before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(member)}
+              className={cn(
+                'flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm',
+                i === active && 'bg-muted',
+              )}
+            >
+              <PresenceAvatar user={member} className="size-5 text-[9px] ring-0" />
+              <span className="truncate">{member.email}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
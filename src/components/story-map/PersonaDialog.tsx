@@ -0,0 +1,116 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { DeleteButton } from '@/components/ui/delete-button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { Persona } from '@/types';
+
+export interface PersonaFormData {
+  name: string;
+  description: string | null;
+  goals: string | null;
+}
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  persona: Persona | null;
+  onSave: (data: PersonaFormData) => void;
+  onDelete?: () => void;
+}
+
+export function PersonaDialog({ open, onOpenChange, persona, onSave, onDelete }: Props) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [goals, setGoals] = useState('');
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: open is intentionally included to reset form when dialog opens
+  useEffect(() => {
+    if (persona) {
+      setName(persona.name);
+      setDescription(persona.description || '');
+      setGoals(persona.goals || '');
+    } else {
+      setName('');
+      setDescription('');
+      setGoals('');
+    }
+  }, [persona, open]);
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (name.trim()) {
+      onSave({
+        name: name.trim(),
+        description: description.trim() || null,
+        goals: goals.trim() || null,
+      });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{persona ? 'Edit Persona' : 'New Persona'}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="persona-name">Name</Label>
+            <Input
+              id="persona-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="First-time shopper"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="persona-description">Description</Label>
+            <Textarea
+              id="persona-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Who they are and the context they work in..."
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="persona-goals">Goals</Label>
+            <Textarea
+              id="persona-goals"
+              value={goals}
+              onChange={(e) => setGoals(e.target.value)}
+              placeholder="- Check out quickly&#10;- Trust that payment is secure"
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-between pt-4">
+            {onDelete && (
+              <DeleteButton
+                onDelete={onDelete}
+                confirmTitle="Delete persona?"
+                confirmDescription="This persona will be permanently deleted and unlinked from all activities, tasks and stories."
+              />
+            )}
+            <div className="ml-auto flex gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim()}>
+                Save
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { ChevronDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import type { Persona } from '@/types';
+
+interface Props {
+  id?: string;
+  personas: Persona[];
+  value: string[];
+  onChange: (personaIds: string[]) => void;
+}
+
+/** Multi-select for linking personas to a story, task or activity */
+export function PersonaPicker({ id, personas, value, onChange }: Props) {
+  if (personas.length === 0) {
+    return <p className="text-sm text-muted-foreground">No personas on this map yet.</p>;
+  }
+
+  const selected = personas.filter((p) => value.includes(p.id));
+
+  function toggle(personaId: string, checked: boolean) {
+    onChange(checked ? [...value, personaId] : value.filter((v) => v !== personaId));
+  }
+
+  return (
+    <DropdownMenu modal={false}>
+      <DropdownMenuTrigger asChild>
+        <Button id={id} type="button" variant="outline" className="w-full justify-between font-normal">
+          <span className={`truncate ${selected.length === 0 ? 'text-muted-foreground' : ''}`}>
+            {selected.length > 0 ? selected.map((p) => p.name).join(', ') : 'No personas'}
+          </span>
+          <ChevronDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-[var(--radix-dropdown-menu-trigger-width)]">
+        {personas.map((persona) => (
+          <DropdownMenuCheckboxItem
+            key={persona.id}
+            checked={value.includes(persona.id)}
+            onCheckedChange={(checked) => toggle(persona.id, checked)}
+            // Keep the menu open so several personas can be picked in a row
+            onSelect={(e) => e.preventDefault()}
+          >
+            {persona.name}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
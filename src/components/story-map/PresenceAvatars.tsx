@@ -0,0 +1,80 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { PresenceUser } from '@/lib/realtime/types';
+import { cn } from '@/lib/utils';
+
+const AVATAR_COLORS = [
+  'bg-rose-500',
+  'bg-orange-500',
+  'bg-emerald-500',
+  'bg-sky-500',
+  'bg-violet-500',
+  'bg-fuchsia-500',
+];
+
+/** Stable per user, so someone has the same color on the header and on cards */
+export function presenceColor(user: PresenceUser): string {
+  const hash = [...user.user_id].reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  return AVATAR_COLORS[hash % AVATAR_COLORS.length];
+}
+
+export function presenceName(user: PresenceUser): string {
+  return user.email ?? 'Someone';
+}
+
+function initials(user: PresenceUser): string {
+  const local = user.email?.split('@')[0] ?? '';
+  const parts = local.split(/[._-]+/).filter(Boolean);
+  return (parts.length > 1 ? parts[0][0] + parts[1][0] : local.slice(0, 2) || '?').toUpperCase();
+}
+
+export function PresenceAvatar({
+  user,
+  label,
+  className,
+}: {
+  user: PresenceUser;
+  /** Tooltip text - defaults to the user's email */
+  label?: string;
+  className?: string;
+}) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={cn(
+            'inline-flex size-7 shrink-0 select-none items-center justify-center rounded-full text-[10px] font-medium text-white ring-2 ring-background',
+            presenceColor(user),
+            className,
+          )}
+        >
+          {initials(user)}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>{label ?? presenceName(user)}</TooltipContent>
+    </Tooltip>
+  );
+}
+
+/** Everyone else viewing the story map */
+export function PresenceAvatars({ peers, max = 5 }: { peers: PresenceUser[]; max?: number }) {
+  if (peers.length === 0) return null;
+  const hidden = peers.slice(max);
+
+  return (
+    <div className="flex items-center -space-x-2">
+      {peers.slice(0, max).map((peer) => (
+        <PresenceAvatar key={peer.user_id} user={peer} label={`${presenceName(peer)} is viewing`} />
+      ))}
+      {hidden.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className="inline-flex size-7 items-center justify-center rounded-full bg-muted text-[10px] font-medium ring-2 ring-background">
+              +{hidden.length}
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>{hidden.map(presenceName).join(', ')}</TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+}
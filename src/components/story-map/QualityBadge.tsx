@@ -0,0 +1,40 @@
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { type QualityLevel, qualityLevel } from '@/lib/quality';
+import { cn } from '@/lib/utils';
+import type { StoryQuality } from '@/types';
+
+const levelStyles: Record<QualityLevel, string> = {
+  good: 'border-emerald-300 text-emerald-700 dark:border-emerald-800 dark:text-emerald-400',
+  fair: 'border-amber-300 text-amber-700 dark:border-amber-800 dark:text-amber-400',
+  poor: 'border-red-300 text-red-700 dark:border-red-800 dark:text-red-400',
+};
+
+export function QualityBadge({ quality, className }: { quality: StoryQuality; className?: string }) {
+  const missing = quality.findings.filter((f) => !f.passed);
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant="outline"
+          className={cn('text-[10px] tabular-nums', levelStyles[qualityLevel(quality.score)], className)}
+        >
+          {quality.score}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent side="bottom" className="max-w-64">
+        <div className="font-medium">Quality score {quality.score}/100</div>
+        {missing.length === 0 ? (
+          <div>All quality checks pass.</div>
+        ) : (
+          <ul className="mt-1 list-disc space-y-0.5 pl-4">
+            {missing.map((f) => (
+              <li key={f.rule}>{f.message}</li>
+            ))}
+          </ul>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
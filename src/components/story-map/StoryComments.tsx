@@ -0,0 +1,297 @@
+'use client';
+
+import { MessageSquare, Pencil, Reply } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Markdown } from '@/components/markdown';
+import { MentionTextarea } from '@/components/story-map/MentionTextarea';
+import { PresenceAvatar } from '@/components/story-map/PresenceAvatars';
+import { extractError, sendJson } from '@/components/story-map/useStoryMapStore';
+import { Button } from '@/components/ui/button';
+import { DeleteButton } from '@/components/ui/delete-button';
+import { useTeam } from '@/lib/contexts/team-context';
+import { errorMessage } from '@/lib/errors';
+import type { StoryComment, TeamMember } from '@/types';
+
+interface Props {
+  storyId: string;
+  /** Team members who can be @mentioned */
+  members: TeamMember[];
+}
+
+function CommentComposer({
+  members,
+  initialBody = '',
+  placeholder,
+  submitLabel,
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: {
+  members: TeamMember[];
+  initialBody?: string;
+  placeholder: string;
+  submitLabel: string;
+  autoFocus?: boolean;
+  /** Resolves true when the comment was saved, which clears the composer */
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState(initialBody);
+  const [saving, setSaving] = useState(false);
+
+  async function submit() {
+    if (!body.trim() || saving) return;
+    setSaving(true);
+    const saved = await onSubmit(body);
+    setSaving(false);
+    if (saved) setBody('');
+  }
+
+  return (
+    <div className="space-y-2">
+      <MentionTextarea
+        value={body}
+        onChange={setBody}
+        members={members}
+        onSubmit={submit}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        disabled={saving}
+      />
+      <div className="flex items-center justify-end gap-2">
+        <span className="mr-auto text-xs text-muted-foreground">Markdown supported · @ to mention</span>
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="button" size="sm" onClick={submit} disabled={!body.trim() || saving}>
+          {saving ? 'Saving...' : submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function CommentItem({
+  comment,
+  members,
+  own,
+  onReply,
+  onEdit,
+  onDelete,
+}: {
+  comment: StoryComment;
+  members: TeamMember[];
+  own: boolean;
+  /** Not set for replies - threads are one level deep */
+  onReply?: () => void;
+  onEdit: (body: string) => Promise<boolean>;
+  onDelete: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const author = { user_id: comment.author_id ?? comment.id, email: comment.author_email };
+  const edited = comment.updated_at !== comment.created_at;
+
+  return (
+    <div className="flex gap-3">
+      <PresenceAvatar user={author} className="size-7 shrink-0 ring-0" />
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">{comment.author_email ?? 'Former member'}</span>
+          <span>
+            {new Date(comment.created_at).toLocaleString()}
+            {edited && ' (edited)'}
+          </span>
+          <div className="ml-auto flex items-center gap-1">
+            {onReply && (
+              <Button type="button" variant="ghost" size="icon" className="h-5 w-5" onClick={onReply} title="Reply">
+                <Reply className="h-3 w-3" />
+              </Button>
+            )}
+            {own && !editing && (
+              <>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5"
+                  onClick={() => setEditing(true)}
+                  title="Edit"
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <DeleteButton
+                  iconOnly
+                  onDelete={onDelete}
+                  confirmTitle="Delete comment?"
+                  confirmDescription={
+                    onReply ? 'The comment and its replies will be deleted.' : 'The reply will be deleted.'
+                  }
+                />
+              </>
+            )}
+          </div>
+        </div>
+        {editing ? (
+          <CommentComposer
+            members={members}
+            initialBody={comment.body}
+            placeholder="Edit comment"
+            submitLabel="Save"
+            autoFocus
+            onSubmit={async (body) => {
+              const saved = await onEdit(body);
+              if (saved) setEditing(false);
+              return saved;
+            }}
+            onCancel={() => setEditing(false)}
+          />
+        ) : (
+          <Markdown text={comment.body} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Load a story's comments and keep them in step with this user's posts, edits and deletes */
+function useStoryComments(storyId: string) {
+  const [comments, setComments] = useState<StoryComment[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setComments(null);
+    setError(null);
+
+    (async () => {
+      try {
+        const res = await fetch(`/api/stories/${storyId}/comments`);
+        if (!res.ok) throw new Error(await extractError(res, 'Failed to load comments'));
+        const data: StoryComment[] = await res.json();
+        if (!cancelled) setComments(data);
+      } catch (err) {
+        if (!cancelled) setError(errorMessage(err));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storyId]);
+
+  /** Send a write and apply the returned comment; false (with a toast) when it failed */
+  async function write(request: Promise<Response>, fallback: string, apply: (comment: StoryComment) => void) {
+    try {
+      const res = await request;
+      if (!res.ok) throw new Error(await extractError(res, fallback));
+      apply(await res.json());
+      return true;
+    } catch (err) {
+      toast.error(errorMessage(err));
+      return false;
+    }
+  }
+
+  function add(body: string, parentId: string | null) {
+    return write(
+      sendJson(`/api/stories/${storyId}/comments`, 'POST', { body, parent_id: parentId }),
+      'Failed to post comment',
+      (comment) => setComments((prev) => [...(prev ?? []), comment]),
+    );
+  }
+
+  function edit(id: string, body: string) {
+    return write(
+      sendJson(`/api/stories/${storyId}/comments/${id}`, 'PUT', { body }),
+      'Failed to update comment',
+      (comment) => setComments((prev) => prev?.map((c) => (c.id === id ? comment : c)) ?? null),
+    );
+  }
+
+  async function remove(id: string) {
+    try {
+      const res = await fetch(`/api/stories/${storyId}/comments/${id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error(await extractError(res, 'Failed to delete comment'));
+      // Replies are deleted with their parent
+      setComments((prev) => prev?.filter((c) => c.id !== id && c.parent_id !== id) ?? null);
+    } catch (err) {
+      toast.error(errorMessage(err));
+    }
+  }
+
+  return { comments, error, add, edit, remove };
+}
+
+export function StoryComments({ storyId, members }: Props) {
+  const { userId } = useTeam();
+  const { comments, error, add, edit, remove } = useStoryComments(storyId);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  if (error) return <p className="py-6 text-center text-sm text-destructive">{error}</p>;
+  if (!comments) return <p className="py-6 text-center text-sm text-muted-foreground">Loading...</p>;
+
+  const threads = comments.filter((c) => !c.parent_id);
+  const repliesTo = (id: string) => comments.filter((c) => c.parent_id === id);
+
+  function item(comment: StoryComment, onReply?: () => void) {
+    return (
+      <CommentItem
+        key={comment.id}
+        comment={comment}
+        members={members}
+        own={comment.author_id === userId}
+        onReply={onReply}
+        onEdit={(body) => edit(comment.id, body)}
+        onDelete={() => remove(comment.id)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {threads.length === 0 ? (
+        <div className="py-6 text-center text-sm text-muted-foreground">
+          <MessageSquare className="mx-auto mb-2 h-8 w-8 opacity-50" />
+          No comments yet. Start the discussion about this story here.
+        </div>
+      ) : (
+        <ol className="space-y-5">
+          {threads.map((thread) => (
+            <li key={thread.id} className="space-y-3">
+              {item(thread, () => setReplyingTo(thread.id))}
+              {(repliesTo(thread.id).length > 0 || replyingTo === thread.id) && (
+                <div className="ml-10 space-y-3 border-l pl-4">
+                  {repliesTo(thread.id).map((reply) => item(reply))}
+                  {replyingTo === thread.id && (
+                    <CommentComposer
+                      members={members}
+                      placeholder="Reply..."
+                      submitLabel="Reply"
+                      autoFocus
+                      onSubmit={async (body) => {
+                        const saved = await add(body, thread.id);
+                        if (saved) setReplyingTo(null);
+                        return saved;
+                      }}
+                      onCancel={() => setReplyingTo(null)}
+                    />
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <CommentComposer
+        members={members}
+        placeholder="Add a comment..."
+        submitLabel="Comment"
+        onSubmit={(body) => add(body, null)}
+      />
+    </div>
+  );
+}
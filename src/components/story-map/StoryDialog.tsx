@@ -1,29 +1,84 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import { PersonaPicker } from '@/components/story-map/PersonaPicker';
+import { PresenceAvatar, presenceName } from '@/components/story-map/PresenceAvatars';
+import { StoryComments } from '@/components/story-map/StoryComments';
+import { StoryHistory } from '@/components/story-map/StoryHistory';
+import { StoryMergeView } from '@/components/story-map/StoryMergeView';
 import { Button } from '@/components/ui/button';
 import { DeleteButton } from '@/components/ui/delete-button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
 import { STATUS_OPTIONS } from '@/lib/constants';
-import type { Release, Story, StoryStatus } from '@/types';
+import type { PresenceState } from '@/lib/realtime/types';
+import type { StoryConflict } from '@/lib/story-merge';
+import type { Persona, Release, Story, StoryStatus, TeamMember, WithPersonas } from '@/types';
 
 interface Props {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  story: Story | null;
+  story: WithPersonas<Story> | null;
   releases: Release[];
+  personas: Persona[];
+  /** Team members the story can be assigned to and comments can mention */
+  members: TeamMember[];
   defaultReleaseId?: string | null;
-  onSave: (story: Partial<Story>) => void;
+  onSave: (story: Partial<WithPersonas<Story>>) => void;
   onDelete?: () => void;
+  /** Other users who have this story open */
+  editors?: PresenceState[];
+  /** Set when saving was rejected as stale - shows the merge view instead of the form */
+  conflict?: StoryConflict;
 }
 
 const NO_RELEASE = '__none__';
+const UNASSIGNED = '__none__';
 
-export function StoryDialog({ open, onOpenChange, story, releases, defaultReleaseId, onSave, onDelete }: Props) {
+function AssigneeSelect({
+  members,
+  value,
+  onChange,
+}: {
+  members: TeamMember[];
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder="Unassigned" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+        {members.map((m) => (
+          <SelectItem key={m.user_id} value={m.user_id}>
+            <PresenceAvatar user={m} className="size-5 text-[9px] ring-0" />
+            <span className="truncate">{m.email}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function StoryDialog({
+  open,
+  onOpenChange,
+  story,
+  releases,
+  personas,
+  members,
+  defaultReleaseId,
+  onSave,
+  onDelete,
+  editors = [],
+  conflict,
+}: Props) {
   const [title, setTitle] = useState('');
   const [requirements, setRequirements] = useState('');
   const [acceptanceCriteria, setAcceptanceCriteria] = useState('');
@@ -32,6 +87,8 @@ export function StoryDialog({ open, onOpenChange, story, releases, defaultReleas
   const [technicalGuidelines, setTechnicalGuidelines] = useState('');
   const [status, setStatus] = useState<StoryStatus>('backlog');
   const [releaseId, setReleaseId] = useState<string>(NO_RELEASE);
+  const [personaIds, setPersonaIds] = useState<string[]>([]);
+  const [assigneeId, setAssigneeId] = useState<string>(UNASSIGNED);
 
   // biome-ignore lint/correctness/useExhaustiveDependencies: open is intentionally included to reset form when dialog opens
   useEffect(() => {
@@ -44,6 +101,8 @@ export function StoryDialog({ open, onOpenChange, story, releases, defaultReleas
       setTechnicalGuidelines(story.technical_guidelines || '');
       setStatus(story.status);
       setReleaseId(story.release_id || NO_RELEASE);
+      setPersonaIds(story.persona_ids);
+      setAssigneeId(story.assignee_id || UNASSIGNED);
     } else {
       setTitle('');
       setRequirements('');
@@ -54,6 +113,8 @@ export function StoryDialog({ open, onOpenChange, story, releases, defaultReleas
       setStatus('backlog');
       // Default to the release that was clicked, or no release
       setReleaseId(defaultReleaseId || NO_RELEASE);
+      setPersonaIds([]);
+      setAssigneeId(UNASSIGNED);
     }
   }, [story, open, defaultReleaseId]);
 
@@ -68,137 +129,198 @@ export function StoryDialog({ open, onOpenChange, story, releases, defaultReleas
       technical_guidelines: technicalGuidelines || null,
       status,
       release_id: releaseId === NO_RELEASE ? null : releaseId,
+      persona_ids: personaIds,
+      assignee_id: assigneeId === UNASSIGNED ? null : assigneeId,
     });
   }
 
-  return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent
-        className="max-w-2xl max-h-[90vh] overflow-y-auto"
-        onOpenAutoFocus={(e) => story && e.preventDefault()}
-      >
-        <DialogHeader>
-          <DialogTitle>{story ? 'Edit Story' : 'New Story'}</DialogTitle>
-        </DialogHeader>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="title">Title *</Label>
-            <Input
-              id="title"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              placeholder="OAuth login with Google"
-              required
-            />
-          </div>
+  const reporter = story?.reporter_id ? members.find((m) => m.user_id === story.reporter_id) : undefined;
 
-          <div className="space-y-2">
-            <Label htmlFor="requirements">Requirements * (What should be built?)</Label>
-            <Textarea
-              id="requirements"
-              value={requirements}
-              onChange={(e) => setRequirements(e.target.value)}
-              placeholder="As a user, I want to sign in with my Google account so that..."
-              rows={3}
-              required
-            />
-          </div>
+  const form = (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="title">Title *</Label>
+        <Input
+          id="title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="OAuth login with Google"
+          required
+        />
+      </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="acceptance">Acceptance Criteria * (How do we know it's done?)</Label>
-            <Textarea
-              id="acceptance"
-              value={acceptanceCriteria}
-              onChange={(e) => setAcceptanceCriteria(e.target.value)}
-              placeholder="- [ ] Google OAuth button on login page&#10;- [ ] Successful auth creates/links user account"
-              rows={3}
-              required
-            />
-          </div>
+      <div className="space-y-2">
+        <Label htmlFor="requirements">Requirements * (What should be built?)</Label>
+        <Textarea
+          id="requirements"
+          value={requirements}
+          onChange={(e) => setRequirements(e.target.value)}
+          placeholder="As a user, I want to sign in with my Google account so that..."
+          rows={3}
+          required
+        />
+      </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="figma">Figma Link</Label>
-            <Input
-              id="figma"
-              value={figmaLink}
-              onChange={(e) => setFigmaLink(e.target.value)}
-              placeholder="https://figma.com/file/..."
-            />
-          </div>
+      <div className="space-y-2">
+        <Label htmlFor="acceptance">Acceptance Criteria * (How do we know it's done?)</Label>
+        <Textarea
+          id="acceptance"
+          value={acceptanceCriteria}
+          onChange={(e) => setAcceptanceCriteria(e.target.value)}
+          placeholder="- [ ] Google OAuth button on login page&#10;- [ ] Successful auth creates/links user account"
+          rows={3}
+          required
+        />
+      </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="edge">Edge Cases (What could go wrong?)</Label>
-            <Textarea
-              id="edge"
-              value={edgeCases}
-              onChange={(e) => setEdgeCases(e.target.value)}
-              placeholder="- User cancels OAuth flow&#10;- Email already exists with password auth"
-              rows={2}
-            />
-          </div>
+      <div className="space-y-2">
+        <Label htmlFor="story-personas">Personas (Who is this for?)</Label>
+        <PersonaPicker id="story-personas" personas={personas} value={personaIds} onChange={setPersonaIds} />
+      </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="technical">Technical Guidelines</Label>
-            <Textarea
-              id="technical"
-              value={technicalGuidelines}
-              onChange={(e) => setTechnicalGuidelines(e.target.value)}
-              placeholder="Use NextAuth.js with Google provider. Follow existing auth patterns..."
-              rows={2}
-            />
-          </div>
+      <div className="space-y-2">
+        <Label htmlFor="figma">Figma Link</Label>
+        <Input
+          id="figma"
+          value={figmaLink}
+          onChange={(e) => setFigmaLink(e.target.value)}
+          placeholder="https://figma.com/file/..."
+        />
+      </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label>Status</Label>
-              <Select value={status} onValueChange={(v) => setStatus(v as StoryStatus)}>
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  {STATUS_OPTIONS.map((s) => (
-                    <SelectItem key={s.value} value={s.value}>
-                      {s.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+      <div className="space-y-2">
+        <Label htmlFor="edge">Edge Cases (What could go wrong?)</Label>
+        <Textarea
+          id="edge"
+          value={edgeCases}
+          onChange={(e) => setEdgeCases(e.target.value)}
+          placeholder="- User cancels OAuth flow&#10;- Email already exists with password auth"
+          rows={2}
+        />
+      </div>
 
-            <div className="space-y-2">
-              <Label>Release</Label>
-              <Select value={releaseId} onValueChange={setReleaseId}>
-                <SelectTrigger>
-                  <SelectValue placeholder="No release" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value={NO_RELEASE}>No release</SelectItem>
-                  {releases.map((r) => (
-                    <SelectItem key={r.id} value={r.id}>
-                      {r.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
+      <div className="space-y-2">
+        <Label htmlFor="technical">Technical Guidelines</Label>
+        <Textarea
+          id="technical"
+          value={technicalGuidelines}
+          onChange={(e) => setTechnicalGuidelines(e.target.value)}
+          placeholder="Use NextAuth.js with Google provider. Follow existing auth patterns..."
+          rows={2}
+        />
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Status</Label>
+          <Select value={status} onValueChange={(v) => setStatus(v as StoryStatus)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_OPTIONS.map((s) => (
+                <SelectItem key={s.value} value={s.value}>
+                  {s.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Release</Label>
+          <Select value={releaseId} onValueChange={setReleaseId}>
+            <SelectTrigger>
+              <SelectValue placeholder="No release" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_RELEASE}>No release</SelectItem>
+              {releases.map((r) => (
+                <SelectItem key={r.id} value={r.id}>
+                  {r.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Assignee</Label>
+          <AssigneeSelect members={members} value={assigneeId} onChange={setAssigneeId} />
+        </div>
+      </div>
+
+      {reporter && <p className="text-xs text-muted-foreground">Reported by {reporter.email}</p>}
+
+      <div className="flex justify-between pt-4">
+        {onDelete && (
+          <DeleteButton
+            onDelete={onDelete}
+            confirmTitle="Delete story?"
+            confirmDescription="This story will be moved to the trash."
+          />
+        )}
+        <div className="ml-auto flex gap-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="submit">Save Story</Button>
+        </div>
+      </div>
+    </form>
+  );
 
-          <div className="flex justify-between pt-4">
-            {onDelete && (
-              <DeleteButton
-                onDelete={onDelete}
-                confirmTitle="Delete story?"
-                confirmDescription="This story will be permanently deleted."
-              />
-            )}
-            <div className="ml-auto flex gap-2">
-              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
-                Cancel
-              </Button>
-              <Button type="submit">Save Story</Button>
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-2xl max-h-[90vh] overflow-y-auto"
+        onOpenAutoFocus={(e) => story && e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle>{conflict ? 'Merge Changes' : story ? 'Edit Story' : 'New Story'}</DialogTitle>
+        </DialogHeader>
+        {editors.length > 0 && (
+          <div className="flex items-center gap-2 rounded-md border border-primary/30 bg-primary/5 px-3 py-2 text-sm">
+            <div className="flex -space-x-1.5">
+              {editors.map((editor) => (
+                <PresenceAvatar key={editor.user_id} user={editor} className="size-6" />
+              ))}
             </div>
+            <span>
+              {editors.map(presenceName).join(', ')} {editors.length === 1 ? 'is' : 'are'} also editing this story.
+            </span>
           </div>
-        </form>
+        )}
+        {conflict ? (
+          <StoryMergeView
+            key={conflict.theirs.updated_at}
+            conflict={conflict}
+            releases={releases}
+            personas={personas}
+            members={members}
+            onSave={onSave}
+            onCancel={() => onOpenChange(false)}
+          />
+        ) : story ? (
+          <Tabs defaultValue="details">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="comments">Comments</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+            <TabsContent value="details" className="mt-4">
+              {form}
+            </TabsContent>
+            <TabsContent value="comments" className="mt-4">
+              <StoryComments storyId={story.id} members={members} />
+            </TabsContent>
+            <TabsContent value="history" className="mt-4">
+              <StoryHistory storyId={story.id} releases={releases} onRestore={onSave} />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          form
+        )}
       </DialogContent>
     </Dialog>
   );
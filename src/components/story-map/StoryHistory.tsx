@@ -0,0 +1,145 @@
+'use client';
+
+import { RotateCcw } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { extractError } from '@/components/story-map/useStoryMapStore';
+import { Button } from '@/components/ui/button';
+import { STATUS_LABELS, STORY_FIELD_LABELS } from '@/lib/constants';
+import { errorMessage } from '@/lib/errors';
+import type { StoryEdit } from '@/lib/story-merge';
+import { diffWords } from '@/lib/word-diff';
+import type { Release, StoryRevision, StoryRevisionField, StoryStatus } from '@/types';
+
+/** Restoring brings back a revision's text; status and release are workflow and stay as they are */
+const RESTORED_FIELDS = [
+  'title',
+  'requirements',
+  'acceptance_criteria',
+  'edge_cases',
+  'technical_guidelines',
+  'figma_link',
+] as const satisfies readonly StoryRevisionField[];
+
+const TEXT_FIELDS = new Set<StoryRevisionField>(RESTORED_FIELDS);
+
+interface Props {
+  storyId: string;
+  releases: Release[];
+  onRestore: (story: StoryEdit) => void;
+}
+
+function DiffText({ before, after }: { before: string; after: string }) {
+  return (
+    <p className="whitespace-pre-wrap break-words text-sm">
+      {diffWords(before, after).map((segment, index) => {
+        const key = `${index}-${segment.op}`;
+        switch (segment.op) {
+          case 'insert':
+            return (
+              <ins
+                key={key}
+                className="bg-emerald-100 text-emerald-900 no-underline dark:bg-emerald-900/40 dark:text-emerald-200"
+              >
+                {segment.text}
+              </ins>
+            );
+          case 'delete':
+            return (
+              <del key={key} className="bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-200">
+                {segment.text}
+              </del>
+            );
+          default:
+            return <span key={key}>{segment.text}</span>;
+        }
+      })}
+    </p>
+  );
+}
+
+export function StoryHistory({ storyId, releases, onRestore }: Props) {
+  const [revisions, setRevisions] = useState<StoryRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRevisions(null);
+    setError(null);
+
+    (async () => {
+      try {
+        const res = await fetch(`/api/stories/${storyId}/revisions`);
+        if (!res.ok) throw new Error(await extractError(res, 'Failed to load history'));
+        const data: StoryRevision[] = await res.json();
+        if (!cancelled) setRevisions(data);
+      } catch (err) {
+        if (!cancelled) setError(errorMessage(err));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [storyId]);
+
+  function display(field: StoryRevisionField, value: unknown): string {
+    if (field === 'status') return STATUS_LABELS[value as StoryStatus];
+    if (field === 'release_id') {
+      return value ? (releases.find((r) => r.id === value)?.name ?? 'Deleted release') : 'No release';
+    }
+    return (value as string | null) || '(empty)';
+  }
+
+  function restore(revision: StoryRevision) {
+    onRestore(Object.fromEntries(RESTORED_FIELDS.map((field) => [field, revision.snapshot[field]])));
+  }
+
+  if (error) return <p className="py-6 text-center text-sm text-destructive">{error}</p>;
+  if (!revisions) return <p className="py-6 text-center text-sm text-muted-foreground">Loading...</p>;
+  if (revisions.length === 0) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-4">
+      {revisions.map((revision, index) => (
+        <li key={revision.id} className="space-y-2 border-b pb-4 last:border-b-0">
+          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span>
+              <span className="font-medium text-foreground">{revision.changed_by_email ?? 'Sync'}</span>{' '}
+              {revision.operation === 'INSERT' ? 'created the story' : 'edited'} ·{' '}
+              {new Date(revision.changed_at).toLocaleString()}
+            </span>
+            {index > 0 && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => restore(revision)}>
+                <RotateCcw className="h-3 w-3" />
+                Restore
+              </Button>
+            )}
+          </div>
+
+          {revision.operation === 'UPDATE' &&
+            (Object.keys(revision.changes) as StoryRevisionField[]).map((field) => {
+              const change = revision.changes[field];
+              if (!change) return null;
+              return (
+                <div key={field} className="space-y-1">
+                  <div className="text-xs font-medium">{STORY_FIELD_LABELS[field]}</div>
+                  {TEXT_FIELDS.has(field) ? (
+                    <DiffText
+                      before={(change.old as string | null) ?? ''}
+                      after={(change.new as string | null) ?? ''}
+                    />
+                  ) : (
+                    <p className="text-sm">
+                      {display(field, change.old)} → {display(field, change.new)}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -18,11 +18,13 @@ import {
   useSortable,
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable';
-import { ArrowDown, ArrowUp, Pencil, Plus } from 'lucide-react';
+import { ArrowDown, ArrowUp, Pencil, Plus, UserRound } from 'lucide-react';
 import { useState } from 'react';
 import { AddButton } from '@/components/story-map/AddButton';
 import { ADD_BUTTON_WIDTH, CARD_GAP, CARD_HEIGHT, CARD_WIDTH, GROUP_GAP } from '@/components/story-map/constants';
 import { MapCard } from '@/components/story-map/MapCard';
+import { PresenceAvatar, presenceName } from '@/components/story-map/PresenceAvatars';
+import { QualityBadge } from '@/components/story-map/QualityBadge';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { DeleteButton } from '@/components/ui/delete-button';
@@ -30,7 +32,20 @@ import { Separator } from '@/components/ui/separator';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { STATUS_LABELS, STATUS_VARIANTS } from '@/lib/constants';
 import { assertNever } from '@/lib/errors';
-import type { Activity, Story, StoryMapFull, Task, TaskWithStories } from '@/types';
+import type { PresenceState } from '@/lib/realtime/types';
+import { isStoryFilterActive, matchesStoryFilter, type StoryFilter } from '@/lib/story-filter';
+import { cn } from '@/lib/utils';
+import type {
+  Activity,
+  ActivityWithTasks,
+  Persona,
+  ScoredStory,
+  StoryMapFull,
+  Task,
+  TaskWithStories,
+  TeamMember,
+  WithPersonas,
+} from '@/types';
 
 /**
  * Type-safe drag ID system using discriminated unions
@@ -93,16 +108,26 @@ function parseDragId(encoded: string): DragId | null {
 interface Props {
   storyMap: StoryMapFull;
   onAddStory: (taskId: string, releaseId: string | null) => void;
-  onEditStory: (story: Story) => void;
+  onEditStory: (story: ScoredStory) => void;
+  onAddPersona: () => void;
+  onEditPersona: (persona: Persona) => void;
   onAddActivity: () => void;
-  onEditActivity: (activity: Activity) => void;
+  onEditActivity: (activity: WithPersonas<Activity>) => void;
   onAddTask: (activityId: string) => void;
-  onEditTask: (task: Task) => void;
+  onEditTask: (task: WithPersonas<Task>) => void;
   onAddRelease: () => void;
   onRenameRelease: (releaseId: string, currentName: string) => void;
   onMoveRelease: (releaseId: string, direction: 'up' | 'down') => void;
   onDeleteRelease: (releaseId: string) => void;
-  onRefresh: () => void;
+  onReorderActivities: (order: string[]) => void;
+  onMoveTask: (taskId: string, activityId: string, index: number) => void;
+  onMoveStory: (storyId: string, taskId: string, releaseId: string | null, index: number) => void;
+  /** Other users viewing the map; cards they are editing are highlighted */
+  peers?: PresenceState[];
+  /** Team members, for the assignee avatars on story cards */
+  members?: TeamMember[];
+  /** Stories that don't match are dimmed, or hidden when the filter collapses */
+  filter?: StoryFilter;
 }
 
 function getGroupWidth(taskCount: number): number {
@@ -121,6 +146,8 @@ export function StoryMapCanvas({
   storyMap,
   onAddStory,
   onEditStory,
+  onAddPersona,
+  onEditPersona,
   onAddActivity,
   onEditActivity,
   onAddTask,
@@ -129,9 +156,14 @@ export function StoryMapCanvas({
   onRenameRelease,
   onMoveRelease,
   onDeleteRelease,
-  onRefresh,
+  onReorderActivities,
+  onMoveTask,
+  onMoveStory,
+  peers = [],
+  members = [],
+  filter,
 }: Props) {
-  const { activities, releases } = storyMap;
+  const { activities, releases, personas } = storyMap;
   const [activeDrag, setActiveDrag] = useState<DragId | null>(null);
   const [dropTargetId, setDropTargetId] = useState<string | null>(null);
 
@@ -154,7 +186,21 @@ export function StoryMapCanvas({
     return allTasksOrdered.filter((t) => t.activityId === activityId);
   }
 
-  function getStoriesForCell(taskId: string, releaseId: string | null): Story[] {
+  function getEditors(storyId: string): PresenceState[] {
+    return peers.filter((p) => p.editing_story_id === storyId);
+  }
+
+  const filterActive = filter !== undefined && isStoryFilterActive(filter);
+
+  function isMatch(story: ScoredStory): boolean {
+    return !filter || !filterActive || matchesStoryFilter(story, filter);
+  }
+
+  function getAssignee(story: ScoredStory): TeamMember | undefined {
+    return story.assignee_id ? members.find((m) => m.user_id === story.assignee_id) : undefined;
+  }
+
+  function getStoriesForCell(taskId: string, releaseId: string | null): ScoredStory[] {
     return sortedStories.filter(
       (s) => s.task_id === taskId && (releaseId ? s.release_id === releaseId : !s.release_id),
     );
@@ -175,7 +221,7 @@ export function StoryMapCanvas({
   }
 
   // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Drag-drop handler must branch on entity types (activity, task, story) and drop targets - complexity is inherent to multi-type DnD
-  async function handleDragEnd(event: DragEndEvent) {
+  function handleDragEnd(event: DragEndEvent) {
     const { active, over } = event;
     setActiveDrag(null);
     setDropTargetId(null);
@@ -197,126 +243,43 @@ export function StoryMapCanvas({
       newOrder.splice(fromIndex, 1);
       newOrder.splice(toIndex, 0, activeParsed.id);
 
-      await fetch('/api/activities', {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ story_map_id: storyMap.id, order: newOrder }),
-      });
-      onRefresh();
+      onReorderActivities(newOrder);
       return;
     }
 
     // Task movement
     if (activeParsed.type === 'task') {
-      const activeTask = allTasksOrdered.find((t) => t.id === activeParsed.id);
-      if (!activeTask) return;
-
       if (overParsed.type === 'task') {
         const overTask = allTasksOrdered.find((t) => t.id === overParsed.id);
         if (!overTask) return;
-
-        const targetActivityId = overTask.activityId;
-        const tasksInTarget = getTasksForActivity(targetActivityId);
-        const newOrder = tasksInTarget.filter((t) => t.id !== activeParsed.id).map((t) => t.id);
-        const toIndex = newOrder.indexOf(overParsed.id);
-        newOrder.splice(toIndex, 0, activeParsed.id);
-
-        if (activeTask.activityId !== targetActivityId) {
-          await fetch(`/api/tasks/${activeParsed.id}`, {
-            method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ activity_id: targetActivityId }),
-          });
-        }
-
-        await fetch('/api/tasks', {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ activity_id: targetActivityId, order: newOrder }),
-        });
-        onRefresh();
+        const siblings = getTasksForActivity(overTask.activityId).filter((t) => t.id !== activeParsed.id);
+        onMoveTask(activeParsed.id, overTask.activityId, siblings.indexOf(overTask));
         return;
       }
 
       if (overParsed.type === 'task-end') {
-        const targetActivityId = overParsed.activityId;
-        const tasksInTarget = getTasksForActivity(targetActivityId);
-        const newOrder = tasksInTarget.filter((t) => t.id !== activeParsed.id).map((t) => t.id);
-        newOrder.push(activeParsed.id);
-
-        if (activeTask.activityId !== targetActivityId) {
-          await fetch(`/api/tasks/${activeParsed.id}`, {
-            method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ activity_id: targetActivityId }),
-          });
-        }
-
-        await fetch('/api/tasks', {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ activity_id: targetActivityId, order: newOrder }),
-        });
-        onRefresh();
+        const siblings = getTasksForActivity(overParsed.activityId).filter((t) => t.id !== activeParsed.id);
+        onMoveTask(activeParsed.id, overParsed.activityId, siblings.length);
         return;
       }
     }
 
     // Story movement
     if (activeParsed.type === 'story') {
-      const activeStory = sortedStories.find((s) => s.id === activeParsed.id);
-      if (!activeStory) return;
-
       if (overParsed.type === 'story') {
         const overStory = sortedStories.find((s) => s.id === overParsed.id);
         if (!overStory) return;
-
-        const targetStories = getStoriesForCell(overStory.task_id, overStory.release_id);
-        const newOrder = targetStories.filter((s) => s.id !== activeParsed.id).map((s) => s.id);
-        const toIndex = newOrder.indexOf(overParsed.id);
-        newOrder.splice(toIndex, 0, activeParsed.id);
-
-        if (activeStory.task_id !== overStory.task_id || activeStory.release_id !== overStory.release_id) {
-          await fetch(`/api/stories/${activeParsed.id}`, {
-            method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ task_id: overStory.task_id, release_id: overStory.release_id }),
-          });
-        }
-
-        await fetch('/api/stories', {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            task_id: overStory.task_id,
-            release_id: overStory.release_id,
-            order: newOrder,
-          }),
-        });
-        onRefresh();
+        const siblings = getStoriesForCell(overStory.task_id, overStory.release_id).filter(
+          (s) => s.id !== activeParsed.id,
+        );
+        onMoveStory(activeParsed.id, overStory.task_id, overStory.release_id, siblings.indexOf(overStory));
         return;
       }
 
       if (overParsed.type === 'story-end') {
         const { taskId, releaseId } = overParsed;
-        const targetStories = getStoriesForCell(taskId, releaseId);
-        const newOrder = targetStories.filter((s) => s.id !== activeParsed.id).map((s) => s.id);
-        newOrder.push(activeParsed.id);
-
-        if (activeStory.task_id !== taskId || activeStory.release_id !== releaseId) {
-          await fetch(`/api/stories/${activeParsed.id}`, {
-            method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ task_id: taskId, release_id: releaseId }),
-          });
-        }
-
-        await fetch('/api/stories', {
-          method: 'PUT',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ task_id: taskId, release_id: releaseId, order: newOrder }),
-        });
-        onRefresh();
+        const siblings = getStoriesForCell(taskId, releaseId).filter((s) => s.id !== activeParsed.id);
+        onMoveStory(activeParsed.id, taskId, releaseId, siblings.length);
         return;
       }
     }
@@ -331,14 +294,19 @@ export function StoryMapCanvas({
     return dropTargetId === itemId;
   }
 
+  const personaLane = <PersonaLane personas={personas} onAddPersona={onAddPersona} onEditPersona={onEditPersona} />;
+
   if (activities.length === 0) {
     return (
-      <div className="flex flex-col items-center justify-center py-16 text-muted-foreground">
-        <p className="mb-4">Add an activity to get started.</p>
-        <Button variant="outline" onClick={onAddActivity}>
-          <Plus className="mr-2 h-4 w-4" />
-          Add Activity
-        </Button>
+      <div>
+        {personaLane}
+        <div className="flex flex-col items-center justify-center py-16 text-muted-foreground">
+          <p className="mb-4">Add an activity to get started.</p>
+          <Button variant="outline" onClick={onAddActivity}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Activity
+          </Button>
+        </div>
       </div>
     );
   }
@@ -352,6 +320,8 @@ export function StoryMapCanvas({
       onDragEnd={handleDragEnd}
     >
       <div className="inline-flex flex-col">
+        {personaLane}
+
         {/* Activities Row */}
         <SortableContext
           items={sortedActivities.map((a) => encodeDragId({ type: 'activity', id: a.id }))}
@@ -426,6 +396,10 @@ export function StoryMapCanvas({
                     activities={sortedActivities}
                     getTasksForActivity={getTasksForActivity}
                     getStoriesForCell={getStoriesForCell}
+                    getEditors={getEditors}
+                    getAssignee={getAssignee}
+                    isMatch={isMatch}
+                    collapse={filterActive && filter.collapse}
                     onAddStory={onAddStory}
                     onEditStory={onEditStory}
                     onRename={() => onRenameRelease(release.id, release.name)}
@@ -449,6 +423,10 @@ export function StoryMapCanvas({
               activities={sortedActivities}
               getTasksForActivity={getTasksForActivity}
               getStoriesForCell={getStoriesForCell}
+              getEditors={getEditors}
+              getAssignee={getAssignee}
+              isMatch={isMatch}
+              collapse={filterActive && filter.collapse}
               onAddStory={onAddStory}
               onEditStory={onEditStory}
               isDropTarget={isDropTarget}
@@ -471,11 +449,7 @@ export function StoryMapCanvas({
         {draggedStory && (
           <MapCard variant="story" className="shadow-lg cursor-grabbing">
             <div className="text-xs line-clamp-3">{draggedStory.title}</div>
-            {draggedStory.status !== 'backlog' && (
-              <Badge variant={STATUS_VARIANTS[draggedStory.status]} className="mt-auto text-[10px] self-start">
-                {STATUS_LABELS[draggedStory.status]}
-              </Badge>
-            )}
+            <StoryCardFooter story={draggedStory} assignee={getAssignee(draggedStory)} />
           </MapCard>
         )}
       </DragOverlay>
@@ -483,6 +457,41 @@ export function StoryMapCanvas({
   );
 }
 
+function PersonaLane({
+  personas,
+  onAddPersona,
+  onEditPersona,
+}: {
+  personas: Persona[];
+  onAddPersona: () => void;
+  onEditPersona: (persona: Persona) => void;
+}) {
+  const sortedPersonas = [...personas].sort((a, b) => a.sort_order - b.sort_order);
+
+  return (
+    <div className="mb-6">
+      <div className="mb-2 text-sm font-medium text-muted-foreground">Personas</div>
+      <div className="flex" style={{ gap: CARD_GAP }}>
+        {sortedPersonas.map((persona) => (
+          <MapCard key={persona.id} variant="persona" className="cursor-pointer" onClick={() => onEditPersona(persona)}>
+            <div className="flex items-center gap-1 text-sm font-medium">
+              <UserRound className="h-3 w-3 shrink-0" />
+              <span className="line-clamp-2">{persona.name}</span>
+            </div>
+            {persona.goals && <div className="mt-1 text-xs text-muted-foreground line-clamp-3">{persona.goals}</div>}
+          </MapCard>
+        ))}
+        <AddButton
+          label="Persona"
+          orientation="vertical"
+          style={{ width: ADD_BUTTON_WIDTH, height: CARD_HEIGHT }}
+          onClick={onAddPersona}
+        />
+      </div>
+    </div>
+  );
+}
+
 function AddTaskDropZone({
   activityId,
   onAddTask,
@@ -515,7 +524,7 @@ function SortableActivity({
   onClick,
   showIndicator,
 }: {
-  activity: Activity;
+  activity: ActivityWithTasks;
   onClick: () => void;
   showIndicator: boolean;
 }) {
@@ -572,9 +581,13 @@ interface ReleaseRowProps {
   releaseId: string | null;
   activities: Activity[];
   getTasksForActivity: (activityId: string) => (TaskWithStories & { activityId: string })[];
-  getStoriesForCell: (taskId: string, releaseId: string | null) => Story[];
+  getStoriesForCell: (taskId: string, releaseId: string | null) => ScoredStory[];
+  getEditors: (storyId: string) => PresenceState[];
+  getAssignee: (story: ScoredStory) => TeamMember | undefined;
+  isMatch: (story: ScoredStory) => boolean;
+  collapse: boolean;
   onAddStory: (taskId: string, releaseId: string | null) => void;
-  onEditStory: (story: Story) => void;
+  onEditStory: (story: ScoredStory) => void;
   onRename?: () => void;
   onMoveUp?: () => void;
   onMoveDown?: () => void;
@@ -605,6 +618,10 @@ function ReleaseRow({
   activities,
   getTasksForActivity,
   getStoriesForCell,
+  getEditors,
+  getAssignee,
+  isMatch,
+  collapse,
   onAddStory,
   onEditStory,
   onRename,
@@ -663,12 +680,7 @@ function ReleaseRow({
             {onDelete && (
               <Tooltip>
                 <TooltipTrigger asChild>
-                  <DeleteButton
-                    onDelete={onDelete}
-                    iconOnly
-                    confirmTitle="Delete release?"
-                    confirmDescription="All stories in this release will be permanently deleted."
-                  />
+                  <DeleteButton onDelete={onDelete} iconOnly />
                 </TooltipTrigger>
                 <TooltipContent>Delete</TooltipContent>
               </Tooltip>
@@ -688,6 +700,10 @@ function ReleaseRow({
                   taskId={task.id}
                   releaseId={releaseId}
                   stories={getStoriesForCell(task.id, releaseId)}
+                  getEditors={getEditors}
+                  getAssignee={getAssignee}
+                  isMatch={isMatch}
+                  collapse={collapse}
                   onAddStory={onAddStory}
                   onEditStory={onEditStory}
                   isDropTarget={isDropTarget}
@@ -706,23 +722,35 @@ function StoryCell({
   taskId,
   releaseId,
   stories,
+  getEditors,
+  getAssignee,
+  isMatch,
+  collapse,
   onAddStory,
   onEditStory,
   isDropTarget,
 }: {
   taskId: string;
   releaseId: string | null;
-  stories: Story[];
+  stories: ScoredStory[];
+  getEditors: (storyId: string) => PresenceState[];
+  getAssignee: (story: ScoredStory) => TeamMember | undefined;
+  isMatch: (story: ScoredStory) => boolean;
+  /** Leave out non-matching stories instead of dimming them */
+  collapse: boolean;
   onAddStory: (taskId: string, releaseId: string | null) => void;
-  onEditStory: (story: Story) => void;
+  onEditStory: (story: ScoredStory) => void;
   isDropTarget: (itemId: string) => boolean;
 }) {
   return (
     <div className="flex flex-col gap-2 min-h-[40px]" style={{ width: CARD_WIDTH }}>
-      {stories.map((story) => (
+      {(collapse ? stories.filter(isMatch) : stories).map((story) => (
         <SortableStory
           key={story.id}
           story={story}
+          dimmed={!isMatch(story)}
+          assignee={getAssignee(story)}
+          editors={getEditors(story.id)}
           onClick={() => onEditStory(story)}
           showIndicator={isDropTarget(encodeDragId({ type: 'story', id: story.id }))}
         />
@@ -762,10 +790,18 @@ function AddStoryDropZone({
 
 function SortableStory({
   story,
+  dimmed,
+  assignee,
+  editors,
   onClick,
   showIndicator,
 }: {
-  story: Story;
+  story: ScoredStory;
+  /** Doesn't match the canvas filter */
+  dimmed: boolean;
+  assignee: TeamMember | undefined;
+  /** Other users with this story open in their StoryDialog */
+  editors: PresenceState[];
   onClick: () => void;
   showIndicator: boolean;
 }) {
@@ -780,19 +816,52 @@ function SortableStory({
         ref={setNodeRef}
         variant="story"
         isDragging={isDragging}
+        className={cn('relative', editors.length > 0 && 'ring-2 ring-primary', dimmed && 'opacity-30')}
         {...attributes}
         {...listeners}
         onClick={() => {
           if (!isDragging) onClick();
         }}
       >
-        <div className="text-xs line-clamp-3">{story.title}</div>
-        {story.status !== 'backlog' && (
-          <Badge variant={STATUS_VARIANTS[story.status]} className="mt-auto text-[10px] self-start">
-            {STATUS_LABELS[story.status]}
-          </Badge>
+        {editors.length > 0 && (
+          <div className="absolute -top-2 -right-2 flex -space-x-1.5">
+            {editors.map((editor) => (
+              <PresenceAvatar
+                key={editor.user_id}
+                user={editor}
+                label={`${presenceName(editor)} is editing`}
+                className="size-5 text-[9px]"
+              />
+            ))}
+          </div>
         )}
+        <div className="text-xs line-clamp-3">{story.title}</div>
+        <StoryCardFooter story={story} assignee={assignee} />
       </MapCard>
     </div>
   );
 }
+
+function StoryCardFooter({ story, assignee }: { story: ScoredStory; assignee: TeamMember | undefined }) {
+  return (
+    <div className="mt-auto flex items-center justify-between gap-1">
+      {story.status !== 'backlog' ? (
+        <Badge variant={STATUS_VARIANTS[story.status]} className="text-[10px]">
+          {STATUS_LABELS[story.status]}
+        </Badge>
+      ) : (
+        <span />
+      )}
+      <div className="flex items-center gap-1">
+        {assignee && (
+          <PresenceAvatar
+            user={assignee}
+            label={`Assigned to ${presenceName(assignee)}`}
+            className="size-5 text-[9px] ring-0"
+          />
+        )}
+        <QualityBadge quality={story.quality} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { STATUS_LABELS, STORY_FIELD_LABELS } from '@/lib/constants';
+import { resolveStoryConflict, type StoryConflict, type StoryEdit, type StoryMergeField } from '@/lib/story-merge';
+import { cn } from '@/lib/utils';
+import type { Persona, Release, StoryStatus, TeamMember } from '@/types';
+
+interface Props {
+  conflict: StoryConflict;
+  releases: Release[];
+  personas: Persona[];
+  members: TeamMember[];
+  onSave: (story: StoryEdit) => void;
+  onCancel: () => void;
+}
+
+function listFields(fields: StoryMergeField[]): string {
+  return fields.map((f) => STORY_FIELD_LABELS[f].toLowerCase()).join(', ');
+}
+
+function MergeOption({
+  title,
+  selected,
+  onSelect,
+  children,
+}: {
+  title: string;
+  selected: boolean;
+  onSelect: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={selected}
+      onClick={onSelect}
+      className={cn(
+        'flex flex-col gap-1 rounded-md border p-3 text-left text-sm transition-colors cursor-pointer',
+        selected ? 'border-primary bg-primary/5' : 'hover:bg-muted/50',
+      )}
+    >
+      <span className="text-xs font-medium text-muted-foreground">{title}</span>
+      <span className="max-h-40 overflow-y-auto whitespace-pre-wrap break-words">{children}</span>
+    </button>
+  );
+}
+
+/** Field-level merge of a story edit that was based on an outdated version */
+export function StoryMergeView({ conflict, releases, personas, members, onSave, onCancel }: Props) {
+  const [keepMine, setKeepMine] = useState<StoryMergeField[]>(conflict.fields);
+  const merged = Object.keys(conflict.merged) as StoryMergeField[];
+
+  function display(field: StoryMergeField, value: unknown): string {
+    switch (field) {
+      case 'status':
+        return STATUS_LABELS[value as StoryStatus];
+      case 'release_id':
+        return releases.find((r) => r.id === value)?.name ?? 'No release';
+      case 'persona_ids': {
+        const names = personas.filter((p) => (value as string[]).includes(p.id)).map((p) => p.name);
+        return names.length > 0 ? names.join(', ') : 'None';
+      }
+      case 'assignee_id':
+        return members.find((m) => m.user_id === value)?.email ?? 'Unassigned';
+      default:
+        return (value as string | null) || '(empty)';
+    }
+  }
+
+  function choose(field: StoryMergeField, mine: boolean) {
+    setKeepMine((current) => {
+      const others = current.filter((f) => f !== field);
+      return mine ? [...others, field] : others;
+    });
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm dark:border-amber-800 dark:bg-amber-900/20">
+        Someone else saved this story while you were editing it. Pick the version to keep for each field both of you
+        changed.
+        {merged.length > 0 && ` Your changes to ${listFields(merged)} don't clash and are kept.`}
+      </div>
+
+      {conflict.fields.map((field) => {
+        const mine = keepMine.includes(field);
+        return (
+          <fieldset key={field} className="space-y-2">
+            <legend className="text-sm font-medium">{STORY_FIELD_LABELS[field]}</legend>
+            <div className="grid grid-cols-2 gap-2">
+              <MergeOption title="Your version" selected={mine} onSelect={() => choose(field, true)}>
+                {display(field, conflict.mine[field])}
+              </MergeOption>
+              <MergeOption title="Their version" selected={!mine} onSelect={() => choose(field, false)}>
+                {display(field, conflict.theirs[field])}
+              </MergeOption>
+            </div>
+          </fieldset>
+        );
+      })}
+
+      <div className="flex justify-end gap-2 pt-4">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Discard my changes
+        </Button>
+        <Button type="button" onClick={() => onSave(resolveStoryConflict(conflict, keepMine))}>
+          Save Merged
+        </Button>
+      </div>
+    </div>
+  );
+}
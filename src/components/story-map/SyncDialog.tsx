@@ -0,0 +1,200 @@
+'use client';
+
+import { ExternalLink, Loader2, RefreshCw } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { errorMessage } from '@/lib/errors';
+import type { SyncReport } from '@/lib/sync/engine';
+import { SYNC_PROVIDER_IDS, SYNC_PROVIDERS } from '@/lib/sync/providers';
+import type { Release, SyncProvider, SyncTarget } from '@/types';
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storyMapId: string;
+  releases: Release[];
+}
+
+type ReleaseSyncState = { type: 'syncing' } | { type: 'done'; report: SyncReport } | { type: 'error'; message: string };
+
+function syncSummary(report: SyncReport): string {
+  const synced = `Synced ${report.stories.length} ${report.stories.length === 1 ? 'story' : 'stories'}`;
+  return report.failed.length > 0 ? `${synced}, ${report.failed.length} failed` : synced;
+}
+
+export function SyncDialog({ open, onOpenChange, storyMapId, releases }: Props) {
+  const [provider, setProvider] = useState<SyncProvider>(SYNC_PROVIDER_IDS[0]);
+  const [targets, setTargets] = useState<SyncTarget[]>([]);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [releaseSync, setReleaseSync] = useState<Record<string, ReleaseSyncState>>({});
+
+  const info = SYNC_PROVIDERS[provider];
+  const target = targets.find((t) => t.provider === provider);
+  const complete = info.targetFields.every((field) => values[field.key]?.trim());
+
+  const loadTargets = useCallback(async () => {
+    const res = await fetch(`/api/story-maps/${storyMapId}/sync-targets`);
+    if (res.ok) {
+      setTargets(await res.json());
+    }
+  }, [storyMapId]);
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      setReleaseSync({});
+      loadTargets();
+    }
+  }, [open, loadTargets]);
+
+  useEffect(() => {
+    setValues(target?.target ?? {});
+  }, [target]);
+
+  async function handleSaveTarget(e: React.FormEvent) {
+    e.preventDefault();
+    if (!complete) return;
+
+    setSaving(true);
+    setError(null);
+    const res = await fetch(`/api/story-maps/${storyMapId}/sync-targets/${provider}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values),
+    });
+
+    if (res.ok) {
+      await loadTargets();
+    } else {
+      const data = await res.json();
+      setError(data.error || 'Failed to save');
+    }
+    setSaving(false);
+  }
+
+  async function handleSync(releaseId: string) {
+    setReleaseSync((prev) => ({ ...prev, [releaseId]: { type: 'syncing' } }));
+    try {
+      const res = await fetch(`/api/releases/${releaseId}/sync/${provider}`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to sync release');
+      setReleaseSync((prev) => ({ ...prev, [releaseId]: { type: 'done', report: data } }));
+    } catch (err) {
+      setReleaseSync((prev) => ({ ...prev, [releaseId]: { type: 'error', message: errorMessage(err) } }));
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Sync</DialogTitle>
+          <DialogDescription>
+            Push the stories of a release to {info.label}. Re-syncing updates the linked items.
+          </DialogDescription>
+        </DialogHeader>
+
+        {SYNC_PROVIDER_IDS.length > 1 && (
+          <div className="flex gap-2">
+            {SYNC_PROVIDER_IDS.map((id) => (
+              <Button
+                key={id}
+                size="sm"
+                variant={id === provider ? 'default' : 'outline'}
+                onClick={() => setProvider(id)}
+              >
+                {SYNC_PROVIDERS[id].label}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSaveTarget} className="space-y-2">
+          <div className="flex items-end gap-2">
+            {info.targetFields.map((field) => (
+              <div key={field.key} className="flex-1 space-y-2">
+                <Label htmlFor={`sync-${field.key}`}>{field.label}</Label>
+                {field.options ? (
+                  <Select
+                    value={values[field.key] ?? ''}
+                    onValueChange={(value) => setValues((prev) => ({ ...prev, [field.key]: value }))}
+                    disabled={saving}
+                  >
+                    <SelectTrigger id={`sync-${field.key}`} className="w-full">
+                      <SelectValue placeholder="Select..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {field.options.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id={`sync-${field.key}`}
+                    placeholder={field.placeholder}
+                    value={values[field.key] ?? ''}
+                    onChange={(e) => setValues((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                    disabled={saving}
+                  />
+                )}
+              </div>
+            ))}
+            <Button type="submit" disabled={!complete || saving}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : target ? 'Update' : 'Connect'}
+            </Button>
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </form>
+
+        <Separator />
+
+        <div className="space-y-2">
+          {releases.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">No releases to sync</p>
+          ) : (
+            releases.map((release) => {
+              const state = releaseSync[release.id];
+              return (
+                <div key={release.id} className="flex items-center justify-between gap-2 rounded-md border px-3 py-2">
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="truncate text-sm font-medium">{release.name}</div>
+                    {state?.type === 'done' && (
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                        {syncSummary(state.report)}
+                        {state.report.release.url && (
+                          <a href={state.report.release.url} target="_blank" rel="noreferrer" className="inline-flex">
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        )}
+                      </div>
+                    )}
+                    {state?.type === 'error' && <div className="text-xs text-destructive">{state.message}</div>}
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={!target || state?.type === 'syncing'}
+                    onClick={() => handleSync(release.id)}
+                  >
+                    <RefreshCw className={state?.type === 'syncing' ? 'h-4 w-4 animate-spin' : 'h-4 w-4'} />
+                    Sync
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
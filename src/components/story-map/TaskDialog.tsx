@@ -1,37 +1,42 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import { PersonaPicker } from '@/components/story-map/PersonaPicker';
 import { Button } from '@/components/ui/button';
 import { DeleteButton } from '@/components/ui/delete-button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import type { Task } from '@/types';
+import type { Persona, Task, WithPersonas } from '@/types';
 
 interface Props {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  task: Task | null;
-  onSave: (data: { name: string }) => void;
+  task: WithPersonas<Task> | null;
+  personas: Persona[];
+  onSave: (data: { name: string; persona_ids: string[] }) => void;
   onDelete?: () => void;
 }
 
-export function TaskDialog({ open, onOpenChange, task, onSave, onDelete }: Props) {
+export function TaskDialog({ open, onOpenChange, task, personas, onSave, onDelete }: Props) {
   const [name, setName] = useState('');
+  const [personaIds, setPersonaIds] = useState<string[]>([]);
 
   // biome-ignore lint/correctness/useExhaustiveDependencies: open is intentionally included to reset form when dialog opens
   useEffect(() => {
     if (task) {
       setName(task.name);
+      setPersonaIds(task.persona_ids);
     } else {
       setName('');
+      setPersonaIds([]);
     }
   }, [task, open]);
 
   function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     if (name.trim()) {
-      onSave({ name: name.trim() });
+      onSave({ name: name.trim(), persona_ids: personaIds });
     }
   }
 
@@ -53,12 +58,17 @@ export function TaskDialog({ open, onOpenChange, task, onSave, onDelete }: Props
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="task-personas">Personas</Label>
+            <PersonaPicker id="task-personas" personas={personas} value={personaIds} onChange={setPersonaIds} />
+          </div>
+
           <div className="flex justify-between pt-4">
             {onDelete && (
               <DeleteButton
                 onDelete={onDelete}
                 confirmTitle="Delete task?"
-                confirmDescription="All stories in this task will be permanently deleted."
+                confirmDescription="The task and all its stories will be moved to the trash."
               />
             )}
             <div className="ml-auto flex gap-2">
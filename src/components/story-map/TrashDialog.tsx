@@ -0,0 +1,122 @@
+'use client';
+
+import { Loader2, RotateCcw } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { extractError, sendJson } from '@/components/story-map/useStoryMapStore';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { TRASH_RETENTION_DAYS } from '@/lib/constants';
+import { errorMessage } from '@/lib/errors';
+import type { TrashEntityType, TrashItem } from '@/types';
+
+interface Props {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storyMapId: string;
+  /** Called after a restore so the map can reload the restored rows */
+  onRestored: () => void;
+}
+
+const ENTITY_LABELS: Record<TrashEntityType, string> = {
+  activity: 'Activity',
+  task: 'Task',
+  story: 'Story',
+  release: 'Release',
+};
+
+function itemKey(item: TrashItem): string {
+  return `${item.entity_type}:${item.id}`;
+}
+
+export function TrashDialog({ open, onOpenChange, storyMapId, onRestored }: Props) {
+  const [items, setItems] = useState<TrashItem[] | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/story-maps/${storyMapId}/trash`);
+      if (!res.ok) throw new Error(await extractError(res, 'Failed to load trash'));
+      setItems(await res.json());
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  }, [storyMapId]);
+
+  useEffect(() => {
+    if (open) {
+      setItems(null);
+      setError(null);
+      loadTrash();
+    }
+  }, [open, loadTrash]);
+
+  async function handleRestore(item: TrashItem) {
+    setRestoring(itemKey(item));
+    setError(null);
+    try {
+      const res = await sendJson(`/api/story-maps/${storyMapId}/trash`, 'POST', {
+        entity_type: item.entity_type,
+        id: item.id,
+      });
+      if (!res.ok) throw new Error(await extractError(res, 'Failed to restore'));
+      onRestored();
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+    await loadTrash();
+    setRestoring(null);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted activities, tasks, stories and releases are kept for {TRASH_RETENTION_DAYS} days. Restoring an item
+            brings back everything deleted along with it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {!items && !error && (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {items?.length === 0 && <p className="py-4 text-center text-sm text-muted-foreground">The trash is empty.</p>}
+
+        {items && items.length > 0 && (
+          <ul className="max-h-[50vh] space-y-2 overflow-y-auto">
+            {items.map((item) => (
+              <li key={itemKey(item)} className="flex items-center gap-3 rounded-md border px-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{ENTITY_LABELS[item.entity_type]}</Badge>
+                    <span className="truncate text-sm font-medium">{item.label}</span>
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Deleted {new Date(item.deleted_at).toLocaleString()}
+                    {item.story_count > 0 &&
+                      ` · with ${item.story_count} ${item.story_count === 1 ? 'story' : 'stories'}`}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" disabled={restoring !== null} onClick={() => handleRestore(item)}>
+                  {restoring === itemKey(item) ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-4 w-4" />
+                  )}
+                  Restore
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
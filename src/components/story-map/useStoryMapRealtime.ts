@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { PresenceState, RealtimeSession, RealtimeTransport, RowChange } from '@/lib/realtime/types';
+
+interface Options {
+  onChange: (change: RowChange) => void;
+  /** Story this user has open for editing, shared with the other viewers */
+  editingStoryId: string | null;
+}
+
+/**
+ * Join the story map's realtime channel for as long as the page is open.
+ * Returns the other users viewing the map. Realtime is best effort: if joining
+ * fails the page keeps working without live updates.
+ */
+export function useStoryMapRealtime(
+  storyMapId: string,
+  transport: RealtimeTransport,
+  { onChange, editingStoryId }: Options,
+): PresenceState[] {
+  const [peers, setPeers] = useState<PresenceState[]>([]);
+  const sessionRef = useRef<RealtimeSession | null>(null);
+  const onChangeRef = useRef(onChange);
+  const editingRef = useRef(editingStoryId);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    editingRef.current = editingStoryId;
+    sessionRef.current?.track(editingStoryId);
+  }, [editingStoryId]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    transport
+      .join(storyMapId, {
+        onChange: (change) => onChangeRef.current(change),
+        onPresence: setPeers,
+      })
+      .then((session) => {
+        if (cancelled) return session.leave();
+        sessionRef.current = session;
+        session.track(editingRef.current);
+      })
+      .catch(() => {
+        // No live updates - the map still loads and saves over the API
+      });
+
+    return () => {
+      cancelled = true;
+      sessionRef.current?.leave();
+      sessionRef.current = null;
+      setPeers([]);
+    };
+  }, [storyMapId, transport]);
+
+  return peers;
+}
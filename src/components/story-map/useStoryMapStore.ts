@@ -0,0 +1,109 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+import { errorMessage } from '@/lib/errors';
+import type { StoryMapUpdate } from '@/lib/story-map-updates';
+import type { StoryMapFull } from '@/types';
+
+/** Extract error message from failed fetch response */
+export async function extractError(res: Response, fallback: string): Promise<string> {
+  try {
+    const body = await res.json();
+    return body.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Send a JSON body to an API route */
+export function sendJson(
+  url: string,
+  method: 'POST' | 'PUT' | 'DELETE',
+  body: unknown,
+  headers: Record<string, string> = {},
+): Promise<Response> {
+  return fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+export interface Mutation<T> {
+  /** Shown at once and dropped again when the request fails */
+  optimistic: StoryMapUpdate;
+  request: () => Promise<Response>;
+  /** Applied to the confirmed map with the response body - defaults to the optimistic update */
+  commit?: (body: T) => StoryMapUpdate;
+  /** Toast text when the request fails without an error message of its own */
+  errorMessage: string;
+  /** Called with the current row instead of the error toast when the server rejects a stale version (409) */
+  onConflict?: (current: T) => void;
+}
+
+interface PendingUpdate {
+  update: StoryMapUpdate;
+}
+
+/**
+ * Client-side story map state with optimistic updates.
+ * The map shown is the last state the server confirmed with every in-flight update
+ * replayed on top, so a failed request rolls back only its own change - even while
+ * others are still pending - and nothing is refetched after a successful one.
+ */
+export function useStoryMapStore(id: string) {
+  const [confirmed, setConfirmed] = useState<StoryMapFull | null>(null);
+  const [pending, setPending] = useState<PendingUpdate[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/story-maps/${id}`);
+      if (!res.ok) throw new Error(await extractError(res, 'Failed to load story map'));
+      setConfirmed(await res.json());
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(errorMessage(err));
+    }
+  }, [id]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const storyMap = useMemo(
+    () => confirmed && pending.reduce((map, { update }) => update(map), confirmed),
+    [confirmed, pending],
+  );
+
+  /** Apply an update optimistically, then confirm it or roll it back with an error toast */
+  const mutate = useCallback(async <T>(mutation: Mutation<T>): Promise<boolean> => {
+    const entry: PendingUpdate = { update: mutation.optimistic };
+    setPending((current) => [...current, entry]);
+
+    try {
+      const res = await mutation.request();
+      if (res.status === 409 && mutation.onConflict) {
+        mutation.onConflict(((await res.json()) as { current: T }).current);
+        return false;
+      }
+      if (!res.ok) throw new Error(await extractError(res, mutation.errorMessage));
+      const update = mutation.commit ? mutation.commit((await res.json()) as T) : mutation.optimistic;
+      setConfirmed((map) => map && update(map));
+      return true;
+    } catch (err) {
+      toast.error(errorMessage(err));
+      return false;
+    } finally {
+      setPending((current) => current.filter((e) => e !== entry));
+    }
+  }, []);
+
+  /** Merge a change the server already committed, e.g. another user's edit */
+  const receive = useCallback((update: StoryMapUpdate) => {
+    setConfirmed((map) => map && update(map));
+  }, []);
+
+  return { storyMap, loadError, reload, mutate, receive };
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { TeamMember } from '@/types';
+
+/**
+ * Members of the team that owns the story map, for assignee pickers and avatars.
+ * Best effort: if loading fails the list stays empty and stories show no assignee.
+ */
+export function useTeamMembers(teamId: string | undefined): TeamMember[] {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+
+  useEffect(() => {
+    if (!teamId) return;
+    let cancelled = false;
+
+    fetch(`/api/teams/${teamId}/members`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data: TeamMember[]) => {
+        if (!cancelled) setMembers(data);
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [teamId]);
+
+  return members;
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import { ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { extractError } from '@/components/story-map/useStoryMapStore';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { errorMessage } from '@/lib/errors';
+import type { AuditAction, AuditEntityType, AuditEntry, TeamMember } from '@/types';
+
+const PAGE_SIZE = 50;
+
+/** Select value for "no filter" - Radix Select items can't use an empty value */
+const ALL = 'all';
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  story_map: 'Story map',
+  activity: 'Activity',
+  task: 'Task',
+  story: 'Story',
+  release: 'Release',
+  persona: 'Persona',
+  team_member: 'Member',
+  team_invite: 'Invite',
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+  restore: 'restored',
+};
+
+interface AuditFilters {
+  entity_type: string;
+  action: string;
+  actor_id: string;
+}
+
+const NO_FILTERS: AuditFilters = { entity_type: ALL, action: ALL, actor_id: ALL };
+
+/** Columns an update changed, as { before, after } pairs; whole rows for the other actions */
+function entryChanges(entry: AuditEntry): { before: unknown; after: unknown } {
+  if (entry.action !== 'update' || !entry.before || !entry.after) {
+    return { before: entry.before, after: entry.after };
+  }
+  const { before, after } = entry;
+  const changed = Object.keys(after).filter(
+    (key) => key !== 'updated_at' && JSON.stringify(before[key]) !== JSON.stringify(after[key]),
+  );
+  return {
+    before: Object.fromEntries(changed.map((key) => [key, before[key]])),
+    after: Object.fromEntries(changed.map((key) => [key, after[key]])),
+  };
+}
+
+function auditUrl(teamId: string, filters: AuditFilters, before?: string): string {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== ALL) params.set(key, value);
+  }
+  if (before) params.set('before', before);
+  return `/api/teams/${teamId}/audit?${params}`;
+}
+
+function JsonBlock({ label, value }: { label: string; value: unknown }) {
+  if (value == null) return null;
+  return (
+    <div className="min-w-0 flex-1 space-y-1">
+      <div className="text-xs font-medium text-muted-foreground">{label}</div>
+      <pre className="max-h-48 overflow-auto rounded bg-muted p-2 text-xs">{JSON.stringify(value, null, 2)}</pre>
+    </div>
+  );
+}
+
+function AuditEntryRow({ entry }: { entry: AuditEntry }) {
+  const [expanded, setExpanded] = useState(false);
+  const changes = expanded ? entryChanges(entry) : null;
+
+  return (
+    <li className="space-y-2 border-b py-2 last:border-b-0">
+      <button
+        type="button"
+        className="flex w-full items-start gap-2 text-left text-sm"
+        onClick={() => setExpanded((e) => !e)}
+      >
+        {expanded ? (
+          <ChevronDown className="mt-0.5 h-4 w-4 shrink-0" />
+        ) : (
+          <ChevronRight className="mt-0.5 h-4 w-4 shrink-0" />
+        )}
+        <span className="min-w-0 flex-1">
+          <span className="font-medium">{entry.actor_email ?? 'System'}</span> {ACTION_LABELS[entry.action]}{' '}
+          <Badge variant="outline" className="mx-0.5">
+            {ENTITY_LABELS[entry.entity_type]}
+          </Badge>{' '}
+          <span className="break-words">{entry.entity_label ?? entry.entity_id}</span>
+          <span className="block text-xs text-muted-foreground">{new Date(entry.created_at).toLocaleString()}</span>
+        </span>
+      </button>
+      {changes && (
+        <div className="flex gap-2 pl-6">
+          <JsonBlock label="Before" value={changes.before} />
+          <JsonBlock label="After" value={changes.after} />
+        </div>
+      )}
+    </li>
+  );
+}
+
+function FilterSelect({
+  value,
+  onChange,
+  allLabel,
+  options,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  allLabel: string;
+  options: { value: string; label: string }[];
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>{allLabel}</SelectItem>
+        {options.map((o) => (
+          <SelectItem key={o.value} value={o.value}>
+            {o.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/** Who changed what across the team (owners only) */
+export function TeamAuditLog({ teamId, members }: { teamId: string; members: TeamMember[] }) {
+  const [filters, setFilters] = useState<AuditFilters>(NO_FILTERS);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(
+    async (before?: string) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const res = await fetch(auditUrl(teamId, filters, before));
+        if (!res.ok) throw new Error(await extractError(res, 'Failed to load audit log'));
+        const page: AuditEntry[] = await res.json();
+        setEntries((current) => (before ? [...current, ...page] : page));
+        setHasMore(page.length === PAGE_SIZE);
+      } catch (err) {
+        setError(errorMessage(err));
+      }
+      setLoading(false);
+    },
+    [teamId, filters],
+  );
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  function setFilter(key: keyof AuditFilters) {
+    return (value: string) => setFilters((f) => ({ ...f, [key]: value }));
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        <FilterSelect
+          value={filters.entity_type}
+          onChange={setFilter('entity_type')}
+          allLabel="All entities"
+          options={Object.entries(ENTITY_LABELS).map(([value, label]) => ({ value, label }))}
+        />
+        <FilterSelect
+          value={filters.action}
+          onChange={setFilter('action')}
+          allLabel="All actions"
+          options={Object.entries(ACTION_LABELS).map(([value, label]) => ({
+            value,
+            label: label[0].toUpperCase() + label.slice(1),
+          }))}
+        />
+        <FilterSelect
+          value={filters.actor_id}
+          onChange={setFilter('actor_id')}
+          allLabel="Everyone"
+          options={members.map((m) => ({ value: m.user_id, label: m.email }))}
+        />
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {!loading && !error && entries.length === 0 && (
+        <p className="py-4 text-center text-sm text-muted-foreground">No matching changes recorded.</p>
+      )}
+
+      <ol className="max-h-[50vh] overflow-y-auto pr-1">
+        {entries.map((entry) => (
+          <AuditEntryRow key={entry.id} entry={entry} />
+        ))}
+      </ol>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-2">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        hasMore && (
+          <Button variant="outline" size="sm" className="w-full" onClick={() => loadPage(entries.at(-1)?.created_at)}>
+            Load more
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import { Loader2, PlugZap } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { DeleteButton } from '@/components/ui/delete-button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { STATUS_OPTIONS } from '@/lib/constants';
+import { type ProviderInfo, SYNC_PROVIDER_IDS, SYNC_PROVIDERS } from '@/lib/sync/providers';
+import type { Integration, StoryStatus, SyncProvider } from '@/types';
+
+interface ProviderConnectionProps {
+  teamId: string;
+  provider: SyncProvider;
+  info: ProviderInfo;
+  integration: Integration | undefined;
+  onChanged: () => Promise<void>;
+}
+
+interface StatusMappingFormProps {
+  provider: SyncProvider;
+  mapping: Record<StoryStatus, string>;
+  onChange: (mapping: Record<StoryStatus, string>) => void;
+  disabled: boolean;
+}
+
+/** Provider workflow state name for every story status */
+function StatusMappingForm({ provider, mapping, onChange, disabled }: StatusMappingFormProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium uppercase text-muted-foreground">Status mapping</p>
+      {STATUS_OPTIONS.map((s) => (
+        <div key={s.value} className="grid grid-cols-[7rem_1fr] items-center gap-2">
+          <Label htmlFor={`${provider}-status-${s.value}`}>{s.label}</Label>
+          <Input
+            id={`${provider}-status-${s.value}`}
+            value={mapping[s.value]}
+            onChange={(e) => onChange({ ...mapping, [s.value]: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function initialMapping(info: ProviderInfo, integration: Integration | undefined): Record<StoryStatus, string> | null {
+  if (!info.defaultStatusMapping) return null;
+  const saved = integration?.settings.status_mapping as Record<StoryStatus, string> | undefined;
+  return { ...info.defaultStatusMapping, ...saved };
+}
+
+function initialExtras(info: ProviderInfo, integration: Integration | undefined): Record<string, string> {
+  return Object.fromEntries(
+    (info.settingsFields ?? []).map((field) => [field.key, String(integration?.settings[field.key] ?? '')]),
+  );
+}
+
+function ProviderConnection({ teamId, provider, info, integration, onChanged }: ProviderConnectionProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [mapping, setMapping] = useState(() => initialMapping(info, integration));
+  const [extras, setExtras] = useState(() => initialExtras(info, integration));
+  const [saving, setSaving] = useState(false);
+  const [disconnecting, setDisconnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const complete = info.credentialFields.every((field) => values[field.key]?.trim());
+  const hasSettings = Boolean(mapping || info.settingsFields);
+  const webhookUrl = `${window.location.origin}${info.webhookPath}?integration=${integration?.id}`;
+
+  /** Credentials may be omitted once connected to change settings only */
+  async function save(credentials: Record<string, string> | undefined) {
+    setSaving(true);
+    setError(null);
+    const res = await fetch(`/api/teams/${teamId}/integrations/${provider}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ credentials, settings: { ...(mapping && { status_mapping: mapping }), ...extras } }),
+    });
+
+    if (res.ok) {
+      setValues({});
+      await onChanged();
+    } else {
+      const data = await res.json();
+      setError(data.error || 'Failed to save');
+    }
+    setSaving(false);
+  }
+
+  function handleConnect(e: React.FormEvent) {
+    e.preventDefault();
+    if (complete) save(values);
+  }
+
+  async function handleDisconnect() {
+    setDisconnecting(true);
+    const res = await fetch(`/api/teams/${teamId}/integrations/${provider}`, { method: 'DELETE' });
+
+    if (res.ok) {
+      await onChanged();
+    }
+    setDisconnecting(false);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">{info.label}</span>
+          {integration ? <Badge>connected</Badge> : <Badge variant="outline">not connected</Badge>}
+        </div>
+        {integration && (
+          <DeleteButton
+            onDelete={handleDisconnect}
+            iconOnly
+            loading={disconnecting}
+            confirmTitle={`Disconnect ${info.label}?`}
+            confirmDescription="Story maps of this team will no longer sync. Existing issues are kept."
+          />
+        )}
+      </div>
+
+      {integration && info.webhookPath && (
+        <div className="space-y-2">
+          <Label htmlFor={`${provider}-webhook-url`}>Webhook URL</Label>
+          <Input id={`${provider}-webhook-url`} value={webhookUrl} readOnly onFocus={(e) => e.target.select()} />
+          <Label htmlFor={`${provider}-webhook-secret`}>Webhook secret</Label>
+          <Input
+            id={`${provider}-webhook-secret`}
+            value={integration.webhook_secret}
+            readOnly
+            onFocus={(e) => e.target.select()}
+          />
+        </div>
+      )}
+
+      <form onSubmit={handleConnect} className="space-y-2">
+        {info.credentialFields.map((field) => (
+          <div key={field.key} className="space-y-2">
+            <Label htmlFor={`${provider}-${field.key}`}>{field.label}</Label>
+            <Input
+              id={`${provider}-${field.key}`}
+              type={field.secret ? 'password' : 'text'}
+              autoComplete="off"
+              placeholder={integration && field.secret ? 'Saved - enter a new value to replace it' : field.placeholder}
+              value={values[field.key] ?? ''}
+              onChange={(e) => setValues((prev) => ({ ...prev, [field.key]: e.target.value }))}
+              disabled={saving}
+            />
+          </div>
+        ))}
+        {info.settingsFields?.map((field) => (
+          <div key={field.key} className="space-y-2">
+            <Label htmlFor={`${provider}-${field.key}`}>{field.label}</Label>
+            <Input
+              id={`${provider}-${field.key}`}
+              placeholder={field.placeholder}
+              value={extras[field.key]}
+              onChange={(e) => setExtras((prev) => ({ ...prev, [field.key]: e.target.value }))}
+              disabled={saving}
+            />
+          </div>
+        ))}
+        {mapping && <StatusMappingForm provider={provider} mapping={mapping} onChange={setMapping} disabled={saving} />}
+        <div className="flex gap-2">
+          <Button type="submit" size="sm" disabled={!complete || saving}>
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <PlugZap className="h-4 w-4" />}
+            {integration ? 'Update' : 'Connect'}
+          </Button>
+          {integration && hasSettings && (
+            <Button type="button" size="sm" variant="outline" disabled={saving} onClick={() => save(undefined)}>
+              Save settings
+            </Button>
+          )}
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </form>
+    </div>
+  );
+}
+
+/** Team-level provider connections (owners only) */
+export function TeamIntegrations({ teamId, isOwner }: { teamId: string; isOwner: boolean }) {
+  const [integrations, setIntegrations] = useState<Integration[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadIntegrations = useCallback(async () => {
+    const res = await fetch(`/api/teams/${teamId}/integrations`);
+    if (res.ok) {
+      setIntegrations(await res.json());
+    }
+    setLoading(false);
+  }, [teamId]);
+
+  useEffect(() => {
+    if (isOwner) loadIntegrations();
+  }, [isOwner, loadIntegrations]);
+
+  if (!isOwner) {
+    return <p className="text-sm text-muted-foreground">Only team owners can manage integrations.</p>;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {SYNC_PROVIDER_IDS.map((provider, index) => (
+        <div key={provider} className="space-y-4">
+          {index > 0 && <Separator />}
+          <ProviderConnection
+            teamId={teamId}
+            provider={provider}
+            info={SYNC_PROVIDERS[provider]}
+            integration={integrations.find((i) => i.provider === provider)}
+            onChanged={loadIntegrations}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
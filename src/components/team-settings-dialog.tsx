@@ -2,6 +2,9 @@
 
 import { AlertTriangle, Clock, Loader2, UserPlus } from 'lucide-react';
 import { useCallback, useEffect, useState } from 'react';
+import { TeamAuditLog } from '@/components/team-audit-log';
+import { TeamIntegrations } from '@/components/team-integrations';
+import { TeamWebhooks } from '@/components/team-webhooks';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { DeleteButton } from '@/components/ui/delete-button';
@@ -10,7 +13,8 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import type { TeamInvite, TeamMember, TeamWithRole } from '@/types';
+import { ifMatchHeader } from '@/lib/concurrency';
+import type { Team, TeamInvite, TeamMember, TeamWithRole } from '@/types';
 
 type InviteStatus =
   | { type: 'idle' }
@@ -25,8 +29,55 @@ interface TeamSettingsDialogProps {
   onTeamUpdated: () => Promise<void>;
 }
 
+/** Save a team name; returns an error message when someone else renamed the team first */
+async function renameTeam(team: Team, name: string): Promise<string | null> {
+  const res = await fetch(`/api/teams/${team.id}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', ...ifMatchHeader(team.updated_at) },
+    body: JSON.stringify({ name }),
+  });
+  if (res.status !== 409) return null;
+  const { current } = (await res.json()) as { current: Team };
+  return `Someone else renamed the team to "${current.name}".`;
+}
+
+/** Rename form - takes the reloaded name whenever the team changes */
+function TeamNameForm({ team, onTeamUpdated }: { team: TeamWithRole; onTeamUpdated: () => Promise<void> }) {
+  const [name, setName] = useState(team.name);
+  const [error, setError] = useState<string | null>(null);
+  const isOwner = team.role === 'owner';
+
+  useEffect(() => {
+    setName(team.name);
+  }, [team]);
+
+  async function handleRename(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim() || name === team.name) return;
+
+    setError(await renameTeam(team, name.trim()));
+    // Picks up the new name - or after a conflict, the current name and version
+    await onTeamUpdated();
+  }
+
+  return (
+    <form onSubmit={handleRename} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="team-name">Team name</Label>
+        <Input id="team-name" value={name} onChange={(e) => setName(e.target.value)} disabled={!isOwner} />
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+      {isOwner && (
+        <Button type="submit" disabled={!name.trim() || name === team.name}>
+          Save
+        </Button>
+      )}
+      {!isOwner && <p className="text-sm text-muted-foreground">Only team owners can rename the team.</p>}
+    </form>
+  );
+}
+
 export function TeamSettingsDialog({ open, onOpenChange, team, onTeamUpdated }: TeamSettingsDialogProps) {
-  const [name, setName] = useState('');
   const [members, setMembers] = useState<TeamMember[]>([]);
   const [invites, setInvites] = useState<TeamInvite[]>([]);
   const [inviteEmail, setInviteEmail] = useState('');
@@ -59,27 +110,11 @@ export function TeamSettingsDialog({ open, onOpenChange, team, onTeamUpdated }:
 
   useEffect(() => {
     if (open && team) {
-      setName(team.name);
       setInviteStatus({ type: 'idle' });
       loadData();
     }
   }, [open, team, loadData]);
 
-  async function handleRename(e: React.FormEvent) {
-    e.preventDefault();
-    if (!team || !name.trim() || name === team.name) return;
-
-    const res = await fetch(`/api/teams/${team.id}`, {
-      method: 'PUT',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ name: name.trim() }),
-    });
-
-    if (res.ok) {
-      await onTeamUpdated();
-    }
-  }
-
   async function handleInvite(e: React.FormEvent) {
     e.preventDefault();
     if (!team || !inviteEmail.trim()) return;
@@ -151,30 +186,26 @@ export function TeamSettingsDialog({ open, onOpenChange, team, onTeamUpdated }:
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[560px]">
         <DialogHeader>
           <DialogTitle>Team Settings</DialogTitle>
         </DialogHeader>
 
         <Tabs defaultValue="general" className="mt-2">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className={`grid w-full ${isOwner ? 'grid-cols-5' : 'grid-cols-3'}`}>
             <TabsTrigger value="general">General</TabsTrigger>
             <TabsTrigger value="members">Members</TabsTrigger>
+            <TabsTrigger value="integrations">Integrations</TabsTrigger>
+            {isOwner && (
+              <>
+                <TabsTrigger value="webhooks">Webhooks</TabsTrigger>
+                <TabsTrigger value="audit">Audit</TabsTrigger>
+              </>
+            )}
           </TabsList>
 
           <TabsContent value="general" className="mt-4 space-y-4">
-            <form onSubmit={handleRename} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="team-name">Team name</Label>
-                <Input id="team-name" value={name} onChange={(e) => setName(e.target.value)} disabled={!isOwner} />
-              </div>
-              {isOwner && (
-                <Button type="submit" disabled={!name.trim() || name === team.name}>
-                  Save
-                </Button>
-              )}
-              {!isOwner && <p className="text-sm text-muted-foreground">Only team owners can rename the team.</p>}
-            </form>
+            <TeamNameForm team={team} onTeamUpdated={onTeamUpdated} />
 
             {isOwner && (
               <>
@@ -287,6 +318,21 @@ export function TeamSettingsDialog({ open, onOpenChange, team, onTeamUpdated }:
               )}
             </div>
           </TabsContent>
+
+          <TabsContent value="integrations" className="mt-4">
+            <TeamIntegrations teamId={team.id} isOwner={isOwner} />
+          </TabsContent>
+
+          {isOwner && (
+            <>
+              <TabsContent value="webhooks" className="mt-4">
+                <TeamWebhooks teamId={team.id} />
+              </TabsContent>
+              <TabsContent value="audit" className="mt-4">
+                <TeamAuditLog teamId={team.id} members={members} />
+              </TabsContent>
+            </>
+          )}
         </Tabs>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,371 @@
+'use client';
+
+import { Loader2, Pencil, Plus, Send } from 'lucide-react';
+import { useCallback, useEffect, useId, useState } from 'react';
+import { toast } from 'sonner';
+import { extractError, sendJson } from '@/components/story-map/useStoryMapStore';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { DeleteButton } from '@/components/ui/delete-button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { WEBHOOK_EVENT_OPTIONS } from '@/lib/constants';
+import { errorMessage } from '@/lib/errors';
+import type { Webhook, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent } from '@/types';
+
+const STATUS_BADGES: Record<WebhookDeliveryStatus, 'default' | 'secondary' | 'destructive'> = {
+  succeeded: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+};
+
+interface WebhookFormValues {
+  url: string;
+  description: string;
+  events: WebhookEvent[];
+}
+
+const EMPTY_FORM: WebhookFormValues = { url: '', description: '', events: [] };
+
+/** URL, description and event filter - for a new webhook or an existing one */
+function WebhookForm({
+  initial,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initial: WebhookFormValues;
+  submitLabel: string;
+  onSubmit: (values: WebhookFormValues) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const [values, setValues] = useState(initial);
+  const [saving, setSaving] = useState(false);
+  const id = useId();
+
+  function toggleEvent(event: WebhookEvent, checked: boolean) {
+    setValues((prev) => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter((e) => e !== event),
+    }));
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    await onSubmit(values);
+    setSaving(false);
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-url`}>Payload URL</Label>
+        <Input
+          id={`${id}-url`}
+          type="url"
+          placeholder="https://example.com/hooks/beemspec"
+          value={values.url}
+          onChange={(e) => setValues((prev) => ({ ...prev, url: e.target.value }))}
+          disabled={saving}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-description`}>Description</Label>
+        <Input
+          id={`${id}-description`}
+          placeholder="Optional"
+          value={values.description}
+          onChange={(e) => setValues((prev) => ({ ...prev, description: e.target.value }))}
+          disabled={saving}
+        />
+      </div>
+      <div className="space-y-2">
+        <p className="text-xs font-medium uppercase text-muted-foreground">Events</p>
+        <div className="grid grid-cols-2 gap-2">
+          {WEBHOOK_EVENT_OPTIONS.map((option) => (
+            <label key={option.value} className="flex cursor-pointer items-start gap-2" title={option.description}>
+              <input
+                type="checkbox"
+                checked={values.events.includes(option.value)}
+                onChange={(e) => toggleEvent(option.value, e.target.checked)}
+                disabled={saving}
+                className="mt-0.5 h-4 w-4 accent-primary"
+              />
+              <span className="font-mono text-xs">{option.value}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={!values.url.trim() || values.events.length === 0 || saving}>
+          {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" size="sm" variant="outline" onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+function DeliveryRow({ delivery }: { delivery: WebhookDelivery }) {
+  const retrying = delivery.status === 'pending' && delivery.attempts > 0;
+  return (
+    <details className="rounded-md border px-3 py-2 text-sm">
+      <summary className="flex cursor-pointer items-center gap-2">
+        <Badge variant={STATUS_BADGES[delivery.status]}>{delivery.status}</Badge>
+        <span className="font-mono text-xs">{delivery.event}</span>
+        <span className="ml-auto text-xs text-muted-foreground">
+          {delivery.response_status ?? '-'} · {new Date(delivery.created_at).toLocaleString()}
+        </span>
+      </summary>
+      <div className="mt-2 space-y-2 text-xs">
+        <p className="text-muted-foreground">
+          {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+          {retrying && `, next retry ${new Date(delivery.next_attempt_at).toLocaleString()}`}
+        </p>
+        {delivery.response_body && (
+          <pre className="max-h-32 overflow-auto whitespace-pre-wrap rounded bg-muted p-2">
+            {delivery.response_body}
+          </pre>
+        )}
+        <pre className="max-h-48 overflow-auto rounded bg-muted p-2">{JSON.stringify(delivery.payload, null, 2)}</pre>
+      </div>
+    </details>
+  );
+}
+
+/** Latest deliveries of one webhook; reloads whenever `version` changes */
+function WebhookDeliveries({ teamId, webhookId, version }: { teamId: string; webhookId: string; version: number }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: version is the reload trigger
+  useEffect(() => {
+    fetch(`/api/teams/${teamId}/webhooks/${webhookId}/deliveries?limit=20`)
+      .then((r) => (r.ok ? r.json() : []))
+      .then(setDeliveries)
+      .catch(() => setDeliveries([]));
+  }, [teamId, webhookId, version]);
+
+  if (deliveries === null) {
+    return (
+      <div className="flex items-center justify-center py-2">
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  if (deliveries.length === 0) {
+    return <p className="py-2 text-center text-xs text-muted-foreground">No deliveries yet</p>;
+  }
+  return (
+    <div className="max-h-72 space-y-1 overflow-y-auto">
+      {deliveries.map((delivery) => (
+        <DeliveryRow key={delivery.id} delivery={delivery} />
+      ))}
+    </div>
+  );
+}
+
+interface WebhookItemProps {
+  teamId: string;
+  webhook: Webhook;
+  onChanged: () => Promise<void>;
+}
+
+function WebhookItem({ teamId, webhook, onChanged }: WebhookItemProps) {
+  const [editing, setEditing] = useState(false);
+  const [showLog, setShowLog] = useState(false);
+  const [logVersion, setLogVersion] = useState(0);
+  const [testing, setTesting] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const url = `/api/teams/${teamId}/webhooks/${webhook.id}`;
+
+  async function update(
+    changes: Partial<Pick<Webhook, 'url' | 'description' | 'events' | 'enabled'>>,
+  ): Promise<boolean> {
+    try {
+      const res = await sendJson(url, 'PUT', changes);
+      if (!res.ok) throw new Error(await extractError(res, 'Failed to update webhook'));
+      await onChanged();
+      return true;
+    } catch (err) {
+      toast.error(errorMessage(err));
+      return false;
+    }
+  }
+
+  async function handleTest() {
+    setTesting(true);
+    try {
+      const res = await sendJson(`${url}/test`, 'POST', {});
+      if (!res.ok) throw new Error(await extractError(res, 'Failed to send test event'));
+      const delivery: WebhookDelivery = await res.json();
+      if (delivery.status === 'succeeded') {
+        toast.success(`Test event delivered (${delivery.response_status})`);
+      } else {
+        toast.error(`Test event failed: ${delivery.response_status ?? delivery.response_body ?? 'no response'}`);
+      }
+      setShowLog(true);
+      setLogVersion((v) => v + 1);
+    } catch (err) {
+      toast.error(errorMessage(err));
+    } finally {
+      setTesting(false);
+    }
+  }
+
+  async function handleDelete() {
+    setDeleting(true);
+    const res = await fetch(url, { method: 'DELETE' });
+    if (res.ok) {
+      await onChanged();
+    } else {
+      toast.error(await extractError(res, 'Failed to delete webhook'));
+    }
+    setDeleting(false);
+  }
+
+  if (editing) {
+    return (
+      <WebhookForm
+        initial={{ url: webhook.url, description: webhook.description ?? '', events: webhook.events }}
+        submitLabel="Save"
+        onSubmit={async (values) => {
+          if (await update({ ...values, description: values.description.trim() || null })) setEditing(false);
+        }}
+        onCancel={() => setEditing(false)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0 space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="truncate text-sm font-medium">{webhook.url}</span>
+            {webhook.enabled ? <Badge>active</Badge> : <Badge variant="outline">disabled</Badge>}
+          </div>
+          {webhook.description && <p className="text-xs text-muted-foreground">{webhook.description}</p>}
+          <div className="flex flex-wrap gap-1">
+            {webhook.events.map((event) => (
+              <Badge key={event} variant="secondary" className="font-mono text-[10px]">
+                {event}
+              </Badge>
+            ))}
+          </div>
+        </div>
+        <div className="flex shrink-0 items-center">
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditing(true)}>
+            <Pencil className="h-4 w-4" />
+            <span className="sr-only">Edit webhook</span>
+          </Button>
+          <DeleteButton
+            onDelete={handleDelete}
+            iconOnly
+            loading={deleting}
+            confirmTitle="Delete webhook?"
+            confirmDescription={`${webhook.url} will no longer receive events, and its delivery log is deleted.`}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`webhook-secret-${webhook.id}`}>Signing secret</Label>
+        <Input id={`webhook-secret-${webhook.id}`} value={webhook.secret} readOnly onFocus={(e) => e.target.select()} />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" onClick={handleTest} disabled={testing}>
+          {testing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          Send test event
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => update({ enabled: !webhook.enabled })}>
+          {webhook.enabled ? 'Disable' : 'Enable'}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => setShowLog((show) => !show)}>
+          {showLog ? 'Hide deliveries' : 'Recent deliveries'}
+        </Button>
+      </div>
+
+      {showLog && <WebhookDeliveries teamId={teamId} webhookId={webhook.id} version={logVersion} />}
+    </div>
+  );
+}
+
+/** Outgoing webhook endpoints and their delivery logs (owners only) */
+export function TeamWebhooks({ teamId }: { teamId: string }) {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [adding, setAdding] = useState(false);
+
+  const loadWebhooks = useCallback(async () => {
+    const res = await fetch(`/api/teams/${teamId}/webhooks`);
+    if (res.ok) {
+      setWebhooks(await res.json());
+    }
+    setLoading(false);
+  }, [teamId]);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  async function handleCreate(values: WebhookFormValues) {
+    try {
+      const res = await sendJson(`/api/teams/${teamId}/webhooks`, 'POST', {
+        ...values,
+        description: values.description.trim() || null,
+      });
+      if (!res.ok) throw new Error(await extractError(res, 'Failed to create webhook'));
+      await loadWebhooks();
+      setAdding(false);
+    } catch (err) {
+      toast.error(errorMessage(err));
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-h-[60vh] space-y-4 overflow-y-auto pr-1">
+      <p className="text-sm text-muted-foreground">
+        Each event is POSTed as JSON, signed with the webhook&apos;s secret in <code>X-BeemSpec-Signature</code>. Failed
+        deliveries are retried with increasing delays.
+      </p>
+
+      {webhooks.map((webhook) => (
+        <div key={webhook.id} className="space-y-4">
+          <Separator />
+          <WebhookItem teamId={teamId} webhook={webhook} onChanged={loadWebhooks} />
+        </div>
+      ))}
+
+      <Separator />
+      {adding ? (
+        <WebhookForm
+          initial={EMPTY_FORM}
+          submitLabel="Add webhook"
+          onSubmit={handleCreate}
+          onCancel={() => setAdding(false)}
+        />
+      ) : (
+        <Button size="sm" variant="outline" onClick={() => setAdding(true)}>
+          <Plus className="h-4 w-4" />
+          Add webhook
+        </Button>
+      )}
+    </div>
+  );
+}
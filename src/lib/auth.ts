@@ -1,10 +1,20 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { NextResponse } from 'next/server';
+import { serverErrorResponse } from '@/lib/errors';
 import { createClient } from '@/lib/supabase/server';
+import { createTokenClient } from '@/lib/supabase/token';
 
 export type AuthResult =
   | { success: true; user: { id: string; email: string } }
   | { success: false; response: NextResponse };
 
+export type TokenAuthResult =
+  | { success: true; user: { id: string; email: string }; supabase: SupabaseClient }
+  | { success: false; response: NextResponse };
+
+export type CronAuthResult = { success: true } | { success: false; response: NextResponse };
+
 /** Verify authentication in API routes (server-only) */
 export async function requireAuth(): Promise<AuthResult> {
   const supabase = await createClient();
@@ -18,3 +28,41 @@ export async function requireAuth(): Promise<AuthResult> {
   }
   return { success: true, user: { id: user.id, email: user.email ?? '' } };
 }
+
+/** Verify a `Authorization: Bearer <access token>` header for clients without session cookies */
+export async function requireBearerAuth(request: Request): Promise<TokenAuthResult> {
+  const header = request.headers.get('authorization') ?? '';
+  const token = header.match(/^Bearer\s+(.+)$/i)?.[1];
+  const unauthorized = NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  if (!token) {
+    return { success: false, response: unauthorized };
+  }
+
+  const supabase = createTokenClient(token);
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token);
+
+  if (error || !user) {
+    return { success: false, response: unauthorized };
+  }
+  return { success: true, user: { id: user.id, email: user.email ?? '' }, supabase };
+}
+
+/** Verify `Authorization: Bearer <CRON_SECRET>` on routes called by a scheduler */
+export function requireCronSecret(request: Request): CronAuthResult {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return { success: false, response: serverErrorResponse('Missing CRON_SECRET environment variable') };
+  }
+
+  const token = (request.headers.get('authorization') ?? '').match(/^Bearer\s+(.+)$/i)?.[1] ?? '';
+  // Compare digests so the comparison takes the same time whatever the token's length
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  if (!timingSafeEqual(digest(token), digest(secret))) {
+    return { success: false, response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+  return { success: true };
+}
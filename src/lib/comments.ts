@@ -0,0 +1,31 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DbErrorCode } from '@/lib/errors';
+import type { TeamMember } from '@/types';
+
+export type StoryMembersResult =
+  | { success: true; data: TeamMember[] }
+  | { success: false; notFound: boolean; message: string; error: unknown };
+
+type StoryTeamRow = { task: { activity: { story_map: { team_id: string } } } };
+
+/** Members of the team that owns a story - the people its comments can mention. Stories in the trash are not found. */
+export async function loadStoryMembers(supabase: SupabaseClient, storyId: string): Promise<StoryMembersResult> {
+  const { data: story, error: storyError } = await supabase
+    .from('stories')
+    .select('task:tasks!inner(activity:activities!inner(story_map:story_maps!inner(team_id)))')
+    .eq('id', storyId)
+    .is('deleted_at', null)
+    .single();
+
+  if (storyError) {
+    const notFound = storyError.code === DbErrorCode.NOT_FOUND;
+    return { success: false, notFound, message: 'Failed to load story', error: storyError };
+  }
+
+  const teamId = (story as unknown as StoryTeamRow).task.activity.story_map.team_id;
+  const { data, error } = await supabase.rpc('get_team_members', { p_team_id: teamId });
+  if (error) {
+    return { success: false, notFound: false, message: 'Failed to load team members', error };
+  }
+  return { success: true, data: data as TeamMember[] };
+}
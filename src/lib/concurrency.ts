@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+// =============================================================================
+// Optimistic Concurrency
+// Stories, story maps and teams are versioned by updated_at. Clients send the
+// version they edited in If-Match; updates of a newer row are rejected with 409.
+// =============================================================================
+
+/** ETag for a row version */
+export function versionTag(updatedAt: string): string {
+  return `"${updatedAt}"`;
+}
+
+/** Request headers for updating the row version `updatedAt` */
+export function ifMatchHeader(updatedAt: string): Record<string, string> {
+  return { 'If-Match': versionTag(updatedAt) };
+}
+
+/** ISO-8601 with an offset, as updated_at is serialized - other dates Date.parse accepts fail as timestamptz */
+const rowVersion = z.iso.datetime({ offset: true });
+
+/** updated_at the client last saw, or null when If-Match is missing or not a timestamp */
+export function ifMatchVersion(request: Request): string | null {
+  const header = request.headers.get('if-match')?.trim();
+  if (!header) return null;
+  const version = header.replace(/^W\//, '').replace(/^"|"$/g, '');
+  return rowVersion.safeParse(version).success ? version : null;
+}
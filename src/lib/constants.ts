@@ -1,4 +1,4 @@
-import type { StoryStatus } from '@/types';
+import type { DigestFrequency, NotificationType, StoryRevisionField, StoryStatus, WebhookEvent } from '@/types';
 
 // =============================================================================
 // Story Status
@@ -27,3 +27,70 @@ export const STATUS_OPTIONS: { value: StoryStatus; label: string }[] = [
   { value: 'review', label: 'Review' },
   { value: 'done', label: 'Done' },
 ];
+
+// =============================================================================
+// Story Fields
+// =============================================================================
+
+export const STORY_FIELD_LABELS: Record<StoryRevisionField | 'persona_ids' | 'assignee_id', string> = {
+  title: 'Title',
+  requirements: 'Requirements',
+  acceptance_criteria: 'Acceptance Criteria',
+  edge_cases: 'Edge Cases',
+  technical_guidelines: 'Technical Guidelines',
+  figma_link: 'Figma Link',
+  status: 'Status',
+  release_id: 'Release',
+  persona_ids: 'Personas',
+  assignee_id: 'Assignee',
+};
+
+// =============================================================================
+// Trash
+// =============================================================================
+
+/** Days deleted entities stay in a story map's trash - the default retention of purge_deleted_entities */
+export const TRASH_RETENTION_DAYS = 30;
+
+// =============================================================================
+// Notifications
+// =============================================================================
+
+/** Event types in the order the preferences list them */
+export const NOTIFICATION_TYPE_OPTIONS: { value: NotificationType; label: string; description: string }[] = [
+  { value: 'mention', label: 'Mentions', description: 'Someone @mentions you in a comment' },
+  { value: 'assignment', label: 'Assignments', description: 'A story is assigned to you' },
+  {
+    value: 'comment',
+    label: 'Comments',
+    description: 'New comments on stories you reported, are assigned or commented on',
+  },
+  {
+    value: 'status_change',
+    label: 'Status changes',
+    description: 'Stories you reported, are assigned or commented on change status',
+  },
+  { value: 'team_added', label: 'Teams', description: 'You are added to a team' },
+];
+
+export const DIGEST_FREQUENCY_OPTIONS: { value: DigestFrequency; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+// =============================================================================
+// Webhooks
+// =============================================================================
+
+/** Events a webhook can subscribe to, in the order the webhook form lists them */
+export const WEBHOOK_EVENT_OPTIONS: { value: WebhookEvent; description: string }[] = [
+  { value: 'story.created', description: 'A story is created' },
+  { value: 'story.status_changed', description: 'A story changes status' },
+  { value: 'story.assigned', description: 'A story is assigned or unassigned' },
+  { value: 'story.deleted', description: 'A story is moved to the trash' },
+  { value: 'release.created', description: 'A release is created' },
+  { value: 'release.deleted', description: 'A release is moved to the trash' },
+  { value: 'comment.created', description: 'Someone comments on a story' },
+  { value: 'story_map.created', description: 'A story map is created, imported or duplicated' },
+];
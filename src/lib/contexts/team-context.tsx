@@ -4,10 +4,13 @@ import { createContext, type ReactNode, useContext, useState } from 'react';
 import type { TeamWithRole } from '@/types';
 
 interface TeamContextValue {
+  /** The signed-in user */
+  userId: string;
   teams: TeamWithRole[];
   currentTeam: TeamWithRole | null;
   setCurrentTeam: (team: TeamWithRole) => void;
-  reloadTeams: () => Promise<void>;
+  /** Refetch the user's teams, then switch to `selectTeamId` when given and found */
+  reloadTeams: (selectTeamId?: string) => Promise<void>;
 }
 
 const TeamContext = createContext<TeamContextValue | null>(null);
@@ -19,7 +22,15 @@ function getSavedOrFirstTeam(teams: TeamWithRole[]): TeamWithRole | null {
   return teams.find((t) => t.id === savedId) ?? teams[0] ?? null;
 }
 
-export function TeamProvider({ children, initialTeams }: { children: ReactNode; initialTeams: TeamWithRole[] }) {
+export function TeamProvider({
+  children,
+  userId,
+  initialTeams,
+}: {
+  children: ReactNode;
+  userId: string;
+  initialTeams: TeamWithRole[];
+}) {
   const [teams, setTeams] = useState(initialTeams);
   const [currentTeam, setCurrentTeamState] = useState(() => getSavedOrFirstTeam(initialTeams));
 
@@ -28,17 +39,24 @@ export function TeamProvider({ children, initialTeams }: { children: ReactNode;
     localStorage.setItem(STORAGE_KEY, team.id);
   }
 
-  async function reloadTeams() {
+  async function reloadTeams(selectTeamId?: string) {
     const res = await fetch('/api/teams');
     if (res.ok) {
       const list: TeamWithRole[] = await res.json();
       setTeams(list);
-      setCurrentTeamState(getSavedOrFirstTeam(list));
+      const selected = list.find((t) => t.id === selectTeamId);
+      if (selected) {
+        setCurrentTeam(selected);
+      } else {
+        setCurrentTeamState(getSavedOrFirstTeam(list));
+      }
     }
   }
 
   return (
-    <TeamContext.Provider value={{ teams, currentTeam, setCurrentTeam, reloadTeams }}>{children}</TeamContext.Provider>
+    <TeamContext.Provider value={{ userId, teams, currentTeam, setCurrentTeam, reloadTeams }}>
+      {children}
+    </TeamContext.Provider>
   );
 }
 
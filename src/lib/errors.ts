@@ -6,13 +6,37 @@ import { NextResponse } from 'next/server';
 export const DbErrorCode = {
   /** PostgREST: No rows returned when .single() expected one */
   NOT_FOUND: 'PGRST116',
+  /** PL/pgSQL: RAISE ... USING ERRCODE = 'no_data_found' in database functions */
+  NO_DATA_FOUND: 'P0002',
+  /** PL/pgSQL: RAISE ... USING ERRCODE = 'object_not_in_prerequisite_state', e.g. restoring a story before its task */
+  PREREQUISITE: '55000',
+  /** PL/pgSQL: RAISE ... USING ERRCODE = 'check_violation', e.g. assigning a story to someone outside the team */
+  CHECK_VIOLATION: '23514',
 } as const;
 
+/** Return a 400 response for a write the database rejected as invalid, with its message */
+export function invalidDataResponse(error: { message: string }): NextResponse {
+  return NextResponse.json({ error: error.message }, { status: 400 });
+}
+
 /** Return a 404 response for a missing resource */
 export function notFoundResponse(resource: string): NextResponse {
   return NextResponse.json({ error: `${resource} not found` }, { status: 404 });
 }
 
+/** Return a 428 response for an update without the row version it is based on */
+export function preconditionRequiredResponse(): NextResponse {
+  return NextResponse.json(
+    { error: 'If-Match header with the updated_at of the edited version is required' },
+    { status: 428 },
+  );
+}
+
+/** Return a 409 response with the current row when an update was based on a stale version */
+export function conflictResponse(resource: string, current: unknown): NextResponse {
+  return NextResponse.json({ error: `${resource} was changed by someone else`, current }, { status: 409 });
+}
+
 /** Return a 500 response and log the error */
 export function serverErrorResponse(message: string, error?: unknown): NextResponse {
   // biome-ignore lint/suspicious/noConsole: intentional server-side error logging
@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  type ExportFormat,
+  type PortableStory,
+  type PortableStoryMap,
+  renderStoryMapCsv,
+  renderStoryMapMarkdown,
+} from '@/lib/export';
+import { parseStoryMapImport } from '@/lib/import';
+
+function story(title: string, release: string | null): PortableStory {
+  return {
+    title,
+    status: 'ready',
+    release,
+    personas: ['Shopper'],
+    requirements: `Requirements of ${title}`,
+    acceptance_criteria: `- [ ] ${title} works`,
+    edge_cases: null,
+    technical_guidelines: null,
+    figma_link: null,
+  };
+}
+
+/** Activity order differs from the order of the releases the stories are in */
+const MAP: PortableStoryMap = {
+  format: 'beemspec.story-map',
+  version: 1,
+  name: 'Checkout',
+  description: 'Buying things',
+  personas: [{ name: 'Shopper', description: 'Buys things', goals: 'Pay fast' }],
+  releases: [
+    { name: 'R1', description: null },
+    { name: 'R2', description: null },
+  ],
+  activities: [
+    {
+      name: 'A',
+      description: 'First activity',
+      personas: [],
+      tasks: [
+        { name: 'A1', description: 'Without stories', personas: [], stories: [] },
+        { name: 'A2', description: null, personas: [], stories: [story('Pay by card', 'R2')] },
+      ],
+    },
+    { name: 'Empty', description: null, personas: [], tasks: [] },
+    {
+      name: 'B',
+      description: null,
+      personas: [],
+      tasks: [
+        { name: 'B1', description: null, personas: [], stories: [story('See cart', 'R1'), story('Later', null)] },
+      ],
+    },
+  ],
+};
+
+const RENDER: Record<Exclude<ExportFormat, 'json'>, (map: PortableStoryMap) => string> = {
+  markdown: renderStoryMapMarkdown,
+  csv: renderStoryMapCsv,
+};
+
+/** Activity → task → story titles, the part every format keeps */
+function outline(map: {
+  activities: { name: string; tasks: { name: string; stories: { title: string; release: string | null }[] }[] }[];
+}) {
+  return map.activities.map((a) => ({
+    name: a.name,
+    tasks: a.tasks.map((t) => ({ name: t.name, stories: t.stories.map((s) => [s.title, s.release]) })),
+  }));
+}
+
+describe('export and re-import', () => {
+  for (const [format, render] of Object.entries(RENDER)) {
+    test(`${format} keeps activity, task and story order, including empty ones`, () => {
+      const result = parseStoryMapImport(render(MAP), format as ExportFormat, MAP.name);
+      assert.ok(result.success, JSON.stringify(!result.success && result.errors));
+      assert.deepEqual(outline(result.data), outline(MAP));
+      assert.deepEqual(
+        result.data.releases.map((r) => r.name),
+        ['R1', 'R2'],
+      );
+      assert.deepEqual(result.data.activities[0].tasks[1].stories[0], story('Pay by card', 'R2'));
+    });
+  }
+
+  test('markdown keeps activity and task descriptions', () => {
+    const result = parseStoryMapImport(renderStoryMapMarkdown(MAP), 'markdown');
+    assert.ok(result.success);
+    assert.equal(result.data.description, MAP.description);
+    assert.equal(result.data.activities[0].description, 'First activity');
+    assert.equal(result.data.activities[0].tasks[0].description, 'Without stories');
+  });
+
+  test('csv keeps cells that look like formulas from being evaluated', () => {
+    const formula = story('=HYPERLINK("https://example.com")', null);
+    const map = {
+      ...MAP,
+      activities: [{ ...MAP.activities[0], tasks: [{ ...MAP.activities[0].tasks[0], stories: [formula] }] }],
+    };
+    const csv = renderStoryMapCsv(map);
+    assert.ok(csv.includes(`"'=HYPERLINK(""https://example.com"")"`));
+    assert.ok(csv.includes(`'- [ ] =HYPERLINK`));
+    const result = parseStoryMapImport(csv, 'csv', MAP.name);
+    assert.ok(result.success);
+    assert.deepEqual(result.data.activities[0].tasks[0].stories[0], formula);
+  });
+
+  test('json round-trips the whole document', () => {
+    const result = parseStoryMapImport(JSON.stringify(MAP), 'json');
+    assert.ok(result.success);
+    assert.deepEqual(result.data, MAP);
+  });
+});
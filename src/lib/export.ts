@@ -0,0 +1,272 @@
+import { assertNever } from '@/lib/errors';
+import type { Persona, Release, StoryMapFull, StoryStatus } from '@/types';
+
+// =============================================================================
+// Portable Story Map
+// Id-free document for sharing outside BeemSpec. Array order is sort order;
+// personas and releases are referenced by name.
+// =============================================================================
+
+export const PORTABLE_FORMAT = 'beemspec.story-map';
+export const PORTABLE_VERSION = 1;
+
+export interface PortableStory {
+  title: string;
+  status: StoryStatus;
+  release: string | null;
+  personas: string[];
+  requirements: string;
+  acceptance_criteria: string;
+  edge_cases: string | null;
+  technical_guidelines: string | null;
+  figma_link: string | null;
+}
+
+export interface PortableTask {
+  name: string;
+  description: string | null;
+  personas: string[];
+  stories: PortableStory[];
+}
+
+export interface PortableActivity {
+  name: string;
+  description: string | null;
+  personas: string[];
+  tasks: PortableTask[];
+}
+
+export interface PortableStoryMap {
+  format: typeof PORTABLE_FORMAT;
+  version: typeof PORTABLE_VERSION;
+  name: string;
+  description: string | null;
+  personas: Pick<Persona, 'name' | 'description' | 'goals'>[];
+  releases: Pick<Release, 'name' | 'description'>[];
+  activities: PortableActivity[];
+}
+
+export function toPortableStoryMap(map: StoryMapFull): PortableStoryMap {
+  const personaNames = new Map(map.personas.map((p) => [p.id, p.name]));
+  const releaseNames = new Map(map.releases.map((r) => [r.id, r.name]));
+  const names = (ids: string[]) => ids.flatMap((id) => personaNames.get(id) ?? []);
+
+  return {
+    format: PORTABLE_FORMAT,
+    version: PORTABLE_VERSION,
+    name: map.name,
+    description: map.description,
+    personas: map.personas.map(({ name, description, goals }) => ({ name, description, goals })),
+    releases: map.releases.map(({ name, description }) => ({ name, description })),
+    activities: map.activities.map((activity) => ({
+      name: activity.name,
+      description: activity.description,
+      personas: names(activity.persona_ids),
+      tasks: activity.tasks.map((task) => ({
+        name: task.name,
+        description: task.description,
+        personas: names(task.persona_ids),
+        stories: task.stories.map((story) => ({
+          title: story.title,
+          status: story.status,
+          release: story.release_id ? (releaseNames.get(story.release_id) ?? null) : null,
+          personas: names(story.persona_ids),
+          requirements: story.requirements,
+          acceptance_criteria: story.acceptance_criteria,
+          edge_cases: story.edge_cases,
+          technical_guidelines: story.technical_guidelines,
+          figma_link: story.figma_link,
+        })),
+      })),
+    })),
+  };
+}
+
+// =============================================================================
+// Markdown
+// # Map → ## Release → ### Activity → #### Task → ##### Story → ###### field
+// An Outline section first lists every activity and task in canvas order, with
+// their descriptions, so order and empty ones survive a round trip.
+// =============================================================================
+
+export const MARKDOWN_UNASSIGNED_RELEASE = 'Unassigned';
+export const MARKDOWN_OUTLINE = 'Outline';
+
+/** Story text fields rendered as level-6 sections, in order */
+export const MARKDOWN_STORY_SECTIONS = [
+  ['Requirements', 'requirements'],
+  ['Acceptance Criteria', 'acceptance_criteria'],
+  ['Edge Cases', 'edge_cases'],
+  ['Technical Guidelines', 'technical_guidelines'],
+] as const satisfies readonly (readonly [string, keyof PortableStory])[];
+
+function paragraph(text: string | null): string[] {
+  return text?.trim() ? [text.trim(), ''] : [];
+}
+
+function renderStory(story: PortableStory): string[] {
+  const lines = [`##### ${story.title}`, '', `- Status: ${story.status}`];
+  if (story.personas.length > 0) lines.push(`- Personas: ${story.personas.join(', ')}`);
+  if (story.figma_link) lines.push(`- Figma: ${story.figma_link}`);
+  lines.push('');
+
+  for (const [title, field] of MARKDOWN_STORY_SECTIONS) {
+    const text = story[field];
+    if (text?.trim()) lines.push(`###### ${title}`, '', text.trim(), '');
+  }
+  return lines;
+}
+
+/** Every activity and task in canvas order, with descriptions but without stories */
+function renderOutline(map: PortableStoryMap): string[] {
+  return map.activities.flatMap((activity) => [
+    `### ${activity.name}`,
+    '',
+    ...paragraph(activity.description),
+    ...activity.tasks.flatMap((task) => [`#### ${task.name}`, '', ...paragraph(task.description)]),
+  ]);
+}
+
+/** Activities, tasks and stories of one release; activities and tasks without stories in it are left out */
+function renderRelease(map: PortableStoryMap, release: string | null): string[] {
+  return map.activities.flatMap((activity) => {
+    const tasks = activity.tasks.flatMap((task) => {
+      const stories = task.stories.filter((s) => s.release === release);
+      if (stories.length === 0) return [];
+      return [`#### ${task.name}`, '', ...stories.flatMap(renderStory)];
+    });
+    if (tasks.length === 0) return [];
+    return [`### ${activity.name}`, '', ...tasks];
+  });
+}
+
+export function renderStoryMapMarkdown(map: PortableStoryMap): string {
+  const lines = [`# ${map.name}`, '', ...paragraph(map.description)];
+
+  if (map.personas.length > 0) {
+    lines.push('## Personas', '');
+    for (const persona of map.personas) {
+      lines.push(`- **${persona.name}**${persona.description ? `: ${persona.description}` : ''}`);
+      if (persona.goals?.trim()) lines.push(`  Goals: ${persona.goals.trim().replace(/\n/g, ' ')}`);
+    }
+    lines.push('');
+  }
+
+  lines.push(`## ${MARKDOWN_OUTLINE}`, '', ...renderOutline(map));
+
+  for (const release of map.releases) {
+    lines.push(`## ${release.name}`, '', ...paragraph(release.description), ...renderRelease(map, release.name));
+  }
+
+  const unassigned = renderRelease(map, null);
+  if (unassigned.length > 0) {
+    lines.push(`## ${MARKDOWN_UNASSIGNED_RELEASE}`, '', ...unassigned);
+  }
+
+  return `${lines.join('\n').trimEnd()}\n`;
+}
+
+// =============================================================================
+// CSV
+// One row per story, in canvas order (activity → task → story). Tasks without
+// stories get a row with only activity and task, activities without tasks one
+// with only the activity. Rows with only a release come first and keep the
+// release order.
+// =============================================================================
+
+export const CSV_COLUMNS = [
+  'activity',
+  'task',
+  'release',
+  'title',
+  'status',
+  'personas',
+  'requirements',
+  'acceptance_criteria',
+  'edge_cases',
+  'technical_guidelines',
+  'figma_link',
+] as const;
+
+export type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+/** Multiple personas share one cell */
+export const CSV_LIST_SEPARATOR = '; ';
+
+/** Cells a spreadsheet would evaluate as a formula; exported behind a ' that import drops again */
+export const CSV_FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(value: string | null): string {
+  const raw = value ?? '';
+  const text = CSV_FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) || text.trim() !== text ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+type CsvRow = Partial<Record<CsvColumn, string | null>>;
+
+export function renderStoryMapCsv(map: PortableStoryMap): string {
+  const releases = map.releases.map((release): CsvRow => ({ release: release.name }));
+  const stories = map.activities.flatMap((activity): CsvRow[] => {
+    if (activity.tasks.length === 0) return [{ activity: activity.name }];
+    return activity.tasks.flatMap((task): CsvRow[] => {
+      if (task.stories.length === 0) return [{ activity: activity.name, task: task.name }];
+      return task.stories.map((story) => ({
+        activity: activity.name,
+        task: task.name,
+        release: story.release,
+        title: story.title,
+        status: story.status,
+        personas: story.personas.join(CSV_LIST_SEPARATOR),
+        requirements: story.requirements,
+        acceptance_criteria: story.acceptance_criteria,
+        edge_cases: story.edge_cases,
+        technical_guidelines: story.technical_guidelines,
+        figma_link: story.figma_link,
+      }));
+    });
+  });
+
+  const rows = [...releases, ...stories];
+  return [CSV_COLUMNS.join(','), ...rows.map((row) => CSV_COLUMNS.map((c) => csvCell(row[c] ?? null)).join(','))]
+    .map((line) => `${line}\r\n`)
+    .join('');
+}
+
+// =============================================================================
+// Formats
+// =============================================================================
+
+export const EXPORT_FORMATS = {
+  markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+export function isExportFormat(format: string): format is ExportFormat {
+  return Object.hasOwn(EXPORT_FORMATS, format);
+}
+
+export function renderStoryMap(map: StoryMapFull, format: ExportFormat): string {
+  const portable = toPortableStoryMap(map);
+  switch (format) {
+    case 'markdown':
+      return renderStoryMapMarkdown(portable);
+    case 'csv':
+      return renderStoryMapCsv(portable);
+    case 'json':
+      return `${JSON.stringify(portable, null, 2)}\n`;
+    default:
+      return assertNever(format);
+  }
+}
+
+/** File name for a download, e.g. `checkout-flow.md` */
+export function exportFileName(name: string, format: ExportFormat): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'story-map'}.${EXPORT_FORMATS[format].extension}`;
+}
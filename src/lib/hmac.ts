@@ -0,0 +1,15 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/** Hex-encoded HMAC-SHA256 of a raw request body */
+export function signPayload(secret: string, payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/** Constant-time comparison of a received hex signature against the expected one */
+export function verifySignature(secret: string, payload: string, signature: string | null): boolean {
+  if (!signature) return false;
+
+  const expected = Buffer.from(signPayload(secret, payload), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
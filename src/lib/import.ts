@@ -0,0 +1,512 @@
+import type { z } from 'zod';
+import { assertNever, errorMessage } from '@/lib/errors';
+import {
+  CSV_COLUMNS,
+  CSV_FORMULA_START,
+  CSV_LIST_SEPARATOR,
+  type ExportFormat,
+  MARKDOWN_OUTLINE,
+  MARKDOWN_STORY_SECTIONS,
+  MARKDOWN_UNASSIGNED_RELEASE,
+} from '@/lib/export';
+import { type PortableStoryMapInput, portableStoryMapSchema } from '@/lib/validations';
+
+// =============================================================================
+// Story Map Import
+// Parses the formats lib/export.ts produces back into a portable document, validates
+// it with portableStoryMapSchema and creates the map in one transaction (import_story_map).
+// Parsers record the source line of every element so errors point at the row to fix.
+// =============================================================================
+
+export interface ImportError {
+  /** 1-based line in the source file, null when it has no line (JSON, document-level errors) */
+  line: number | null;
+  /** Location in the portable document, e.g. `activities.0.tasks.1.stories.2.title` */
+  path: string;
+  message: string;
+}
+
+export type ImportResult = { success: true; data: PortableStoryMapInput } | { success: false; errors: ImportError[] };
+
+interface ParsedDocument {
+  document: Record<string, unknown>;
+  /** Source line per document path (`activities.0.tasks.1`) */
+  lines: Map<string, number>;
+}
+
+type ParseResult = { success: true; data: ParsedDocument } | { success: false; errors: ImportError[] };
+
+class ImportParseError extends Error {
+  constructor(
+    message: string,
+    readonly line: number | null,
+  ) {
+    super(message);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Document builder shared by the CSV and Markdown parsers
+// -----------------------------------------------------------------------------
+
+interface DraftStory extends Record<string, unknown> {
+  personas: string[];
+}
+
+interface DraftTask {
+  name: string;
+  description: string | null;
+  stories: DraftStory[];
+}
+
+interface DraftActivity {
+  name: string;
+  description: string | null;
+  tasks: DraftTask[];
+}
+
+/** Collects activities and tasks by name in order of first appearance */
+class DocumentBuilder {
+  readonly personas: { name: string; description: string | null; goals: string | null }[] = [];
+  readonly releases: { name: string; description: string | null }[] = [];
+  readonly activities: DraftActivity[] = [];
+  readonly lines = new Map<string, number>();
+
+  activity(name: string, line: number): DraftActivity {
+    let index = this.activities.findIndex((a) => a.name === name);
+    if (index === -1) {
+      index = this.activities.push({ name, description: null, tasks: [] }) - 1;
+      this.lines.set(`activities.${index}`, line);
+    }
+    return this.activities[index];
+  }
+
+  task(activity: DraftActivity, name: string, line: number): DraftTask {
+    let index = activity.tasks.findIndex((t) => t.name === name);
+    if (index === -1) {
+      index = activity.tasks.push({ name, description: null, stories: [] }) - 1;
+      this.lines.set(`activities.${this.activities.indexOf(activity)}.tasks.${index}`, line);
+    }
+    return activity.tasks[index];
+  }
+
+  story(activity: DraftActivity, task: DraftTask, story: DraftStory, line: number): DraftStory {
+    const index = task.stories.push(story) - 1;
+    const path = `activities.${this.activities.indexOf(activity)}.tasks.${activity.tasks.indexOf(task)}.stories.${index}`;
+    this.lines.set(path, line);
+    return story;
+  }
+
+  release(name: string, line: number): void {
+    if (this.releases.some((r) => r.name === name)) return;
+    this.lines.set(`releases.${this.releases.length}`, line);
+    this.releases.push({ name, description: null });
+  }
+
+  persona(name: string, line: number): void {
+    if (this.personas.some((p) => p.name === name)) return;
+    this.lines.set(`personas.${this.personas.length}`, line);
+    this.personas.push({ name, description: null, goals: null });
+  }
+
+  build(fields: { name?: string; description?: string | null }): ParsedDocument {
+    const activities = this.activities.map((a) => ({ ...a, personas: [] }));
+    return {
+      document: { ...fields, personas: this.personas, releases: this.releases, activities },
+      lines: this.lines,
+    };
+  }
+}
+
+/** Empty cells and sections are null, not empty strings - nullable fields reject "" */
+function textOrNull(text: string | undefined): string | null {
+  return text?.trim() ? text.trim() : null;
+}
+
+function splitNames(text: string | undefined, separator: string): string[] {
+  return (text ?? '')
+    .split(separator)
+    .map((n) => n.trim())
+    .filter(Boolean);
+}
+
+// -----------------------------------------------------------------------------
+// CSV
+// -----------------------------------------------------------------------------
+
+interface CsvRecord {
+  line: number;
+  cells: string[];
+}
+
+/** A delimiter (start of file, comma or line break) followed by one quoted or bare cell */
+const CSV_CELL = /(^|,|\r?\n)(?:"((?:[^"]|"")*)"|([^",\r\n]*))/g;
+
+/** RFC 4180 records with the line each one starts on; quoted cells may span lines */
+function parseCsvRecords(content: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let record: CsvRecord = { line: 1, cells: [] };
+  let line = 1;
+  let end = 0;
+
+  for (const match of content.matchAll(CSV_CELL)) {
+    const [text, delimiter, quoted, bare] = match;
+    if (match.index !== end) {
+      throw new ImportParseError('Malformed CSV: stray or unterminated quote', line);
+    }
+    end = match.index + text.length;
+
+    if (delimiter !== ',') {
+      if (delimiter) line++;
+      record = { line, cells: [] };
+      records.push(record);
+    }
+    record.cells.push(quoted === undefined ? bare : quoted.replace(/""/g, '"'));
+    if (quoted) line += quoted.split('\n').length - 1;
+  }
+
+  if (end !== content.length) {
+    throw new ImportParseError('Malformed CSV: stray or unterminated quote', line);
+  }
+  return records.filter((r) => r.cells.some((c) => c.trim()));
+}
+
+const CSV_REQUIRED_COLUMNS = ['activity', 'task', 'title'];
+
+/** Columns of a story - rows with all of them empty add only an activity, a task or a release */
+const CSV_STORY_COLUMNS = CSV_COLUMNS.filter((c) => c !== 'activity' && c !== 'task');
+
+type CsvRow = Record<string, string | undefined>;
+
+/** Undo the ' export puts before cells that would start a formula */
+function csvText(cell: string): string {
+  return cell.startsWith("'") && CSV_FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
+
+function isBlank(row: CsvRow, columns: readonly string[]): boolean {
+  return columns.every((c) => !row[c]?.trim());
+}
+
+/** Add one row: a story with its activity, task, release and personas - or only a release, activity or task */
+function addCsvRow(builder: DocumentBuilder, row: CsvRow, line: number) {
+  const release = textOrNull(row.release);
+  const personas = splitNames(row.personas, CSV_LIST_SEPARATOR.trim());
+
+  if (release) builder.release(release, line);
+  for (const persona of personas) builder.persona(persona, line);
+  if (release && isBlank(row, ['activity', 'task', ...CSV_STORY_COLUMNS.filter((c) => c !== 'release')])) return;
+
+  const activity = builder.activity(row.activity?.trim() ?? '', line);
+  if (isBlank(row, ['task', ...CSV_STORY_COLUMNS])) return;
+  const task = builder.task(activity, row.task?.trim() ?? '', line);
+  if (isBlank(row, CSV_STORY_COLUMNS)) return;
+  builder.story(
+    activity,
+    task,
+    {
+      title: row.title?.trim() ?? '',
+      status: textOrNull(row.status) ?? undefined,
+      release,
+      personas,
+      requirements: row.requirements?.trim() ?? '',
+      acceptance_criteria: row.acceptance_criteria?.trim() ?? '',
+      edge_cases: textOrNull(row.edge_cases),
+      technical_guidelines: textOrNull(row.technical_guidelines),
+      figma_link: textOrNull(row.figma_link),
+    },
+    line,
+  );
+}
+
+function parseCsv(content: string): ParsedDocument {
+  const [header, ...rows] = parseCsvRecords(content.replace(/^\uFEFF/, ''));
+  if (!header) throw new ImportParseError('File is empty', null);
+
+  const columns = header.cells.map((c) => c.trim().toLowerCase().replace(/\s+/g, '_'));
+  const missing = CSV_REQUIRED_COLUMNS.filter((c) => !columns.includes(c));
+  if (missing.length > 0) {
+    throw new ImportParseError(`Missing column(s): ${missing.join(', ')}`, header.line);
+  }
+
+  const builder = new DocumentBuilder();
+  for (const { line, cells } of rows) {
+    addCsvRow(builder, Object.fromEntries(columns.map((column, i) => [column, csvText(cells[i] ?? '')])), line);
+  }
+
+  return builder.build({});
+}
+
+// -----------------------------------------------------------------------------
+// Markdown
+// # Map → ## Release (or Personas, Outline) → ### Activity → #### Task → ##### Story → ###### field
+// -----------------------------------------------------------------------------
+
+type MarkdownSection =
+  | { kind: 'map' }
+  | { kind: 'personas' }
+  | { kind: 'outline' }
+  | { kind: 'release'; release: { description: string | null } | null }
+  | { kind: 'activity'; activity: DraftActivity }
+  | { kind: 'task'; task: DraftTask }
+  | { kind: 'story'; story: DraftStory }
+  | { kind: 'field'; story: DraftStory; field: string };
+
+interface MarkdownLine {
+  text: string;
+  line: number;
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+function applyPersonaBullets(builder: DocumentBuilder, body: MarkdownLine[]) {
+  for (const { text, line } of body) {
+    const persona = text.match(/^[-*]\s+\*\*(.+?)\*\*(?::\s*(.*))?$/);
+    const goals = text.match(/^\s+Goals:\s*(.*)$/);
+    const last = builder.personas.at(-1);
+    if (persona) {
+      builder.persona(persona[1].trim(), line);
+      builder.personas[builder.personas.length - 1].description = textOrNull(persona[2]);
+    } else if (goals && last) {
+      last.goals = textOrNull(goals[1]);
+    }
+  }
+}
+
+/** Status, personas and Figma bullets; any other text is kept as requirements unless a Requirements section follows */
+function applyStoryBullets(story: DraftStory, body: MarkdownLine[]) {
+  const notes: string[] = [];
+  for (const { text } of body) {
+    const [, key, value] = text.match(/^[-*]\s+(Status|Personas|Figma):\s*(.*)$/i) ?? [];
+    switch (key?.toLowerCase()) {
+      case 'status':
+        story.status = textOrNull(value) ?? undefined;
+        break;
+      case 'personas':
+        story.personas = splitNames(value, ',');
+        break;
+      case 'figma':
+        story.figma_link = textOrNull(value);
+        break;
+      default:
+        notes.push(text);
+    }
+  }
+  story.requirements = notes.join('\n').trim();
+}
+
+/**
+ * Walks the headings top-down; activities and tasks repeated under several releases are merged
+ * by name, so they keep the order of the Outline section, or of their first appearance without one
+ */
+class MarkdownParser {
+  private readonly builder = new DocumentBuilder();
+  private readonly map: { name?: string; description: string | null } = { description: null };
+  private section: MarkdownSection | null = null;
+  private body: MarkdownLine[] = [];
+  private release: string | null = null;
+  /** Under the Outline heading, which lists activities and tasks but no stories */
+  private outline = false;
+  private activity: DraftActivity | null = null;
+  private task: DraftTask | null = null;
+  private story: DraftStory | null = null;
+
+  parse(content: string): ParsedDocument {
+    let fenced = false;
+    content.split(/\r?\n/).forEach((text, i) => {
+      if (text.trimStart().startsWith('```')) fenced = !fenced;
+      const heading = fenced ? null : text.match(MARKDOWN_HEADING);
+      if (heading) {
+        this.flush();
+        this.heading(heading[1].length, heading[2].trim(), i + 1);
+      } else if (this.section) {
+        this.body.push({ text, line: i + 1 });
+      } else if (text.trim()) {
+        throw new ImportParseError('Expected a "# Story map name" heading first', i + 1);
+      }
+    });
+    this.flush();
+    return this.builder.build(this.map);
+  }
+
+  private heading(level: number, title: string, line: number) {
+    switch (level) {
+      case 1:
+        this.map.name = title;
+        this.section = { kind: 'map' };
+        break;
+      case 2:
+        this.releaseHeading(title, line);
+        break;
+      case 3:
+        this.activity = this.builder.activity(title, line);
+        this.task = this.story = null;
+        this.section = { kind: 'activity', activity: this.activity };
+        break;
+      case 4:
+        this.task = this.builder.task(this.parent(this.activity, title, line), title, line);
+        this.story = null;
+        this.section = { kind: 'task', task: this.task };
+        break;
+      case 5:
+        if (this.outline) throw new ImportParseError(`Story "${title}" must be under a release heading`, line);
+        this.story = this.builder.story(
+          this.parent(this.activity, title, line),
+          this.parent(this.task, title, line),
+          {
+            title,
+            release: this.release,
+            personas: [],
+            requirements: '',
+            acceptance_criteria: '',
+            edge_cases: null,
+            technical_guidelines: null,
+            figma_link: null,
+          },
+          line,
+        );
+        this.section = { kind: 'story', story: this.story };
+        break;
+      default:
+        this.section = { kind: 'field', story: this.parent(this.story, title, line), field: storyField(title, line) };
+    }
+  }
+
+  private releaseHeading(title: string, line: number) {
+    this.activity = this.task = this.story = null;
+    this.outline = title === MARKDOWN_OUTLINE;
+    if (title === 'Personas' || this.outline) {
+      this.section = { kind: this.outline ? 'outline' : 'personas' };
+      return;
+    }
+    this.release = title === MARKDOWN_UNASSIGNED_RELEASE ? null : title;
+    if (this.release) this.builder.release(this.release, line);
+    const release = this.builder.releases.find((r) => r.name === this.release) ?? null;
+    this.section = { kind: 'release', release };
+  }
+
+  private parent<T>(parent: T | null, heading: string, line: number): T {
+    if (!parent) throw new ImportParseError(`"${heading}" has no parent heading`, line);
+    return parent;
+  }
+
+  /** Hand the text under the current heading to the element it belongs to */
+  private flush() {
+    const section = this.section;
+    const text = textOrNull(this.body.map((b) => b.text).join('\n'));
+    switch (section?.kind) {
+      case 'map':
+        this.map.description = text;
+        break;
+      case 'personas':
+        applyPersonaBullets(this.builder, this.body);
+        break;
+      case 'release':
+        if (section.release) section.release.description ??= text;
+        break;
+      case 'activity':
+        section.activity.description ??= text;
+        break;
+      case 'task':
+        section.task.description ??= text;
+        break;
+      case 'story':
+        applyStoryBullets(section.story, this.body);
+        break;
+      case 'field':
+        section.story[section.field] = text ?? '';
+        break;
+      default:
+        break;
+    }
+    this.body = [];
+  }
+}
+
+function storyField(title: string, line: number): string {
+  const field = MARKDOWN_STORY_SECTIONS.find(([name]) => name.toLowerCase() === title.toLowerCase())?.[1];
+  if (!field) throw new ImportParseError(`Unknown story section "${title}"`, line);
+  return field;
+}
+
+// -----------------------------------------------------------------------------
+// JSON
+// -----------------------------------------------------------------------------
+
+function parseJson(content: string): ParsedDocument {
+  let document: unknown;
+  try {
+    document = JSON.parse(content);
+  } catch (err) {
+    throw new ImportParseError(`Invalid JSON: ${errorMessage(err)}`, null);
+  }
+  if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+    throw new ImportParseError('Expected a story map object', null);
+  }
+  return { document: document as Record<string, unknown>, lines: new Map() };
+}
+
+// -----------------------------------------------------------------------------
+// Parse & validate
+// -----------------------------------------------------------------------------
+
+function parseDocument(content: string, format: ExportFormat): ParseResult {
+  try {
+    switch (format) {
+      case 'csv':
+        return { success: true, data: parseCsv(content) };
+      case 'markdown':
+        return { success: true, data: new MarkdownParser().parse(content) };
+      case 'json':
+        return { success: true, data: parseJson(content) };
+      default:
+        return assertNever(format);
+    }
+  } catch (err) {
+    if (err instanceof ImportParseError) {
+      return { success: false, errors: [{ line: err.line, path: '', message: err.message }] };
+    }
+    throw err;
+  }
+}
+
+/** Line of the closest element on the issue path that has one */
+function lineOf(lines: Map<string, number>, path: PropertyKey[]): number | null {
+  for (let end = path.length; end > 0; end--) {
+    const line = lines.get(path.slice(0, end).join('.'));
+    if (line) return line;
+  }
+  return null;
+}
+
+function toImportErrors(error: z.ZodError, lines: Map<string, number>): ImportError[] {
+  return error.issues
+    .map((issue) => ({ line: lineOf(lines, issue.path), path: issue.path.join('.'), message: issue.message }))
+    .sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+}
+
+/**
+ * Parse an exported file and validate it as a portable story map.
+ * `name` overrides the document's name (CSV files have none).
+ */
+export function parseStoryMapImport(content: string, format: ExportFormat, name?: string): ImportResult {
+  const parsed = parseDocument(content, format);
+  if (!parsed.success) return parsed;
+
+  const { document, lines } = parsed.data;
+  const result = portableStoryMapSchema.safeParse(name ? { ...document, name } : document);
+  if (!result.success) {
+    return { success: false, errors: toImportErrors(result.error, lines) };
+  }
+  return { success: true, data: result.data };
+}
+
+export function summarizeImport(map: PortableStoryMapInput) {
+  const tasks = map.activities.flatMap((a) => a.tasks);
+  return {
+    personas: map.personas.length,
+    releases: map.releases.length,
+    activities: map.activities.length,
+    tasks: tasks.length,
+    stories: tasks.reduce((sum, t) => sum + t.stories.length, 0),
+  };
+}
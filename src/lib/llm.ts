@@ -0,0 +1,109 @@
+// =============================================================================
+// LLM Provider Abstraction
+// =============================================================================
+
+export interface LlmRequest {
+  system: string;
+  prompt: string;
+  maxTokens?: number;
+}
+
+/** Minimal text-completion interface - swap implementations without touching callers */
+export interface LlmProvider {
+  complete(request: LlmRequest): Promise<string>;
+}
+
+export type LlmProviderName = 'anthropic' | 'openai';
+
+interface ProviderConfig {
+  baseUrl: string;
+  apiKey: string | undefined;
+  model: string;
+}
+
+const DEFAULT_MAX_TOKENS = 8192;
+
+const DEFAULTS: Record<LlmProviderName, { baseUrl: string; model: string }> = {
+  anthropic: { baseUrl: 'https://api.anthropic.com', model: 'claude-sonnet-4-5' },
+  openai: { baseUrl: 'https://api.openai.com', model: 'gpt-4.1' },
+};
+
+async function postJson(url: string, headers: Record<string, string>, body: unknown): Promise<unknown> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    throw new Error(`LLM request failed (${res.status}): ${await res.text()}`);
+  }
+  return res.json();
+}
+
+/** Anthropic Messages API */
+function anthropicProvider({ baseUrl, apiKey, model }: ProviderConfig): LlmProvider {
+  return {
+    async complete({ system, prompt, maxTokens = DEFAULT_MAX_TOKENS }) {
+      const data = (await postJson(
+        `${baseUrl}/v1/messages`,
+        { 'x-api-key': apiKey ?? '', 'anthropic-version': '2023-06-01' },
+        { model, system, max_tokens: maxTokens, messages: [{ role: 'user', content: prompt }] },
+      )) as { content?: { type: string; text?: string }[] };
+
+      return (data.content ?? [])
+        .filter((block) => block.type === 'text')
+        .map((block) => block.text ?? '')
+        .join('');
+    },
+  };
+}
+
+/** OpenAI-compatible Chat Completions API (also works with local servers such as Ollama or a test stub) */
+function openAiProvider({ baseUrl, apiKey, model }: ProviderConfig): LlmProvider {
+  return {
+    async complete({ system, prompt, maxTokens = DEFAULT_MAX_TOKENS }) {
+      const data = (await postJson(
+        `${baseUrl}/v1/chat/completions`,
+        apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        {
+          model,
+          max_tokens: maxTokens,
+          messages: [
+            { role: 'system', content: system },
+            { role: 'user', content: prompt },
+          ],
+        },
+      )) as { choices?: { message?: { content?: string } }[] };
+
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+  };
+}
+
+/**
+ * Create the configured LLM provider (server-only).
+ *
+ * LLM_PROVIDER  anthropic | openai (default: anthropic)
+ * LLM_BASE_URL  override the API origin, e.g. a local stub model
+ * LLM_API_KEY   provider API key
+ * LLM_MODEL     model name
+ */
+export function createLlmProvider(): LlmProvider {
+  const name = (process.env.LLM_PROVIDER ?? 'anthropic') as LlmProviderName;
+  const defaults = DEFAULTS[name];
+  if (!defaults) {
+    throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+
+  const config: ProviderConfig = {
+    baseUrl: (process.env.LLM_BASE_URL ?? defaults.baseUrl).replace(/\/$/, ''),
+    apiKey: process.env.LLM_API_KEY,
+    model: process.env.LLM_MODEL ?? defaults.model,
+  };
+
+  if (!config.apiKey && !process.env.LLM_BASE_URL) {
+    throw new Error('Missing LLM_API_KEY environment variable');
+  }
+
+  return name === 'openai' ? openAiProvider(config) : anthropicProvider(config);
+}
@@ -0,0 +1,232 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { STATUS_LABELS } from '@/lib/constants';
+import { assertNever } from '@/lib/errors';
+import { signPayload, verifySignature } from '@/lib/hmac';
+import type { Mailer } from '@/lib/mail/mailer';
+import { isValidUuid } from '@/lib/validations';
+import type { DigestFrequency, DigestItem, DigestItemKind } from '@/types';
+
+// =============================================================================
+// Email Digests
+// A daily or weekly summary of what others did in the story maps a user touched.
+// Each digest links to a page that turns digests off without signing in.
+// =============================================================================
+
+type SentFrequency = Exclude<DigestFrequency, 'off'>;
+
+interface DigestRecipient {
+  user_id: string;
+  email: string;
+  frequency: SentFrequency;
+  /** Start of the period this digest covers */
+  since: string;
+}
+
+export interface DigestRun {
+  /** Digests emailed */
+  sent: number;
+  /** Recipients with nothing new - no email, but their period still advances */
+  empty: number;
+  /** Retried on the next run, which then covers the missed period too */
+  failed: number;
+}
+
+// -----------------------------------------------------------------------------
+// Unsubscribe tokens
+// -----------------------------------------------------------------------------
+
+const UNSUBSCRIBE_PURPOSE = 'digest-unsubscribe';
+
+function unsubscribeSecret(): string {
+  const secret = process.env.UNSUBSCRIBE_SECRET;
+  if (!secret) {
+    throw new Error('Missing UNSUBSCRIBE_SECRET environment variable');
+  }
+  return secret;
+}
+
+/** `<user id>.<signature>` - proves a digest unsubscribe link was issued for that user */
+export function digestUnsubscribeToken(userId: string): string {
+  return `${userId}.${signPayload(unsubscribeSecret(), `${UNSUBSCRIBE_PURPOSE}:${userId}`)}`;
+}
+
+/** The user an unsubscribe token was issued for, or null when it was not issued by us */
+export function verifyDigestUnsubscribeToken(token: string): string | null {
+  const [userId, signature] = token.split('.');
+  if (!userId || !isValidUuid(userId)) return null;
+  return verifySignature(unsubscribeSecret(), `${UNSUBSCRIBE_PURPOSE}:${userId}`, signature ?? null) ? userId : null;
+}
+
+// -----------------------------------------------------------------------------
+// Content
+// -----------------------------------------------------------------------------
+
+const KIND_NOUNS: Record<DigestItemKind, [singular: string, plural: string]> = {
+  new_story: ['new story', 'new stories'],
+  status_change: ['status change', 'status changes'],
+  comment: ['comment', 'comments'],
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function sentence(item: DigestItem): string {
+  const by = item.actor_email ? ` by ${item.actor_email}` : '';
+  switch (item.kind) {
+    case 'new_story':
+      return `New story "${item.story_title}"${by}`;
+    case 'status_change': {
+      const from = item.detail.from ? STATUS_LABELS[item.detail.from] : '?';
+      const to = item.detail.to ? STATUS_LABELS[item.detail.to] : '?';
+      return `"${item.story_title}" moved from ${from} to ${to}${by}`;
+    }
+    case 'comment':
+      return `${item.actor_email ?? 'Someone'} commented on "${item.story_title}": ${item.detail.excerpt ?? ''}`;
+    default:
+      return assertNever(item.kind);
+  }
+}
+
+/** Items grouped by story map, in the order the maps first appear */
+function groupByStoryMap(items: DigestItem[]): { name: string; items: DigestItem[] }[] {
+  const groups = new Map<string, { name: string; items: DigestItem[] }>();
+  for (const item of items) {
+    const group = groups.get(item.story_map_id) ?? { name: item.story_map_name, items: [] };
+    group.items.push(item);
+    groups.set(item.story_map_id, group);
+  }
+  return [...groups.values()];
+}
+
+/** "2 new stories, 1 status change" - kinds without items are left out */
+function counts(items: DigestItem[]): string {
+  return (Object.keys(KIND_NOUNS) as DigestItemKind[])
+    .map((kind) => {
+      const count = items.filter((item) => item.kind === kind).length;
+      const [singular, plural] = KIND_NOUNS[kind];
+      return count > 0 ? `${count} ${count === 1 ? singular : plural}` : null;
+    })
+    .filter(Boolean)
+    .join(', ');
+}
+
+export interface DigestEmailInput {
+  frequency: SentFrequency;
+  items: DigestItem[];
+  appUrl: string;
+  unsubscribeUrl: string;
+}
+
+/** Subject, plain text and HTML of one digest */
+export function buildDigestEmail({ frequency, items, appUrl, unsubscribeUrl }: DigestEmailInput) {
+  const storyUrl = (item: DigestItem) => `${appUrl}/story-map/${item.story_map_id}?story=${item.story_id}`;
+  const groups = groupByStoryMap(items);
+  const footer = `You get this digest ${frequency}. Turn it off: ${unsubscribeUrl}`;
+
+  const text = [
+    ...groups.flatMap((group) => [
+      group.name,
+      ...group.items.map((item) => `- ${sentence(item)}\n  ${storyUrl(item)}`),
+      '',
+    ]),
+    footer,
+  ].join('\n');
+
+  const html = [
+    '<div style="font-family: sans-serif; font-size: 14px;">',
+    ...groups.flatMap((group) => [
+      `<h3>${escapeHtml(group.name)}</h3>`,
+      '<ul>',
+      ...group.items.map(
+        (item) => `<li>${escapeHtml(sentence(item))} <a href="${escapeHtml(storyUrl(item))}">Open</a></li>`,
+      ),
+      '</ul>',
+    ]),
+    `<p style="color: #777; font-size: 12px;">You get this digest ${frequency}. `,
+    `<a href="${escapeHtml(unsubscribeUrl)}">Unsubscribe</a></p>`,
+    '</div>',
+  ].join('\n');
+
+  return { subject: `Your ${frequency} BeemSpec digest: ${counts(items)}`, text, html };
+}
+
+// -----------------------------------------------------------------------------
+// Sending
+// -----------------------------------------------------------------------------
+
+async function sendDigest(
+  supabase: SupabaseClient,
+  mailer: Mailer,
+  appUrl: string,
+  recipient: DigestRecipient,
+  until: string,
+): Promise<keyof DigestRun> {
+  const { data, error } = await supabase.rpc('digest_activity', {
+    p_user_id: recipient.user_id,
+    p_since: recipient.since,
+    p_until: until,
+  });
+  if (error) throw error;
+
+  const items = data as DigestItem[];
+  if (items.length > 0) {
+    const token = encodeURIComponent(digestUnsubscribeToken(recipient.user_id));
+    const email = buildDigestEmail({
+      frequency: recipient.frequency,
+      items,
+      appUrl,
+      unsubscribeUrl: `${appUrl}/unsubscribe?token=${token}`,
+    });
+    await mailer.send({
+      to: recipient.email,
+      ...email,
+      // One-click unsubscribe from the mail client (RFC 8058)
+      headers: {
+        'List-Unsubscribe': `<${appUrl}/api/unsubscribe?token=${token}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+    });
+  }
+
+  const { error: markError } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: recipient.user_id, digest_sent_at: until });
+  if (markError) throw markError;
+
+  return items.length > 0 ? 'sent' : 'empty';
+}
+
+/**
+ * Send every digest due at `now` with the service-role client. Recipients are handled
+ * one by one, and one failing does not stop the others.
+ */
+export async function sendDigests(
+  supabase: SupabaseClient,
+  mailer: Mailer,
+  appUrl: string,
+  now = new Date(),
+): Promise<DigestRun> {
+  const until = now.toISOString();
+  const { data, error } = await supabase.rpc('digest_recipients', { p_now: until });
+  if (error) {
+    throw new Error(`Failed to load digest recipients: ${error.message}`);
+  }
+
+  const run: DigestRun = { sent: 0, empty: 0, failed: 0 };
+  for (const recipient of data as DigestRecipient[]) {
+    try {
+      run[await sendDigest(supabase, mailer, appUrl, recipient, until)]++;
+    } catch (err) {
+      // biome-ignore lint/suspicious/noConsole: intentional server-side error logging
+      console.error('Failed to send digest', recipient.user_id, err);
+      run.failed++;
+    }
+  }
+  return run;
+}
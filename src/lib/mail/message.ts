@@ -0,0 +1,68 @@
+import { randomUUID } from 'node:crypto';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  /** HTML alternative to `text` */
+  html?: string;
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+}
+
+/** The bare address of "Name <address>" or "address" */
+export function mailAddress(mailbox: string): string {
+  return /<([^>]+)>/.exec(mailbox)?.[1] ?? mailbox.trim();
+}
+
+/** RFC 2047 encoded-word for header values that are not plain ASCII */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Body(text: string): string {
+  return (
+    Buffer.from(text, 'utf8')
+      .toString('base64')
+      .match(/.{1,76}/g) ?? []
+  ).join('\r\n');
+}
+
+function mimePart(contentType: string, body: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(body),
+  ].join('\r\n');
+}
+
+/** RFC 5322 message with a plain text part and, when given, an HTML alternative */
+export function formatMessage(from: string, message: MailMessage, date = new Date()): string {
+  const domain = mailAddress(from).split('@')[1] ?? 'localhost';
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    ...Object.entries(message.headers ?? {}).map(([name, value]) => `${name}: ${value}`),
+  ];
+
+  if (!message.html) {
+    return [...headers, mimePart('text/plain', message.text)].join('\r\n');
+  }
+
+  const boundary = `beemspec-${randomUUID()}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    mimePart('text/plain', message.text),
+    `--${boundary}`,
+    mimePart('text/html', message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
@@ -0,0 +1,199 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { DbErrorCode } from '@/lib/errors';
+import { loadStoryMapFull } from '@/lib/story-maps';
+import { pushStoryStatus } from '@/lib/sync/engine';
+import { pickDefined, storyStatus, updateStorySchema } from '@/lib/validations';
+
+// =============================================================================
+// Tool Result Helpers
+// =============================================================================
+
+function jsonResult(data: unknown): CallToolResult {
+  return { content: [{ type: 'text', text: JSON.stringify(data, null, 2) }] };
+}
+
+function errorResult(message: string): CallToolResult {
+  return { isError: true, content: [{ type: 'text', text: message }] };
+}
+
+/** A versioned story update matched no row: the story is gone or was changed since that version */
+async function staleOrMissingStory(supabase: SupabaseClient, storyId: string): Promise<CallToolResult> {
+  const { data, error } = await supabase
+    .from('stories')
+    .select('*')
+    .eq('id', storyId)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (error) return errorResult(`Failed to update story: ${error.message}`);
+  if (!data) return errorResult('Story not found');
+  return errorResult(
+    `Story was changed by someone else - read it again before retrying. Current story:\n${JSON.stringify(data, null, 2)}`,
+  );
+}
+
+// =============================================================================
+// Server Factory
+// =============================================================================
+
+/**
+ * Build an MCP server exposing story maps to coding agents.
+ * All reads and writes go through the given client, so RLS scopes every tool
+ * to the teams the authenticated user belongs to. `userId` is that user.
+ */
+export function createMcpServer(supabase: SupabaseClient, userId: string): McpServer {
+  const server = new McpServer({ name: 'beemspec', version: '0.1.0' });
+
+  server.registerTool(
+    'list_story_maps',
+    {
+      title: 'List story maps',
+      description: 'List story maps the user can access, most recently updated first.',
+      inputSchema: { team_id: z.uuid().optional().describe('Only list maps belonging to this team') },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ team_id }) => {
+      let query = supabase
+        .from('story_maps')
+        .select('id, team_id, name, description, updated_at')
+        .order('updated_at', { ascending: false });
+      if (team_id) query = query.eq('team_id', team_id);
+
+      const { data, error } = await query;
+      if (error) return errorResult(`Failed to load story maps: ${error.message}`);
+      return jsonResult(data);
+    },
+  );
+
+  server.registerTool(
+    'get_story_map',
+    {
+      title: 'Get story map',
+      description:
+        'Get a full story map: personas, releases and the activity → task → story tree with every story field.',
+      inputSchema: { story_map_id: z.uuid() },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ story_map_id }) => {
+      const result = await loadStoryMapFull(supabase, story_map_id);
+      if (!result.success) {
+        return errorResult(result.notFound ? 'Story map not found' : result.message);
+      }
+      return jsonResult(result.data);
+    },
+  );
+
+  server.registerTool(
+    'get_story',
+    {
+      title: 'Get story',
+      description:
+        'Get a single story with its requirements, acceptance criteria, edge cases and technical guidelines, plus its parent task, activity and release.',
+      inputSchema: { story_id: z.uuid() },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ story_id }) => {
+      const { data, error } = await supabase
+        .from('stories')
+        .select(
+          '*, task:tasks(id, name, description, activity:activities(id, story_map_id, name, description)), release:releases(id, name, description)',
+        )
+        .eq('id', story_id)
+        .is('deleted_at', null)
+        .single();
+
+      if (error) {
+        return errorResult(
+          error.code === DbErrorCode.NOT_FOUND ? 'Story not found' : `Failed to load story: ${error.message}`,
+        );
+      }
+      return jsonResult(data);
+    },
+  );
+
+  server.registerTool(
+    'update_story_status',
+    {
+      title: 'Update story status',
+      description:
+        'Move a story through the workflow, e.g. to in_progress when starting work or review when done. Pass the updated_at you last read as version to fail instead of overwriting a change made since.',
+      inputSchema: {
+        story_id: z.uuid(),
+        status: storyStatus,
+        version: z.string().optional().describe('updated_at of the story as you last read it'),
+      },
+      annotations: { destructiveHint: false, idempotentHint: true },
+    },
+    async ({ story_id, status, version }) => {
+      // Same validation as PUT /api/stories/[id]
+      const validation = updateStorySchema.safeParse({ status });
+      if (!validation.success) {
+        return errorResult(`Validation failed: ${validation.error.message}`);
+      }
+
+      // The update only applies to the story as read here (at `version`, when given),
+      // so the linked issues are only pushed to when this call changed the status
+      let current = supabase.from('stories').select('status, updated_at').eq('id', story_id).is('deleted_at', null);
+      if (version) current = current.eq('updated_at', version);
+      const { data: before, error: loadError } = await current.maybeSingle();
+      if (loadError) {
+        return errorResult(`Failed to load story: ${loadError.message}`);
+      }
+      if (!before) return staleOrMissingStory(supabase, story_id);
+
+      const { data, error } = await supabase
+        .from('stories')
+        .update({ ...pickDefined(validation.data), updated_at: new Date().toISOString() })
+        .eq('id', story_id)
+        .is('deleted_at', null)
+        .eq('updated_at', before.updated_at)
+        .select()
+        .single();
+
+      if (error) {
+        return error.code === DbErrorCode.NOT_FOUND
+          ? staleOrMissingStory(supabase, story_id)
+          : errorResult(`Failed to update story: ${error.message}`);
+      }
+
+      if (before.status !== status) {
+        await pushStoryStatus(supabase, story_id, status);
+      }
+      return jsonResult(data);
+    },
+  );
+
+  server.registerTool(
+    'assign_story',
+    {
+      title: 'Assign story',
+      description:
+        'Assign a story to a team member - to yourself when picking it up, which is the default. Pass assignee_id null to unassign.',
+      inputSchema: {
+        story_id: z.uuid(),
+        assignee_id: z.uuid().nullable().optional().describe('User id of a team member; defaults to you'),
+      },
+      annotations: { destructiveHint: false, idempotentHint: true },
+    },
+    async ({ story_id, assignee_id }) => {
+      const { data, error } = await supabase
+        .from('stories')
+        .update({ assignee_id: assignee_id === undefined ? userId : assignee_id, updated_at: new Date().toISOString() })
+        .eq('id', story_id)
+        .is('deleted_at', null)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === DbErrorCode.NOT_FOUND) return errorResult('Story not found');
+        if (error.code === DbErrorCode.CHECK_VIOLATION) return errorResult(error.message);
+        return errorResult(`Failed to assign story: ${error.message}`);
+      }
+      return jsonResult(data);
+    },
+  );
+
+  return server;
+}
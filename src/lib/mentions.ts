@@ -0,0 +1,34 @@
+import type { TeamMember } from '@/types';
+
+// =============================================================================
+// Mentions
+// A comment mentions a team member by writing @ followed by their email, e.g.
+// "@jane@acme.com can you check this?". Mentions are matched against the team's
+// members, so only real members are ever notified.
+// =============================================================================
+
+type MentionableMember = Pick<TeamMember, 'user_id' | 'email'>;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Matches "@<email>" where it stands on its own: not inside another word or address,
+ * and not followed by more address characters (a trailing full stop still ends it)
+ */
+function mentionPattern(email: string): RegExp {
+  return new RegExp(`(^|[^\\w.@])@${escapeRegExp(email)}(?![\\w-]|\\.[\\w-])`, 'i');
+}
+
+/** User ids of the members `body` mentions, in the order of `members` */
+export function extractMentions(body: string, members: MentionableMember[]): string[] {
+  return members.filter((m) => m.email && mentionPattern(m.email).test(body)).map((m) => m.user_id);
+}
+
+/** The partial "@query" being typed right before `cursor`, or null when the cursor is not in a mention */
+export function mentionQueryAt(text: string, cursor: number): { start: number; query: string } | null {
+  const match = /(^|\s)@([^\s@]*(?:@[^\s@]*)?)$/.exec(text.slice(0, cursor));
+  if (!match) return null;
+  return { start: cursor - match[2].length - 1, query: match[2] };
+}
@@ -0,0 +1,44 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { PersonaLinkedEntity } from '@/types';
+
+/** Junction rows embedded by PostgREST, e.g. `story_personas(persona_id)` */
+export type PersonaLinkRows = { persona_id: string }[];
+
+export function toPersonaIds(rows: PersonaLinkRows | null | undefined): string[] {
+  return (rows ?? []).map((row) => row.persona_id);
+}
+
+/** Replace the personas linked to a story, task or activity in one statement */
+export async function setPersonaLinks(
+  supabase: SupabaseClient,
+  entity: PersonaLinkedEntity,
+  id: string,
+  personaIds: string[],
+) {
+  return supabase.rpc(`set_${entity}_personas`, {
+    [`p_${entity}_id`]: id,
+    p_persona_ids: personaIds,
+  });
+}
+
+/**
+ * Update a live story, task or activity and, when `personaIds` is given, replace its
+ * personas in the same transaction. Resolves to the updated row, with the `persona_ids`
+ * actually linked when `personaIds` is given; a missing row - or a story changed since
+ * `version` - fails with DbErrorCode.NO_DATA_FOUND.
+ */
+export async function updateWithPersonaLinks(
+  supabase: SupabaseClient,
+  entity: PersonaLinkedEntity,
+  id: string,
+  changes: Record<string, unknown>,
+  { personaIds, version }: { personaIds?: string[]; version?: string } = {},
+) {
+  return supabase.rpc('update_with_personas', {
+    p_entity_type: entity,
+    p_id: id,
+    p_changes: changes,
+    p_persona_ids: personaIds ?? null,
+    p_version: version ?? null,
+  });
+}
@@ -0,0 +1,218 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { DbErrorCode } from '@/lib/errors';
+import type { LlmProvider } from '@/lib/llm';
+import type { Activity, Release, Story, StoryMap, Task } from '@/types';
+
+// =============================================================================
+// Release Context
+// =============================================================================
+
+type ContextTask = Pick<Task, 'id' | 'name' | 'description' | 'sort_order'>;
+export type ContextActivity = Pick<Activity, 'id' | 'name' | 'description' | 'sort_order'>;
+
+export interface PlanStory extends Story {
+  task: ContextTask;
+  activity: ContextActivity;
+}
+
+export interface ReleasePlanContext {
+  story_map: Pick<StoryMap, 'id' | 'team_id' | 'name' | 'description'>;
+  release: Release;
+  /** Ordered by activity, then task, then story - the same order as the canvas */
+  stories: PlanStory[];
+}
+
+export type ReleaseContextResult =
+  | { success: true; data: ReleasePlanContext }
+  | { success: false; notFound: boolean; message: string; error: unknown };
+
+type StoryRow = Story & { task: ContextTask & { activity: ContextActivity } };
+
+/** Collect every story in a release together with its parent task and activity */
+export async function loadReleaseContext(supabase: SupabaseClient, releaseId: string): Promise<ReleaseContextResult> {
+  const [releaseResult, storiesResult] = await Promise.all([
+    supabase
+      .from('releases')
+      .select('*, story_map:story_maps(id, team_id, name, description)')
+      .eq('id', releaseId)
+      .is('deleted_at', null)
+      .single(),
+    supabase
+      .from('stories')
+      .select(
+        '*, task:tasks!inner(id, name, description, sort_order, activity:activities!inner(id, name, description, sort_order))',
+      )
+      .eq('release_id', releaseId)
+      .is('deleted_at', null),
+  ]);
+
+  if (releaseResult.error) {
+    const notFound = releaseResult.error.code === DbErrorCode.NOT_FOUND;
+    return { success: false, notFound, message: 'Failed to load release', error: releaseResult.error };
+  }
+  if (storiesResult.error) {
+    return { success: false, notFound: false, message: 'Failed to load stories', error: storiesResult.error };
+  }
+
+  const { story_map, ...release } = releaseResult.data;
+  const stories = (storiesResult.data as StoryRow[])
+    .map(({ task: { activity, ...task }, ...story }) => ({ ...story, task, activity }))
+    .sort(
+      (a, b) =>
+        a.activity.sort_order - b.activity.sort_order ||
+        a.task.sort_order - b.task.sort_order ||
+        a.sort_order - b.sort_order,
+    );
+
+  return { success: true, data: { story_map, release, stories } };
+}
+
+// =============================================================================
+// Plan Schema
+// =============================================================================
+
+export const implementationPlanSchema = z.object({
+  summary: z.string(),
+  steps: z.array(
+    z.object({
+      title: z.string(),
+      description: z.string(),
+      story_ids: z.array(z.string()),
+      verification: z.array(z.string()),
+    }),
+  ),
+  risks: z.array(z.string()),
+  open_questions: z.array(z.string()),
+});
+
+export type ImplementationPlan = z.infer<typeof implementationPlanSchema>;
+
+export interface ImplementationPlanDocument {
+  release_id: string;
+  generated_at: string;
+  plan: ImplementationPlan;
+  markdown: string;
+}
+
+// =============================================================================
+// Prompt
+// =============================================================================
+
+const SYSTEM_PROMPT = `You are a staff engineer turning a product release into an implementation plan for a coding agent.
+Respond with a single JSON object and nothing else, matching this TypeScript type:
+
+{
+  "summary": string,                 // what ships in this release and the overall approach
+  "steps": {                         // ordered, each small enough for one pull request
+    "title": string,
+    "description": string,           // what to build and how, referencing requirements and guidelines
+    "story_ids": string[],           // ids of the stories this step delivers
+    "verification": string[]         // checks derived from acceptance criteria and edge cases
+  }[],
+  "risks": string[],
+  "open_questions": string[]         // gaps or ambiguities in the stories
+}
+
+Every story id must appear in at least one step. Respect each story's technical guidelines.`;
+
+function section(title: string, body: string | null): string {
+  return body ? `**${title}:**\n${body}\n` : '';
+}
+
+/** Render the release as markdown for the model - grouped the way the story map reads */
+export function buildPlanPrompt({ story_map, release, stories }: ReleasePlanContext): string {
+  const lines = [`# ${story_map.name} - ${release.name}`];
+  if (story_map.description) lines.push(story_map.description);
+  if (release.description) lines.push(`Release goal: ${release.description}`);
+
+  let activityId: string | null = null;
+  let taskId: string | null = null;
+  for (const story of stories) {
+    if (story.activity.id !== activityId) {
+      activityId = story.activity.id;
+      taskId = null;
+      lines.push(`\n## Activity: ${story.activity.name}`);
+      if (story.activity.description) lines.push(story.activity.description);
+    }
+    if (story.task.id !== taskId) {
+      taskId = story.task.id;
+      lines.push(`\n### Task: ${story.task.name}`);
+      if (story.task.description) lines.push(story.task.description);
+    }
+    lines.push(
+      `\n#### Story ${story.id}: ${story.title} (status: ${story.status})\n`,
+      section('Requirements', story.requirements),
+      section('Acceptance criteria', story.acceptance_criteria),
+      section('Edge cases', story.edge_cases),
+      section('Technical guidelines', story.technical_guidelines),
+      section('Design', story.figma_link),
+    );
+  }
+  return lines.filter(Boolean).join('\n');
+}
+
+/** Models sometimes wrap JSON in a code fence despite instructions */
+function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const raw = (fenced ? fenced[1] : text).trim();
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error('LLM response was not valid JSON');
+  }
+}
+
+// =============================================================================
+// Markdown Rendering
+// =============================================================================
+
+function bulletList(items: string[]): string[] {
+  return items.length > 0 ? items.map((item) => `- ${item}`) : ['- None'];
+}
+
+export function renderPlanMarkdown(
+  plan: ImplementationPlan,
+  { story_map, release, stories }: ReleasePlanContext,
+): string {
+  const titles = new Map(stories.map((s) => [s.id, s.title]));
+  const lines = [`# Implementation Plan: ${story_map.name} - ${release.name}`, '', plan.summary, '', '## Steps'];
+
+  plan.steps.forEach((step, index) => {
+    lines.push('', `### ${index + 1}. ${step.title}`, '', step.description);
+    const delivered = step.story_ids.map((id) => titles.get(id)).filter(Boolean);
+    if (delivered.length > 0) {
+      lines.push('', `**Stories:** ${delivered.join(', ')}`);
+    }
+    if (step.verification.length > 0) {
+      lines.push('', '**Verification:**', ...step.verification.map((check) => `- [ ] ${check}`));
+    }
+  });
+
+  lines.push('', '## Risks', '', ...bulletList(plan.risks));
+  lines.push('', '## Open Questions', '', ...bulletList(plan.open_questions));
+  return `${lines.join('\n')}\n`;
+}
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+export async function generateImplementationPlan(
+  context: ReleasePlanContext,
+  llm: LlmProvider,
+): Promise<ImplementationPlanDocument> {
+  const response = await llm.complete({ system: SYSTEM_PROMPT, prompt: buildPlanPrompt(context) });
+
+  const parsed = implementationPlanSchema.safeParse(extractJson(response));
+  if (!parsed.success) {
+    throw new Error(`LLM response did not match the plan schema: ${parsed.error.message}`);
+  }
+
+  return {
+    release_id: context.release.id,
+    generated_at: new Date().toISOString(),
+    plan: parsed.data,
+    markdown: renderPlanMarkdown(parsed.data, context),
+  };
+}
@@ -0,0 +1,122 @@
+import type { QualityFinding, QualityRuleId, Story, StoryQuality } from '@/types';
+
+// =============================================================================
+// Rules
+// =============================================================================
+
+type ScorableStory = Pick<
+  Story,
+  'title' | 'requirements' | 'acceptance_criteria' | 'edge_cases' | 'technical_guidelines'
+>;
+
+interface QualityInput {
+  story: ScorableStory;
+  personaCount: number;
+}
+
+interface QualityRule {
+  id: QualityRuleId;
+  label: string;
+  weight: number;
+  check: (input: QualityInput) => boolean;
+  /** Shown when the check fails - tells the author how to fix it */
+  hint: string;
+}
+
+const USER_STORY_PATTERN = /\bas an?\b[\s\S]+\bi (?:want|need|can)\b[\s\S]+\bso that\b/i;
+const GHERKIN_PATTERN = /\bgiven\b[\s\S]*\bwhen\b[\s\S]*\bthen\b/i;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]\s|\d+[.)]\s|- \[[ x]\])/i;
+const MIN_LIST_ITEMS = 2;
+const MIN_REQUIREMENT_WORDS = 15;
+
+function hasText(value: string | null): boolean {
+  return Boolean(value?.trim());
+}
+
+function countListItems(text: string): number {
+  return text.split('\n').filter((line) => LIST_ITEM_PATTERN.test(line)).length;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+const RULES: QualityRule[] = [
+  {
+    id: 'testable_acceptance_criteria',
+    label: 'Testable acceptance criteria',
+    weight: 30,
+    check: ({ story }) =>
+      GHERKIN_PATTERN.test(story.acceptance_criteria) || countListItems(story.acceptance_criteria) >= MIN_LIST_ITEMS,
+    hint: 'Write acceptance criteria as Given/When/Then or as a bullet list of checks.',
+  },
+  {
+    id: 'user_story_format',
+    label: 'User story format',
+    weight: 20,
+    check: ({ story }) => USER_STORY_PATTERN.test(story.title) || USER_STORY_PATTERN.test(story.requirements),
+    hint: 'Phrase the story as "As a … I want … so that …".',
+  },
+  {
+    id: 'edge_cases',
+    label: 'Edge cases',
+    weight: 15,
+    check: ({ story }) => hasText(story.edge_cases),
+    hint: 'List what could go wrong: invalid input, empty states, permissions, failures.',
+  },
+  {
+    id: 'persona_linked',
+    label: 'Linked persona',
+    weight: 15,
+    check: ({ personaCount }) => personaCount > 0,
+    hint: 'Link the story to the persona it serves.',
+  },
+  {
+    id: 'detailed_requirements',
+    label: 'Detailed requirements',
+    weight: 10,
+    check: ({ story }) => countWords(story.requirements) >= MIN_REQUIREMENT_WORDS,
+    hint: `Describe the requirements in at least ${MIN_REQUIREMENT_WORDS} words.`,
+  },
+  {
+    id: 'technical_guidelines',
+    label: 'Technical guidelines',
+    weight: 10,
+    check: ({ story }) => hasText(story.technical_guidelines),
+    hint: 'Point engineers and agents at the patterns, libraries or modules to use.',
+  },
+];
+
+// =============================================================================
+// Scoring
+// =============================================================================
+
+export const QUALITY_THRESHOLDS = {
+  good: 80,
+  fair: 50,
+} as const;
+
+export type QualityLevel = 'good' | 'fair' | 'poor';
+
+export function qualityLevel(score: number): QualityLevel {
+  if (score >= QUALITY_THRESHOLDS.good) return 'good';
+  if (score >= QUALITY_THRESHOLDS.fair) return 'fair';
+  return 'poor';
+}
+
+/** Score a story 0-100: the sum of the weights of every rule it passes */
+export function scoreStory(story: ScorableStory, personaCount: number): StoryQuality {
+  const findings: QualityFinding[] = RULES.map((rule) => {
+    const passed = rule.check({ story, personaCount });
+    return {
+      rule: rule.id,
+      label: rule.label,
+      weight: rule.weight,
+      passed,
+      message: passed ? rule.label : rule.hint,
+    };
+  });
+
+  const score = findings.reduce((total, f) => total + (f.passed ? f.weight : 0), 0);
+  return { score, findings };
+}
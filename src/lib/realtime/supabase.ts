@@ -0,0 +1,94 @@
+import type { RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js';
+import {
+  type PresenceState,
+  REALTIME_TABLES,
+  type RealtimeTable,
+  type RealtimeTransport,
+  type RowChange,
+} from '@/lib/realtime/types';
+import { createClient } from '@/lib/supabase/client';
+
+type Row = Record<string, unknown>;
+
+/**
+ * Tables with a story_map_id column can be filtered server-side. Tasks and stories
+ * are only linked to the map through their parents, so every change the user may see
+ * arrives and rows outside the open map are ignored when merged.
+ */
+const MAP_COLUMN_TABLES = new Set<RealtimeTable>(['activities', 'releases']);
+
+export function storyMapChannel(storyMapId: string): string {
+  return `story-map:${storyMapId}`;
+}
+
+function toRowChange(table: RealtimeTable, payload: RealtimePostgresChangesPayload<Row>): RowChange {
+  return payload.eventType === 'DELETE'
+    ? { table, event: 'DELETE', row: payload.old }
+    : { table, event: payload.eventType, row: payload.new };
+}
+
+/** One entry per user - the tab that is editing a story wins over idle tabs */
+function peersOf(state: Record<string, PresenceState[]>, selfId: string): PresenceState[] {
+  return Object.entries(state).flatMap(([userId, metas]) =>
+    userId === selfId || metas.length === 0 ? [] : [metas.find((m) => m.editing_story_id) ?? metas[0]],
+  );
+}
+
+/** Supabase Realtime: postgres_changes for rows, presence on a private per-map channel */
+export function createSupabaseTransport(client?: SupabaseClient): RealtimeTransport {
+  return {
+    async join(storyMapId, handlers) {
+      const supabase = client ?? createClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not signed in');
+
+      const self = { user_id: user.id, email: user.email ?? null };
+      let editing: string | null = null;
+      let subscribed = false;
+
+      // Private channels are authorized with the user's JWT
+      await supabase.realtime.setAuth();
+      const channel = supabase.channel(storyMapChannel(storyMapId), {
+        config: { private: true, presence: { key: user.id } },
+      });
+
+      for (const table of REALTIME_TABLES) {
+        channel.on<Row>(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table,
+            ...(MAP_COLUMN_TABLES.has(table) && { filter: `story_map_id=eq.${storyMapId}` }),
+          },
+          (payload) => handlers.onChange(toRowChange(table, payload)),
+        );
+      }
+
+      channel.on('presence', { event: 'sync' }, () => {
+        handlers.onPresence(peersOf(channel.presenceState<PresenceState>(), user.id));
+      });
+
+      const publish = () => channel.track({ ...self, editing_story_id: editing } satisfies PresenceState);
+
+      channel.subscribe((status) => {
+        subscribed = status === 'SUBSCRIBED';
+        if (subscribed) publish();
+      });
+
+      return {
+        self,
+        track(editingStoryId) {
+          editing = editingStoryId;
+          // Before the subscription is up, the SUBSCRIBED callback publishes the latest value
+          if (subscribed) publish();
+        },
+        leave() {
+          supabase.removeChannel(channel);
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,45 @@
+/** Tables whose row changes are merged into an open story map */
+export const REALTIME_TABLES = ['activities', 'tasks', 'stories', 'releases'] as const;
+
+export type RealtimeTable = (typeof REALTIME_TABLES)[number];
+
+export type RowChangeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+/** A committed write to one row. DELETE carries the old row, of which only the id is guaranteed. */
+export interface RowChange {
+  table: RealtimeTable;
+  event: RowChangeEvent;
+  row: Record<string, unknown>;
+}
+
+export interface PresenceUser {
+  user_id: string;
+  email: string | null;
+}
+
+/** What another viewer of the map is doing */
+export interface PresenceState extends PresenceUser {
+  /** Story open in their StoryDialog, if any */
+  editing_story_id: string | null;
+}
+
+export interface RealtimeHandlers {
+  onChange(change: RowChange): void;
+  /** Everyone else viewing the map - called again whenever someone joins, leaves or tracks */
+  onPresence(peers: PresenceState[]): void;
+}
+
+export interface RealtimeSession {
+  readonly self: PresenceUser;
+  /** Publish which story this user is editing (null when none) */
+  track(editingStoryId: string | null): void;
+  leave(): void;
+}
+
+/**
+ * Delivery of row changes and presence for one story map. The page only talks to
+ * this interface, so tests can swap Supabase Realtime for a local event bus.
+ */
+export interface RealtimeTransport {
+  join(storyMapId: string, handlers: RealtimeHandlers): Promise<RealtimeSession>;
+}
@@ -0,0 +1,93 @@
+import { STATUS_OPTIONS } from '@/lib/constants';
+import type { Story, StoryStatus, WithPersonas } from '@/types';
+
+// =============================================================================
+// Story Filter
+// Which stories the canvas focuses on. Lives in the URL query so a filtered
+// view can be shared:
+// ?status=ready,review&release=<id>,none&persona=<id>&assignee=<user id>&q=cart&collapse=1
+// =============================================================================
+
+/** Stands for "no release" (the Backlog row) in the release filter */
+export const NO_RELEASE = 'none';
+
+/** Stands for "nobody" in the assignee filter */
+export const UNASSIGNED = 'none';
+
+export interface StoryFilter {
+  statuses: StoryStatus[];
+  /** Release ids, or NO_RELEASE */
+  releaseIds: string[];
+  personaIds: string[];
+  /** Assignee user ids, or UNASSIGNED */
+  assigneeIds: string[];
+  text: string;
+  /** Hide non-matching stories instead of dimming them */
+  collapse: boolean;
+}
+
+export const EMPTY_STORY_FILTER: StoryFilter = {
+  statuses: [],
+  releaseIds: [],
+  personaIds: [],
+  assigneeIds: [],
+  text: '',
+  collapse: false,
+};
+
+const STATUSES = new Set<string>(STATUS_OPTIONS.map((o) => o.value));
+
+/** Query parameters the filter owns - everything else in the URL is left alone */
+const FILTER_PARAMS = ['status', 'release', 'persona', 'assignee', 'q', 'collapse'] as const;
+
+function list(value: string | null): string[] {
+  return value ? value.split(',').filter(Boolean) : [];
+}
+
+export function parseStoryFilter(params: URLSearchParams): StoryFilter {
+  return {
+    statuses: list(params.get('status')).filter((s): s is StoryStatus => STATUSES.has(s)),
+    releaseIds: list(params.get('release')),
+    personaIds: list(params.get('persona')),
+    assigneeIds: list(params.get('assignee')),
+    text: params.get('q') ?? '',
+    collapse: params.get('collapse') === '1',
+  };
+}
+
+/** `params` with the filter's parameters replaced by `filter`; empty criteria are left out */
+export function withStoryFilter(params: URLSearchParams, filter: StoryFilter): URLSearchParams {
+  const next = new URLSearchParams(params);
+  for (const key of FILTER_PARAMS) next.delete(key);
+  if (filter.statuses.length > 0) next.set('status', filter.statuses.join(','));
+  if (filter.releaseIds.length > 0) next.set('release', filter.releaseIds.join(','));
+  if (filter.personaIds.length > 0) next.set('persona', filter.personaIds.join(','));
+  if (filter.assigneeIds.length > 0) next.set('assignee', filter.assigneeIds.join(','));
+  if (filter.text.trim()) next.set('q', filter.text);
+  if (filter.collapse) next.set('collapse', '1');
+  return next;
+}
+
+/** True when any criterion is set - collapse alone filters nothing */
+export function isStoryFilterActive(filter: StoryFilter): boolean {
+  return (
+    filter.statuses.length > 0 ||
+    filter.releaseIds.length > 0 ||
+    filter.personaIds.length > 0 ||
+    filter.assigneeIds.length > 0 ||
+    filter.text.trim() !== ''
+  );
+}
+
+const TEXT_FIELDS = ['title', 'requirements', 'acceptance_criteria', 'edge_cases'] as const;
+
+/** A story matches when it meets every set criterion, and any of the values within one */
+export function matchesStoryFilter(story: WithPersonas<Story>, filter: StoryFilter): boolean {
+  if (filter.statuses.length > 0 && !filter.statuses.includes(story.status)) return false;
+  if (filter.releaseIds.length > 0 && !filter.releaseIds.includes(story.release_id ?? NO_RELEASE)) return false;
+  if (filter.personaIds.length > 0 && !story.persona_ids.some((id) => filter.personaIds.includes(id))) return false;
+  if (filter.assigneeIds.length > 0 && !filter.assigneeIds.includes(story.assignee_id ?? UNASSIGNED)) return false;
+
+  const text = filter.text.trim().toLowerCase();
+  return !text || TEXT_FIELDS.some((field) => story[field]?.toLowerCase().includes(text));
+}
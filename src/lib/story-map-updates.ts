@@ -0,0 +1,427 @@
+import { assertNever } from '@/lib/errors';
+import { scoreStory } from '@/lib/quality';
+import type { RowChange } from '@/lib/realtime/types';
+import type {
+  Activity,
+  ActivityWithTasks,
+  Persona,
+  Release,
+  ScoredStory,
+  Story,
+  StoryMapFull,
+  Task,
+  TaskWithStories,
+  WithPersonas,
+} from '@/types';
+
+// =============================================================================
+// Story Map Updates
+// Pure, immutable edits of a loaded StoryMapFull. The story map store applies them
+// optimistically and again to the confirmed state once the server accepts the change,
+// so each one mirrors what the matching API route (or database function) does.
+// Inserts replace a row with the same id: a realtime event may have added it first.
+// =============================================================================
+
+export type StoryMapUpdate = (map: StoryMapFull) => StoryMapFull;
+
+type NewStory = Omit<WithPersonas<Story>, 'sort_order'> & { sort_order?: number };
+type NewTask = Omit<WithPersonas<Task>, 'sort_order'> & { sort_order?: number };
+type NewActivity = Omit<WithPersonas<Activity>, 'sort_order'> & { sort_order?: number };
+type NewPersona = Omit<Persona, 'sort_order'> & { sort_order?: number };
+type NewRelease = Omit<Release, 'sort_order'> & { sort_order?: number };
+
+const TEMP_ID_PREFIX = 'temp-';
+
+/** Placeholder id for a row the server has not created yet */
+export function tempId(): string {
+  return `${TEMP_ID_PREFIX}${crypto.randomUUID()}`;
+}
+
+export function isTempId(id: string): boolean {
+  return id.startsWith(TEMP_ID_PREFIX);
+}
+
+/** Row the UI shows until the server returns the created one */
+function draftRow(): { id: string; created_at: string } {
+  return { id: tempId(), created_at: new Date().toISOString() };
+}
+
+export function draftStory(fields: Partial<WithPersonas<Story>> & Pick<Story, 'task_id' | 'release_id'>): NewStory {
+  const row = draftRow();
+  return {
+    ...row,
+    title: '',
+    requirements: '',
+    acceptance_criteria: '',
+    figma_link: null,
+    edge_cases: null,
+    technical_guidelines: null,
+    status: 'backlog',
+    assignee_id: null,
+    reporter_id: null,
+    updated_at: row.created_at,
+    persona_ids: [],
+    ...fields,
+  };
+}
+
+export function draftTask(fields: Pick<Task, 'activity_id' | 'name'> & { persona_ids: string[] }): NewTask {
+  return { ...draftRow(), description: null, ...fields };
+}
+
+export function draftActivity(
+  fields: Pick<Activity, 'story_map_id' | 'name'> & { persona_ids: string[] },
+): NewActivity {
+  return { ...draftRow(), description: null, ...fields };
+}
+
+export function draftPersona(fields: Pick<Persona, 'story_map_id' | 'name' | 'description' | 'goals'>): NewPersona {
+  return { ...draftRow(), ...fields };
+}
+
+export function draftRelease(fields: Pick<Release, 'story_map_id' | 'name'>): NewRelease {
+  return { ...draftRow(), description: null, ...fields };
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function bySortOrder<T extends { sort_order: number }>(items: T[]): T[] {
+  return [...items].sort((a, b) => a.sort_order - b.sort_order);
+}
+
+/** Next sort_order in a list - what the auto_sort_order triggers assign on insert */
+function nextSortOrder(items: { sort_order: number }[]): number {
+  return items.reduce((max, item) => Math.max(max, item.sort_order), -1) + 1;
+}
+
+/** Sort orders of `ids` in list position */
+function positions(ids: string[]): Map<string, number> {
+  return new Map(ids.map((id, index) => [id, index]));
+}
+
+function withScore(story: WithPersonas<Story>): ScoredStory {
+  return { ...story, quality: scoreStory(story, story.persona_ids.length) };
+}
+
+function mapTasks(map: StoryMapFull, fn: (task: TaskWithStories) => TaskWithStories): StoryMapFull {
+  return { ...map, activities: map.activities.map((a) => ({ ...a, tasks: a.tasks.map(fn) })) };
+}
+
+function mapStories(map: StoryMapFull, fn: (story: ScoredStory) => ScoredStory | null): StoryMapFull {
+  return mapTasks(map, (task) => ({
+    ...task,
+    stories: task.stories.flatMap((story) => fn(story) ?? []),
+  }));
+}
+
+function allStories(map: StoryMapFull): ScoredStory[] {
+  return map.activities.flatMap((a) => a.tasks.flatMap((t) => t.stories));
+}
+
+function allTasks(map: StoryMapFull): TaskWithStories[] {
+  return map.activities.flatMap((a) => a.tasks);
+}
+
+function withoutPersona<T extends { persona_ids: string[] }>(item: T, personaId: string): T {
+  return item.persona_ids.includes(personaId)
+    ? { ...item, persona_ids: item.persona_ids.filter((id) => id !== personaId) }
+    : item;
+}
+
+// -----------------------------------------------------------------------------
+// Stories
+// -----------------------------------------------------------------------------
+
+/** Add a story at the end of its task + release cell, or with the sort_order the server assigned */
+export function insertStory(story: NewStory): StoryMapUpdate {
+  return (map) =>
+    mapTasks(removeStory(story.id)(map), (task) => {
+      if (task.id !== story.task_id) return task;
+      const cell = task.stories.filter((s) => s.release_id === story.release_id);
+      const sort_order = story.sort_order ?? nextSortOrder(cell);
+      return { ...task, stories: [...task.stories, withScore({ ...story, sort_order })] };
+    });
+}
+
+export function patchStory(id: string, fields: Partial<WithPersonas<Story>>): StoryMapUpdate {
+  return (map) => mapStories(map, (story) => (story.id === id ? withScore({ ...story, ...fields }) : story));
+}
+
+export function removeStory(id: string): StoryMapUpdate {
+  return (map) => mapStories(map, (story) => (story.id === id ? null : story));
+}
+
+/** Client-side move_story: re-parent, then renumber the source and destination cells */
+export function moveStory(id: string, taskId: string, releaseId: string | null, index: number): StoryMapUpdate {
+  return (map) => {
+    const moving = allStories(map).find((s) => s.id === id);
+    if (!moving) return map;
+
+    const inCell = (s: ScoredStory, task: string, release: string | null) =>
+      s.id !== id && s.task_id === task && s.release_id === release;
+    const source = bySortOrder(allStories(map).filter((s) => inCell(s, moving.task_id, moving.release_id)));
+    const destination = bySortOrder(allStories(map).filter((s) => inCell(s, taskId, releaseId)));
+    const at = Math.min(Math.max(index, 0), destination.length);
+
+    const order = new Map([
+      ...positions(source.map((s) => s.id)),
+      ...positions([...destination.slice(0, at), moving, ...destination.slice(at)].map((s) => s.id)),
+    ]);
+    const moved = { ...moving, task_id: taskId, release_id: releaseId };
+
+    return mapTasks(map, (task) => {
+      const stories = task.stories.filter((s) => s.id !== id);
+      if (task.id === taskId) stories.push(moved);
+      return {
+        ...task,
+        stories: stories.map((s) => (order.has(s.id) ? { ...s, sort_order: order.get(s.id) ?? s.sort_order } : s)),
+      };
+    });
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Tasks
+// -----------------------------------------------------------------------------
+
+export function insertTask(task: NewTask): StoryMapUpdate {
+  return (map) => {
+    const stories = allTasks(map).find((t) => t.id === task.id)?.stories ?? [];
+    const base = removeTask(task.id)(map);
+    return {
+      ...base,
+      activities: base.activities.map((activity) =>
+        activity.id === task.activity_id
+          ? {
+              ...activity,
+              tasks: [
+                ...activity.tasks,
+                { ...task, sort_order: task.sort_order ?? nextSortOrder(activity.tasks), stories },
+              ],
+            }
+          : activity,
+      ),
+    };
+  };
+}
+
+export function patchTask(id: string, fields: Partial<WithPersonas<Task>>): StoryMapUpdate {
+  return (map) => mapTasks(map, (task) => (task.id === id ? { ...task, ...fields } : task));
+}
+
+export function removeTask(id: string): StoryMapUpdate {
+  return (map) => ({
+    ...map,
+    activities: map.activities.map((a) => ({ ...a, tasks: a.tasks.filter((t) => t.id !== id) })),
+  });
+}
+
+/** Client-side move_task: re-parent, then renumber the source and destination activities */
+export function moveTask(id: string, activityId: string, index: number): StoryMapUpdate {
+  return (map) => {
+    const moving = allTasks(map).find((t) => t.id === id);
+    if (!moving) return map;
+
+    const siblings = (activity: string) =>
+      bySortOrder(allTasks(map).filter((t) => t.id !== id && t.activity_id === activity));
+    const destination = siblings(activityId);
+    const at = Math.min(Math.max(index, 0), destination.length);
+
+    const order = new Map([
+      ...positions(siblings(moving.activity_id).map((t) => t.id)),
+      ...positions([...destination.slice(0, at), moving, ...destination.slice(at)].map((t) => t.id)),
+    ]);
+    const renumber = (t: TaskWithStories) => ({ ...t, sort_order: order.get(t.id) ?? t.sort_order });
+
+    return {
+      ...map,
+      activities: map.activities.map((activity) => {
+        const tasks = activity.tasks.filter((t) => t.id !== id);
+        if (activity.id === activityId) tasks.push({ ...moving, activity_id: activityId });
+        return { ...activity, tasks: tasks.map(renumber) };
+      }),
+    };
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Activities
+// -----------------------------------------------------------------------------
+
+export function insertActivity(activity: NewActivity): StoryMapUpdate {
+  return (map) => {
+    const created: ActivityWithTasks = {
+      ...activity,
+      sort_order: activity.sort_order ?? nextSortOrder(map.activities),
+      tasks: map.activities.find((a) => a.id === activity.id)?.tasks ?? [],
+    };
+    return { ...map, activities: [...removeActivity(activity.id)(map).activities, created] };
+  };
+}
+
+export function patchActivity(id: string, fields: Partial<WithPersonas<Activity>>): StoryMapUpdate {
+  return (map) => ({
+    ...map,
+    activities: map.activities.map((a) => (a.id === id ? { ...a, ...fields } : a)),
+  });
+}
+
+export function removeActivity(id: string): StoryMapUpdate {
+  return (map) => ({ ...map, activities: map.activities.filter((a) => a.id !== id) });
+}
+
+export function reorderActivities(order: string[]): StoryMapUpdate {
+  const sortOrders = positions(order);
+  return (map) => ({
+    ...map,
+    activities: map.activities.map((a) => ({ ...a, sort_order: sortOrders.get(a.id) ?? a.sort_order })),
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Personas
+// -----------------------------------------------------------------------------
+
+export function insertPersona(persona: NewPersona): StoryMapUpdate {
+  return (map) => ({
+    ...map,
+    personas: [
+      ...map.personas.filter((p) => p.id !== persona.id),
+      { ...persona, sort_order: persona.sort_order ?? nextSortOrder(map.personas) },
+    ],
+  });
+}
+
+export function patchPersona(id: string, fields: Partial<Persona>): StoryMapUpdate {
+  return (map) => ({ ...map, personas: map.personas.map((p) => (p.id === id ? { ...p, ...fields } : p)) });
+}
+
+/** Junction rows cascade with the persona, so unlink it everywhere */
+export function removePersona(id: string): StoryMapUpdate {
+  return (map) =>
+    mapStories(
+      {
+        ...map,
+        personas: map.personas.filter((p) => p.id !== id),
+        activities: map.activities.map((a) => ({
+          ...withoutPersona(a, id),
+          tasks: a.tasks.map((t) => withoutPersona(t, id)),
+        })),
+      },
+      (story) => (story.persona_ids.includes(id) ? withScore(withoutPersona(story, id)) : story),
+    );
+}
+
+// -----------------------------------------------------------------------------
+// Releases
+// -----------------------------------------------------------------------------
+
+export function insertRelease(release: NewRelease): StoryMapUpdate {
+  return (map) => ({
+    ...map,
+    releases: [
+      ...map.releases.filter((r) => r.id !== release.id),
+      { ...release, sort_order: release.sort_order ?? nextSortOrder(map.releases) },
+    ],
+  });
+}
+
+export function patchRelease(id: string, fields: Partial<Release>): StoryMapUpdate {
+  return (map) => ({ ...map, releases: map.releases.map((r) => (r.id === id ? { ...r, ...fields } : r)) });
+}
+
+/**
+ * Stories cascade with their release, unless `moveStoriesTo` is given: then they are appended
+ * to the cells of that release, or of the unassigned row for null - as delete_release does
+ */
+export function removeRelease(id: string, moveStoriesTo?: string | null): StoryMapUpdate {
+  return (map) => {
+    const rest = { ...map, releases: map.releases.filter((r) => r.id !== id) };
+    if (moveStoriesTo === undefined) {
+      return mapStories(rest, (story) => (story.release_id === id ? null : story));
+    }
+    return mapTasks(rest, (task) => {
+      let sortOrder = nextSortOrder(task.stories.filter((s) => s.release_id === moveStoriesTo));
+      const moved = new Map(
+        bySortOrder(task.stories.filter((s) => s.release_id === id)).map((s) => [s.id, sortOrder++]),
+      );
+      return {
+        ...task,
+        stories: task.stories.map((s) =>
+          moved.has(s.id) ? { ...s, release_id: moveStoriesTo, sort_order: moved.get(s.id) ?? s.sort_order } : s,
+        ),
+      };
+    });
+  };
+}
+
+export function reorderReleases(order: string[]): StoryMapUpdate {
+  const sortOrders = positions(order);
+  return (map) => ({
+    ...map,
+    releases: map.releases.map((r) => ({ ...r, sort_order: sortOrders.get(r.id) ?? r.sort_order })),
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Realtime
+// -----------------------------------------------------------------------------
+
+// Change rows are bare table rows: persona links (and a task's stories) live elsewhere,
+// so upserts keep what the map already has for them.
+
+function upsertActivity(row: Activity): StoryMapUpdate {
+  return (map) => {
+    if (row.story_map_id !== map.id) return map;
+    const existing = map.activities.find((a) => a.id === row.id);
+    return existing ? patchActivity(row.id, row)(map) : insertActivity({ ...row, persona_ids: [] })(map);
+  };
+}
+
+/** Tasks may have moved to another activity; rows of other maps are ignored */
+function upsertTask(row: Task): StoryMapUpdate {
+  return (map) => {
+    const existing = allTasks(map).find((t) => t.id === row.id);
+    if (!map.activities.some((a) => a.id === row.activity_id)) return existing ? removeTask(row.id)(map) : map;
+    if (existing?.activity_id === row.activity_id) return patchTask(row.id, row)(map);
+    return insertTask({ ...row, persona_ids: existing?.persona_ids ?? [] })(map);
+  };
+}
+
+/** Stories may have moved to another task; rows of other maps are ignored */
+function upsertStory(row: Story): StoryMapUpdate {
+  return (map) => {
+    const existing = allStories(map).find((s) => s.id === row.id);
+    if (!allTasks(map).some((t) => t.id === row.task_id)) return existing ? removeStory(row.id)(map) : map;
+    if (existing?.task_id === row.task_id) return patchStory(row.id, row)(map);
+    return insertStory({ ...row, persona_ids: existing?.persona_ids ?? [] })(map);
+  };
+}
+
+function upsertRelease(row: Release): StoryMapUpdate {
+  return (map) => {
+    if (row.story_map_id !== map.id) return map;
+    return map.releases.some((r) => r.id === row.id) ? patchRelease(row.id, row)(map) : insertRelease(row)(map);
+  };
+}
+
+/** Merge a row change another client made into the map */
+export function applyRowChange({ table, event, row }: RowChange): StoryMapUpdate {
+  const id = String(row.id);
+  // Moving a row to the trash is an update that sets deleted_at; a restore clears it again
+  const deleted = event === 'DELETE' || row.deleted_at != null;
+  switch (table) {
+    case 'activities':
+      return deleted ? removeActivity(id) : upsertActivity(row as unknown as Activity);
+    case 'tasks':
+      return deleted ? removeTask(id) : upsertTask(row as unknown as Task);
+    case 'stories':
+      return deleted ? removeStory(id) : upsertStory(row as unknown as Story);
+    case 'releases':
+      return deleted ? removeRelease(id) : upsertRelease(row as unknown as Release);
+    default:
+      return assertNever(table);
+  }
+}
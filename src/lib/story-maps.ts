@@ -0,0 +1,84 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DbErrorCode } from '@/lib/errors';
+import { type PersonaLinkRows, toPersonaIds } from '@/lib/personas';
+import { scoreStory } from '@/lib/quality';
+import type { Activity, ActivityWithTasks, ScoredStory, Story, StoryMapFull, Task } from '@/types';
+
+/** Story columns plus the persona links needed for quality scoring */
+export const SCORED_STORY_SELECT = '*, story_personas(persona_id)';
+
+export type StoryRow = Story & { story_personas: PersonaLinkRows };
+type TaskRow = Task & { task_personas: PersonaLinkRows; stories: StoryRow[] };
+type ActivityRow = Activity & { activity_personas: PersonaLinkRows; tasks: TaskRow[] };
+
+/** Attach persona ids and the requirements quality score to a story row selected with SCORED_STORY_SELECT */
+export function toScoredStory({ story_personas, ...story }: StoryRow): ScoredStory {
+  const persona_ids = toPersonaIds(story_personas);
+  return { ...story, persona_ids, quality: scoreStory(story, persona_ids.length) };
+}
+
+function toActivityWithTasks({ activity_personas, tasks, ...activity }: ActivityRow): ActivityWithTasks {
+  return {
+    ...activity,
+    persona_ids: toPersonaIds(activity_personas),
+    tasks: tasks.map(({ task_personas, stories, ...task }) => ({
+      ...task,
+      persona_ids: toPersonaIds(task_personas),
+      stories: stories.map(toScoredStory),
+    })),
+  };
+}
+
+export type StoryMapFullResult =
+  | { success: true; data: StoryMapFull }
+  | { success: false; notFound: boolean; message: string; error: unknown };
+
+/**
+ * Load a story map with its personas, releases and the activity → task → story tree,
+ * including the persona links of every activity, task and story. Rows in the trash are left out.
+ * Shared by the REST API and the MCP server so both return the same StoryMapFull shape.
+ */
+export async function loadStoryMapFull(supabase: SupabaseClient, id: string): Promise<StoryMapFullResult> {
+  const [mapResult, activitiesResult, releasesResult, personasResult] = await Promise.all([
+    supabase.from('story_maps').select('*').eq('id', id).single(),
+    supabase
+      .from('activities')
+      .select(`*, activity_personas(persona_id), tasks(*, task_personas(persona_id), stories(${SCORED_STORY_SELECT}))`)
+      .eq('story_map_id', id)
+      .is('deleted_at', null)
+      .is('tasks.deleted_at', null)
+      .is('tasks.stories.deleted_at', null)
+      .order('sort_order')
+      .order('sort_order', { referencedTable: 'tasks' })
+      .order('sort_order', { referencedTable: 'tasks.stories' }),
+    supabase.from('releases').select('*').eq('story_map_id', id).is('deleted_at', null).order('sort_order'),
+    supabase.from('personas').select('*').eq('story_map_id', id).order('sort_order'),
+  ]);
+
+  // Check main map first
+  if (mapResult.error) {
+    const notFound = mapResult.error.code === DbErrorCode.NOT_FOUND;
+    return { success: false, notFound, message: 'Failed to load story map', error: mapResult.error };
+  }
+
+  // Check related data
+  if (activitiesResult.error) {
+    return { success: false, notFound: false, message: 'Failed to load activities', error: activitiesResult.error };
+  }
+  if (releasesResult.error) {
+    return { success: false, notFound: false, message: 'Failed to load releases', error: releasesResult.error };
+  }
+  if (personasResult.error) {
+    return { success: false, notFound: false, message: 'Failed to load personas', error: personasResult.error };
+  }
+
+  return {
+    success: true,
+    data: {
+      ...mapResult.data,
+      activities: (activitiesResult.data as ActivityRow[]).map(toActivityWithTasks),
+      releases: releasesResult.data,
+      personas: personasResult.data,
+    },
+  };
+}
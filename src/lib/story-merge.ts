@@ -0,0 +1,68 @@
+import type { Story, WithPersonas } from '@/types';
+
+// =============================================================================
+// Story Merge
+// Three-way merge of a StoryDialog edit that the server rejected as stale:
+// `base` is the version the edit started from, `theirs` the current one.
+// =============================================================================
+
+export type StoryEdit = Partial<WithPersonas<Story>>;
+
+/** Fields the StoryDialog edits, in form order */
+export const STORY_MERGE_FIELDS = [
+  'title',
+  'requirements',
+  'acceptance_criteria',
+  'edge_cases',
+  'technical_guidelines',
+  'figma_link',
+  'status',
+  'release_id',
+  'persona_ids',
+  'assignee_id',
+] as const;
+
+export type StoryMergeField = (typeof STORY_MERGE_FIELDS)[number];
+
+export interface StoryConflict {
+  base: WithPersonas<Story>;
+  mine: StoryEdit;
+  theirs: WithPersonas<Story>;
+  /** Changes of mine that apply cleanly on top of theirs */
+  merged: StoryEdit;
+  /** Fields both sides changed, to different values */
+  fields: StoryMergeField[];
+}
+
+/** The form saves empty text as null, and persona order carries no meaning */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && [...a].sort().join() === [...b].sort().join();
+  }
+  return (a || null) === (b || null);
+}
+
+export function mergeStoryEdit(base: WithPersonas<Story>, mine: StoryEdit, theirs: WithPersonas<Story>): StoryConflict {
+  const merged: StoryEdit = {};
+  const fields: StoryMergeField[] = [];
+
+  for (const field of STORY_MERGE_FIELDS) {
+    const value = mine[field];
+    if (value === undefined || sameValue(value, base[field]) || sameValue(value, theirs[field])) continue;
+    if (sameValue(theirs[field], base[field])) {
+      Object.assign(merged, { [field]: value });
+    } else {
+      fields.push(field);
+    }
+  }
+
+  return { base, mine, theirs, merged, fields };
+}
+
+/** Edit to save on top of theirs, keeping my value for the conflicting fields in `keepMine` */
+export function resolveStoryConflict(conflict: StoryConflict, keepMine: StoryMergeField[]): StoryEdit {
+  return {
+    ...conflict.merged,
+    ...Object.fromEntries(keepMine.map((field) => [field, conflict.mine[field]])),
+  };
+}
@@ -0,0 +1,29 @@
+import { createClient } from '@supabase/supabase-js';
+
+/**
+ * Creates a Supabase client for callers that authenticate without cookies
+ * (coding agents talking to the MCP server). RLS applies as for the browser.
+ *
+ * Pass an access token to act as that user for every request, or omit it and
+ * call `auth.refreshSession()` to hold a long-lived session in memory.
+ */
+export function createTokenClient(accessToken?: string) {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  // Prefer new publishable key format, fall back to legacy anon key
+  const supabaseKey =
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY ??
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_DEFAULT_KEY ??
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    throw new Error('Missing Supabase environment variables');
+  }
+
+  return createClient(supabaseUrl, supabaseKey, {
+    global: accessToken ? { headers: { Authorization: `Bearer ${accessToken}` } } : undefined,
+    auth: {
+      autoRefreshToken: !accessToken,
+      persistSession: false,
+    },
+  });
+}
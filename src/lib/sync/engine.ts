@@ -0,0 +1,193 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { assertNever, errorMessage } from '@/lib/errors';
+import type { ReleasePlanContext } from '@/lib/plan';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createGitHubAdapter } from '@/lib/sync/github';
+import { createJiraAdapter } from '@/lib/sync/jira';
+import { createLinearAdapter } from '@/lib/sync/linear';
+import type { ExternalRef, SyncAdapter } from '@/lib/sync/types';
+import { integrationCredentialsSchemas, integrationSettingsSchemas, syncTargetSchemas } from '@/lib/validations';
+import type { ExternalEntityType, ExternalLink, StoryStatus, SyncProvider } from '@/types';
+
+// =============================================================================
+// Adapters
+// =============================================================================
+
+/** Integration columns safe to return to the browser - everything except credentials */
+export const INTEGRATION_SELECT = 'id, team_id, provider, settings, webhook_secret, created_at, updated_at';
+
+/** Stored integration columns the adapters need (read server-side with the admin client) */
+export interface IntegrationRow {
+  credentials: unknown;
+  settings: unknown;
+}
+
+/** Build the adapter for a provider, validating the stored JSON against the provider's schemas */
+export function createSyncAdapter(provider: SyncProvider, integration: IntegrationRow, target: unknown): SyncAdapter {
+  switch (provider) {
+    case 'github':
+      return createGitHubAdapter(
+        integrationCredentialsSchemas.github.parse(integration.credentials),
+        syncTargetSchemas.github.parse(target),
+      );
+    case 'linear':
+      return createLinearAdapter(
+        integrationCredentialsSchemas.linear.parse(integration.credentials),
+        integrationSettingsSchemas.linear.parse(integration.settings),
+        syncTargetSchemas.linear.parse(target),
+      );
+    case 'jira':
+      return createJiraAdapter(
+        integrationCredentialsSchemas.jira.parse(integration.credentials),
+        integrationSettingsSchemas.jira.parse(integration.settings),
+        syncTargetSchemas.jira.parse(target),
+      );
+    default:
+      return assertNever(provider);
+  }
+}
+
+// =============================================================================
+// Release Sync
+// =============================================================================
+
+export interface SyncedEntity extends ExternalRef {
+  entity_id: string;
+}
+
+export interface SyncReport {
+  provider: SyncProvider;
+  release: SyncedEntity;
+  /** Empty for providers without an activity level */
+  activities: SyncedEntity[];
+  stories: SyncedEntity[];
+  /** Stories the provider rejected - the rest of the release still syncs */
+  failed: { story_id: string; message: string }[];
+}
+
+/**
+ * Push a release and its stories through an adapter, recording every provider object in
+ * external_links so the next sync updates it instead of creating a duplicate.
+ * Throws if the release or one of its activities cannot be synced.
+ */
+export async function syncRelease(
+  supabase: SupabaseClient,
+  adapter: SyncAdapter,
+  { story_map, release, stories }: ReleasePlanContext,
+): Promise<SyncReport> {
+  const { provider } = adapter;
+  const { data: links, error } = await supabase
+    .from('external_links')
+    .select('*')
+    .eq('story_map_id', story_map.id)
+    .eq('provider', provider);
+
+  if (error) throw new Error(`Failed to load external links: ${error.message}`);
+
+  const linked = new Map((links as ExternalLink[]).map((l) => [`${l.entity_type}:${l.entity_id}`, l]));
+
+  function existing(entityType: ExternalEntityType, entityId: string): ExternalRef | null {
+    const link = linked.get(`${entityType}:${entityId}`);
+    return link ? { external_id: link.external_id, external_key: link.external_key, url: link.url } : null;
+  }
+
+  async function saveLink(entityType: ExternalEntityType, entityId: string, ref: ExternalRef): Promise<SyncedEntity> {
+    const { error } = await supabase.from('external_links').upsert(
+      {
+        story_map_id: story_map.id,
+        provider,
+        entity_type: entityType,
+        entity_id: entityId,
+        ...ref,
+        synced_at: new Date().toISOString(),
+      },
+      { onConflict: 'provider,entity_type,entity_id' },
+    );
+    if (error) throw new Error(`Failed to save external link: ${error.message}`);
+    return { entity_id: entityId, ...ref };
+  }
+
+  const releaseRef = await adapter.upsertRelease(release, existing('release', release.id));
+  const syncedRelease = await saveLink('release', release.id, releaseRef);
+
+  // Stories are in canvas order, so their activities are too
+  const activityRefs = new Map<string, ExternalRef>();
+  const syncedActivities: SyncedEntity[] = [];
+  if (adapter.upsertActivity) {
+    for (const { activity } of stories) {
+      if (activityRefs.has(activity.id)) continue;
+      const ref = await adapter.upsertActivity(activity, existing('activity', activity.id));
+      activityRefs.set(activity.id, ref);
+      syncedActivities.push(await saveLink('activity', activity.id, ref));
+    }
+  }
+
+  const synced: SyncedEntity[] = [];
+  const failed: SyncReport['failed'] = [];
+
+  // One at a time: stays within provider rate limits and creates issues in canvas order
+  for (const story of stories) {
+    try {
+      const parents = { release: releaseRef, activity: activityRefs.get(story.activity.id) };
+      const ref = await adapter.upsertStory(story, parents, existing('story', story.id));
+      synced.push(await saveLink('story', story.id, ref));
+    } catch (err) {
+      failed.push({ story_id: story.id, message: errorMessage(err) });
+    }
+  }
+
+  return { provider, release: syncedRelease, activities: syncedActivities, stories: synced, failed };
+}
+
+// =============================================================================
+// Status Push
+// =============================================================================
+
+type StoryLinkRow = Pick<ExternalLink, 'story_map_id' | 'provider' | 'external_id' | 'external_key' | 'url'> & {
+  story_map: { team_id: string };
+};
+
+/**
+ * Move every item linked to a story after its status changed in BeemSpec - the outbound half
+ * of the provider webhooks. Best effort: failures are logged, never thrown, so the status
+ * change itself always succeeds.
+ */
+export async function pushStoryStatus(supabase: SupabaseClient, storyId: string, status: StoryStatus): Promise<void> {
+  const { data: links, error } = await supabase
+    .from('external_links')
+    .select('story_map_id, provider, external_id, external_key, url, story_map:story_maps!inner(team_id)')
+    .eq('entity_type', 'story')
+    .eq('entity_id', storyId);
+
+  if (error || links.length === 0) return;
+
+  await Promise.all(
+    (links as unknown as StoryLinkRow[]).map(async ({ story_map_id, provider, story_map, ...ref }) => {
+      try {
+        // Credentials are owner-only under RLS
+        const admin = createAdminClient();
+        const [integration, target] = await Promise.all([
+          admin
+            .from('integrations')
+            .select('credentials, settings')
+            .eq('team_id', story_map.team_id)
+            .eq('provider', provider)
+            .single(),
+          admin
+            .from('sync_targets')
+            .select('target')
+            .eq('story_map_id', story_map_id)
+            .eq('provider', provider)
+            .single(),
+        ]);
+        // Disconnected since the last sync - nothing to push to
+        if (integration.error || target.error) return;
+
+        await createSyncAdapter(provider, integration.data, target.data.target).updateStoryStatus(ref, status);
+      } catch (err) {
+        // biome-ignore lint/suspicious/noConsole: intentional server-side error logging
+        console.error(`Failed to push story status to ${provider}`, err);
+      }
+    }),
+  );
+}
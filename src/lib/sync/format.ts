@@ -0,0 +1,21 @@
+import type { Story } from '@/types';
+
+export const SYNC_FOOTER =
+  '_Synced from BeemSpec. Edit the story there - changes here are overwritten on the next sync._';
+
+type StoryText = Pick<Story, 'requirements' | 'acceptance_criteria' | 'edge_cases'>;
+
+/** Titled, non-empty text sections of a story. Leave out acceptance criteria for providers with a dedicated field. */
+export function storySections(story: StoryText, { acceptanceCriteria = true } = {}): [string, string][] {
+  const sections: [string, string | null][] = [
+    ['Requirements', story.requirements],
+    ['Acceptance Criteria', acceptanceCriteria ? story.acceptance_criteria : null],
+    ['Edge Cases', story.edge_cases],
+  ];
+  return sections.flatMap(([title, body]) => (body?.trim() ? [[title, body.trim()] as [string, string]] : []));
+}
+
+/** Markdown issue body assembled from a story's requirements, acceptance criteria and edge cases */
+export function formatStoryBody(story: StoryText): string {
+  return [...storySections(story).map(([title, body]) => `## ${title}\n\n${body}`), SYNC_FOOTER].join('\n\n');
+}
@@ -0,0 +1,138 @@
+import { formatStoryBody } from '@/lib/sync/format';
+import type { ExternalRef, SyncAdapter } from '@/lib/sync/types';
+import type { GitHubCredentials, GitHubTarget } from '@/lib/validations';
+import type { StoryStatus } from '@/types';
+
+// =============================================================================
+// GitHub Issues Adapter
+// Release → milestone, Story → issue. `GITHUB_API_URL` points at GitHub Enterprise or a fake server.
+// =============================================================================
+
+const DEFAULT_API_URL = 'https://api.github.com';
+
+interface Milestone {
+  number: number;
+  title: string;
+  html_url: string;
+}
+
+interface Issue {
+  number: number;
+  html_url: string;
+}
+
+/** External id of an issue - also what the webhook payload gives us back */
+export function githubIssueId(repoFullName: string, issueNumber: number): string {
+  return `${repoFullName}#${issueNumber}`;
+}
+
+export function createGitHubAdapter(
+  credentials: GitHubCredentials,
+  { owner, repo }: GitHubTarget,
+  apiUrl = process.env.GITHUB_API_URL ?? DEFAULT_API_URL,
+): SyncAdapter {
+  const repoPath = `/repos/${owner}/${repo}`;
+
+  async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const res = await fetch(`${apiUrl}${path}`, {
+      method,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${credentials.token}`,
+        'Content-Type': 'application/json',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (!res.ok) {
+      throw new Error(`GitHub ${method} ${path} failed (${res.status}): ${await res.text()}`);
+    }
+    return res.json() as Promise<T>;
+  }
+
+  function milestoneRef(milestone: Milestone): ExternalRef {
+    return { external_id: String(milestone.number), external_key: milestone.title, url: milestone.html_url };
+  }
+
+  function issuePath(ref: ExternalRef): string {
+    return `${repoPath}/issues/${ref.external_id.split('#').pop()}`;
+  }
+
+  function issueState(status: StoryStatus): 'open' | 'closed' {
+    return status === 'done' ? 'closed' : 'open';
+  }
+
+  function issueRef(issue: Issue): ExternalRef {
+    const id = githubIssueId(`${owner}/${repo}`, issue.number);
+    return { external_id: id, external_key: id, url: issue.html_url };
+  }
+
+  return {
+    provider: 'github',
+
+    async upsertRelease(release, existing) {
+      const fields = { title: release.name, description: release.description ?? '' };
+      if (existing) {
+        return milestoneRef(
+          await request<Milestone>('PATCH', `${repoPath}/milestones/${existing.external_id}`, fields),
+        );
+      }
+
+      // Adopt a milestone created by hand rather than failing on the duplicate title
+      const milestones = await request<Milestone[]>('GET', `${repoPath}/milestones?state=all&per_page=100`);
+      const match = milestones.find((m) => m.title === release.name);
+      if (match) {
+        return milestoneRef(await request<Milestone>('PATCH', `${repoPath}/milestones/${match.number}`, fields));
+      }
+      return milestoneRef(await request<Milestone>('POST', `${repoPath}/milestones`, fields));
+    },
+
+    async upsertStory(story, { release }, existing) {
+      const fields = {
+        title: story.title,
+        body: formatStoryBody(story),
+        milestone: Number(release.external_id),
+        state: issueState(story.status),
+      };
+
+      if (existing) {
+        return issueRef(await request<Issue>('PATCH', issuePath(existing), fields));
+      }
+
+      // Issues are always created open
+      const { state, ...createFields } = fields;
+      const issue = await request<Issue>('POST', `${repoPath}/issues`, createFields);
+      if (state === 'closed') {
+        await request<Issue>('PATCH', `${repoPath}/issues/${issue.number}`, { state });
+      }
+      return issueRef(issue);
+    },
+
+    async updateStoryStatus(existing, status) {
+      await request<Issue>('PATCH', issuePath(existing), { state: issueState(status) });
+    },
+  };
+}
+
+// =============================================================================
+// Webhooks
+// =============================================================================
+
+/** Issue webhook actions that move the linked story */
+const ISSUE_ACTION_STATUS: Record<string, StoryStatus> = {
+  closed: 'done',
+  reopened: 'in_progress',
+};
+
+export interface GitHubIssueEvent {
+  action: string;
+  issue: { number: number };
+  repository: { full_name: string };
+}
+
+/** Map an `issues` webhook event onto the linked story's new status, or null when it doesn't apply */
+export function parseIssueEvent(event: GitHubIssueEvent): { external_id: string; status: StoryStatus } | null {
+  const status = Object.hasOwn(ISSUE_ACTION_STATUS, event.action) ? ISSUE_ACTION_STATUS[event.action] : null;
+  if (!status || !event.issue || !event.repository) return null;
+  return { external_id: githubIssueId(event.repository.full_name, event.issue.number), status };
+}
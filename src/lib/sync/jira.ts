@@ -0,0 +1,192 @@
+import { SYNC_FOOTER, storySections } from '@/lib/sync/format';
+import type { ExternalRef, SyncAdapter } from '@/lib/sync/types';
+import { type JiraCredentials, type JiraSettings, type JiraTarget, jiraSiteUrl } from '@/lib/validations';
+import type { StoryStatus } from '@/types';
+
+// =============================================================================
+// Jira Cloud Adapter
+// Activity → Epic, Story → Story (child of the epic), Release → fixVersion,
+// StoryStatus → workflow status (settings.status_mapping) reached through transitions.
+// The REST base is the integration's site URL, so tests can point it at a local mock.
+// =============================================================================
+
+interface JiraIssue {
+  id: string;
+  key: string;
+}
+
+interface JiraVersion {
+  id: string;
+  name: string;
+}
+
+interface JiraTransition {
+  id: string;
+  to: { name: string };
+}
+
+// -----------------------------------------------------------------------------
+// Atlassian Document Format - rich text fields in REST API v3 only accept ADF
+// -----------------------------------------------------------------------------
+
+type AdfNode = { type: string; [key: string]: unknown };
+
+function adfText(text: string): AdfNode {
+  return { type: 'text', text };
+}
+
+/** Blank lines separate paragraphs, single newlines become hard breaks */
+function adfParagraphs(text: string): AdfNode[] {
+  return text
+    .trim()
+    .split(/\n\s*\n/)
+    .map((block) => ({
+      type: 'paragraph',
+      content: block
+        .split('\n')
+        .filter((line) => line.trim())
+        .flatMap((line, i) => (i === 0 ? [adfText(line)] : [{ type: 'hardBreak' }, adfText(line)])),
+    }));
+}
+
+function adfDoc(content: AdfNode[]): AdfNode {
+  return { type: 'doc', version: 1, content };
+}
+
+function adfSections(sections: [string, string][]): AdfNode[] {
+  return sections.flatMap(([title, body]) => [
+    { type: 'heading', attrs: { level: 2 }, content: [adfText(title)] },
+    ...adfParagraphs(body),
+  ]);
+}
+
+// -----------------------------------------------------------------------------
+// Adapter
+// -----------------------------------------------------------------------------
+
+export function createJiraAdapter(
+  { site_url, email, api_token }: JiraCredentials,
+  { status_mapping, acceptance_criteria_field }: JiraSettings,
+  { project_key }: JiraTarget,
+): SyncAdapter {
+  // Credentials saved before sites were limited to Jira Cloud are not used
+  if (!jiraSiteUrl.safeParse(site_url).success) {
+    throw new Error('Jira site URL must be a Jira Cloud site (https://<site>.atlassian.net)');
+  }
+  const siteUrl = site_url.replace(/\/+$/, '');
+  const authorization = `Basic ${Buffer.from(`${email}:${api_token}`).toString('base64')}`;
+  let project: Promise<{ id: string }> | null = null;
+
+  async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const res = await fetch(`${siteUrl}/rest/api/3${path}`, {
+      method,
+      headers: { Accept: 'application/json', Authorization: authorization, 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      // Never carry the credentials to another host
+      redirect: 'error',
+    });
+    if (!res.ok) {
+      throw new Error(`Jira ${method} ${path} failed (${res.status}): ${await res.text()}`);
+    }
+    // Issue edits and transitions answer 204 No Content
+    return (res.status === 204 ? undefined : await res.json()) as T;
+  }
+
+  function loadProject(): Promise<{ id: string }> {
+    project ??= request<{ id: string }>('GET', `/project/${project_key}`);
+    return project;
+  }
+
+  function issueRef(issue: JiraIssue): ExternalRef {
+    return { external_id: issue.id, external_key: issue.key, url: `${siteUrl}/browse/${issue.key}` };
+  }
+
+  /** Edit the linked issue, or create one - the engine's stored external ids keep re-syncs from duplicating */
+  async function upsertIssue(
+    issueType: string,
+    fields: Record<string, unknown>,
+    existing: ExternalRef | null,
+  ): Promise<ExternalRef> {
+    if (existing) {
+      await request<void>('PUT', `/issue/${existing.external_id}`, { fields });
+      return existing;
+    }
+
+    const issue = await request<JiraIssue>('POST', '/issue', {
+      fields: { project: { key: project_key }, issuetype: { name: issueType }, ...fields },
+    });
+    return issueRef(issue);
+  }
+
+  /** Jira statuses can't be set directly - find the transition that leads to the mapped status */
+  async function transitionTo(issueId: string, status: StoryStatus): Promise<void> {
+    const target = status_mapping[status].toLowerCase();
+    const { fields } = await request<{ fields: { status: { name: string } } }>(
+      'GET',
+      `/issue/${issueId}?fields=status`,
+    );
+    if (fields.status.name.toLowerCase() === target) return;
+
+    const { transitions } = await request<{ transitions: JiraTransition[] }>('GET', `/issue/${issueId}/transitions`);
+    const transition = transitions.find((t) => t.to.name.toLowerCase() === target);
+    if (!transition) {
+      throw new Error(`No Jira transition from "${fields.status.name}" to "${status_mapping[status]}"`);
+    }
+    await request<void>('POST', `/issue/${issueId}/transitions`, { transition: { id: transition.id } });
+  }
+
+  return {
+    provider: 'jira',
+
+    async upsertRelease(release, existing) {
+      const fields = { name: release.name, description: release.description ?? '' };
+
+      // Adopt a version created by hand rather than failing on the duplicate name
+      const id =
+        existing?.external_id ??
+        (await request<JiraVersion[]>('GET', `/project/${project_key}/versions`)).find((v) => v.name === release.name)
+          ?.id;
+
+      const version = id
+        ? await request<JiraVersion>('PUT', `/version/${id}`, fields)
+        : await request<JiraVersion>('POST', '/version', { ...fields, projectId: (await loadProject()).id });
+
+      return {
+        external_id: version.id,
+        external_key: version.name,
+        url: `${siteUrl}/projects/${project_key}/versions/${version.id}`,
+      };
+    },
+
+    upsertActivity(activity, existing) {
+      return upsertIssue(
+        'Epic',
+        { summary: activity.name, description: adfDoc(adfParagraphs(activity.description ?? '')) },
+        existing,
+      );
+    },
+
+    async upsertStory(story, { release, activity }, existing) {
+      const sections = storySections(story, { acceptanceCriteria: !acceptance_criteria_field });
+      const fields: Record<string, unknown> = {
+        summary: story.title,
+        description: adfDoc([...adfSections(sections), ...adfParagraphs(SYNC_FOOTER)]),
+        fixVersions: [{ id: release.external_id }],
+      };
+      if (activity) {
+        fields.parent = { id: activity.external_id };
+      }
+      if (acceptance_criteria_field) {
+        fields[acceptance_criteria_field] = adfDoc(adfParagraphs(story.acceptance_criteria));
+      }
+
+      const ref = await upsertIssue('Story', fields, existing);
+      await transitionTo(ref.external_id, story.status);
+      return ref;
+    },
+
+    updateStoryStatus(existing, status) {
+      return transitionTo(existing.external_id, status);
+    },
+  };
+}
@@ -0,0 +1,236 @@
+import { formatStoryBody } from '@/lib/sync/format';
+import type { ExternalRef, SyncAdapter } from '@/lib/sync/types';
+import type { LinearCredentials, LinearSettings, LinearTarget, StatusMapping } from '@/lib/validations';
+import type { StoryStatus } from '@/types';
+
+// =============================================================================
+// Linear Adapter
+// Release → project or cycle, Story → issue, StoryStatus → workflow state (settings.status_mapping).
+// `LINEAR_API_URL` points at a fake GraphQL server in tests.
+// =============================================================================
+
+const DEFAULT_API_URL = 'https://api.linear.app/graphql';
+
+/** Linear caps project descriptions */
+const MAX_PROJECT_DESCRIPTION = 255;
+
+interface WorkflowState {
+  id: string;
+  name: string;
+  type: string;
+}
+
+interface LinearTeam {
+  id: string;
+  key: string;
+  states: { nodes: WorkflowState[] };
+}
+
+interface LinearIssue {
+  id: string;
+  identifier: string;
+  url: string;
+}
+
+interface LinearProject {
+  id: string;
+  name: string;
+  url: string;
+}
+
+interface LinearCycle {
+  id: string;
+  name: string | null;
+  number: number;
+}
+
+const ISSUE_FIELDS = 'id identifier url';
+const PROJECT_FIELDS = 'id name url';
+
+export function createLinearAdapter(
+  credentials: LinearCredentials,
+  { status_mapping }: LinearSettings,
+  { team_key, release_as }: LinearTarget,
+  apiUrl = process.env.LINEAR_API_URL ?? DEFAULT_API_URL,
+): SyncAdapter {
+  let team: Promise<LinearTeam> | null = null;
+
+  async function graphql<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const res = await fetch(apiUrl, {
+      method: 'POST',
+      headers: { Authorization: credentials.api_key, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, variables }),
+    });
+    if (!res.ok) {
+      throw new Error(`Linear request failed (${res.status}): ${await res.text()}`);
+    }
+
+    const { data, errors } = (await res.json()) as { data?: T; errors?: { message: string }[] };
+    if (errors?.length || !data) {
+      throw new Error(`Linear API error: ${errors?.map((e) => e.message).join('; ') ?? 'empty response'}`);
+    }
+    return data;
+  }
+
+  /** The Linear team and its workflow states - looked up once per adapter */
+  function loadTeam(): Promise<LinearTeam> {
+    team ??= graphql<{ teams: { nodes: LinearTeam[] } }>(
+      `query Team($key: String!) {
+        teams(filter: { key: { eq: $key } }) { nodes { id key states { nodes { id name type } } } }
+      }`,
+      { key: team_key },
+    ).then(({ teams }) => {
+      const [match] = teams.nodes;
+      if (!match) throw new Error(`Linear team ${team_key} not found`);
+      return match;
+    });
+    return team;
+  }
+
+  async function stateId(status: StoryStatus): Promise<string> {
+    const { key, states } = await loadTeam();
+    const name = status_mapping[status];
+    const state = states.nodes.find((s) => s.name.toLowerCase() === name.toLowerCase());
+    if (!state) throw new Error(`Linear workflow state "${name}" not found in team ${key}`);
+    return state.id;
+  }
+
+  function issueRef(issue: LinearIssue): ExternalRef {
+    return { external_id: issue.id, external_key: issue.identifier, url: issue.url };
+  }
+
+  async function upsertProject(name: string, description: string, existing: ExternalRef | null): Promise<ExternalRef> {
+    const input = { name, description: description.slice(0, MAX_PROJECT_DESCRIPTION) };
+    const toRef = (p: LinearProject): ExternalRef => ({ external_id: p.id, external_key: p.name, url: p.url });
+
+    // Adopt a project created by hand rather than creating a second one with the same name
+    const id =
+      existing?.external_id ??
+      (
+        await graphql<{ projects: { nodes: LinearProject[] } }>(
+          `query Projects($name: String!) { projects(filter: { name: { eq: $name } }) { nodes { ${PROJECT_FIELDS} } } }`,
+          { name },
+        )
+      ).projects.nodes[0]?.id;
+
+    if (id) {
+      const { projectUpdate } = await graphql<{ projectUpdate: { project: LinearProject } }>(
+        `mutation UpdateProject($id: String!, $input: ProjectUpdateInput!) {
+          projectUpdate(id: $id, input: $input) { project { ${PROJECT_FIELDS} } }
+        }`,
+        { id, input },
+      );
+      return toRef(projectUpdate.project);
+    }
+
+    const { id: teamId } = await loadTeam();
+    const { projectCreate } = await graphql<{ projectCreate: { project: LinearProject } }>(
+      `mutation CreateProject($input: ProjectCreateInput!) {
+        projectCreate(input: $input) { project { ${PROJECT_FIELDS} } }
+      }`,
+      { input: { ...input, teamIds: [teamId] } },
+    );
+    return toRef(projectCreate.project);
+  }
+
+  /** Cycles are time-boxed and planned in Linear, so they are matched by name rather than created */
+  async function findCycle(name: string): Promise<ExternalRef> {
+    const { id: teamId, key } = await loadTeam();
+    const { cycles } = await graphql<{ cycles: { nodes: LinearCycle[] } }>(
+      `query Cycles($teamId: ID!, $name: String!) {
+        cycles(filter: { team: { id: { eq: $teamId } }, name: { eq: $name } }) { nodes { id name number } }
+      }`,
+      { teamId, name },
+    );
+
+    const [cycle] = cycles.nodes;
+    if (!cycle) throw new Error(`No Linear cycle named "${name}" in team ${key} - create it in Linear first`);
+    return { external_id: cycle.id, external_key: cycle.name ?? `Cycle ${cycle.number}`, url: null };
+  }
+
+  async function updateIssue(id: string, input: Record<string, unknown>): Promise<LinearIssue> {
+    const { issueUpdate } = await graphql<{ issueUpdate: { issue: LinearIssue } }>(
+      `mutation UpdateIssue($id: String!, $input: IssueUpdateInput!) {
+        issueUpdate(id: $id, input: $input) { issue { ${ISSUE_FIELDS} } }
+      }`,
+      { id, input },
+    );
+    return issueUpdate.issue;
+  }
+
+  return {
+    provider: 'linear',
+
+    upsertRelease(release, existing) {
+      return release_as === 'cycle'
+        ? findCycle(release.name)
+        : upsertProject(release.name, release.description ?? '', existing);
+    },
+
+    async upsertStory(story, { release }, existing) {
+      const input = {
+        title: story.title,
+        description: formatStoryBody(story),
+        stateId: await stateId(story.status),
+        ...(release_as === 'cycle' ? { cycleId: release.external_id } : { projectId: release.external_id }),
+      };
+
+      if (existing) {
+        return issueRef(await updateIssue(existing.external_id, input));
+      }
+
+      const { id: teamId } = await loadTeam();
+      const { issueCreate } = await graphql<{ issueCreate: { issue: LinearIssue } }>(
+        `mutation CreateIssue($input: IssueCreateInput!) {
+          issueCreate(input: $input) { issue { ${ISSUE_FIELDS} } }
+        }`,
+        { input: { ...input, teamId } },
+      );
+      return issueRef(issueCreate.issue);
+    },
+
+    async updateStoryStatus(existing, status) {
+      await updateIssue(existing.external_id, { stateId: await stateId(status) });
+    },
+  };
+}
+
+// =============================================================================
+// Webhooks
+// =============================================================================
+
+/** Fallback by Linear state category when a state name isn't in the mapping */
+const STATE_TYPE_STATUS: Record<string, StoryStatus> = {
+  backlog: 'backlog',
+  unstarted: 'ready',
+  started: 'in_progress',
+  completed: 'done',
+};
+
+/** Reject deliveries older than this (Linear's recommended replay window) */
+export const LINEAR_WEBHOOK_MAX_AGE_MS = 60_000;
+
+export interface LinearWebhookEvent {
+  action: string;
+  type: string;
+  data: { id: string; state?: { name: string; type: string } };
+  updatedFrom?: { stateId?: string };
+  webhookTimestamp: number;
+}
+
+/** Map an Issue state change onto the linked story's new status, or null when it doesn't apply */
+export function parseLinearIssueEvent(
+  event: LinearWebhookEvent,
+  statusMapping: StatusMapping,
+): { external_id: string; status: StoryStatus } | null {
+  if (event.type !== 'Issue' || event.action !== 'update' || !event.updatedFrom?.stateId || !event.data?.state) {
+    return null;
+  }
+
+  const { name, type } = event.data.state;
+  const mapped = (Object.keys(statusMapping) as StoryStatus[]).find(
+    (status) => statusMapping[status].toLowerCase() === name.toLowerCase(),
+  );
+  const status = mapped ?? STATE_TYPE_STATUS[type];
+  return status ? { external_id: event.data.id, status } : null;
+}
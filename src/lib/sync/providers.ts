@@ -0,0 +1,92 @@
+import type { StoryStatus, SyncProvider } from '@/types';
+
+// =============================================================================
+// Provider Display Config (client-safe)
+// Drives the connection forms in team settings and the story map sync dialog.
+// =============================================================================
+
+export interface ProviderField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  /** Rendered as a password input and never echoed back by the API */
+  secret?: boolean;
+  /** Rendered as a select instead of a text input */
+  options?: { value: string; label: string }[];
+}
+
+export interface ProviderInfo {
+  label: string;
+  /** Team-level connection (stored in integrations.credentials) */
+  credentialFields: ProviderField[];
+  /** Story map-level target (stored in sync_targets.target) */
+  targetFields: ProviderField[];
+  /** Default workflow state per story status, for providers with configurable states (settings.status_mapping) */
+  defaultStatusMapping?: Record<StoryStatus, string>;
+  /** Other team-level settings (stored flat in integrations.settings) */
+  settingsFields?: ProviderField[];
+  /** Inbound webhook for status changes made in the provider */
+  webhookPath?: string;
+}
+
+/** Linear's default team workflow */
+export const LINEAR_DEFAULT_STATUS_MAPPING: Record<StoryStatus, string> = {
+  backlog: 'Backlog',
+  ready: 'Todo',
+  in_progress: 'In Progress',
+  review: 'In Review',
+  done: 'Done',
+};
+
+/** Jira's default software workflow */
+export const JIRA_DEFAULT_STATUS_MAPPING: Record<StoryStatus, string> = {
+  backlog: 'To Do',
+  ready: 'To Do',
+  in_progress: 'In Progress',
+  review: 'In Review',
+  done: 'Done',
+};
+
+export const SYNC_PROVIDERS: Record<SyncProvider, ProviderInfo> = {
+  github: {
+    label: 'GitHub Issues',
+    credentialFields: [{ key: 'token', label: 'Personal access token', placeholder: 'github_pat_...', secret: true }],
+    targetFields: [
+      { key: 'owner', label: 'Owner', placeholder: 'acme' },
+      { key: 'repo', label: 'Repository', placeholder: 'webshop' },
+    ],
+    webhookPath: '/api/webhooks/github',
+  },
+  linear: {
+    label: 'Linear',
+    credentialFields: [{ key: 'api_key', label: 'API key', placeholder: 'lin_api_...', secret: true }],
+    targetFields: [
+      { key: 'team_key', label: 'Team key', placeholder: 'ENG' },
+      {
+        key: 'release_as',
+        label: 'Releases as',
+        options: [
+          { value: 'project', label: 'Projects' },
+          { value: 'cycle', label: 'Cycles' },
+        ],
+      },
+    ],
+    defaultStatusMapping: LINEAR_DEFAULT_STATUS_MAPPING,
+    webhookPath: '/api/webhooks/linear',
+  },
+  jira: {
+    label: 'Jira Cloud',
+    credentialFields: [
+      { key: 'site_url', label: 'Site URL', placeholder: 'https://acme.atlassian.net' },
+      { key: 'email', label: 'Account email', placeholder: 'you@acme.com' },
+      { key: 'api_token', label: 'API token', secret: true },
+    ],
+    targetFields: [{ key: 'project_key', label: 'Project key', placeholder: 'PROJ' }],
+    defaultStatusMapping: JIRA_DEFAULT_STATUS_MAPPING,
+    settingsFields: [
+      { key: 'acceptance_criteria_field', label: 'Acceptance criteria field', placeholder: 'customfield_10050' },
+    ],
+  },
+};
+
+export const SYNC_PROVIDER_IDS = Object.keys(SYNC_PROVIDERS) as SyncProvider[];
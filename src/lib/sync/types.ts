@@ -0,0 +1,32 @@
+import type { ContextActivity, PlanStory } from '@/lib/plan';
+import type { Release, StoryStatus, SyncProvider } from '@/types';
+
+/** Reference to the provider object an entity is linked to */
+export interface ExternalRef {
+  external_id: string;
+  /** Human readable key, e.g. `owner/repo#12` */
+  external_key: string | null;
+  url: string | null;
+}
+
+export interface StoryParents {
+  release: ExternalRef;
+  /** Only set for adapters that implement upsertActivity */
+  activity?: ExternalRef;
+}
+
+/**
+ * Provider-specific half of a sync. The engine owns link bookkeeping;
+ * adapters only talk to the provider API, so tests can swap in a fake server.
+ * `existing` is the previously linked object - update it instead of creating a new one.
+ */
+export interface SyncAdapter {
+  readonly provider: SyncProvider;
+  /** Create or update the provider grouping for a release (GitHub milestone, ...) */
+  upsertRelease(release: Release, existing: ExternalRef | null): Promise<ExternalRef>;
+  /** Optional: providers with a parent level for activities (Jira epics) */
+  upsertActivity?(activity: ContextActivity, existing: ExternalRef | null): Promise<ExternalRef>;
+  upsertStory(story: PlanStory, parents: StoryParents, existing: ExternalRef | null): Promise<ExternalRef>;
+  /** Move a linked item after its story's status changed in BeemSpec */
+  updateStoryStatus(existing: ExternalRef, status: StoryStatus): Promise<void>;
+}
@@ -0,0 +1,104 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { DbErrorCode, notFoundResponse, serverErrorResponse } from '@/lib/errors';
+import { verifySignature } from '@/lib/hmac';
+import { invalidIdResponse, isValidUuid } from '@/lib/validations';
+import type { StoryStatus, SyncProvider } from '@/types';
+
+// =============================================================================
+// Inbound Provider Webhooks
+// Providers call `/api/webhooks/<provider>?integration=<integration id>` signed with the
+// integration's webhook secret. There is no user session - the signature authenticates
+// the call and the admin client does the writes.
+// =============================================================================
+
+export interface WebhookIntegration {
+  team_id: string;
+  settings: Record<string, unknown>;
+}
+
+export type WebhookResult =
+  | { success: true; integration: WebhookIntegration; body: string }
+  | { success: false; response: NextResponse };
+
+/** Load the integration named in the URL and verify the raw body against its webhook secret */
+export async function verifyWebhook(
+  request: Request,
+  supabase: SupabaseClient,
+  provider: SyncProvider,
+  signature: string | null,
+): Promise<WebhookResult> {
+  const integrationId = new URL(request.url).searchParams.get('integration') ?? '';
+  if (!isValidUuid(integrationId)) return { success: false, response: invalidIdResponse() };
+
+  const { data, error } = await supabase
+    .from('integrations')
+    .select('team_id, settings, webhook_secret')
+    .eq('id', integrationId)
+    .eq('provider', provider)
+    .single();
+
+  if (error) {
+    const response =
+      error.code === DbErrorCode.NOT_FOUND
+        ? notFoundResponse('Integration')
+        : serverErrorResponse('Failed to load integration', error);
+    return { success: false, response };
+  }
+
+  const body = await request.text();
+  if (!verifySignature(data.webhook_secret, body, signature)) {
+    return { success: false, response: NextResponse.json({ error: 'Invalid signature' }, { status: 401 }) };
+  }
+
+  return { success: true, integration: { team_id: data.team_id, settings: data.settings }, body };
+}
+
+/** Parse a verified body as a JSON object; null for invalid JSON, `null` or non-object payloads */
+export function parseWebhookEvent<T extends object>(body: string): T | null {
+  try {
+    const event: unknown = JSON.parse(body);
+    return typeof event === 'object' && event !== null && !Array.isArray(event) ? (event as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Move the stories linked to an external item - only links from the integration's own team are followed */
+export async function applyStatusChange(
+  supabase: SupabaseClient,
+  teamId: string,
+  provider: SyncProvider,
+  change: { external_id: string; status: StoryStatus },
+): Promise<NextResponse> {
+  const { data: links, error } = await supabase
+    .from('external_links')
+    .select('entity_id, story_map:story_maps!inner(team_id)')
+    .eq('provider', provider)
+    .eq('entity_type', 'story')
+    .eq('external_id', change.external_id)
+    .eq('story_map.team_id', teamId);
+
+  if (error) {
+    return serverErrorResponse('Failed to load external links', error);
+  }
+  if (links.length === 0) {
+    return NextResponse.json({ ignored: true });
+  }
+
+  // Stories in the trash keep their status until they are restored
+  const { data: updated, error: updateError } = await supabase
+    .from('stories')
+    .update({ status: change.status, updated_at: new Date().toISOString() })
+    .in(
+      'id',
+      links.map((l) => l.entity_id),
+    )
+    .is('deleted_at', null)
+    .select('id');
+
+  if (updateError) {
+    return serverErrorResponse('Failed to update story status', updateError);
+  }
+  return NextResponse.json({ updated: updated.length, status: change.status });
+}
@@ -0,0 +1,249 @@
+import type { z } from 'zod';
+import type { portableStoryMapSchema } from '@/lib/validations';
+
+// =============================================================================
+// Built-in Templates
+// Starter story maps as portable documents (see lib/export.ts). Creating a map
+// from one validates it with portableStoryMapSchema and imports it.
+// =============================================================================
+
+type TemplateDocument = z.input<typeof portableStoryMapSchema>;
+
+export const BUILT_IN_TEMPLATE_IDS = ['ecommerce-checkout', 'saas-onboarding'] as const;
+
+export type BuiltInTemplateId = (typeof BUILT_IN_TEMPLATE_IDS)[number];
+
+const ECOMMERCE_CHECKOUT: TemplateDocument = {
+  name: 'E-commerce checkout',
+  description: 'From a full cart to a confirmed order.',
+  personas: [
+    { name: 'Shopper', description: 'Buys from the store on desktop and mobile.', goals: 'Pay quickly and safely.' },
+    { name: 'Store admin', description: 'Runs the store and handles orders.', goals: 'Fulfil every paid order.' },
+  ],
+  releases: [{ name: 'MVP' }, { name: 'Later' }],
+  activities: [
+    {
+      name: 'Review cart',
+      personas: ['Shopper'],
+      tasks: [
+        {
+          name: 'See cart contents',
+          stories: [
+            {
+              title: 'As a shopper, I want to see my cart with prices and totals so that I know what I will pay',
+              release: 'MVP',
+              personas: ['Shopper'],
+              requirements: 'List every item with image, name, variant, quantity, unit price and line total.',
+              acceptance_criteria:
+                '- Given items in the cart, the subtotal equals the sum of line totals\n- Given an empty cart, a link back to the catalog is shown',
+            },
+          ],
+        },
+        {
+          name: 'Change quantities',
+          stories: [
+            {
+              title: 'As a shopper, I want to change quantities or remove items so that my order is right',
+              release: 'MVP',
+              personas: ['Shopper'],
+              requirements: 'Quantity can be changed inline; setting it to zero or pressing Remove removes the item.',
+              acceptance_criteria:
+                '- Given a changed quantity, totals update without a page reload\n- Given more than the stock, the quantity is capped and a message shown',
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Enter details',
+      personas: ['Shopper'],
+      tasks: [
+        {
+          name: 'Shipping address',
+          stories: [
+            {
+              title: 'As a shopper, I want to enter my shipping address so that my order reaches me',
+              release: 'MVP',
+              personas: ['Shopper'],
+              requirements: 'Collect name, address lines, city, postal code and country; validate per country.',
+              acceptance_criteria:
+                '- Given a missing required field, the form shows an error next to it\n- Given a valid address, the shopper continues to delivery options',
+            },
+          ],
+        },
+        {
+          name: 'Delivery options',
+          stories: [
+            {
+              title: 'As a shopper, I want to choose a delivery option so that I control cost and speed',
+              release: 'Later',
+              personas: ['Shopper'],
+              requirements: 'Show the available carriers with price and estimated delivery date for the address.',
+              acceptance_criteria: '- Given a chosen option, its price is added to the order total',
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Pay',
+      personas: ['Shopper'],
+      tasks: [
+        {
+          name: 'Card payment',
+          stories: [
+            {
+              title: 'As a shopper, I want to pay by card so that I can complete my order',
+              release: 'MVP',
+              personas: ['Shopper'],
+              requirements: 'Card details are collected by the payment provider; the store never stores card numbers.',
+              acceptance_criteria:
+                '- Given a successful payment, the order is created as paid\n- Given a declined card, the shopper stays on the payment step with the reason',
+              edge_cases: 'Payment succeeds but the confirmation request times out.',
+            },
+          ],
+        },
+        {
+          name: 'Discount codes',
+          stories: [
+            {
+              title: 'As a shopper, I want to apply a discount code so that I get the promised price',
+              release: 'Later',
+              personas: ['Shopper'],
+              requirements: 'One code per order; the discount is shown as its own line before payment.',
+              acceptance_criteria: '- Given an expired code, an error is shown and the total is unchanged',
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Confirm order',
+      personas: ['Shopper', 'Store admin'],
+      tasks: [
+        {
+          name: 'Order confirmation',
+          stories: [
+            {
+              title: 'As a shopper, I want a confirmation page and email so that I know my order went through',
+              release: 'MVP',
+              personas: ['Shopper'],
+              requirements: 'Show the order number and summary, and send the same summary by email.',
+              acceptance_criteria: '- Given a paid order, the confirmation email is sent within a minute',
+            },
+          ],
+        },
+        {
+          name: 'New order notification',
+          stories: [
+            {
+              title: 'As a store admin, I want to be notified of new orders so that I can fulfil them',
+              release: 'Later',
+              personas: ['Store admin'],
+              requirements: 'Paid orders appear in the admin order list and trigger a notification.',
+              acceptance_criteria: '- Given a paid order, it is listed as "To fulfil" in the admin',
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const SAAS_ONBOARDING: TemplateDocument = {
+  name: 'SaaS onboarding',
+  description: 'From sign-up to the first moment of value.',
+  personas: [
+    { name: 'New user', description: 'Signed up to try the product.', goals: 'See value before the trial ends.' },
+    { name: 'Workspace admin', description: 'Sets the product up for a team.', goals: 'Get the team working in it.' },
+  ],
+  releases: [{ name: 'MVP' }, { name: 'Later' }],
+  activities: [
+    {
+      name: 'Sign up',
+      personas: ['New user'],
+      tasks: [
+        {
+          name: 'Create account',
+          stories: [
+            {
+              title: 'As a new user, I want to sign up with email or Google so that I can start quickly',
+              release: 'MVP',
+              personas: ['New user'],
+              requirements: 'Email sign-up requires verification; Google sign-up uses OAuth and needs none.',
+              acceptance_criteria:
+                '- Given a verified email, the user lands in the product signed in\n- Given an email already registered, the user is offered to sign in instead',
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Set up workspace',
+      personas: ['Workspace admin'],
+      tasks: [
+        {
+          name: 'Name workspace',
+          stories: [
+            {
+              title: 'As a workspace admin, I want to name my workspace so that my team recognises it',
+              release: 'MVP',
+              personas: ['Workspace admin'],
+              requirements: 'Ask for the workspace name on first sign-in; suggest one from the email domain.',
+              acceptance_criteria: '- Given a saved name, it is shown in the header and in invitations',
+            },
+          ],
+        },
+        {
+          name: 'Invite teammates',
+          stories: [
+            {
+              title: 'As a workspace admin, I want to invite teammates by email so that we can work together',
+              release: 'Later',
+              personas: ['Workspace admin'],
+              requirements: 'Invite several emails at once; invitations expire after 7 days.',
+              acceptance_criteria:
+                '- Given an accepted invitation, the teammate joins the workspace\n- Given an expired invitation, the admin can resend it',
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Reach first value',
+      personas: ['New user'],
+      tasks: [
+        {
+          name: 'Guided checklist',
+          stories: [
+            {
+              title: 'As a new user, I want a short checklist so that I know what to do first',
+              release: 'MVP',
+              personas: ['New user'],
+              requirements: 'Three to five steps that lead to the core action; progress is saved per user.',
+              acceptance_criteria:
+                '- Given a completed step, it is checked off automatically\n- Given all steps done, the checklist can be dismissed',
+            },
+          ],
+        },
+        {
+          name: 'Sample data',
+          stories: [
+            {
+              title: 'As a new user, I want sample data so that I can explore before adding my own',
+              release: 'Later',
+              personas: ['New user'],
+              requirements: 'Offer to load sample data on an empty workspace; it can be removed in one click.',
+              acceptance_criteria: '- Given sample data was removed, none of it remains anywhere in the workspace',
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+export const BUILT_IN_TEMPLATES: Record<BuiltInTemplateId, TemplateDocument> = {
+  'ecommerce-checkout': ECOMMERCE_CHECKOUT,
+  'saas-onboarding': SAAS_ONBOARDING,
+};
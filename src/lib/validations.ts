@@ -1,5 +1,9 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
+import { PORTABLE_FORMAT, PORTABLE_VERSION } from '@/lib/export';
+import { JIRA_DEFAULT_STATUS_MAPPING, LINEAR_DEFAULT_STATUS_MAPPING } from '@/lib/sync/providers';
+import { BUILT_IN_TEMPLATE_IDS } from '@/lib/templates';
+import type { SyncProvider } from '@/types';
 
 // =============================================================================
 // Utility Functions
@@ -20,6 +24,20 @@ export function invalidIdResponse(): NextResponse {
   return NextResponse.json({ error: 'Invalid ID format' }, { status: 400 });
 }
 
+/**
+ * Validates a sync provider URL param against the supported providers.
+ */
+export function isSyncProvider(provider: string): provider is SyncProvider {
+  return syncProvider.safeParse(provider).success;
+}
+
+/**
+ * Returns a 400 response for an unknown sync provider in URL params.
+ */
+export function unsupportedProviderResponse(): NextResponse {
+  return NextResponse.json({ error: 'Unsupported provider' }, { status: 400 });
+}
+
 /**
  * Removes undefined values from an object, preserving null.
  * Maintains type safety for partial updates.
@@ -62,6 +80,23 @@ export async function validateRequest<T>(request: Request, schema: z.ZodSchema<T
   return { success: true, data: result.data };
 }
 
+/**
+ * Validates a request's query string against a schema.
+ * Repeated keys keep their last value.
+ */
+export function validateSearchParams<T>(request: Request, schema: z.ZodSchema<T>): ValidationResult<T> {
+  const { searchParams } = new URL(request.url);
+  const result = schema.safeParse(Object.fromEntries(searchParams));
+  if (!result.success) {
+    return {
+      success: false,
+      response: NextResponse.json({ error: 'Validation failed', details: result.error.flatten() }, { status: 400 }),
+    };
+  }
+
+  return { success: true, data: result.data };
+}
+
 // =============================================================================
 // Shared Primitives
 // =============================================================================
@@ -70,6 +105,7 @@ const uuid = z.string().uuid();
 const nullableString = z.string().min(1).nullable();
 const name = z.string().min(1, 'Required').max(200);
 const sortOrder = z.number().int().min(0);
+const personaIds = z.array(uuid);
 
 export const storyStatus = z.enum(['backlog', 'ready', 'in_progress', 'review', 'done']);
 
@@ -88,13 +124,19 @@ const storyMapBase = z.object({
   description: nullableString,
 });
 
-export const createStoryMapSchema = storyMapBase.partial({ description: true });
+export const createStoryMapSchema = storyMapBase
+  .partial({ description: true })
+  .extend({ template: z.enum(BUILT_IN_TEMPLATE_IDS).optional() });
 
 export const updateStoryMapSchema = storyMapBase
   .omit({ team_id: true })
   .partial()
+  .extend({ is_template: z.boolean().optional() })
   .refine(atLeastOneField, atLeastOneFieldMessage);
 
+/** Copy a story map; the team defaults to the source's, name and description to the source's name + " (copy)" */
+export const duplicateStoryMapSchema = storyMapBase.partial().extend({ is_template: z.boolean().default(false) });
+
 const releaseBase = z.object({
   story_map_id: uuid,
   name,
@@ -114,18 +156,27 @@ export const reorderReleasesSchema = z.object({
   order: z.array(uuid).min(1, 'Order array cannot be empty'),
 });
 
+/** What happens to a deleted release's stories */
+export const deleteReleaseSchema = z.discriminatedUnion('stories', [
+  z.object({ stories: z.literal('unassign') }),
+  z.object({ stories: z.literal('move'), target_release_id: uuid }),
+  z.object({ stories: z.literal('delete') }),
+]);
+
 const activityBase = z.object({
   story_map_id: uuid,
   name,
   description: nullableString,
 });
 
-export const createActivitySchema = activityBase.partial({ description: true });
+export const createActivitySchema = activityBase
+  .partial({ description: true })
+  .extend({ persona_ids: personaIds.optional() });
 
 export const updateActivitySchema = activityBase
   .omit({ story_map_id: true })
   .partial()
-  .extend({ sort_order: sortOrder.optional() })
+  .extend({ sort_order: sortOrder.optional(), persona_ids: personaIds.optional() })
   .refine(atLeastOneField, atLeastOneFieldMessage);
 
 export const reorderActivitiesSchema = z.object({
@@ -139,11 +190,11 @@ const taskBase = z.object({
   description: nullableString,
 });
 
-export const createTaskSchema = taskBase.partial({ description: true });
+export const createTaskSchema = taskBase.partial({ description: true }).extend({ persona_ids: personaIds.optional() });
 
 export const updateTaskSchema = taskBase
   .partial() // activity_id included: tasks can move between activities
-  .extend({ sort_order: sortOrder.optional() })
+  .extend({ sort_order: sortOrder.optional(), persona_ids: personaIds.optional() })
   .refine(atLeastOneField, atLeastOneFieldMessage);
 
 export const reorderTasksSchema = z.object({
@@ -151,6 +202,11 @@ export const reorderTasksSchema = z.object({
   order: z.array(uuid).min(1, 'Order array cannot be empty'),
 });
 
+export const moveTaskSchema = z.object({
+  activity_id: uuid,
+  index: sortOrder,
+});
+
 const storyBase = z.object({
   task_id: uuid,
   release_id: uuid.nullable(),
@@ -163,6 +219,9 @@ const storyBase = z.object({
   status: storyStatus,
 });
 
+/** A team member's user id, or null for unassigned */
+const assigneeId = uuid.nullable();
+
 export const createStorySchema = storyBase
   .partial({
     release_id: true,
@@ -171,11 +230,15 @@ export const createStorySchema = storyBase
     technical_guidelines: true,
     status: true,
   })
-  .extend({ status: storyStatus.optional().default('backlog') });
+  .extend({
+    status: storyStatus.optional().default('backlog'),
+    persona_ids: personaIds.optional(),
+    assignee_id: assigneeId.optional(),
+  });
 
 export const updateStorySchema = storyBase
   .partial() // task_id included: stories can move between tasks
-  .extend({ sort_order: sortOrder.optional() })
+  .extend({ sort_order: sortOrder.optional(), persona_ids: personaIds.optional(), assignee_id: assigneeId.optional() })
   .refine(atLeastOneField, atLeastOneFieldMessage);
 
 export const reorderStoriesSchema = z.object({
@@ -184,6 +247,12 @@ export const reorderStoriesSchema = z.object({
   order: z.array(uuid).min(1, 'Order array cannot be empty'),
 });
 
+export const moveStorySchema = z.object({
+  task_id: uuid,
+  release_id: uuid.nullable(),
+  index: sortOrder,
+});
+
 const personaBase = z.object({
   story_map_id: uuid,
   name,
@@ -220,17 +289,302 @@ export const inviteEmailSchema = z.object({
   email: z.string().email('Invalid email address'),
 });
 
+// =============================================================================
+// Trash Schemas
+// =============================================================================
+
+export const restoreTrashSchema = z.object({
+  entity_type: z.enum(['activity', 'task', 'story', 'release']),
+  id: uuid,
+});
+
+// =============================================================================
+// Audit Log Schemas
+// =============================================================================
+
+export const auditLogQuerySchema = z.object({
+  entity_type: z
+    .enum(['story_map', 'activity', 'task', 'story', 'release', 'persona', 'team_member', 'team_invite'])
+    .optional(),
+  action: z.enum(['create', 'update', 'delete', 'restore']).optional(),
+  actor_id: uuid.optional(),
+  /** Cursor: only entries older than this timestamp */
+  before: z.iso.datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// =============================================================================
+// Search Schemas
+// =============================================================================
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Required').max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// =============================================================================
+// Comment Schemas
+// =============================================================================
+
+const commentBody = z.string().trim().min(1, 'Required').max(10000);
+
+export const createCommentSchema = z.object({
+  body: commentBody,
+  /** Top-level comment this replies to */
+  parent_id: uuid.nullable().optional(),
+});
+
+export const updateCommentSchema = z.object({
+  body: commentBody,
+});
+
+// =============================================================================
+// Notification Schemas
+// =============================================================================
+
+export const notificationType = z.enum(['mention', 'assignment', 'status_change', 'comment', 'team_added']);
+
+export const notificationsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+
+export const markNotificationsReadSchema = z.object({
+  /** Omit to mark every notification read */
+  ids: z.array(uuid).min(1).max(100).optional(),
+});
+
+export const notificationPreferencesSchema = z
+  .object({
+    muted_types: z.array(notificationType).optional(),
+    digest_frequency: z.enum(['off', 'daily', 'weekly']).optional(),
+  })
+  .refine(atLeastOneField, atLeastOneFieldMessage);
+
+// =============================================================================
+// Integration Schemas
+// =============================================================================
+
+export const syncProvider = z.enum(['github', 'linear', 'jira']);
+
+const githubName = z
+  .string()
+  .min(1, 'Required')
+  .max(100)
+  .regex(/^[A-Za-z0-9_.-]+$/, 'Only letters, digits, "-", "_" and "." are allowed');
+
+const stateName = z.string().min(1, 'Required').max(100);
+
+/** Provider workflow state name for every story status */
+const statusMapping = z.object({
+  backlog: stateName,
+  ready: stateName,
+  in_progress: stateName,
+  review: stateName,
+  done: stateName,
+});
+
+/**
+ * Jira Cloud sites only: the server calls the site with the team's credentials, so it must
+ * not be pointed at other hosts - least of all the server's own network
+ */
+export const jiraSiteUrl = z.url({
+  protocol: /^https$/,
+  hostname: /^[a-z0-9][a-z0-9-]*\.atlassian\.net$/i,
+  error: 'Enter your Jira Cloud site, e.g. https://acme.atlassian.net',
+});
+
+/** Secret credentials per provider - stored in integrations.credentials, never returned */
+export const integrationCredentialsSchemas = {
+  github: z.object({ token: z.string().min(1, 'Token is required') }),
+  linear: z.object({ api_key: z.string().min(1, 'API key is required') }),
+  jira: z.object({
+    site_url: jiraSiteUrl,
+    email: z.email('Invalid email address'),
+    api_token: z.string().min(1, 'API token is required'),
+  }),
+} satisfies Record<SyncProvider, z.ZodTypeAny>;
+
+/** Non-secret settings per provider - stored in integrations.settings */
+export const integrationSettingsSchemas = {
+  github: z.object({}),
+  linear: z.object({ status_mapping: statusMapping.default(LINEAR_DEFAULT_STATUS_MAPPING) }),
+  jira: z.object({
+    status_mapping: statusMapping.default(JIRA_DEFAULT_STATUS_MAPPING),
+    /** Custom field holding acceptance criteria; empty appends them to the description instead */
+    acceptance_criteria_field: z
+      .string()
+      .regex(/^(customfield_\d+)?$/, 'Use the field id, e.g. customfield_10050')
+      .default(''),
+  }),
+} satisfies Record<SyncProvider, z.ZodTypeAny>;
+
+/** Connect a provider (credentials required) or change settings of a connected one (credentials optional) */
+export function integrationSchema(provider: SyncProvider) {
+  return z
+    .object({
+      credentials: integrationCredentialsSchemas[provider].optional(),
+      settings: integrationSettingsSchemas[provider].optional(),
+    })
+    .refine(atLeastOneField, atLeastOneFieldMessage);
+}
+
+/** Story map sync target per provider */
+export const syncTargetSchemas = {
+  github: z.object({ owner: githubName, repo: githubName }),
+  linear: z.object({
+    team_key: z
+      .string()
+      .min(1, 'Required')
+      .max(20)
+      .regex(/^[A-Za-z0-9]+$/, 'Use the Linear team key, e.g. ENG'),
+    release_as: z.enum(['project', 'cycle']),
+  }),
+  jira: z.object({
+    project_key: z
+      .string()
+      .min(1, 'Required')
+      .max(20)
+      .regex(/^[A-Z][A-Z0-9_]+$/, 'Use the Jira project key, e.g. PROJ'),
+  }),
+} satisfies Record<SyncProvider, z.ZodTypeAny>;
+
+// =============================================================================
+// Webhook Schemas
+// =============================================================================
+
+export const webhookEvent = z.enum([
+  'story.created',
+  'story.status_changed',
+  'story.assigned',
+  'story.deleted',
+  'release.created',
+  'release.deleted',
+  'comment.created',
+  'story_map.created',
+]);
+
+const webhookBase = z.object({
+  url: z.url({ protocol: /^https?$/, error: 'Enter an http(s) URL' }).max(2000),
+  description: z.string().max(200).nullable().optional(),
+  events: z.array(webhookEvent).min(1, 'Choose at least one event'),
+  enabled: z.boolean().optional(),
+});
+
+export const createWebhookSchema = webhookBase;
+
+export const updateWebhookSchema = webhookBase.partial().refine(atLeastOneField, atLeastOneFieldMessage);
+
+export const webhookDeliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+
+// =============================================================================
+// Import Schemas
+// The portable story map document (see lib/export.ts) built from the entity base
+// schemas, so imported rows obey the same rules as rows created in the UI.
+// =============================================================================
+
+const portableNames = z.array(name).default([]);
+
+const portableStorySchema = createStorySchema
+  .omit({ task_id: true, release_id: true, persona_ids: true, assignee_id: true })
+  .extend({ release: name.nullable().default(null), personas: portableNames });
+
+const portableTaskSchema = taskBase
+  .omit({ activity_id: true })
+  .partial({ description: true })
+  .extend({ personas: portableNames, stories: z.array(portableStorySchema).default([]) });
+
+const portableActivitySchema = activityBase
+  .omit({ story_map_id: true })
+  .partial({ description: true })
+  .extend({ personas: portableNames, tasks: z.array(portableTaskSchema).default([]) });
+
+/** Report names that appear twice in a list - personas and releases are referenced by name */
+function checkUniqueNames(items: { name: string }[], path: string, ctx: z.RefinementCtx) {
+  const seen = new Set<string>();
+  items.forEach((item, i) => {
+    if (seen.has(item.name)) {
+      ctx.addIssue({ code: 'custom', path: [path, i, 'name'], message: `Duplicate name "${item.name}"` });
+    }
+    seen.add(item.name);
+  });
+}
+
+export const portableStoryMapSchema = storyMapBase
+  .omit({ team_id: true })
+  .partial({ description: true })
+  .extend({
+    format: z.literal(PORTABLE_FORMAT).optional(),
+    version: z.literal(PORTABLE_VERSION).optional(),
+    personas: z.array(personaBase.omit({ story_map_id: true }).partial({ description: true, goals: true })).default([]),
+    releases: z.array(releaseBase.omit({ story_map_id: true }).partial({ description: true })).default([]),
+    activities: z.array(portableActivitySchema).min(1, 'At least one activity is required'),
+  })
+  .superRefine((map, ctx) => {
+    checkUniqueNames(map.personas, 'personas', ctx);
+    checkUniqueNames(map.releases, 'releases', ctx);
+
+    const personas = new Set(map.personas.map((p) => p.name));
+    const releases = new Set(map.releases.map((r) => r.name));
+    const checkPersonas = (names: string[], path: (string | number)[]) => {
+      for (const persona of names.filter((n) => !personas.has(n))) {
+        ctx.addIssue({ code: 'custom', path: [...path, 'personas'], message: `Unknown persona "${persona}"` });
+      }
+    };
+
+    map.activities.forEach((activity, a) => {
+      checkPersonas(activity.personas, ['activities', a]);
+      activity.tasks.forEach((task, t) => {
+        checkPersonas(task.personas, ['activities', a, 'tasks', t]);
+        task.stories.forEach((story, s) => {
+          const path = ['activities', a, 'tasks', t, 'stories', s];
+          checkPersonas(story.personas, path);
+          if (story.release !== null && !releases.has(story.release)) {
+            ctx.addIssue({ code: 'custom', path: [...path, 'release'], message: `Unknown release "${story.release}"` });
+          }
+        });
+      });
+    });
+  });
+
+export const importFormat = z.enum(['markdown', 'json', 'csv']);
+
+export const importStoryMapSchema = z.object({
+  team_id: uuid,
+  format: importFormat,
+  /** File contents, exactly as an export produces them */
+  content: z.string().min(1, 'Required').max(5_000_000, 'File too large'),
+  /** Story map name; required for CSV, overrides the document's name otherwise */
+  name: name.optional(),
+  /** Validate only - report errors without creating anything */
+  dry_run: z.boolean().default(false),
+});
+
 // Type Exports
 export type CreateTeam = z.infer<typeof createTeamSchema>;
 export type UpdateTeam = z.infer<typeof updateTeamSchema>;
 export type InviteEmail = z.infer<typeof inviteEmailSchema>;
 
+export type StatusMapping = z.infer<typeof statusMapping>;
+export type GitHubCredentials = z.infer<typeof integrationCredentialsSchemas.github>;
+export type GitHubTarget = z.infer<typeof syncTargetSchemas.github>;
+export type LinearCredentials = z.infer<typeof integrationCredentialsSchemas.linear>;
+export type LinearSettings = z.infer<typeof integrationSettingsSchemas.linear>;
+export type LinearTarget = z.infer<typeof syncTargetSchemas.linear>;
+export type JiraCredentials = z.infer<typeof integrationCredentialsSchemas.jira>;
+export type JiraSettings = z.infer<typeof integrationSettingsSchemas.jira>;
+export type JiraTarget = z.infer<typeof syncTargetSchemas.jira>;
+
 export type CreateStoryMap = z.infer<typeof createStoryMapSchema>;
+export type PortableStoryMapInput = z.infer<typeof portableStoryMapSchema>;
+export type ImportStoryMap = z.infer<typeof importStoryMapSchema>;
 export type UpdateStoryMap = z.infer<typeof updateStoryMapSchema>;
 
 export type CreateRelease = z.infer<typeof createReleaseSchema>;
 export type UpdateRelease = z.infer<typeof updateReleaseSchema>;
 export type ReorderReleases = z.infer<typeof reorderReleasesSchema>;
+export type DeleteRelease = z.infer<typeof deleteReleaseSchema>;
 
 export type CreateActivity = z.infer<typeof createActivitySchema>;
 export type UpdateActivity = z.infer<typeof updateActivitySchema>;
@@ -239,10 +593,12 @@ export type ReorderActivities = z.infer<typeof reorderActivitiesSchema>;
 export type CreateTask = z.infer<typeof createTaskSchema>;
 export type UpdateTask = z.infer<typeof updateTaskSchema>;
 export type ReorderTasks = z.infer<typeof reorderTasksSchema>;
+export type MoveTask = z.infer<typeof moveTaskSchema>;
 
 export type CreateStory = z.infer<typeof createStorySchema>;
 export type UpdateStory = z.infer<typeof updateStorySchema>;
 export type ReorderStories = z.infer<typeof reorderStoriesSchema>;
+export type MoveStory = z.infer<typeof moveStorySchema>;
 
 export type CreatePersona = z.infer<typeof createPersonaSchema>;
 export type UpdatePersona = z.infer<typeof updatePersonaSchema>;
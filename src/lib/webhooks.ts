@@ -0,0 +1,327 @@
+import type { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import { BlockList, isIP } from 'node:net';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { errorMessage } from '@/lib/errors';
+import { signPayload } from '@/lib/hmac';
+import type { WebhookDelivery, WebhookDeliveryStatus } from '@/types';
+
+// =============================================================================
+// Outgoing Webhooks
+// Database triggers queue deliveries (see 020_webhooks.sql); the webhook job sends
+// them as JSON POSTs signed with the webhook's secret:
+//
+//   X-BeemSpec-Event: story.status_changed
+//   X-BeemSpec-Delivery: <delivery id>
+//   X-BeemSpec-Signature: sha256=<hex HMAC-SHA256 of the raw body>
+//
+// A delivery succeeds on any 2xx response. Anything else is retried with exponential
+// backoff until WEBHOOK_MAX_ATTEMPTS attempts have failed.
+//
+// Endpoints are chosen by team owners, i.e. any user, so they must not reach the
+// server's own network: URLs must be https outside development, and hosts that
+// resolve to loopback, private, link-local (including cloud metadata) or other
+// non-public addresses are refused when a webhook is saved and again, on the
+// address actually connected to, when a delivery is sent.
+// =============================================================================
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+/** Delay before the first retry; each further retry waits twice as long */
+const RETRY_BASE_MS = 60_000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+/** How much of the response body the delivery log keeps */
+const RESPONSE_BODY_LIMIT = 1000;
+/** Deliveries sent per run of the webhook job */
+const BATCH_SIZE = 50;
+/** Matches the default lease of claim_webhook_deliveries */
+const CLAIM_LEASE_MS = 5 * 60_000;
+
+export const WEBHOOK_SELECT =
+  'id, team_id, url, description, events, enabled, secret, created_by, created_at, updated_at';
+
+export const WEBHOOK_DELIVERY_SELECT =
+  'id, webhook_id, event, payload, status, attempts, next_attempt_at, last_attempt_at, response_status, response_body, created_at';
+
+/** A delivery ready to send, with its endpoint */
+export interface OutgoingDelivery {
+  id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  /** Attempts made before this one */
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+export type WebhookRun = Record<'succeeded' | 'retrying' | 'failed', number>;
+
+// -----------------------------------------------------------------------------
+// Target checks
+// -----------------------------------------------------------------------------
+
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-mapped IPv6 addresses are checked against the IPv4 subnets above
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/** A webhook URL the server must not call - the message says why */
+class RefusedWebhookTargetError extends Error {}
+
+/** URL hostname without the brackets around IPv6 addresses */
+function bareHost(hostname: string): string {
+  return hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+function isBlockedAddress(address: string): boolean {
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/** Throws RefusedWebhookTargetError for a URL webhooks may not use; only checks the URL itself */
+function checkWebhookUrl(url: string): URL {
+  const parsed = new URL(url);
+  const httpAllowed = process.env.NODE_ENV === 'development';
+  if (parsed.protocol !== 'https:' && !(httpAllowed && parsed.protocol === 'http:')) {
+    throw new RefusedWebhookTargetError('Webhook URLs must use https');
+  }
+  return parsed;
+}
+
+/** Every address a host resolves to, or the host itself when it is an IP address */
+function resolveHost(hostname: string): Promise<LookupAddress[]> {
+  const host = bareHost(hostname);
+  if (isIP(host)) return Promise.resolve([{ address: host, family: isIP(host) }]);
+  return new Promise((resolve, reject) =>
+    lookup(host, { all: true }, (err, addresses) => (err ? reject(err) : resolve(addresses))),
+  );
+}
+
+/**
+ * Check a URL before saving it as a webhook: why it may not be used - not https outside
+ * development, an unresolvable host, or a host with non-public addresses - or null when it may.
+ */
+export async function webhookTargetError(url: string): Promise<string | null> {
+  let hostname: string;
+  try {
+    hostname = checkWebhookUrl(url).hostname;
+  } catch (err) {
+    return errorMessage(err);
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await resolveHost(hostname);
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+  return addresses.some((a) => isBlockedAddress(a.address))
+    ? `${hostname} resolves to a private or reserved address`
+    : null;
+}
+
+/**
+ * dns.lookup for delivery requests that fails on non-public addresses, so the address
+ * connected to is the address checked - a host cannot pass the check and then rebind.
+ */
+const publicLookup: typeof lookup = ((
+  hostname: string,
+  options: { all?: boolean },
+  callback: (err: Error | null, address: string | LookupAddress[], family?: number) => void,
+) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+    if (addresses.some((a) => isBlockedAddress(a.address))) {
+      return callback(new RefusedWebhookTargetError(`${hostname} resolves to a private or reserved address`), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as typeof lookup;
+
+// -----------------------------------------------------------------------------
+// Delivery
+// -----------------------------------------------------------------------------
+
+interface PostResult {
+  ok: boolean;
+  status: number | null;
+  body: string;
+  /** The target was refused - never retried, and nothing it returned is kept */
+  refused?: boolean;
+}
+
+/** Wait before retrying after the given number of failed attempts: 1, 2, 4, ... minutes */
+export function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_MS * 2 ** (attempts - 1);
+}
+
+/** POST the body and read the start of the response; redirects are not followed */
+function request(url: URL, headers: Record<string, string>, body: string): Promise<PostResult> {
+  // IP literals are connected to without a lookup, so check them here
+  const host = bareHost(url.hostname);
+  if (isIP(host) && isBlockedAddress(host)) {
+    return Promise.reject(new RefusedWebhookTargetError(`${url.hostname} is a private or reserved address`));
+  }
+  const send = url.protocol === 'https:' ? https.request : http.request;
+  return new Promise((resolve, reject) => {
+    const req = send(url, { method: 'POST', headers, lookup: publicLookup, timeout: DELIVERY_TIMEOUT_MS }, (res) => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => {
+        text += chunk;
+        if (text.length >= RESPONSE_BODY_LIMIT) res.destroy();
+      });
+      res.on('close', () => {
+        const status = res.statusCode ?? 0;
+        resolve({ ok: status >= 200 && status < 300, status, body: text.slice(0, RESPONSE_BODY_LIMIT) });
+      });
+    });
+    req.on('timeout', () => req.destroy(new Error('Timed out waiting for a response')));
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+async function post(delivery: OutgoingDelivery): Promise<PostResult> {
+  const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+  const headers = {
+    'Content-Type': 'application/json',
+    'Content-Length': String(Buffer.byteLength(body)),
+    'User-Agent': 'BeemSpec-Webhooks',
+    'X-BeemSpec-Event': delivery.event,
+    'X-BeemSpec-Delivery': delivery.id,
+    'X-BeemSpec-Signature': `sha256=${signPayload(delivery.secret, body)}`,
+  };
+  try {
+    return await request(checkWebhookUrl(delivery.url), headers, body);
+  } catch (err) {
+    if (err instanceof RefusedWebhookTargetError) {
+      return { ok: false, status: null, body: `Refused: ${err.message}`, refused: true };
+    }
+    return { ok: false, status: null, body: errorMessage(err) };
+  }
+}
+
+/** Send one delivery and record the outcome: succeeded, pending a retry, or failed for good */
+export async function attemptDelivery(
+  supabase: SupabaseClient,
+  delivery: OutgoingDelivery,
+): Promise<WebhookDeliveryStatus> {
+  const startedAt = new Date();
+  const result = await post(delivery);
+  const attempts = delivery.attempts + 1;
+  const status: WebhookDeliveryStatus = result.ok
+    ? 'succeeded'
+    : result.refused || attempts >= WEBHOOK_MAX_ATTEMPTS
+      ? 'failed'
+      : 'pending';
+
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status,
+      attempts,
+      last_attempt_at: startedAt.toISOString(),
+      next_attempt_at: new Date(startedAt.getTime() + retryDelayMs(attempts)).toISOString(),
+      response_status: result.status,
+      response_body: result.body,
+    })
+    .eq('id', delivery.id);
+  if (error) throw error;
+
+  return status;
+}
+
+/** Send the deliveries that are due with the service-role client */
+export async function deliverDueWebhooks(supabase: SupabaseClient): Promise<WebhookRun> {
+  const { data, error } = await supabase.rpc('claim_webhook_deliveries', { p_limit: BATCH_SIZE });
+  if (error) {
+    throw new Error(`Failed to claim webhook deliveries: ${error.message}`);
+  }
+
+  const run: WebhookRun = { succeeded: 0, retrying: 0, failed: 0 };
+  const outcomes = await Promise.allSettled(
+    (data as OutgoingDelivery[]).map((delivery) => attemptDelivery(supabase, delivery)),
+  );
+  for (const outcome of outcomes) {
+    if (outcome.status === 'rejected') {
+      // Not recorded - the claim expires and the delivery is sent again
+      // biome-ignore lint/suspicious/noConsole: intentional server-side error logging
+      console.error('Failed to record webhook delivery', outcome.reason);
+    } else {
+      run[outcome.value === 'pending' ? 'retrying' : outcome.value]++;
+    }
+  }
+  return run;
+}
+
+/**
+ * Queue a `ping` event for a webhook and send it right away with the service-role client.
+ * Returns the logged delivery; a failed ping is retried like any other delivery.
+ */
+export async function sendTestEvent(
+  supabase: SupabaseClient,
+  webhook: { id: string; team_id: string; url: string; secret: string },
+  actor: { id: string; email: string | null },
+): Promise<WebhookDelivery> {
+  const payload = {
+    event: 'ping',
+    created_at: new Date().toISOString(),
+    team_id: webhook.team_id,
+    actor,
+    data: { webhook_id: webhook.id, message: 'Test event from BeemSpec' },
+  };
+  const { data: queued, error } = await supabase
+    .from('webhook_deliveries')
+    // Sent below - keep the webhook job from picking it up meanwhile, as claim_webhook_deliveries would
+    .insert({
+      webhook_id: webhook.id,
+      event: 'ping',
+      payload,
+      next_attempt_at: new Date(Date.now() + CLAIM_LEASE_MS).toISOString(),
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  await attemptDelivery(supabase, {
+    id: queued.id,
+    event: 'ping',
+    payload,
+    attempts: 0,
+    url: webhook.url,
+    secret: webhook.secret,
+  });
+
+  const { data, error: loadError } = await supabase
+    .from('webhook_deliveries')
+    .select(WEBHOOK_DELIVERY_SELECT)
+    .eq('id', queued.id)
+    .single();
+  if (loadError) throw loadError;
+  return data as WebhookDelivery;
+}
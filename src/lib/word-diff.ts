@@ -0,0 +1,90 @@
+// =============================================================================
+// Word Diff
+// LCS over words and whitespace, for showing how story text changed.
+// =============================================================================
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+/** Above this many LCS cells the changed middle is shown as one replacement */
+const MAX_DIFF_CELLS = 2_000_000;
+
+/** Words and the whitespace between them - joined, the tokens give back the text */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|\S+/g) ?? [];
+}
+
+function push(segments: DiffSegment[], op: DiffOp, tokens: string[]): void {
+  if (tokens.length === 0) return;
+  const text = tokens.join('');
+  const last = segments.at(-1);
+  if (last?.op === op) {
+    last.text += text;
+  } else {
+    segments.push({ op, text });
+  }
+}
+
+/** lengths[i * width + j] = length of the LCS of a[i..] and b[j..] */
+function lcsTable(a: string[], b: string[]): { lengths: Uint32Array; width: number } {
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+  return { lengths, width };
+}
+
+function diffTokens(a: string[], b: string[], segments: DiffSegment[]): void {
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    push(segments, 'delete', a);
+    push(segments, 'insert', b);
+    return;
+  }
+
+  const { lengths, width } = lcsTable(a, b);
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(segments, 'equal', [a[i++]]);
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      push(segments, 'delete', [a[i++]]);
+    } else {
+      push(segments, 'insert', [b[j++]]);
+    }
+  }
+  push(segments, 'delete', a.slice(i));
+  push(segments, 'insert', b.slice(j));
+}
+
+/** Segments turning `before` into `after`; a common prefix and suffix are matched without the LCS */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  push(segments, 'equal', a.slice(0, start));
+  diffTokens(a.slice(start, endA), b.slice(start, endB), segments);
+  push(segments, 'equal', a.slice(endA));
+  return segments;
+}
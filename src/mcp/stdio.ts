@@ -0,0 +1,32 @@
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { createMcpServer } from '@/lib/mcp/server';
+import { createTokenClient } from '@/lib/supabase/token';
+
+/**
+ * Stdio entry point for MCP clients that spawn a local process.
+ * Authenticates with a Supabase refresh token so the session outlives a single access token.
+ *
+ *   BEEMSPEC_REFRESH_TOKEN=... npm run mcp
+ */
+async function main() {
+  const refreshToken = process.env.BEEMSPEC_REFRESH_TOKEN;
+  if (!refreshToken) {
+    throw new Error('Missing BEEMSPEC_REFRESH_TOKEN environment variable');
+  }
+
+  const supabase = createTokenClient();
+  const { data, error } = await supabase.auth.refreshSession({ refresh_token: refreshToken });
+  if (error || !data.user) {
+    throw new Error(`Failed to authenticate: ${error?.message ?? 'no user for this refresh token'}`);
+  }
+
+  const server = createMcpServer(supabase, data.user.id);
+  await server.connect(new StdioServerTransport());
+}
+
+main().catch((err) => {
+  // stdout carries the MCP protocol - diagnostics must go to stderr
+  // biome-ignore lint/suspicious/noConsole: intentional CLI error output
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -38,9 +38,11 @@ export async function proxy(request: NextRequest) {
 
   const isAuthPage = request.nextUrl.pathname.startsWith('/auth');
   const isApiRoute = request.nextUrl.pathname.startsWith('/api');
+  // Digest unsubscribe links work without signing in
+  const isPublicPage = request.nextUrl.pathname === '/unsubscribe';
 
   // Don't redirect API routes - they handle their own auth
-  if (isApiRoute) {
+  if (isApiRoute || isPublicPage) {
     return supabaseResponse;
   }
 
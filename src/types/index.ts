@@ -36,6 +36,8 @@ export interface StoryMap {
   team_id: string;
   name: string;
   description: string | null;
+  /** Offered as a starting point when creating a story map */
+  is_template: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -88,17 +90,214 @@ export interface Story {
   edge_cases: string | null;
   technical_guidelines: string | null;
   status: StoryStatus;
+  /** Team member working on the story */
+  assignee_id: string | null;
+  /** Who created the story; null when it was created without a user session */
+  reporter_id: string | null;
   sort_order: number;
   created_at: string;
   updated_at: string;
 }
 
+/** A story assigned to the current user, with where it sits in its story map */
+export interface AssignedStory extends Story {
+  story_map_id: string;
+  story_map_name: string;
+  activity_name: string;
+  task_name: string;
+}
+
+/** Story content fields recorded in revision history */
+export type StoryRevisionField =
+  | 'title'
+  | 'requirements'
+  | 'acceptance_criteria'
+  | 'edge_cases'
+  | 'technical_guidelines'
+  | 'figma_link'
+  | 'status'
+  | 'release_id';
+
+/** One recorded insert or update of a story (see 010_story_revisions.sql) */
+export interface StoryRevision {
+  id: string;
+  story_id: string;
+  /** INSERT is the story as created */
+  operation: 'INSERT' | 'UPDATE';
+  changed_by: string | null;
+  changed_by_email: string | null;
+  changed_at: string;
+  /** Only the fields this revision changed */
+  changes: Partial<Record<StoryRevisionField, { old: unknown; new: unknown }>>;
+  /** Every recorded field after the change */
+  snapshot: Pick<Story, StoryRevisionField>;
+}
+
+/** A markdown comment on a story; replies point at a top-level comment (see 017_story_comments.sql) */
+export interface StoryComment {
+  id: string;
+  story_id: string;
+  /** null for top-level comments */
+  parent_id: string | null;
+  author_id: string | null;
+  author_email: string | null;
+  body: string;
+  /** Team members @mentioned in the body */
+  mentions: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type NotificationType = 'mention' | 'assignment' | 'status_change' | 'comment' | 'team_added';
+
+/** What a notification shows, captured when it was created (see 018_notifications.sql) */
+export interface NotificationData {
+  team_name?: string;
+  story_title?: string;
+  /** Start of the comment, for mention and comment */
+  excerpt?: string;
+  /** For status_change */
+  from?: StoryStatus;
+  to?: StoryStatus;
+}
+
+/** Something a user should hear about, e.g. being @mentioned in a comment */
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  /** null for changes without a user session, e.g. provider webhooks */
+  actor_id: string | null;
+  actor_email: string | null;
+  team_id: string | null;
+  story_map_id: string | null;
+  story_id: string | null;
+  comment_id: string | null;
+  data: NotificationData;
+  /** null while unread */
+  read_at: string | null;
+  created_at: string;
+}
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface NotificationPreferences {
+  /** Event types the user turned off; all others are on */
+  muted_types: NotificationType[];
+  /** How often the email digest is sent (see 019_email_digests.sql) */
+  digest_frequency: DigestFrequency;
+}
+
+export type DigestItemKind = 'new_story' | 'status_change' | 'comment';
+
+/** Something that happened in a story map a user touched, as returned by digest_activity */
+export interface DigestItem {
+  kind: DigestItemKind;
+  story_map_id: string;
+  story_map_name: string;
+  story_id: string;
+  story_title: string;
+  actor_email: string | null;
+  /** from and to for status_change, excerpt for comment */
+  detail: { from?: StoryStatus; to?: StoryStatus; excerpt?: string };
+  occurred_at: string;
+}
+
+export type TrashEntityType = 'activity' | 'task' | 'story' | 'release';
+
+/** A deleted entity that can be restored from a story map's trash (see 012_soft_delete.sql) */
+export interface TrashItem {
+  entity_type: TrashEntityType;
+  id: string;
+  /** Name of the activity, task or release, or the story title */
+  label: string;
+  deleted_at: string;
+  /** Stories deleted along with the entity, restored with it */
+  story_count: number;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export type AuditEntityType =
+  | 'story_map'
+  | 'activity'
+  | 'task'
+  | 'story'
+  | 'release'
+  | 'persona'
+  | 'team_member'
+  | 'team_invite';
+
+/** One created, updated, deleted or restored entity of a team (see 011_audit_log.sql) */
+export interface AuditEntry {
+  id: string;
+  team_id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  entity_label: string | null;
+  /** Row as it was; null for create */
+  before: Record<string, unknown> | null;
+  /** Row as it is; null for delete, except moves to the trash */
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
+
+// Requirements quality scoring
+export type QualityRuleId =
+  | 'testable_acceptance_criteria'
+  | 'user_story_format'
+  | 'edge_cases'
+  | 'persona_linked'
+  | 'detailed_requirements'
+  | 'technical_guidelines';
+
+export interface QualityFinding {
+  rule: QualityRuleId;
+  label: string;
+  weight: number;
+  passed: boolean;
+  message: string;
+}
+
+export interface StoryQuality {
+  /** 0-100, sum of the weights of passed rules */
+  score: number;
+  findings: QualityFinding[];
+}
+
+export type SearchEntityType = 'story' | 'activity' | 'task' | 'persona';
+
+/** One full-text search match in a team's story maps (see 015_search.sql) */
+export interface SearchResult {
+  entity_type: SearchEntityType;
+  id: string;
+  story_map_id: string;
+  story_map_name: string;
+  /** Story title or name, matches wrapped in <mark></mark> */
+  label: string;
+  /** Matching fragment of a story's text fields; null for other entities */
+  snippet: string | null;
+  rank: number;
+}
+
+/** Entity plus the ids of personas linked through its junction table */
+export type WithPersonas<T> = T & { persona_ids: string[] };
+
+export type PersonaLinkedEntity = 'story' | 'task' | 'activity';
+
+export interface ScoredStory extends WithPersonas<Story> {
+  quality: StoryQuality;
+}
+
 // Joined types for UI
-export interface TaskWithStories extends Task {
-  stories: Story[];
+export interface TaskWithStories extends WithPersonas<Task> {
+  stories: ScoredStory[];
 }
 
-export interface ActivityWithTasks extends Activity {
+export interface ActivityWithTasks extends WithPersonas<Activity> {
   tasks: TaskWithStories[];
 }
 
@@ -111,3 +310,87 @@ export interface StoryMapFull extends StoryMap {
   activities: ActivityWithTasks[];
   releases: Release[];
 }
+
+// Execution-layer integrations
+export type SyncProvider = 'github' | 'linear' | 'jira';
+
+export type ExternalEntityType = 'story' | 'release' | 'activity';
+
+/** Team connection to a provider - credentials stay on the server and are never returned */
+export interface Integration {
+  id: string;
+  team_id: string;
+  provider: SyncProvider;
+  settings: Record<string, unknown>;
+  webhook_secret: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Where a story map syncs to, e.g. `{ owner, repo }` for GitHub */
+export interface SyncTarget {
+  id: string;
+  story_map_id: string;
+  provider: SyncProvider;
+  target: Record<string, string>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExternalLink {
+  id: string;
+  story_map_id: string;
+  provider: SyncProvider;
+  entity_type: ExternalEntityType;
+  entity_id: string;
+  external_id: string;
+  external_key: string | null;
+  url: string | null;
+  synced_at: string;
+}
+
+// Outgoing webhooks
+export type WebhookEvent =
+  | 'story.created'
+  | 'story.status_changed'
+  | 'story.assigned'
+  | 'story.deleted'
+  | 'release.created'
+  | 'release.deleted'
+  | 'comment.created'
+  | 'story_map.created';
+
+/** A team endpoint that receives signed payloads for the events it subscribes to (see 020_webhooks.sql) */
+export interface Webhook {
+  id: string;
+  team_id: string;
+  url: string;
+  description: string | null;
+  events: WebhookEvent[];
+  enabled: boolean;
+  /** Signs every payload - shown to team owners only */
+  secret: string;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/** One event sent to one webhook, with the outcome of its latest attempt */
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  /** A WebhookEvent, or `ping` for test events */
+  event: WebhookEvent | 'ping';
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  /** When a pending delivery is sent next */
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  /** Start of the response body, or why no response came back */
+  response_body: string | null;
+  created_at: string;
+}
@@ -0,0 +1,60 @@
+-- =============================================================================
+-- BeemSpec Persona Links
+-- Atomically replace the personas linked to a story, task or activity.
+-- Only personas from the same story map are linked; other ids are ignored.
+-- SECURITY INVOKER (default): junction table RLS policies still apply.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- set_story_personas: Replace the personas linked to a story
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION set_story_personas(p_story_id UUID, p_persona_ids UUID[])
+RETURNS void AS $$
+BEGIN
+  DELETE FROM story_personas WHERE story_id = p_story_id;
+
+  INSERT INTO story_personas (story_id, persona_id)
+  SELECT p_story_id, p.id
+  FROM personas p
+  JOIN activities a ON a.story_map_id = p.story_map_id
+  JOIN tasks t ON t.activity_id = a.id
+  JOIN stories s ON s.task_id = t.id
+  WHERE s.id = p_story_id
+    AND p.id = ANY(p_persona_ids);
+END;
+$$ LANGUAGE plpgsql;
+
+-- -----------------------------------------------------------------------------
+-- set_task_personas: Replace the personas linked to a task
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION set_task_personas(p_task_id UUID, p_persona_ids UUID[])
+RETURNS void AS $$
+BEGIN
+  DELETE FROM task_personas WHERE task_id = p_task_id;
+
+  INSERT INTO task_personas (task_id, persona_id)
+  SELECT p_task_id, p.id
+  FROM personas p
+  JOIN activities a ON a.story_map_id = p.story_map_id
+  JOIN tasks t ON t.activity_id = a.id
+  WHERE t.id = p_task_id
+    AND p.id = ANY(p_persona_ids);
+END;
+$$ LANGUAGE plpgsql;
+
+-- -----------------------------------------------------------------------------
+-- set_activity_personas: Replace the personas linked to an activity
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION set_activity_personas(p_activity_id UUID, p_persona_ids UUID[])
+RETURNS void AS $$
+BEGIN
+  DELETE FROM activity_personas WHERE activity_id = p_activity_id;
+
+  INSERT INTO activity_personas (activity_id, persona_id)
+  SELECT p_activity_id, p.id
+  FROM personas p
+  JOIN activities a ON a.story_map_id = p.story_map_id
+  WHERE a.id = p_activity_id
+    AND p.id = ANY(p_persona_ids);
+END;
+$$ LANGUAGE plpgsql;
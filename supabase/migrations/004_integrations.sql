@@ -0,0 +1,181 @@
+-- =============================================================================
+-- BeemSpec Integrations (execution-layer sync: GitHub, ...)
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Team integrations: one connection per provider per team
+-- credentials hold API tokens and never leave the server (owner-only RLS).
+-- settings hold non-secret configuration such as status mappings.
+-- -----------------------------------------------------------------------------
+CREATE TABLE integrations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('github')),
+  credentials JSONB NOT NULL DEFAULT '{}',
+  settings JSONB NOT NULL DEFAULT '{}',
+  -- Shared secret for verifying inbound webhook signatures
+  webhook_secret TEXT NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(team_id, provider)
+);
+
+CREATE INDEX idx_integrations_team ON integrations(team_id);
+
+-- -----------------------------------------------------------------------------
+-- Sync targets: where a story map syncs to (e.g. { owner, repo } for GitHub)
+-- -----------------------------------------------------------------------------
+CREATE TABLE sync_targets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_map_id UUID NOT NULL REFERENCES story_maps(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  target JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(story_map_id, provider)
+);
+
+-- -----------------------------------------------------------------------------
+-- External links: BeemSpec entity <-> provider object (issue, milestone, ...)
+-- Re-syncs update the linked object instead of creating a new one.
+-- -----------------------------------------------------------------------------
+CREATE TABLE external_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_map_id UUID NOT NULL REFERENCES story_maps(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('story', 'release', 'activity')),
+  entity_id UUID NOT NULL,
+  external_id TEXT NOT NULL,
+  external_key TEXT,
+  url TEXT,
+  synced_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(provider, entity_type, entity_id)
+);
+
+CREATE INDEX idx_external_links_story_map ON external_links(story_map_id);
+CREATE INDEX idx_external_links_external ON external_links(provider, external_id);
+
+-- =============================================================================
+-- RLS
+-- =============================================================================
+
+ALTER TABLE integrations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sync_targets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE external_links ENABLE ROW LEVEL SECURITY;
+
+-- Integrations: owners only (credentials are secret)
+CREATE POLICY "Team owners can view integrations"
+  ON integrations FOR SELECT
+  USING (is_team_owner(team_id));
+
+CREATE POLICY "Team owners can create integrations"
+  ON integrations FOR INSERT
+  TO authenticated
+  WITH CHECK (is_team_owner(team_id));
+
+CREATE POLICY "Team owners can update integrations"
+  ON integrations FOR UPDATE
+  USING (is_team_owner(team_id))
+  WITH CHECK (is_team_owner(team_id));
+
+CREATE POLICY "Team owners can delete integrations"
+  ON integrations FOR DELETE
+  USING (is_team_owner(team_id));
+
+-- Sync targets
+CREATE POLICY "Team members can view sync targets"
+  ON sync_targets FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM story_maps sm
+    WHERE sm.id = story_map_id
+    AND is_team_member(sm.team_id)
+  ));
+
+CREATE POLICY "Team members can create sync targets"
+  ON sync_targets FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM story_maps sm
+    WHERE sm.id = story_map_id
+    AND is_team_member(sm.team_id)
+  ));
+
+CREATE POLICY "Team members can update sync targets"
+  ON sync_targets FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM story_maps sm
+    WHERE sm.id = story_map_id
+    AND is_team_member(sm.team_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM story_maps sm
+    WHERE sm.id = story_map_id
+    AND is_team_member(sm.team_id)
+  ));
+
+CREATE POLICY "Team members can delete sync targets"
+  ON sync_targets FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM story_maps sm
+    WHERE sm.id = story_map_id
+    AND is_team_member(sm.team_id)
+  ));
+
+-- External links
+CREATE POLICY "Team members can view external links"
+  ON external_links FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM story_maps sm
+    WHERE sm.id = story_map_id
+    AND is_team_member(sm.team_id)
+  ));
+
+CREATE POLICY "Team members can create external links"
+  ON external_links FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM story_maps sm
+    WHERE sm.id = story_map_id
+    AND is_team_member(sm.team_id)
+  ));
+
+CREATE POLICY "Team members can update external links"
+  ON external_links FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM story_maps sm
+    WHERE sm.id = story_map_id
+    AND is_team_member(sm.team_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM story_maps sm
+    WHERE sm.id = story_map_id
+    AND is_team_member(sm.team_id)
+  ));
+
+CREATE POLICY "Team members can delete external links"
+  ON external_links FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM story_maps sm
+    WHERE sm.id = story_map_id
+    AND is_team_member(sm.team_id)
+  ));
+
+-- =============================================================================
+-- Update timestamps triggers for integrations and sync targets
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION update_integrations_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_integrations_updated_at
+  BEFORE UPDATE ON integrations
+  FOR EACH ROW EXECUTE FUNCTION update_integrations_updated_at();
+
+CREATE TRIGGER trg_sync_targets_updated_at
+  BEFORE UPDATE ON sync_targets
+  FOR EACH ROW EXECUTE FUNCTION update_integrations_updated_at();
@@ -0,0 +1,10 @@
+-- =============================================================================
+-- BeemSpec Linear Integration
+-- Linear connections live in integrations like GitHub:
+--   credentials: { api_key }
+--   settings:    { status_mapping: { backlog, ready, in_progress, review, done } } (workflow state names)
+-- =============================================================================
+
+ALTER TABLE integrations DROP CONSTRAINT integrations_provider_check;
+ALTER TABLE integrations ADD CONSTRAINT integrations_provider_check
+  CHECK (provider IN ('github', 'linear'));
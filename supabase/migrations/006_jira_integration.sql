@@ -0,0 +1,11 @@
+-- =============================================================================
+-- BeemSpec Jira Integration
+-- Jira Cloud connections live in integrations like GitHub and Linear:
+--   credentials: { site_url, email, api_token }
+--   settings:    { status_mapping: { backlog, ready, in_progress, review, done }, acceptance_criteria_field }
+-- Activities sync as epics, so external_links also hold 'activity' rows.
+-- =============================================================================
+
+ALTER TABLE integrations DROP CONSTRAINT integrations_provider_check;
+ALTER TABLE integrations ADD CONSTRAINT integrations_provider_check
+  CHECK (provider IN ('github', 'linear', 'jira'));
@@ -0,0 +1,95 @@
+-- =============================================================================
+-- BeemSpec Story Map Import
+-- Creates a story map with its personas, releases and activity → task → story
+-- tree from a validated portable document (src/lib/import.ts) in one transaction,
+-- so a failing row leaves nothing behind.
+-- SECURITY INVOKER (default): story map and child table RLS policies still apply.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- import_story_map: Create a story map from a portable document, returns its id
+-- -----------------------------------------------------------------------------
+-- Array order becomes sort_order. Stories carry no explicit sort_order: the
+-- auto_sort_order_stories trigger numbers each task + release cell in insert order.
+-- Personas and releases are referenced by name (unique within the document).
+CREATE OR REPLACE FUNCTION import_story_map(p_team_id UUID, p_map JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_map_id UUID;
+  v_activity_id UUID;
+  v_task_id UUID;
+  v_story_id UUID;
+  v_activity RECORD;
+  v_task RECORD;
+  v_story RECORD;
+BEGIN
+  INSERT INTO story_maps (team_id, name, description)
+  VALUES (p_team_id, p_map->>'name', p_map->>'description')
+  RETURNING id INTO v_map_id;
+
+  INSERT INTO personas (story_map_id, name, description, goals, sort_order)
+  SELECT v_map_id, p.value->>'name', p.value->>'description', p.value->>'goals', p.ordinality - 1
+  FROM jsonb_array_elements(p_map->'personas') WITH ORDINALITY AS p;
+
+  INSERT INTO releases (story_map_id, name, description, sort_order)
+  SELECT v_map_id, r.value->>'name', r.value->>'description', r.ordinality - 1
+  FROM jsonb_array_elements(p_map->'releases') WITH ORDINALITY AS r;
+
+  FOR v_activity IN
+    SELECT value, ordinality FROM jsonb_array_elements(p_map->'activities') WITH ORDINALITY
+  LOOP
+    INSERT INTO activities (story_map_id, name, description, sort_order)
+    VALUES (v_map_id, v_activity.value->>'name', v_activity.value->>'description', v_activity.ordinality - 1)
+    RETURNING id INTO v_activity_id;
+
+    INSERT INTO activity_personas (activity_id, persona_id)
+    SELECT v_activity_id, p.id
+    FROM personas p
+    WHERE p.story_map_id = v_map_id
+      AND p.name IN (SELECT jsonb_array_elements_text(v_activity.value->'personas'));
+
+    FOR v_task IN
+      SELECT value, ordinality FROM jsonb_array_elements(v_activity.value->'tasks') WITH ORDINALITY
+    LOOP
+      INSERT INTO tasks (activity_id, name, description, sort_order)
+      VALUES (v_activity_id, v_task.value->>'name', v_task.value->>'description', v_task.ordinality - 1)
+      RETURNING id INTO v_task_id;
+
+      INSERT INTO task_personas (task_id, persona_id)
+      SELECT v_task_id, p.id
+      FROM personas p
+      WHERE p.story_map_id = v_map_id
+        AND p.name IN (SELECT jsonb_array_elements_text(v_task.value->'personas'));
+
+      FOR v_story IN
+        SELECT value FROM jsonb_array_elements(v_task.value->'stories') WITH ORDINALITY ORDER BY ordinality
+      LOOP
+        INSERT INTO stories (
+          task_id, release_id, title, requirements, acceptance_criteria,
+          figma_link, edge_cases, technical_guidelines, status
+        )
+        VALUES (
+          v_task_id,
+          (SELECT r.id FROM releases r WHERE r.story_map_id = v_map_id AND r.name = v_story.value->>'release'),
+          v_story.value->>'title',
+          v_story.value->>'requirements',
+          v_story.value->>'acceptance_criteria',
+          v_story.value->>'figma_link',
+          v_story.value->>'edge_cases',
+          v_story.value->>'technical_guidelines',
+          v_story.value->>'status'
+        )
+        RETURNING id INTO v_story_id;
+
+        INSERT INTO story_personas (story_id, persona_id)
+        SELECT v_story_id, p.id
+        FROM personas p
+        WHERE p.story_map_id = v_map_id
+          AND p.name IN (SELECT jsonb_array_elements_text(v_story.value->'personas'));
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_map_id;
+END;
+$$ LANGUAGE plpgsql;
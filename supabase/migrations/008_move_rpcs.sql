@@ -0,0 +1,138 @@
+-- =============================================================================
+-- BeemSpec Move Functions
+-- Re-parent a story or task and renumber the cell it leaves and the cell it
+-- enters in one transaction, replacing the update-then-reorder request pair.
+-- Missing entities raise no_data_found (P0002), which the API maps to 404.
+-- SECURITY INVOKER (default): RLS decides which rows the caller can see and move.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- move_story: Move a story to position p_index of a task + release cell
+-- -----------------------------------------------------------------------------
+-- p_index is 0-based and clamped to the cell size. The target task and release
+-- must belong to the story's map. Uses IS NOT DISTINCT FROM for NULL release_id.
+CREATE OR REPLACE FUNCTION move_story(
+  p_story_id UUID,
+  p_task_id UUID,
+  p_release_id UUID,
+  p_index INTEGER
+)
+RETURNS void AS $$
+DECLARE
+  v_story_map_id UUID;
+  v_task_id UUID;
+  v_release_id UUID;
+  v_order UUID[];
+  v_index INTEGER;
+BEGIN
+  SELECT s.task_id, s.release_id, a.story_map_id
+  INTO v_task_id, v_release_id, v_story_map_id
+  FROM stories s
+  JOIN tasks t ON t.id = s.task_id
+  JOIN activities a ON a.id = t.activity_id
+  WHERE s.id = p_story_id
+  FOR UPDATE OF s;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Story not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM tasks t
+    JOIN activities a ON a.id = t.activity_id
+    WHERE t.id = p_task_id AND a.story_map_id = v_story_map_id
+  ) THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_release_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM releases WHERE id = p_release_id AND story_map_id = v_story_map_id
+  ) THEN
+    RAISE EXCEPTION 'Release not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE stories
+  SET task_id = p_task_id, release_id = p_release_id, updated_at = NOW()
+  WHERE id = p_story_id;
+
+  -- Close the gap in the source cell
+  SELECT COALESCE(array_agg(id ORDER BY sort_order, created_at), '{}') INTO v_order
+  FROM stories
+  WHERE task_id = v_task_id
+    AND release_id IS NOT DISTINCT FROM v_release_id
+    AND id <> p_story_id;
+
+  UPDATE stories
+  SET sort_order = array_position(v_order, id) - 1
+  WHERE id = ANY(v_order);
+
+  -- Insert into the destination cell (the same cell when only reordering)
+  SELECT COALESCE(array_agg(id ORDER BY sort_order, created_at), '{}') INTO v_order
+  FROM stories
+  WHERE task_id = p_task_id
+    AND release_id IS NOT DISTINCT FROM p_release_id
+    AND id <> p_story_id;
+
+  v_index := LEAST(GREATEST(p_index, 0), cardinality(v_order));
+  v_order := v_order[1:v_index] || p_story_id || v_order[v_index + 1:];
+
+  UPDATE stories
+  SET sort_order = array_position(v_order, id) - 1
+  WHERE id = ANY(v_order);
+END;
+$$ LANGUAGE plpgsql;
+
+-- -----------------------------------------------------------------------------
+-- move_task: Move a task to position p_index of an activity
+-- -----------------------------------------------------------------------------
+-- p_index is 0-based and clamped to the activity's task count. The target
+-- activity must belong to the task's map.
+CREATE OR REPLACE FUNCTION move_task(p_task_id UUID, p_activity_id UUID, p_index INTEGER)
+RETURNS void AS $$
+DECLARE
+  v_story_map_id UUID;
+  v_activity_id UUID;
+  v_order UUID[];
+  v_index INTEGER;
+BEGIN
+  SELECT t.activity_id, a.story_map_id
+  INTO v_activity_id, v_story_map_id
+  FROM tasks t
+  JOIN activities a ON a.id = t.activity_id
+  WHERE t.id = p_task_id
+  FOR UPDATE OF t;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM activities WHERE id = p_activity_id AND story_map_id = v_story_map_id
+  ) THEN
+    RAISE EXCEPTION 'Activity not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE tasks SET activity_id = p_activity_id WHERE id = p_task_id;
+
+  -- Close the gap in the source activity
+  SELECT COALESCE(array_agg(id ORDER BY sort_order, created_at), '{}') INTO v_order
+  FROM tasks
+  WHERE activity_id = v_activity_id AND id <> p_task_id;
+
+  UPDATE tasks
+  SET sort_order = array_position(v_order, id) - 1
+  WHERE id = ANY(v_order);
+
+  -- Insert into the destination activity (the same one when only reordering)
+  SELECT COALESCE(array_agg(id ORDER BY sort_order, created_at), '{}') INTO v_order
+  FROM tasks
+  WHERE activity_id = p_activity_id AND id <> p_task_id;
+
+  v_index := LEAST(GREATEST(p_index, 0), cardinality(v_order));
+  v_order := v_order[1:v_index] || p_task_id || v_order[v_index + 1:];
+
+  UPDATE tasks
+  SET sort_order = array_position(v_order, id) - 1
+  WHERE id = ANY(v_order);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,44 @@
+-- =============================================================================
+-- BeemSpec Realtime
+-- Broadcast row changes of the story map canvas to everyone viewing the map,
+-- and authorize the private `story-map:<id>` channels used for presence.
+-- Postgres changes are checked against the tables' own RLS policies per subscriber.
+-- =============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE activities, tasks, stories, releases;
+
+-- -----------------------------------------------------------------------------
+-- story_map_channel_access: Whether the caller may join a story map channel
+-- -----------------------------------------------------------------------------
+-- Topics look like `story-map:<uuid>`; anything else is denied. CASE keeps the
+-- UUID cast from running on topics that don't match.
+CREATE OR REPLACE FUNCTION story_map_channel_access(p_topic TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL STABLE
+AS $$
+  SELECT CASE
+    WHEN p_topic ~ '^story-map:[0-9a-f-]{36}$' THEN EXISTS (
+      SELECT 1 FROM story_maps
+      WHERE id = split_part(p_topic, ':', 2)::UUID
+      AND is_team_member(team_id)
+    )
+    ELSE FALSE
+  END
+$$;
+
+-- =============================================================================
+-- Realtime Channel Policies
+-- =============================================================================
+
+CREATE POLICY "Team members can receive story map channel messages"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (story_map_channel_access((SELECT realtime.topic())));
+
+CREATE POLICY "Team members can track presence on story map channels"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    extension = 'presence'
+    AND story_map_channel_access((SELECT realtime.topic()))
+  );
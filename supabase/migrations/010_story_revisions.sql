@@ -0,0 +1,83 @@
+-- =============================================================================
+-- BeemSpec Story Revisions
+-- Every change to a story's content is recorded with who made it and when, so
+-- the requirements an agent implemented can be traced back and restored.
+-- Rows are written by a trigger only: clients can read but never edit history.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Story revisions: one row per insert or content-changing update of a story
+-- changes holds { field: { old, new } } for the fields that changed;
+-- snapshot holds every tracked field as it was after the change.
+-- Moves between tasks and reorders are placement, not content, and not recorded.
+-- -----------------------------------------------------------------------------
+CREATE TABLE story_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id UUID NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+  operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE')),
+  -- NULL for changes without a user session, e.g. status updates from provider webhooks
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_by_email TEXT,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  changes JSONB NOT NULL,
+  snapshot JSONB NOT NULL
+);
+
+CREATE INDEX idx_story_revisions_story ON story_revisions(story_id, changed_at DESC);
+
+-- =============================================================================
+-- RLS
+-- =============================================================================
+
+ALTER TABLE story_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view story revisions"
+  ON story_revisions FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM stories s
+    JOIN tasks t ON t.id = s.task_id
+    JOIN activities a ON a.id = t.activity_id
+    JOIN story_maps sm ON sm.id = a.story_map_id
+    WHERE s.id = story_id
+    AND is_team_member(sm.team_id)
+  ));
+
+-- -----------------------------------------------------------------------------
+-- record_story_revision: AFTER INSERT OR UPDATE trigger on stories
+-- -----------------------------------------------------------------------------
+-- SECURITY DEFINER so the insert bypasses RLS - there are no write policies.
+-- The actor comes from the caller's JWT.
+CREATE OR REPLACE FUNCTION record_story_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_fields TEXT[] := ARRAY[
+    'title', 'requirements', 'acceptance_criteria', 'edge_cases',
+    'technical_guidelines', 'figma_link', 'status', 'release_id'
+  ];
+  v_old JSONB := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) ELSE '{}' END;
+  v_new JSONB := to_jsonb(NEW);
+  v_changes JSONB;
+  v_snapshot JSONB;
+BEGIN
+  SELECT
+    jsonb_object_agg(field, jsonb_build_object('old', v_old -> field, 'new', v_new -> field))
+      FILTER (WHERE (v_old -> field) IS DISTINCT FROM (v_new -> field)),
+    jsonb_object_agg(field, v_new -> field)
+  INTO v_changes, v_snapshot
+  FROM unnest(v_fields) AS field;
+
+  IF v_changes IS NOT NULL THEN
+    INSERT INTO public.story_revisions (story_id, operation, changed_by, changed_by_email, changes, snapshot)
+    VALUES (NEW.id, TG_OP, auth.uid(), auth.jwt() ->> 'email', v_changes, v_snapshot);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_story_revisions
+  AFTER INSERT OR UPDATE ON stories
+  FOR EACH ROW EXECUTE FUNCTION record_story_revision();
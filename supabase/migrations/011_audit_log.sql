@@ -0,0 +1,162 @@
+-- =============================================================================
+-- BeemSpec Audit Log
+-- Who created, changed or deleted what across a team - including rows removed
+-- by cascades, such as the stories of a deleted release. Written by triggers
+-- only; team owners can read their team's log.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Audit log: one row per created, updated or deleted entity
+-- team_id has no foreign key: entries must not block (or vanish with) the
+-- deletes they record. Entries of a deleted team are unreadable through RLS.
+-- -----------------------------------------------------------------------------
+CREATE TABLE audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL,
+  -- NULL for changes without a user session, e.g. provider webhooks
+  actor_id UUID,
+  actor_email TEXT,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  entity_type TEXT NOT NULL CHECK (entity_type IN (
+    'story_map', 'activity', 'task', 'story', 'release', 'persona', 'team_member', 'team_invite'
+  )),
+  entity_id UUID NOT NULL,
+  -- Name, title or email of the entity, for display
+  entity_label TEXT,
+  before JSONB,
+  after JSONB,
+  -- clock_timestamp, not NOW: the rows of one cascade get distinct, ordered
+  -- times, so created_at works as the paging cursor
+  created_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp()
+);
+
+CREATE INDEX idx_audit_log_team ON audit_log(team_id, created_at DESC);
+CREATE INDEX idx_audit_log_entity ON audit_log(entity_type, entity_id);
+
+-- =============================================================================
+-- RLS
+-- =============================================================================
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team owners can view the audit log"
+  ON audit_log FOR SELECT
+  USING (is_team_owner(team_id));
+
+-- -----------------------------------------------------------------------------
+-- audit_team_id: Team a row of an audited table belongs to
+-- -----------------------------------------------------------------------------
+-- NULL when the parent chain is already gone, as for the children of a deleted
+-- story map - the map's own entry records that delete.
+CREATE OR REPLACE FUNCTION audit_team_id(p_table TEXT, p_row JSONB)
+RETURNS UUID
+LANGUAGE plpgsql STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  CASE p_table
+    WHEN 'story_maps', 'team_members', 'team_invites' THEN
+      RETURN (p_row ->> 'team_id')::UUID;
+    WHEN 'activities', 'releases', 'personas' THEN
+      RETURN (SELECT team_id FROM public.story_maps WHERE id = (p_row ->> 'story_map_id')::UUID);
+    WHEN 'tasks' THEN
+      RETURN (
+        SELECT sm.team_id FROM public.activities a
+        JOIN public.story_maps sm ON sm.id = a.story_map_id
+        WHERE a.id = (p_row ->> 'activity_id')::UUID
+      );
+    WHEN 'stories' THEN
+      RETURN (
+        SELECT sm.team_id FROM public.tasks t
+        JOIN public.activities a ON a.id = t.activity_id
+        JOIN public.story_maps sm ON sm.id = a.story_map_id
+        WHERE t.id = (p_row ->> 'task_id')::UUID
+      );
+    ELSE
+      RETURN NULL;
+  END CASE;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- record_audit_entry: AFTER INSERT OR UPDATE OR DELETE trigger
+-- -----------------------------------------------------------------------------
+-- SECURITY DEFINER so the insert bypasses RLS - there are no write policies.
+-- Updates that only renumber sort_order (or touch updated_at) are not logged:
+-- every drag renumbers a whole cell.
+CREATE OR REPLACE FUNCTION record_audit_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_before JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_after JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(v_after, v_before);
+  v_team_id UUID;
+  v_label TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND (v_before - 'sort_order' - 'updated_at') = (v_after - 'sort_order' - 'updated_at') THEN
+    RETURN NULL;
+  END IF;
+
+  v_team_id := public.audit_team_id(TG_TABLE_NAME, v_row);
+  IF v_team_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_label := COALESCE(v_row ->> 'name', v_row ->> 'title', v_row ->> 'email');
+  IF v_label IS NULL AND TG_TABLE_NAME = 'team_members' THEN
+    SELECT email INTO v_label FROM auth.users WHERE id = (v_row ->> 'user_id')::UUID;
+  END IF;
+
+  INSERT INTO public.audit_log (
+    team_id, actor_id, actor_email, action, entity_type, entity_id, entity_label, before, after
+  )
+  VALUES (
+    v_team_id,
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END,
+    TG_ARGV[0],
+    (v_row ->> 'id')::UUID,
+    v_label,
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_audit_story_maps
+  AFTER INSERT OR UPDATE OR DELETE ON story_maps
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry('story_map');
+
+CREATE TRIGGER trg_audit_activities
+  AFTER INSERT OR UPDATE OR DELETE ON activities
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry('activity');
+
+CREATE TRIGGER trg_audit_tasks
+  AFTER INSERT OR UPDATE OR DELETE ON tasks
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry('task');
+
+CREATE TRIGGER trg_audit_stories
+  AFTER INSERT OR UPDATE OR DELETE ON stories
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry('story');
+
+CREATE TRIGGER trg_audit_releases
+  AFTER INSERT OR UPDATE OR DELETE ON releases
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry('release');
+
+CREATE TRIGGER trg_audit_personas
+  AFTER INSERT OR UPDATE OR DELETE ON personas
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry('persona');
+
+CREATE TRIGGER trg_audit_team_members
+  AFTER INSERT OR UPDATE OR DELETE ON team_members
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry('team_member');
+
+CREATE TRIGGER trg_audit_team_invites
+  AFTER INSERT OR UPDATE OR DELETE ON team_invites
+  FOR EACH ROW EXECUTE FUNCTION record_audit_entry('team_invite');
@@ -0,0 +1,256 @@
+-- =============================================================================
+-- BeemSpec Soft Delete
+-- Deleting an activity, task, story or release moves it to the story map's
+-- trash instead of removing it. The row and everything deleted along with it
+-- (an activity's tasks and stories, a task's or release's stories) share one
+-- deleted_at, so a restore brings back exactly that batch - rows deleted on
+-- their own before stay in the trash. Trashed rows are purged after 30 days.
+-- SECURITY INVOKER (default) for delete and restore: RLS decides which rows
+-- the caller can see and change.
+-- =============================================================================
+
+ALTER TABLE activities ADD COLUMN deleted_at TIMESTAMPTZ;
+ALTER TABLE tasks ADD COLUMN deleted_at TIMESTAMPTZ;
+ALTER TABLE stories ADD COLUMN deleted_at TIMESTAMPTZ;
+ALTER TABLE releases ADD COLUMN deleted_at TIMESTAMPTZ;
+
+CREATE INDEX idx_activities_deleted ON activities(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_tasks_deleted ON tasks(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_stories_deleted ON stories(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_releases_deleted ON releases(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- -----------------------------------------------------------------------------
+-- soft_delete_entity: Move an entity and its children to the trash
+-- -----------------------------------------------------------------------------
+-- p_entity_type is 'activity', 'task', 'story' or 'release'. Entities that are
+-- missing or already in the trash raise no_data_found.
+CREATE OR REPLACE FUNCTION soft_delete_entity(p_entity_type TEXT, p_id UUID)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_now TIMESTAMPTZ := NOW();
+BEGIN
+  CASE p_entity_type
+    WHEN 'activity' THEN
+      UPDATE activities SET deleted_at = v_now WHERE id = p_id AND deleted_at IS NULL;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Activity not found' USING ERRCODE = 'no_data_found';
+      END IF;
+      UPDATE tasks SET deleted_at = v_now WHERE activity_id = p_id AND deleted_at IS NULL;
+      UPDATE stories SET deleted_at = v_now
+      WHERE deleted_at IS NULL
+        AND task_id IN (SELECT id FROM tasks WHERE activity_id = p_id AND deleted_at = v_now);
+
+    WHEN 'task' THEN
+      UPDATE tasks SET deleted_at = v_now WHERE id = p_id AND deleted_at IS NULL;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Task not found' USING ERRCODE = 'no_data_found';
+      END IF;
+      UPDATE stories SET deleted_at = v_now WHERE task_id = p_id AND deleted_at IS NULL;
+
+    WHEN 'story' THEN
+      UPDATE stories SET deleted_at = v_now WHERE id = p_id AND deleted_at IS NULL;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Story not found' USING ERRCODE = 'no_data_found';
+      END IF;
+
+    WHEN 'release' THEN
+      UPDATE releases SET deleted_at = v_now WHERE id = p_id AND deleted_at IS NULL;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Release not found' USING ERRCODE = 'no_data_found';
+      END IF;
+      UPDATE stories SET deleted_at = v_now WHERE release_id = p_id AND deleted_at IS NULL;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown entity type: %', p_entity_type USING ERRCODE = 'invalid_parameter_value';
+  END CASE;
+
+  RETURN v_now;
+END;
+$$ LANGUAGE plpgsql;
+
+-- -----------------------------------------------------------------------------
+-- restore_entity: Bring an entity of a story map back from the trash
+-- -----------------------------------------------------------------------------
+-- Restores the children deleted in the same batch. A task or story whose
+-- parent is still in the trash raises object_not_in_prerequisite_state - the
+-- parent has to be restored first. Restored stories whose release is still in
+-- the trash come back unassigned.
+CREATE OR REPLACE FUNCTION restore_entity(p_story_map_id UUID, p_entity_type TEXT, p_id UUID)
+RETURNS void AS $$
+DECLARE
+  v_deleted_at TIMESTAMPTZ;
+  v_parent_deleted_at TIMESTAMPTZ;
+  v_story_ids UUID[];
+BEGIN
+  CASE p_entity_type
+    WHEN 'activity' THEN
+      SELECT deleted_at INTO v_deleted_at
+      FROM activities
+      WHERE id = p_id AND story_map_id = p_story_map_id AND deleted_at IS NOT NULL
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Activity not found in trash' USING ERRCODE = 'no_data_found';
+      END IF;
+
+      UPDATE activities SET deleted_at = NULL WHERE id = p_id;
+      UPDATE tasks SET deleted_at = NULL WHERE activity_id = p_id AND deleted_at = v_deleted_at;
+      WITH restored AS (
+        UPDATE stories SET deleted_at = NULL
+        WHERE deleted_at = v_deleted_at
+          AND task_id IN (SELECT id FROM tasks WHERE activity_id = p_id AND deleted_at IS NULL)
+        RETURNING id
+      )
+      SELECT array_agg(id) INTO v_story_ids FROM restored;
+
+    WHEN 'task' THEN
+      SELECT t.deleted_at, a.deleted_at INTO v_deleted_at, v_parent_deleted_at
+      FROM tasks t
+      JOIN activities a ON a.id = t.activity_id
+      WHERE t.id = p_id AND a.story_map_id = p_story_map_id AND t.deleted_at IS NOT NULL
+      FOR UPDATE OF t;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Task not found in trash' USING ERRCODE = 'no_data_found';
+      END IF;
+      IF v_parent_deleted_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Restore the task''s activity first' USING ERRCODE = 'object_not_in_prerequisite_state';
+      END IF;
+
+      UPDATE tasks SET deleted_at = NULL WHERE id = p_id;
+      WITH restored AS (
+        UPDATE stories SET deleted_at = NULL
+        WHERE task_id = p_id AND deleted_at = v_deleted_at
+        RETURNING id
+      )
+      SELECT array_agg(id) INTO v_story_ids FROM restored;
+
+    WHEN 'story' THEN
+      SELECT s.deleted_at, t.deleted_at INTO v_deleted_at, v_parent_deleted_at
+      FROM stories s
+      JOIN tasks t ON t.id = s.task_id
+      JOIN activities a ON a.id = t.activity_id
+      WHERE s.id = p_id AND a.story_map_id = p_story_map_id AND s.deleted_at IS NOT NULL
+      FOR UPDATE OF s;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Story not found in trash' USING ERRCODE = 'no_data_found';
+      END IF;
+      IF v_parent_deleted_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Restore the story''s task first' USING ERRCODE = 'object_not_in_prerequisite_state';
+      END IF;
+
+      UPDATE stories SET deleted_at = NULL WHERE id = p_id;
+      v_story_ids := ARRAY[p_id];
+
+    WHEN 'release' THEN
+      SELECT deleted_at INTO v_deleted_at
+      FROM releases
+      WHERE id = p_id AND story_map_id = p_story_map_id AND deleted_at IS NOT NULL
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Release not found in trash' USING ERRCODE = 'no_data_found';
+      END IF;
+
+      UPDATE releases SET deleted_at = NULL WHERE id = p_id;
+      -- Stories whose task has been deleted since stay with the task
+      UPDATE stories s SET deleted_at = NULL
+      FROM tasks t
+      WHERE t.id = s.task_id
+        AND s.release_id = p_id
+        AND s.deleted_at = v_deleted_at
+        AND t.deleted_at IS NULL;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown entity type: %', p_entity_type USING ERRCODE = 'invalid_parameter_value';
+  END CASE;
+
+  UPDATE stories SET release_id = NULL
+  WHERE id = ANY(v_story_ids)
+    AND release_id IN (SELECT id FROM releases WHERE deleted_at IS NOT NULL);
+END;
+$$ LANGUAGE plpgsql;
+
+-- -----------------------------------------------------------------------------
+-- story_map_trash: What can be restored in a story map, newest first
+-- -----------------------------------------------------------------------------
+-- Lists the entities that were deleted themselves, not those that went with a
+-- parent: a task is listed once its activity is back, a story once its task is
+-- back and it no longer waits for its release. story_count is the number of
+-- stories a restore brings back along with the entity.
+CREATE OR REPLACE FUNCTION story_map_trash(p_story_map_id UUID)
+RETURNS TABLE (entity_type TEXT, id UUID, label TEXT, deleted_at TIMESTAMPTZ, story_count INTEGER)
+LANGUAGE sql STABLE
+AS $$
+  SELECT 'activity', a.id, a.name, a.deleted_at, (
+    SELECT COUNT(*)::INTEGER FROM stories s
+    JOIN tasks t ON t.id = s.task_id
+    WHERE t.activity_id = a.id AND t.deleted_at = a.deleted_at AND s.deleted_at = a.deleted_at
+  )
+  FROM activities a
+  WHERE a.story_map_id = p_story_map_id AND a.deleted_at IS NOT NULL
+
+  UNION ALL
+
+  SELECT 'task', t.id, t.name, t.deleted_at, (
+    SELECT COUNT(*)::INTEGER FROM stories s WHERE s.task_id = t.id AND s.deleted_at = t.deleted_at
+  )
+  FROM tasks t
+  JOIN activities a ON a.id = t.activity_id
+  WHERE a.story_map_id = p_story_map_id AND t.deleted_at IS NOT NULL AND a.deleted_at IS NULL
+
+  UNION ALL
+
+  SELECT 'story', s.id, s.title, s.deleted_at, 0
+  FROM stories s
+  JOIN tasks t ON t.id = s.task_id
+  JOIN activities a ON a.id = t.activity_id
+  LEFT JOIN releases r ON r.id = s.release_id
+  WHERE a.story_map_id = p_story_map_id
+    AND s.deleted_at IS NOT NULL
+    AND t.deleted_at IS NULL
+    AND r.deleted_at IS DISTINCT FROM s.deleted_at
+
+  UNION ALL
+
+  SELECT 'release', r.id, r.name, r.deleted_at, (
+    SELECT COUNT(*)::INTEGER FROM stories s
+    JOIN tasks t ON t.id = s.task_id
+    WHERE s.release_id = r.id AND s.deleted_at = r.deleted_at AND t.deleted_at IS NULL
+  )
+  FROM releases r
+  WHERE r.story_map_id = p_story_map_id AND r.deleted_at IS NOT NULL
+
+  ORDER BY deleted_at DESC;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- purge_deleted_entities: Permanently delete rows trashed before the retention
+-- -----------------------------------------------------------------------------
+-- Runs as the cron job below, not for clients. Live stories still pointing at
+-- a purged release are unassigned first instead of cascading with it.
+CREATE OR REPLACE FUNCTION purge_deleted_entities(p_retention INTERVAL DEFAULT INTERVAL '30 days')
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_cutoff TIMESTAMPTZ := NOW() - p_retention;
+BEGIN
+  DELETE FROM public.stories WHERE deleted_at < v_cutoff;
+  DELETE FROM public.tasks WHERE deleted_at < v_cutoff;
+  DELETE FROM public.activities WHERE deleted_at < v_cutoff;
+
+  UPDATE public.stories SET release_id = NULL
+  WHERE deleted_at IS NULL
+    AND release_id IN (SELECT id FROM public.releases WHERE deleted_at < v_cutoff);
+  DELETE FROM public.releases WHERE deleted_at < v_cutoff;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION purge_deleted_entities(INTERVAL) FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('purge-deleted-entities', '0 3 * * *', $$SELECT public.purge_deleted_entities()$$);
@@ -0,0 +1,76 @@
+-- =============================================================================
+-- BeemSpec Release Deletion
+-- Deleting a release no longer has to take its stories with it: they can be
+-- moved to the unassigned row or to another release in the same transaction.
+-- =============================================================================
+
+-- Stories outlive their release: when a release row is finally removed, its
+-- remaining stories become unassigned instead of being deleted with it.
+ALTER TABLE stories DROP CONSTRAINT stories_release_id_fkey;
+ALTER TABLE stories
+  ADD CONSTRAINT stories_release_id_fkey
+  FOREIGN KEY (release_id) REFERENCES releases(id) ON DELETE SET NULL;
+
+-- -----------------------------------------------------------------------------
+-- delete_release: Move a release to the trash, deciding what its stories do
+-- -----------------------------------------------------------------------------
+-- p_stories is 'unassign' (to the unassigned row), 'move' (to
+-- p_target_release_id, which must be another live release of the same map) or
+-- 'delete' (to the trash along with the release). Moved stories are appended
+-- to their destination cells in their current order.
+-- SECURITY INVOKER (default): RLS decides which rows the caller can change.
+CREATE OR REPLACE FUNCTION delete_release(p_release_id UUID, p_stories TEXT, p_target_release_id UUID DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_story_map_id UUID;
+  v_target UUID;
+BEGIN
+  SELECT story_map_id INTO v_story_map_id
+  FROM releases
+  WHERE id = p_release_id AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Release not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  CASE p_stories
+    WHEN 'delete' THEN
+      PERFORM soft_delete_entity('release', p_release_id);
+      RETURN;
+    WHEN 'unassign' THEN
+      v_target := NULL;
+    WHEN 'move' THEN
+      IF p_target_release_id = p_release_id OR NOT EXISTS (
+        SELECT 1 FROM releases
+        WHERE id = p_target_release_id AND story_map_id = v_story_map_id AND deleted_at IS NULL
+      ) THEN
+        RAISE EXCEPTION 'Target release not found' USING ERRCODE = 'no_data_found';
+      END IF;
+      v_target := p_target_release_id;
+    ELSE
+      RAISE EXCEPTION 'Unknown stories option: %', p_stories USING ERRCODE = 'invalid_parameter_value';
+  END CASE;
+
+  -- Moved before the release is trashed, so none of them goes along with it
+  WITH moved AS (
+    SELECT id, task_id, ROW_NUMBER() OVER (PARTITION BY task_id ORDER BY sort_order, created_at) AS position
+    FROM stories
+    WHERE release_id = p_release_id AND deleted_at IS NULL
+  )
+  UPDATE stories s
+  SET
+    release_id = v_target,
+    sort_order = COALESCE((
+      SELECT MAX(cell.sort_order) FROM stories cell
+      WHERE cell.task_id = m.task_id
+        AND cell.release_id IS NOT DISTINCT FROM v_target
+        AND cell.deleted_at IS NULL
+    ), -1) + m.position,
+    updated_at = NOW()
+  FROM moved m
+  WHERE s.id = m.id;
+
+  PERFORM soft_delete_entity('release', p_release_id);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,121 @@
+-- =============================================================================
+-- BeemSpec Search
+-- Full-text search over a team's story maps: story titles and text fields,
+-- activity, task and persona names. Each searchable table gets a generated
+-- tsvector column with a GIN index; search_team ranks and highlights matches.
+-- SECURITY INVOKER (default): RLS applies on top of the explicit team check.
+-- =============================================================================
+
+-- Story titles weigh most, then what the story requires, then edge cases
+ALTER TABLE stories ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(requirements, '')), 'B') ||
+  setweight(to_tsvector('english', COALESCE(acceptance_criteria, '')), 'B') ||
+  setweight(to_tsvector('english', COALESCE(edge_cases, '')), 'C')
+) STORED;
+
+ALTER TABLE activities ADD COLUMN search_vector TSVECTOR
+  GENERATED ALWAYS AS (setweight(to_tsvector('english', name), 'A')) STORED;
+
+ALTER TABLE tasks ADD COLUMN search_vector TSVECTOR
+  GENERATED ALWAYS AS (setweight(to_tsvector('english', name), 'A')) STORED;
+
+ALTER TABLE personas ADD COLUMN search_vector TSVECTOR
+  GENERATED ALWAYS AS (setweight(to_tsvector('english', name), 'A')) STORED;
+
+CREATE INDEX idx_stories_search ON stories USING GIN (search_vector);
+CREATE INDEX idx_activities_search ON activities USING GIN (search_vector);
+CREATE INDEX idx_tasks_search ON tasks USING GIN (search_vector);
+CREATE INDEX idx_personas_search ON personas USING GIN (search_vector);
+
+-- -----------------------------------------------------------------------------
+-- search_query: Turn what the user typed into a prefix tsquery
+-- -----------------------------------------------------------------------------
+-- Every word must match, the last one as it is being typed: "chec pay" finds
+-- "Checkout payment". Punctuation is dropped, so any input is a valid query.
+-- Returns NULL when nothing searchable is left.
+CREATE OR REPLACE FUNCTION search_query(p_query TEXT)
+RETURNS TSQUERY
+LANGUAGE sql IMMUTABLE
+AS $$
+  SELECT to_tsquery('english', string_agg(word || ':*', ' & '))
+  FROM regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') AS word
+  WHERE word <> ''
+$$;
+
+-- -----------------------------------------------------------------------------
+-- search_team: Ranked, highlighted matches across a team's story maps
+-- -----------------------------------------------------------------------------
+-- entity_type is 'story', 'activity', 'task' or 'persona'. label is the story
+-- title or the name; snippet is the best fragment of a story's requirements,
+-- acceptance criteria and edge cases when they match (NULL otherwise, and for
+-- activities, tasks and personas). Matches in label and snippet are wrapped
+-- in <mark></mark>. Trashed rows are left out.
+CREATE OR REPLACE FUNCTION search_team(p_team_id UUID, p_query TEXT, p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  entity_type TEXT,
+  id UUID,
+  story_map_id UUID,
+  story_map_name TEXT,
+  label TEXT,
+  snippet TEXT,
+  rank REAL
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH q AS (
+    SELECT search_query(p_query) AS query
+  ),
+  maps AS (
+    SELECT sm.id, sm.name FROM story_maps sm
+    WHERE sm.team_id = p_team_id AND is_team_member(p_team_id)
+  ),
+  matches AS (
+    SELECT 'story' AS entity_type, s.id, m.id AS story_map_id, m.name AS story_map_name,
+      s.title AS label,
+      concat_ws(E'\n', s.requirements, s.acceptance_criteria, s.edge_cases) AS body,
+      ts_rank(s.search_vector, q.query) AS rank
+    FROM q, stories s
+    JOIN tasks t ON t.id = s.task_id
+    JOIN activities a ON a.id = t.activity_id
+    JOIN maps m ON m.id = a.story_map_id
+    WHERE s.search_vector @@ q.query AND s.deleted_at IS NULL
+
+    UNION ALL
+
+    SELECT 'activity', a.id, m.id, m.name, a.name, NULL, ts_rank(a.search_vector, q.query)
+    FROM q, activities a
+    JOIN maps m ON m.id = a.story_map_id
+    WHERE a.search_vector @@ q.query AND a.deleted_at IS NULL
+
+    UNION ALL
+
+    SELECT 'task', t.id, m.id, m.name, t.name, NULL, ts_rank(t.search_vector, q.query)
+    FROM q, tasks t
+    JOIN activities a ON a.id = t.activity_id
+    JOIN maps m ON m.id = a.story_map_id
+    WHERE t.search_vector @@ q.query AND t.deleted_at IS NULL
+
+    UNION ALL
+
+    SELECT 'persona', p.id, m.id, m.name, p.name, NULL, ts_rank(p.search_vector, q.query)
+    FROM q, personas p
+    JOIN maps m ON m.id = p.story_map_id
+    WHERE p.search_vector @@ q.query
+  ),
+  top AS (
+    SELECT * FROM matches ORDER BY rank DESC, label LIMIT p_limit
+  )
+  SELECT
+    top.entity_type,
+    top.id,
+    top.story_map_id,
+    top.story_map_name,
+    ts_headline('english', top.label, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+    CASE WHEN to_tsvector('english', top.body) @@ q.query THEN
+      ts_headline('english', top.body, q.query, 'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8')
+    END,
+    top.rank
+  FROM top, q
+  ORDER BY top.rank DESC, top.label
+$$;
@@ -0,0 +1,60 @@
+-- =============================================================================
+-- BeemSpec Story Assignees
+-- A story can be assigned to a member of its story map's team, and records who
+-- created it. Assignees who leave the team are unassigned from its stories.
+-- =============================================================================
+
+ALTER TABLE stories
+  ADD COLUMN assignee_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Set from the session on insert; NULL for stories created without a user session
+  ADD COLUMN reporter_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_stories_assignee ON stories(assignee_id) WHERE assignee_id IS NOT NULL;
+
+-- -----------------------------------------------------------------------------
+-- check_story_assignee: BEFORE INSERT OR UPDATE trigger on stories
+-- -----------------------------------------------------------------------------
+-- The assignee must belong to the team that owns the story's map.
+CREATE OR REPLACE FUNCTION check_story_assignee()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.assignee_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM tasks t
+    JOIN activities a ON a.id = t.activity_id
+    JOIN story_maps sm ON sm.id = a.story_map_id
+    JOIN team_members tm ON tm.team_id = sm.team_id
+    WHERE t.id = NEW.task_id AND tm.user_id = NEW.assignee_id
+  ) THEN
+    RAISE EXCEPTION 'Assignee is not a member of the team' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stories_check_assignee
+  BEFORE INSERT OR UPDATE OF assignee_id, task_id ON stories
+  FOR EACH ROW EXECUTE FUNCTION check_story_assignee();
+
+-- -----------------------------------------------------------------------------
+-- unassign_removed_member: AFTER DELETE trigger on team_members
+-- -----------------------------------------------------------------------------
+-- SECURITY DEFINER: a member leaving a team can no longer update its stories.
+-- updated_at is bumped so open edits of those stories go through the merge view.
+CREATE OR REPLACE FUNCTION unassign_removed_member()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.stories s SET assignee_id = NULL, updated_at = NOW()
+  FROM public.tasks t
+  JOIN public.activities a ON a.id = t.activity_id
+  JOIN public.story_maps sm ON sm.id = a.story_map_id
+  WHERE s.task_id = t.id AND sm.team_id = OLD.team_id AND s.assignee_id = OLD.user_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER team_members_unassign
+  AFTER DELETE ON team_members
+  FOR EACH ROW EXECUTE FUNCTION unassign_removed_member();
@@ -0,0 +1,165 @@
+-- =============================================================================
+-- BeemSpec Story Comments
+-- Team members discuss a story in threaded comments. Comments are markdown and
+-- can @mention team members, who get an in-app notification.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Story comments: top-level comments and their replies (one level deep)
+-- mentions holds the team members the body @mentions, resolved by the API
+-- -----------------------------------------------------------------------------
+CREATE TABLE story_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id UUID NOT NULL REFERENCES stories(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES story_comments(id) ON DELETE CASCADE,
+  author_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_email TEXT DEFAULT (auth.jwt() ->> 'email'),
+  body TEXT NOT NULL CHECK (length(body) BETWEEN 1 AND 10000),
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_story_comments_story ON story_comments(story_id, created_at);
+CREATE INDEX idx_story_comments_parent ON story_comments(parent_id) WHERE parent_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION update_story_comments_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_story_comments_updated_at
+  BEFORE UPDATE ON story_comments
+  FOR EACH ROW EXECUTE FUNCTION update_story_comments_updated_at();
+
+-- -----------------------------------------------------------------------------
+-- Notifications: one row per event a user should hear about
+-- Written by triggers only; users read, mark read and dismiss their own.
+-- -----------------------------------------------------------------------------
+CREATE TABLE notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('mention')),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email TEXT,
+  story_id UUID REFERENCES stories(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES story_comments(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_notifications_user ON notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+-- -----------------------------------------------------------------------------
+-- story_team_id: the team that owns a story's map
+-- -----------------------------------------------------------------------------
+-- SECURITY DEFINER so policies can resolve the team without the joins being
+-- filtered by the caller's own RLS; membership is still checked by the caller.
+CREATE OR REPLACE FUNCTION story_team_id(p_story_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT sm.team_id
+  FROM public.stories s
+  JOIN public.tasks t ON t.id = s.task_id
+  JOIN public.activities a ON a.id = t.activity_id
+  JOIN public.story_maps sm ON sm.id = a.story_map_id
+  WHERE s.id = p_story_id;
+$$;
+
+-- =============================================================================
+-- RLS
+-- =============================================================================
+
+ALTER TABLE story_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view story comments"
+  ON story_comments FOR SELECT
+  USING (is_team_member(story_team_id(story_id)));
+
+CREATE POLICY "Team members can comment as themselves"
+  ON story_comments FOR INSERT
+  WITH CHECK (author_id = auth.uid() AND is_team_member(story_team_id(story_id)));
+
+CREATE POLICY "Authors can edit their comments"
+  ON story_comments FOR UPDATE
+  USING (author_id = auth.uid() AND is_team_member(story_team_id(story_id)))
+  WITH CHECK (author_id = auth.uid());
+
+CREATE POLICY "Authors can delete their comments"
+  ON story_comments FOR DELETE
+  USING (author_id = auth.uid() AND is_team_member(story_team_id(story_id)));
+
+CREATE POLICY "Users can view their notifications"
+  ON notifications FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their notifications read"
+  ON notifications FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can dismiss their notifications"
+  ON notifications FOR DELETE
+  USING (user_id = auth.uid());
+
+-- -----------------------------------------------------------------------------
+-- check_comment_parent: BEFORE INSERT OR UPDATE trigger on story_comments
+-- -----------------------------------------------------------------------------
+-- Replies belong to a top-level comment on the same story.
+CREATE OR REPLACE FUNCTION check_comment_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM story_comments c
+    WHERE c.id = NEW.parent_id AND c.story_id = NEW.story_id AND c.parent_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Replies must answer a top-level comment on the same story' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER story_comments_check_parent
+  BEFORE INSERT OR UPDATE OF parent_id, story_id ON story_comments
+  FOR EACH ROW EXECUTE FUNCTION check_comment_parent();
+
+-- -----------------------------------------------------------------------------
+-- notify_comment_mentions: AFTER INSERT OR UPDATE trigger on story_comments
+-- -----------------------------------------------------------------------------
+-- SECURITY DEFINER so the insert bypasses RLS - there is no insert policy.
+-- Only members newly mentioned by this write are notified, never the author,
+-- and only while they belong to the story's team.
+CREATE OR REPLACE FUNCTION notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_previous UUID[] := '{}';
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_previous := OLD.mentions;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, actor_id, actor_email, story_id, comment_id)
+  SELECT DISTINCT m.user_id, 'mention', NEW.author_id, NEW.author_email, NEW.story_id, NEW.id
+  FROM unnest(NEW.mentions) AS m(user_id)
+  JOIN public.team_members tm ON tm.user_id = m.user_id AND tm.team_id = public.story_team_id(NEW.story_id)
+  WHERE m.user_id IS DISTINCT FROM NEW.author_id
+  AND NOT m.user_id = ANY(v_previous);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER story_comments_notify_mentions
+  AFTER INSERT OR UPDATE OF mentions ON story_comments
+  FOR EACH ROW EXECUTE FUNCTION notify_comment_mentions();
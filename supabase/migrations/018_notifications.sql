@@ -0,0 +1,266 @@
+-- =============================================================================
+-- BeemSpec Notification Center
+-- Users hear about being added to a team, assigned a story or mentioned, and
+-- about status changes and new comments on stories they reported, are assigned
+-- to or commented on. Each user can turn off the event types they don't want.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Notifications: more event types, and where each one happened
+-- data holds what the bell shows without further lookups: team_name,
+-- story_title, the comment excerpt and, for status changes, the from and to
+-- statuses.
+-- -----------------------------------------------------------------------------
+ALTER TABLE notifications DROP CONSTRAINT notifications_type_check;
+
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_type_check
+    CHECK (type IN ('mention', 'assignment', 'status_change', 'comment', 'team_added')),
+  ADD COLUMN team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  ADD COLUMN story_map_id UUID REFERENCES story_maps(id) ON DELETE CASCADE,
+  ADD COLUMN data JSONB NOT NULL DEFAULT '{}';
+
+-- -----------------------------------------------------------------------------
+-- Notification preferences: one row per user who changed the defaults
+-- Every event type is on unless listed in muted_types.
+-- -----------------------------------------------------------------------------
+CREATE TABLE notification_preferences (
+  user_id UUID PRIMARY KEY DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  muted_types TEXT[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notification preferences"
+  ON notification_preferences FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their notification preferences"
+  ON notification_preferences FOR INSERT
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their notification preferences"
+  ON notification_preferences FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- -----------------------------------------------------------------------------
+-- notify_user: record one notification
+-- -----------------------------------------------------------------------------
+-- The single place notifications are written. Skipped for the user who caused
+-- the event, for types the user muted, and for users outside the team. The team
+-- is the story's when p_story_id is set. The actor comes from the caller's JWT
+-- and is NULL for changes without a user session, e.g. provider webhooks.
+-- Called by triggers only.
+CREATE OR REPLACE FUNCTION notify_user(
+  p_user_id UUID,
+  p_type TEXT,
+  p_team_id UUID DEFAULT NULL,
+  p_story_id UUID DEFAULT NULL,
+  p_comment_id UUID DEFAULT NULL,
+  p_data JSONB DEFAULT '{}'
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_team_id UUID := p_team_id;
+  v_story_map_id UUID;
+  v_story_title TEXT;
+  v_team_name TEXT;
+BEGIN
+  IF p_user_id IS NULL OR p_user_id IS NOT DISTINCT FROM auth.uid() THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.notification_preferences np
+    WHERE np.user_id = p_user_id AND p_type = ANY(np.muted_types)
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF p_story_id IS NOT NULL THEN
+    SELECT sm.team_id, sm.id, s.title INTO v_team_id, v_story_map_id, v_story_title
+    FROM public.stories s
+    JOIN public.tasks t ON t.id = s.task_id
+    JOIN public.activities a ON a.id = t.activity_id
+    JOIN public.story_maps sm ON sm.id = a.story_map_id
+    WHERE s.id = p_story_id;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.team_members tm WHERE tm.team_id = v_team_id AND tm.user_id = p_user_id
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT name INTO v_team_name FROM public.teams WHERE id = v_team_id;
+
+  INSERT INTO public.notifications
+    (user_id, type, actor_id, actor_email, team_id, story_map_id, story_id, comment_id, data)
+  VALUES (
+    p_user_id, p_type, auth.uid(), auth.jwt() ->> 'email', v_team_id, v_story_map_id, p_story_id, p_comment_id,
+    p_data || jsonb_strip_nulls(jsonb_build_object('team_name', v_team_name, 'story_title', v_story_title))
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notify_user(UUID, TEXT, UUID, UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- story_watchers: who hears about changes to a story
+-- -----------------------------------------------------------------------------
+-- Its reporter, its assignee and everyone who commented on it.
+CREATE OR REPLACE FUNCTION story_watchers(p_story_id UUID)
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT s.reporter_id FROM public.stories s WHERE s.id = p_story_id AND s.reporter_id IS NOT NULL
+  UNION
+  SELECT s.assignee_id FROM public.stories s WHERE s.id = p_story_id AND s.assignee_id IS NOT NULL
+  UNION
+  SELECT c.author_id FROM public.story_comments c WHERE c.story_id = p_story_id AND c.author_id IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION story_watchers(UUID) FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- notify_comment_mentions: AFTER INSERT OR UPDATE trigger on story_comments
+-- -----------------------------------------------------------------------------
+-- Now goes through notify_user, so mentions respect preferences.
+-- Only members newly mentioned by this write are notified.
+CREATE OR REPLACE FUNCTION notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_previous UUID[] := '{}';
+  v_user_id UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    v_previous := OLD.mentions;
+  END IF;
+
+  FOR v_user_id IN
+    SELECT DISTINCT m FROM unnest(NEW.mentions) AS m WHERE NOT m = ANY(v_previous)
+  LOOP
+    PERFORM public.notify_user(
+      v_user_id, 'mention',
+      p_story_id => NEW.story_id,
+      p_comment_id => NEW.id,
+      p_data => jsonb_build_object('excerpt', left(NEW.body, 200))
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- notify_story_comment: AFTER INSERT trigger on story_comments
+-- -----------------------------------------------------------------------------
+-- Watchers hear about new comments; those the comment mentions already got a
+-- mention instead.
+CREATE OR REPLACE FUNCTION notify_story_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  FOR v_user_id IN
+    SELECT w FROM public.story_watchers(NEW.story_id) AS w WHERE NOT w = ANY(NEW.mentions)
+  LOOP
+    PERFORM public.notify_user(
+      v_user_id, 'comment',
+      p_story_id => NEW.story_id,
+      p_comment_id => NEW.id,
+      p_data => jsonb_build_object('excerpt', left(NEW.body, 200))
+    );
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER story_comments_notify_watchers
+  AFTER INSERT ON story_comments
+  FOR EACH ROW EXECUTE FUNCTION notify_story_comment();
+
+-- -----------------------------------------------------------------------------
+-- notify_story_assignee: AFTER INSERT OR UPDATE trigger on stories
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION notify_story_assignee()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.assignee_id IS NOT DISTINCT FROM NEW.assignee_id THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  PERFORM public.notify_user(NEW.assignee_id, 'assignment', p_story_id => NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stories_notify_assignee
+  AFTER INSERT OR UPDATE OF assignee_id ON stories
+  FOR EACH ROW WHEN (NEW.assignee_id IS NOT NULL)
+  EXECUTE FUNCTION notify_story_assignee();
+
+-- -----------------------------------------------------------------------------
+-- notify_story_status: AFTER UPDATE trigger on stories
+-- -----------------------------------------------------------------------------
+CREATE OR REPLACE FUNCTION notify_story_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  FOR v_user_id IN SELECT w FROM public.story_watchers(NEW.id) AS w LOOP
+    PERFORM public.notify_user(
+      v_user_id, 'status_change',
+      p_story_id => NEW.id,
+      p_data => jsonb_build_object('from', OLD.status, 'to', NEW.status)
+    );
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stories_notify_status
+  AFTER UPDATE OF status ON stories
+  FOR EACH ROW WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.deleted_at IS NULL)
+  EXECUTE FUNCTION notify_story_status();
+
+-- -----------------------------------------------------------------------------
+-- notify_team_member_added: AFTER INSERT trigger on team_members
+-- -----------------------------------------------------------------------------
+-- Invited users who already have an account are added to the team directly.
+-- Creating a team or accepting an invite adds yourself and notifies nobody.
+CREATE OR REPLACE FUNCTION notify_team_member_added()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.notify_user(NEW.user_id, 'team_added', p_team_id => NEW.team_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER team_members_notify_added
+  AFTER INSERT ON team_members
+  FOR EACH ROW EXECUTE FUNCTION notify_team_member_added();
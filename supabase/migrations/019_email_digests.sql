@@ -0,0 +1,115 @@
+-- =============================================================================
+-- BeemSpec Email Digests
+-- A daily or weekly email summarizing new stories, status changes and comments
+-- in the story maps a user touched. The digest job runs with the service role:
+-- the functions here are not callable by clients.
+-- =============================================================================
+
+ALTER TABLE notification_preferences
+  ADD COLUMN digest_frequency TEXT NOT NULL DEFAULT 'weekly' CHECK (digest_frequency IN ('off', 'daily', 'weekly')),
+  -- End of the period the last digest covered; NULL before the first one
+  ADD COLUMN digest_sent_at TIMESTAMPTZ;
+
+-- -----------------------------------------------------------------------------
+-- digest_recipients: users whose next digest is due at p_now
+-- -----------------------------------------------------------------------------
+-- Users without a preferences row get the default weekly digest. A digest is
+-- due a full period after the previous one; the hour of slack keeps a daily
+-- job that runs a little early from skipping a day. The first digest covers
+-- one period back.
+CREATE OR REPLACE FUNCTION digest_recipients(p_now TIMESTAMPTZ)
+RETURNS TABLE (user_id UUID, email TEXT, frequency TEXT, since TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  WITH settings AS (
+    SELECT
+      u.id,
+      u.email::TEXT AS email,
+      COALESCE(np.digest_frequency, 'weekly') AS frequency,
+      np.digest_sent_at,
+      CASE COALESCE(np.digest_frequency, 'weekly') WHEN 'daily' THEN INTERVAL '1 day' ELSE INTERVAL '7 days' END AS period
+    FROM auth.users u
+    LEFT JOIN public.notification_preferences np ON np.user_id = u.id
+    WHERE u.email IS NOT NULL
+    AND EXISTS (SELECT 1 FROM public.team_members tm WHERE tm.user_id = u.id)
+  )
+  SELECT id, email, frequency, COALESCE(digest_sent_at, p_now - period)
+  FROM settings
+  WHERE frequency <> 'off'
+  AND (digest_sent_at IS NULL OR digest_sent_at <= p_now - period + INTERVAL '1 hour');
+$$;
+
+REVOKE EXECUTE ON FUNCTION digest_recipients(TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- digest_activity: what happened in [p_since, p_until) in the maps a user touched
+-- -----------------------------------------------------------------------------
+-- A user touched a map when they reported, are assigned to, edited or commented
+-- on one of its stories, and still belong to its team. The user's own changes
+-- are left out. kind is new_story, status_change or comment; detail holds the
+-- from and to statuses or the comment excerpt.
+CREATE OR REPLACE FUNCTION digest_activity(p_user_id UUID, p_since TIMESTAMPTZ, p_until TIMESTAMPTZ)
+RETURNS TABLE (
+  kind TEXT,
+  story_map_id UUID,
+  story_map_name TEXT,
+  story_id UUID,
+  story_title TEXT,
+  actor_email TEXT,
+  detail JSONB,
+  occurred_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  WITH scope AS (
+    SELECT s.id, s.title, sm.id AS map_id, sm.name AS map_name, s.reporter_id, s.assignee_id
+    FROM public.stories s
+    JOIN public.tasks t ON t.id = s.task_id
+    JOIN public.activities a ON a.id = t.activity_id
+    JOIN public.story_maps sm ON sm.id = a.story_map_id
+    JOIN public.team_members tm ON tm.team_id = sm.team_id AND tm.user_id = p_user_id
+    WHERE s.deleted_at IS NULL AND NOT sm.is_template
+  ),
+  touched AS (
+    SELECT DISTINCT map_id FROM scope
+    WHERE reporter_id = p_user_id
+    OR assignee_id = p_user_id
+    OR EXISTS (SELECT 1 FROM public.story_revisions r WHERE r.story_id = scope.id AND r.changed_by = p_user_id)
+    OR EXISTS (SELECT 1 FROM public.story_comments c WHERE c.story_id = scope.id AND c.author_id = p_user_id)
+  ),
+  stories AS (
+    SELECT * FROM scope WHERE map_id IN (SELECT map_id FROM touched)
+  )
+  SELECT
+    CASE r.operation WHEN 'INSERT' THEN 'new_story' ELSE 'status_change' END,
+    st.map_id, st.map_name, st.id, st.title, r.changed_by_email,
+    CASE r.operation
+      WHEN 'INSERT' THEN '{}'::JSONB
+      ELSE jsonb_build_object('from', r.changes -> 'status' ->> 'old', 'to', r.changes -> 'status' ->> 'new')
+    END,
+    r.changed_at
+  FROM public.story_revisions r
+  JOIN stories st ON st.id = r.story_id
+  WHERE r.changed_at >= p_since AND r.changed_at < p_until
+  AND r.changed_by IS DISTINCT FROM p_user_id
+  AND (r.operation = 'INSERT' OR r.changes ? 'status')
+
+  UNION ALL
+
+  SELECT
+    'comment', st.map_id, st.map_name, st.id, st.title, c.author_email,
+    jsonb_build_object('excerpt', left(c.body, 200)),
+    c.created_at
+  FROM public.story_comments c
+  JOIN stories st ON st.id = c.story_id
+  WHERE c.created_at >= p_since AND c.created_at < p_until
+  AND c.author_id IS DISTINCT FROM p_user_id
+
+  ORDER BY 8;
+$$;
+
+REVOKE EXECUTE ON FUNCTION digest_activity(UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,289 @@
+-- =============================================================================
+-- BeemSpec Outgoing Webhooks
+-- Team owners register endpoints that receive signed JSON payloads when story
+-- map events happen. Triggers queue one delivery per subscribed endpoint; the
+-- webhook job (/api/cron/webhooks) sends them with retries and keeps the log.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Webhooks: an endpoint and the events it subscribes to
+-- secret signs every payload (X-BeemSpec-Signature) and is shown to owners only.
+-- -----------------------------------------------------------------------------
+CREATE TABLE webhooks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  url TEXT NOT NULL CHECK (url ~ '^https?://'),
+  description TEXT,
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY[
+      'story.created', 'story.status_changed', 'story.assigned', 'story.deleted',
+      'release.created', 'release.deleted', 'comment.created', 'story_map.created'
+    ]
+  ),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  secret TEXT NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhooks_team ON webhooks(team_id);
+
+CREATE OR REPLACE FUNCTION update_webhooks_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER webhooks_updated_at
+  BEFORE UPDATE ON webhooks
+  FOR EACH ROW EXECUTE FUNCTION update_webhooks_updated_at();
+
+-- -----------------------------------------------------------------------------
+-- Webhook deliveries: the queue and the delivery log
+-- pending deliveries are sent once next_attempt_at has passed; a failed attempt
+-- pushes next_attempt_at back exponentially until the attempts run out.
+-- -----------------------------------------------------------------------------
+CREATE TABLE webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_attempt_at TIMESTAMPTZ,
+  response_status INTEGER,
+  -- Start of the response body, or why no response came back
+  response_body TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+-- =============================================================================
+-- RLS: owners only, like integrations (the secret signs payloads)
+-- Deliveries are written by triggers and the webhook job, never by clients.
+-- =============================================================================
+
+ALTER TABLE webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team owners can view webhooks"
+  ON webhooks FOR SELECT
+  USING (is_team_owner(team_id));
+
+CREATE POLICY "Team owners can create webhooks"
+  ON webhooks FOR INSERT
+  TO authenticated
+  WITH CHECK (is_team_owner(team_id));
+
+CREATE POLICY "Team owners can update webhooks"
+  ON webhooks FOR UPDATE
+  USING (is_team_owner(team_id))
+  WITH CHECK (is_team_owner(team_id));
+
+CREATE POLICY "Team owners can delete webhooks"
+  ON webhooks FOR DELETE
+  USING (is_team_owner(team_id));
+
+CREATE POLICY "Team owners can view webhook deliveries"
+  ON webhook_deliveries FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM webhooks w
+    WHERE w.id = webhook_id
+    AND is_team_owner(w.team_id)
+  ));
+
+-- -----------------------------------------------------------------------------
+-- enqueue_webhook_event: queue an event for the team's subscribed endpoints
+-- -----------------------------------------------------------------------------
+-- The payload is what endpoints receive, apart from the delivery id the job
+-- adds. The actor comes from the caller's JWT and is NULL for changes without
+-- a user session, e.g. provider webhooks. Called by triggers only.
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(p_team_id UUID, p_event TEXT, p_data JSONB)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER SET search_path = ''
+AS $$
+  INSERT INTO public.webhook_deliveries (webhook_id, event, payload)
+  SELECT w.id, p_event, jsonb_build_object(
+    'event', p_event,
+    'created_at', NOW(),
+    'team_id', p_team_id,
+    'actor', CASE WHEN auth.uid() IS NULL THEN NULL
+      ELSE jsonb_build_object('id', auth.uid(), 'email', auth.jwt() ->> 'email') END,
+    'data', p_data
+  )
+  FROM public.webhooks w
+  WHERE w.team_id = p_team_id AND w.enabled AND p_event = ANY(w.events);
+$$;
+
+REVOKE EXECUTE ON FUNCTION enqueue_webhook_event(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- claim_webhook_deliveries: hand due deliveries to one run of the webhook job
+-- -----------------------------------------------------------------------------
+-- Claimed deliveries are leased for p_lease so overlapping runs don't send
+-- them twice; the job records the outcome, and a run that dies before that
+-- leaves them to be retried once the lease expires.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(p_limit INTEGER, p_lease INTERVAL DEFAULT INTERVAL '5 minutes')
+RETURNS TABLE (
+  id UUID,
+  event TEXT,
+  payload JSONB,
+  attempts INTEGER,
+  url TEXT,
+  secret TEXT
+)
+LANGUAGE sql
+SECURITY DEFINER SET search_path = ''
+AS $$
+  WITH due AS (
+    SELECT d.id
+    FROM public.webhook_deliveries d
+    JOIN public.webhooks w ON w.id = d.webhook_id
+    WHERE d.status = 'pending' AND d.next_attempt_at <= NOW() AND w.enabled
+    ORDER BY d.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE OF d SKIP LOCKED
+  )
+  UPDATE public.webhook_deliveries d
+  SET next_attempt_at = NOW() + p_lease
+  FROM due, public.webhooks w
+  WHERE d.id = due.id AND w.id = d.webhook_id
+  RETURNING d.id, d.event, d.payload, d.attempts, w.url, w.secret;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- -----------------------------------------------------------------------------
+-- Event triggers
+-- -----------------------------------------------------------------------------
+
+-- Story payloads leave out the search vector
+CREATE OR REPLACE FUNCTION webhook_story_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_team_id UUID;
+  v_story_map_id UUID;
+  v_data JSONB;
+BEGIN
+  SELECT sm.team_id, sm.id INTO v_team_id, v_story_map_id
+  FROM public.tasks t
+  JOIN public.activities a ON a.id = t.activity_id
+  JOIN public.story_maps sm ON sm.id = a.story_map_id
+  WHERE t.id = NEW.task_id;
+
+  v_data := jsonb_build_object('story_map_id', v_story_map_id, 'story', to_jsonb(NEW) - 'search_vector');
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.enqueue_webhook_event(v_team_id, 'story.created', v_data);
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    PERFORM public.enqueue_webhook_event(v_team_id, 'story.deleted', v_data);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NULL AND OLD.status IS DISTINCT FROM NEW.status THEN
+    PERFORM public.enqueue_webhook_event(
+      v_team_id, 'story.status_changed', v_data || jsonb_build_object('from', OLD.status, 'to', NEW.status)
+    );
+  END IF;
+
+  IF NEW.deleted_at IS NULL AND OLD.assignee_id IS DISTINCT FROM NEW.assignee_id THEN
+    PERFORM public.enqueue_webhook_event(
+      v_team_id, 'story.assigned', v_data || jsonb_build_object('previous_assignee_id', OLD.assignee_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stories_webhook_event
+  AFTER INSERT OR UPDATE OF status, assignee_id, deleted_at ON stories
+  FOR EACH ROW EXECUTE FUNCTION webhook_story_event();
+
+CREATE OR REPLACE FUNCTION webhook_release_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_team_id UUID;
+BEGIN
+  SELECT team_id INTO v_team_id FROM public.story_maps WHERE id = NEW.story_map_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.enqueue_webhook_event(v_team_id, 'release.created', jsonb_build_object('release', to_jsonb(NEW)));
+  ELSIF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    PERFORM public.enqueue_webhook_event(v_team_id, 'release.deleted', jsonb_build_object('release', to_jsonb(NEW)));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER releases_webhook_event
+  AFTER INSERT OR UPDATE OF deleted_at ON releases
+  FOR EACH ROW EXECUTE FUNCTION webhook_release_event();
+
+CREATE OR REPLACE FUNCTION webhook_comment_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_team_id UUID;
+  v_story_map_id UUID;
+BEGIN
+  SELECT sm.team_id, sm.id INTO v_team_id, v_story_map_id
+  FROM public.stories s
+  JOIN public.tasks t ON t.id = s.task_id
+  JOIN public.activities a ON a.id = t.activity_id
+  JOIN public.story_maps sm ON sm.id = a.story_map_id
+  WHERE s.id = NEW.story_id;
+
+  PERFORM public.enqueue_webhook_event(
+    v_team_id, 'comment.created', jsonb_build_object('story_map_id', v_story_map_id, 'comment', to_jsonb(NEW))
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER story_comments_webhook_event
+  AFTER INSERT ON story_comments
+  FOR EACH ROW EXECUTE FUNCTION webhook_comment_event();
+
+CREATE OR REPLACE FUNCTION webhook_story_map_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  PERFORM public.enqueue_webhook_event(NEW.team_id, 'story_map.created', jsonb_build_object('story_map', to_jsonb(NEW)));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER story_maps_webhook_event
+  AFTER INSERT ON story_maps
+  FOR EACH ROW EXECUTE FUNCTION webhook_story_map_event();
+
+-- -----------------------------------------------------------------------------
+-- Delivery log retention
+-- -----------------------------------------------------------------------------
+SELECT cron.schedule(
+  'purge-webhook-deliveries',
+  '30 3 * * *',
+  $$DELETE FROM public.webhook_deliveries WHERE status <> 'pending' AND created_at < NOW() - INTERVAL '30 days'$$
+);
@@ -0,0 +1,75 @@
+-- =============================================================================
+-- BeemSpec Audit Log: Trash
+-- Moving an activity, task, story or release to the trash (012_soft_delete.sql)
+-- is an update of deleted_at, so the audit log recorded deletes and restores
+-- as updates. They are now logged as 'delete' and 'restore'.
+-- =============================================================================
+
+ALTER TABLE audit_log DROP CONSTRAINT audit_log_action_check;
+ALTER TABLE audit_log
+  ADD CONSTRAINT audit_log_action_check
+  CHECK (action IN ('create', 'update', 'delete', 'restore'));
+
+-- Entries logged before this migration
+UPDATE audit_log SET action = 'delete'
+WHERE action = 'update' AND before ->> 'deleted_at' IS NULL AND after ->> 'deleted_at' IS NOT NULL;
+UPDATE audit_log SET action = 'restore'
+WHERE action = 'update' AND before ->> 'deleted_at' IS NOT NULL AND after ->> 'deleted_at' IS NULL;
+
+-- -----------------------------------------------------------------------------
+-- record_audit_entry: AFTER INSERT OR UPDATE OR DELETE trigger
+-- -----------------------------------------------------------------------------
+-- SECURITY DEFINER so the insert bypasses RLS - there are no write policies.
+-- Updates that only renumber sort_order (or touch updated_at) are not logged:
+-- every drag renumbers a whole cell. Setting deleted_at is logged as a delete
+-- and clearing it as a restore; purging a trashed row logs a second delete.
+CREATE OR REPLACE FUNCTION record_audit_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_before JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_after JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(v_after, v_before);
+  v_team_id UUID;
+  v_label TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND (v_before - 'sort_order' - 'updated_at') = (v_after - 'sort_order' - 'updated_at') THEN
+    RETURN NULL;
+  END IF;
+
+  v_team_id := public.audit_team_id(TG_TABLE_NAME, v_row);
+  IF v_team_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_label := COALESCE(v_row ->> 'name', v_row ->> 'title', v_row ->> 'email');
+  IF v_label IS NULL AND TG_TABLE_NAME = 'team_members' THEN
+    SELECT email INTO v_label FROM auth.users WHERE id = (v_row ->> 'user_id')::UUID;
+  END IF;
+
+  INSERT INTO public.audit_log (
+    team_id, actor_id, actor_email, action, entity_type, entity_id, entity_label, before, after
+  )
+  VALUES (
+    v_team_id,
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    CASE
+      WHEN TG_OP = 'INSERT' THEN 'create'
+      WHEN TG_OP = 'DELETE' THEN 'delete'
+      WHEN v_before ->> 'deleted_at' IS NULL AND v_after ->> 'deleted_at' IS NOT NULL THEN 'delete'
+      WHEN v_before ->> 'deleted_at' IS NOT NULL AND v_after ->> 'deleted_at' IS NULL THEN 'restore'
+      ELSE 'update'
+    END,
+    TG_ARGV[0],
+    (v_row ->> 'id')::UUID,
+    v_label,
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,114 @@
+-- =============================================================================
+-- BeemSpec Story Map Duplication: Assignees and Reporters
+-- duplicate_story_map from 014_story_map_templates.sql predates story
+-- assignees (016_story_assignees.sql) and left every copied story unassigned
+-- and reported by the caller. Copies within a team now keep both.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- duplicate_story_map: Deep-copy a story map, returns the new map's id
+-- -----------------------------------------------------------------------------
+-- Copies personas, releases, the activity → task → story tree and all persona
+-- links with fresh ids, keeping sort orders. Rows in the trash are left out;
+-- sync targets, external links and history belong to the source and are not
+-- copied. NULL p_name and p_description keep the source's (name + " (copy)").
+-- Within the source's team, stories keep their assignee and reporter. Copied
+-- into another team they are unassigned - the assignee may not be a member -
+-- and reported by the caller, who created them there.
+CREATE OR REPLACE FUNCTION duplicate_story_map(
+  p_story_map_id UUID,
+  p_team_id UUID,
+  p_name TEXT DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_is_template BOOLEAN DEFAULT false
+)
+RETURNS UUID AS $$
+DECLARE
+  v_map_id UUID;
+  v_source story_maps%ROWTYPE;
+  -- old id → new id, per table
+  v_personas JSONB;
+  v_releases JSONB;
+  v_activities JSONB;
+  v_tasks JSONB;
+  v_stories JSONB;
+  v_same_team BOOLEAN;
+BEGIN
+  SELECT * INTO v_source FROM story_maps WHERE id = p_story_map_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Story map not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  v_same_team := p_team_id = v_source.team_id;
+
+  INSERT INTO story_maps (team_id, name, description, is_template)
+  VALUES (
+    p_team_id,
+    COALESCE(p_name, v_source.name || ' (copy)'),
+    COALESCE(p_description, v_source.description),
+    p_is_template
+  )
+  RETURNING id INTO v_map_id;
+
+  SELECT COALESCE(jsonb_object_agg(id, gen_random_uuid()), '{}') INTO v_personas
+  FROM personas WHERE story_map_id = p_story_map_id;
+
+  SELECT COALESCE(jsonb_object_agg(id, gen_random_uuid()), '{}') INTO v_releases
+  FROM releases WHERE story_map_id = p_story_map_id AND deleted_at IS NULL;
+
+  SELECT COALESCE(jsonb_object_agg(id, gen_random_uuid()), '{}') INTO v_activities
+  FROM activities WHERE story_map_id = p_story_map_id AND deleted_at IS NULL;
+
+  SELECT COALESCE(jsonb_object_agg(t.id, gen_random_uuid()), '{}') INTO v_tasks
+  FROM tasks t
+  WHERE v_activities ? t.activity_id::TEXT AND t.deleted_at IS NULL;
+
+  SELECT COALESCE(jsonb_object_agg(s.id, gen_random_uuid()), '{}') INTO v_stories
+  FROM stories s
+  WHERE v_tasks ? s.task_id::TEXT AND s.deleted_at IS NULL;
+
+  INSERT INTO personas (id, story_map_id, name, description, goals, sort_order)
+  SELECT (v_personas ->> id::TEXT)::UUID, v_map_id, name, description, goals, sort_order
+  FROM personas WHERE v_personas ? id::TEXT;
+
+  INSERT INTO releases (id, story_map_id, name, description, sort_order)
+  SELECT (v_releases ->> id::TEXT)::UUID, v_map_id, name, description, sort_order
+  FROM releases WHERE v_releases ? id::TEXT;
+
+  INSERT INTO activities (id, story_map_id, name, description, sort_order)
+  SELECT (v_activities ->> id::TEXT)::UUID, v_map_id, name, description, sort_order
+  FROM activities WHERE v_activities ? id::TEXT;
+
+  INSERT INTO tasks (id, activity_id, name, description, sort_order)
+  SELECT (v_tasks ->> id::TEXT)::UUID, (v_activities ->> activity_id::TEXT)::UUID, name, description, sort_order
+  FROM tasks WHERE v_tasks ? id::TEXT;
+
+  INSERT INTO stories (
+    id, task_id, release_id, title, requirements, acceptance_criteria,
+    figma_link, edge_cases, technical_guidelines, status, sort_order,
+    assignee_id, reporter_id
+  )
+  SELECT
+    (v_stories ->> id::TEXT)::UUID,
+    (v_tasks ->> task_id::TEXT)::UUID,
+    (v_releases ->> release_id::TEXT)::UUID,
+    title, requirements, acceptance_criteria,
+    figma_link, edge_cases, technical_guidelines, status, sort_order,
+    CASE WHEN v_same_team THEN assignee_id END,
+    CASE WHEN v_same_team THEN reporter_id ELSE auth.uid() END
+  FROM stories WHERE v_stories ? id::TEXT;
+
+  INSERT INTO activity_personas (activity_id, persona_id)
+  SELECT (v_activities ->> activity_id::TEXT)::UUID, (v_personas ->> persona_id::TEXT)::UUID
+  FROM activity_personas WHERE v_activities ? activity_id::TEXT;
+
+  INSERT INTO task_personas (task_id, persona_id)
+  SELECT (v_tasks ->> task_id::TEXT)::UUID, (v_personas ->> persona_id::TEXT)::UUID
+  FROM task_personas WHERE v_tasks ? task_id::TEXT;
+
+  INSERT INTO story_personas (story_id, persona_id)
+  SELECT (v_stories ->> story_id::TEXT)::UUID, (v_personas ->> persona_id::TEXT)::UUID
+  FROM story_personas WHERE v_stories ? story_id::TEXT;
+
+  RETURN v_map_id;
+END;
+$$ LANGUAGE plpgsql;
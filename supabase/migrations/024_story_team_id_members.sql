@@ -0,0 +1,27 @@
+-- =============================================================================
+-- BeemSpec Story Team Lookup
+-- story_team_id from 017_story_comments.sql is SECURITY DEFINER and callable
+-- by any signed-in user through the API, so it told non-members which team
+-- owns any story id. Policies call it as the querying user, so execution can't
+-- be revoked; it now resolves the team for members of that team only.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- story_team_id: the team that owns a story's map, NULL for non-members
+-- -----------------------------------------------------------------------------
+-- SECURITY DEFINER so policies can resolve the team without the joins being
+-- filtered by the caller's own RLS. NULL fails every is_team_member check.
+CREATE OR REPLACE FUNCTION story_team_id(p_story_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT sm.team_id
+  FROM public.stories s
+  JOIN public.tasks t ON t.id = s.task_id
+  JOIN public.activities a ON a.id = t.activity_id
+  JOIN public.story_maps sm ON sm.id = a.story_map_id
+  JOIN public.team_members tm ON tm.team_id = sm.team_id AND tm.user_id = auth.uid()
+  WHERE s.id = p_story_id;
+$$;
@@ -0,0 +1,85 @@
+-- =============================================================================
+-- BeemSpec Audit Log: Cascaded Deletes
+-- A cascaded delete reaches the audit trigger of a child row after its parent
+-- is gone, so audit_team_id found no team for the tasks and stories of a
+-- deleted activity or task (or the children of a deleted story map) and those
+-- deletes went unlogged. Parents now remember their team for the rest of the
+-- transaction before they are deleted, and children fall back to it.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- audit_team_id: Team a row of an audited table belongs to
+-- -----------------------------------------------------------------------------
+-- When the parent row was deleted earlier in the transaction, the team it
+-- remembered in remember_audit_team is used.
+CREATE OR REPLACE FUNCTION audit_team_id(p_table TEXT, p_row JSONB)
+RETURNS UUID
+LANGUAGE plpgsql STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_parent_id UUID;
+  v_team_id UUID;
+BEGIN
+  CASE p_table
+    WHEN 'story_maps', 'team_members', 'team_invites' THEN
+      RETURN (p_row ->> 'team_id')::UUID;
+    WHEN 'activities', 'releases', 'personas' THEN
+      v_parent_id := (p_row ->> 'story_map_id')::UUID;
+      SELECT team_id INTO v_team_id FROM public.story_maps WHERE id = v_parent_id;
+    WHEN 'tasks' THEN
+      v_parent_id := (p_row ->> 'activity_id')::UUID;
+      SELECT sm.team_id INTO v_team_id
+      FROM public.activities a
+      JOIN public.story_maps sm ON sm.id = a.story_map_id
+      WHERE a.id = v_parent_id;
+    WHEN 'stories' THEN
+      v_parent_id := (p_row ->> 'task_id')::UUID;
+      SELECT sm.team_id INTO v_team_id
+      FROM public.tasks t
+      JOIN public.activities a ON a.id = t.activity_id
+      JOIN public.story_maps sm ON sm.id = a.story_map_id
+      WHERE t.id = v_parent_id;
+    ELSE
+      RETURN NULL;
+  END CASE;
+
+  RETURN COALESCE(
+    v_team_id,
+    NULLIF(current_setting('beemspec.audit_team_' || replace(v_parent_id::TEXT, '-', ''), true), '')::UUID
+  );
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- remember_audit_team: BEFORE DELETE trigger on story maps, activities, tasks
+-- -----------------------------------------------------------------------------
+-- Stores the row's team in a transaction-local setting keyed by its id, where
+-- audit_team_id finds it for the children the delete cascades to. Runs for
+-- cascaded deletes too, so a task remembers the team of its deleted activity.
+CREATE OR REPLACE FUNCTION remember_audit_team()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  v_team_id UUID := public.audit_team_id(TG_TABLE_NAME, to_jsonb(OLD));
+BEGIN
+  IF v_team_id IS NOT NULL THEN
+    PERFORM set_config('beemspec.audit_team_' || replace(OLD.id::TEXT, '-', ''), v_team_id::TEXT, true);
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER trg_audit_remember_team_story_maps
+  BEFORE DELETE ON story_maps
+  FOR EACH ROW EXECUTE FUNCTION remember_audit_team();
+
+CREATE TRIGGER trg_audit_remember_team_activities
+  BEFORE DELETE ON activities
+  FOR EACH ROW EXECUTE FUNCTION remember_audit_team();
+
+CREATE TRIGGER trg_audit_remember_team_tasks
+  BEFORE DELETE ON tasks
+  FOR EACH ROW EXECUTE FUNCTION remember_audit_team();
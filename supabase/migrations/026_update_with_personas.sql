@@ -0,0 +1,74 @@
+-- =============================================================================
+-- BeemSpec Updates With Persona Links
+-- Saving an activity, task or story used to update the row and then replace
+-- its persona links in a second request, so a failed link left the update
+-- committed without them. Both now happen in one transaction.
+-- SECURITY INVOKER (default): RLS decides which rows the caller can change.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- update_with_personas: Update a live activity, task or story and replace its
+-- personas; returns the updated row
+-- -----------------------------------------------------------------------------
+-- p_entity_type is 'activity', 'task' or 'story'. Only the columns in p_changes
+-- are set, so UPDATE OF triggers fire as they do for a plain update; with no
+-- changes the row is only locked. NULL p_persona_ids leaves the links alone.
+-- With p_version, the story must still have that updated_at. A missing, trashed
+-- or changed row raises no_data_found (P0002).
+CREATE OR REPLACE FUNCTION update_with_personas(
+  p_entity_type TEXT,
+  p_id UUID,
+  p_changes JSONB,
+  p_persona_ids UUID[] DEFAULT NULL,
+  p_version TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_table TEXT;
+  v_sets TEXT;
+  v_where TEXT := 't.id = $1 AND t.deleted_at IS NULL';
+  v_row JSONB;
+BEGIN
+  v_table := CASE p_entity_type
+    WHEN 'activity' THEN 'activities'
+    WHEN 'task' THEN 'tasks'
+    WHEN 'story' THEN 'stories'
+  END;
+  IF v_table IS NULL THEN
+    RAISE EXCEPTION 'Unknown entity type: %', p_entity_type USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  -- Only stories are versioned - activities and tasks have no updated_at
+  IF p_version IS NOT NULL THEN
+    v_where := v_where || ' AND t.updated_at = $2';
+  END IF;
+
+  SELECT string_agg(format('%I = r.%I', key, key), ', ') INTO v_sets
+  FROM jsonb_object_keys(p_changes) AS key;
+
+  IF v_sets IS NULL THEN
+    EXECUTE format(
+      'SELECT to_jsonb(t) FROM public.%I t WHERE %s FOR UPDATE',
+      v_table, v_where
+    ) INTO v_row USING p_id, p_version;
+  ELSE
+    EXECUTE format(
+      'UPDATE public.%1$I t SET %2$s
+       FROM jsonb_populate_record(NULL::public.%1$I, $3) r
+       WHERE %3$s
+       RETURNING to_jsonb(t)',
+      v_table, v_sets, v_where
+    ) INTO v_row USING p_id, p_version, p_changes;
+  END IF;
+
+  IF v_row IS NULL THEN
+    RAISE EXCEPTION '% not found', initcap(p_entity_type) USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_persona_ids IS NOT NULL THEN
+    EXECUTE format('SELECT public.%I($1, $2)', 'set_' || p_entity_type || '_personas') USING p_id, p_persona_ids;
+  END IF;
+
+  RETURN v_row;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,27 @@
+-- =============================================================================
+-- BeemSpec Comment Author Email
+-- author_email was only a column default, so a member could insert a comment
+-- (or edit their own) under someone else's email, which mention notifications
+-- and digests then showed as the author. It now always comes from the JWT.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- set_comment_author_email: BEFORE INSERT OR UPDATE trigger on story_comments
+-- -----------------------------------------------------------------------------
+-- Inserts take the caller's email whatever the row says; updates keep the
+-- email the comment was written with.
+CREATE OR REPLACE FUNCTION set_comment_author_email()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.author_email := auth.jwt() ->> 'email';
+  ELSE
+    NEW.author_email := OLD.author_email;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER story_comments_set_author_email
+  BEFORE INSERT OR UPDATE OF author_email ON story_comments
+  FOR EACH ROW EXECUTE FUNCTION set_comment_author_email();
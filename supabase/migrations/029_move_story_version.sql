@@ -0,0 +1,95 @@
+-- =============================================================================
+-- BeemSpec Story Moves Return the Version
+-- move_story bumps the story's updated_at, but returned nothing, so the client
+-- kept the old version after a move and its next edit of the story was
+-- rejected as a conflict with its own move. It now returns the new updated_at.
+-- The return type changes, so the function is dropped and created again.
+-- =============================================================================
+
+DROP FUNCTION move_story(UUID, UUID, UUID, INTEGER);
+
+-- -----------------------------------------------------------------------------
+-- move_story: Move a story to position p_index of a task + release cell;
+-- returns the story's new updated_at
+-- -----------------------------------------------------------------------------
+-- p_index is 0-based and clamped to the cell size. The target task and release
+-- must be live and belong to the story's map; trashed stories in either cell
+-- keep their sort_order and are not counted. Uses IS NOT DISTINCT FROM for
+-- NULL release_id.
+CREATE FUNCTION move_story(
+  p_story_id UUID,
+  p_task_id UUID,
+  p_release_id UUID,
+  p_index INTEGER
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_story_map_id UUID;
+  v_task_id UUID;
+  v_release_id UUID;
+  v_order UUID[];
+  v_index INTEGER;
+  v_updated_at TIMESTAMPTZ;
+BEGIN
+  SELECT s.task_id, s.release_id, a.story_map_id
+  INTO v_task_id, v_release_id, v_story_map_id
+  FROM stories s
+  JOIN tasks t ON t.id = s.task_id
+  JOIN activities a ON a.id = t.activity_id
+  WHERE s.id = p_story_id AND s.deleted_at IS NULL
+  FOR UPDATE OF s;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Story not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM tasks t
+    JOIN activities a ON a.id = t.activity_id
+    WHERE t.id = p_task_id AND a.story_map_id = v_story_map_id AND t.deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Task not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_release_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM releases
+    WHERE id = p_release_id AND story_map_id = v_story_map_id AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Release not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  UPDATE stories
+  SET task_id = p_task_id, release_id = p_release_id, updated_at = NOW()
+  WHERE id = p_story_id
+  RETURNING updated_at INTO v_updated_at;
+
+  -- Close the gap in the source cell
+  SELECT COALESCE(array_agg(id ORDER BY sort_order, created_at), '{}') INTO v_order
+  FROM stories
+  WHERE task_id = v_task_id
+    AND release_id IS NOT DISTINCT FROM v_release_id
+    AND id <> p_story_id
+    AND deleted_at IS NULL;
+
+  UPDATE stories
+  SET sort_order = array_position(v_order, id) - 1
+  WHERE id = ANY(v_order);
+
+  -- Insert into the destination cell (the same cell when only reordering)
+  SELECT COALESCE(array_agg(id ORDER BY sort_order, created_at), '{}') INTO v_order
+  FROM stories
+  WHERE task_id = p_task_id
+    AND release_id IS NOT DISTINCT FROM p_release_id
+    AND id <> p_story_id
+    AND deleted_at IS NULL;
+
+  v_index := LEAST(GREATEST(p_index, 0), cardinality(v_order));
+  v_order := v_order[1:v_index] || p_story_id || v_order[v_index + 1:];
+
+  UPDATE stories
+  SET sort_order = array_position(v_order, id) - 1
+  WHERE id = ANY(v_order);
+
+  RETURN v_updated_at;
+END;
+$$ LANGUAGE plpgsql;